@@ -0,0 +1,16 @@
+-- Reverts 0001_baseline: drops the whole GomGom schema
+-- WARNING: This deletes all data!
+
+DROP VIEW IF EXISTS brand_analytics;
+DROP VIEW IF EXISTS user_activity_summary;
+DROP VIEW IF EXISTS nft_complete_info;
+
+DROP TABLE IF EXISTS user_perk_claims CASCADE;
+DROP TABLE IF EXISTS user_actions CASCADE;
+DROP TABLE IF EXISTS perks CASCADE;
+DROP TABLE IF EXISTS nft_attributes CASCADE;
+DROP TABLE IF EXISTS loyalty_nfts CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS brand_partners CASCADE;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
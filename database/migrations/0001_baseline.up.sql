@@ -5,15 +5,6 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
--- Drop tables if they exist (for re-running the script)
-DROP TABLE IF EXISTS user_perk_claims CASCADE;
-DROP TABLE IF EXISTS user_actions CASCADE;
-DROP TABLE IF EXISTS perks CASCADE;
-DROP TABLE IF EXISTS nft_attributes CASCADE;
-DROP TABLE IF EXISTS loyalty_nfts CASCADE;
-DROP TABLE IF EXISTS users CASCADE;
-DROP TABLE IF EXISTS brand_partners CASCADE;
-
 -- =============================================================================
 -- USERS TABLE
 -- =============================================================================
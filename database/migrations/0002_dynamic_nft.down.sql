@@ -0,0 +1,22 @@
+-- Reverts 0002_dynamic_nft: removes level calculation and the metadata function
+
+DROP VIEW IF EXISTS nft_metadata_view;
+DROP FUNCTION IF EXISTS get_nft_metadata(INT);
+
+DROP TRIGGER IF EXISTS update_loyalty_level_trigger ON nft_attributes;
+DROP FUNCTION IF EXISTS trigger_update_loyalty_level();
+DROP FUNCTION IF EXISTS calculate_and_update_loyalty_level(INT);
+
+DROP INDEX IF EXISTS idx_loyalty_nfts_token_uri;
+
+-- Restore the original 1-10 level range
+UPDATE nft_attributes SET loyalty_level = 1 WHERE loyalty_level = 0;
+
+ALTER TABLE nft_attributes
+DROP CONSTRAINT IF EXISTS valid_loyalty_level;
+
+ALTER TABLE nft_attributes
+ADD CONSTRAINT valid_loyalty_level CHECK (loyalty_level >= 1 AND loyalty_level <= 10);
+
+ALTER TABLE nft_attributes
+ALTER COLUMN loyalty_level SET DEFAULT 1;
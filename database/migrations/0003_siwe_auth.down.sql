@@ -0,0 +1,4 @@
+-- Reverts 0003_siwe_auth: signs out every wallet
+
+DROP TABLE IF EXISTS auth_sessions;
+DROP TABLE IF EXISTS auth_nonces;
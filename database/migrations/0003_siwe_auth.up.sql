@@ -0,0 +1,43 @@
+-- Migration script for Sign-In-With-Ethereum (EIP-4361) authentication
+-- Adds nonce tracking and refresh-token sessions used by /api/auth
+
+-- =============================================================================
+-- AUTH_NONCES TABLE
+-- =============================================================================
+-- One-time nonces embedded in SIWE messages; consumed on successful verify
+CREATE TABLE IF NOT EXISTS auth_nonces (
+    nonce VARCHAR(64) PRIMARY KEY NOT NULL,
+    wallet_address VARCHAR(42),
+    issued_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+-- =============================================================================
+-- AUTH_SESSIONS TABLE
+-- =============================================================================
+-- Refresh-token sessions; only a SHA-256 hash of the current refresh token is stored
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    session_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address VARCHAR(42) NOT NULL,
+    refresh_token_hash VARCHAR(64) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_refreshed_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_session_wallet_address CHECK (
+        wallet_address ~ '^0x[a-f0-9]{40}$'
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires_at ON auth_sessions(expires_at);
+
+COMMENT ON TABLE auth_nonces IS 'One-time nonces issued for Sign-In-With-Ethereum messages';
+COMMENT ON TABLE auth_sessions IS 'Refresh-token sessions created after a verified SIWE sign-in';
+
+-- Migration completed successfully
+SELECT 'SIWE Auth Migration Completed Successfully!' as result;
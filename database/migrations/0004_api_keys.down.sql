@@ -0,0 +1,4 @@
+-- Reverts 0004_api_keys: every API key and wallet role grant is lost
+
+DROP TABLE IF EXISTS wallet_roles;
+DROP TABLE IF EXISTS api_keys;
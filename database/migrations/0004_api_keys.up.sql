@@ -0,0 +1,46 @@
+-- Migration script for role-based access control
+-- Adds API keys for brand partners/operators and role grants for SIWE wallets
+
+-- =============================================================================
+-- API_KEYS TABLE
+-- =============================================================================
+-- Keys are shown once at creation; only the prefix and a SHA-256 hash are stored
+CREATE TABLE IF NOT EXISTS api_keys (
+    key_id SERIAL PRIMARY KEY,
+    key_prefix VARCHAR(16) NOT NULL UNIQUE,
+    key_hash VARCHAR(64) NOT NULL,
+    label VARCHAR(255),
+    role VARCHAR(50) NOT NULL,
+    brand_id INT REFERENCES brand_partners(brand_id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_api_key_role CHECK (role IN ('admin', 'brand_partner', 'analyst')),
+    -- Brand partner keys are scoped to exactly one brand; other roles are global
+    CONSTRAINT api_key_brand_scope CHECK ((role = 'brand_partner') = (brand_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_role ON api_keys(role);
+CREATE INDEX IF NOT EXISTS idx_api_keys_brand ON api_keys(brand_id);
+
+-- =============================================================================
+-- WALLET_ROLES TABLE
+-- =============================================================================
+-- Elevated roles for wallets that sign in with SIWE (wallets without a row are plain users)
+CREATE TABLE IF NOT EXISTS wallet_roles (
+    wallet_address VARCHAR(42) PRIMARY KEY NOT NULL,
+    role VARCHAR(50) NOT NULL,
+    brand_id INT REFERENCES brand_partners(brand_id) ON DELETE CASCADE,
+    granted_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_wallet_role CHECK (role IN ('admin', 'brand_partner', 'analyst')),
+    CONSTRAINT wallet_role_brand_scope CHECK ((role = 'brand_partner') = (brand_id IS NOT NULL)),
+    CONSTRAINT valid_wallet_role_address CHECK (wallet_address ~ '^0x[a-f0-9]{40}$')
+);
+
+COMMENT ON TABLE api_keys IS 'Hashed API keys for admins, brand partners (scoped to one brand) and read-only analysts';
+COMMENT ON TABLE wallet_roles IS 'Role grants embedded in JWTs issued to SIWE wallets';
+
+-- Migration completed successfully
+SELECT 'API Keys Migration Completed Successfully!' as result;
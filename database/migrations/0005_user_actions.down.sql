@@ -0,0 +1,111 @@
+-- Reverts 0005_user_actions: restores the original column set, action types and triggers
+
+ALTER TABLE user_actions
+DROP CONSTRAINT IF EXISTS valid_points_earned;
+
+ALTER TABLE user_actions
+DROP COLUMN IF EXISTS points_earned;
+
+-- NOT VALID keeps rows recorded with the newer action types
+ALTER TABLE user_actions
+DROP CONSTRAINT IF EXISTS valid_action_type;
+
+ALTER TABLE user_actions
+ADD CONSTRAINT valid_action_type CHECK (
+    action_type IN (
+        'flight_booking', 'hotel_booking', 'resort_visit',
+        'bank_transaction', 'loyalty_redemption', 'referral',
+        'nft_mint', 'nft_stake', 'nft_unstake', 'perk_claim',
+        -- Brand-specific actions
+        'hdbank_deposit', 'hdbank_credit_card_usage', 'hdbank_investment',
+        'hd_saison_loan_application', 'hd_saison_payment',
+        'vietjet_flight_booking', 'vietjet_checkin', 'vietjet_loyalty_signup',
+        'dragon_city_property_inquiry', 'dragon_city_property_purchase', 'dragon_city_consultation',
+        'halong_star_booking', 'halong_star_checkin', 'halong_star_spa_service',
+        -- Cross-brand activities
+        'partner_referral', 'cross_brand_transaction', 'multi_brand_milestone'
+    )
+) NOT VALID;
+
+DROP TRIGGER IF EXISTS update_nft_attributes_last_updated ON nft_attributes;
+CREATE TRIGGER update_nft_attributes_last_updated
+    BEFORE UPDATE ON nft_attributes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP FUNCTION IF EXISTS update_last_updated_column();
+
+CREATE OR REPLACE FUNCTION calculate_and_update_loyalty_level(p_token_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_loyalty_points INT;
+    v_flights_taken INT;
+    v_total_spending DECIMAL;
+    v_bank_tier VARCHAR(50);
+    v_new_level INT := 0;
+BEGIN
+    -- Get current attributes
+    SELECT loyalty_points, flights_taken, total_spending, bank_tier
+    INTO v_loyalty_points, v_flights_taken, v_total_spending, v_bank_tier
+    FROM nft_attributes
+    WHERE nft_token_id = p_token_id;
+    
+    -- If no record found, return 0
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+    
+    -- Calculate loyalty level based on conditions
+    -- Level 7: Royal Crown (Ultimate tier)
+    IF v_loyalty_points >= 50000 AND v_flights_taken >= 75 AND v_total_spending >= 500000000 AND v_bank_tier = 'Diamond' THEN
+        v_new_level := 7;
+    -- Level 6: Elite Wings
+    ELSIF v_loyalty_points >= 35000 AND v_flights_taken >= 50 AND v_total_spending >= 300000000 AND v_bank_tier = 'Diamond' THEN
+        v_new_level := 6;
+    -- Level 5: Platinum Voyager
+    ELSIF v_loyalty_points >= 20000 AND v_flights_taken >= 35 AND v_total_spending >= 150000000 AND v_bank_tier IN ('Platinum', 'Diamond') THEN
+        v_new_level := 5;
+    -- Level 4: Diamond Explorer
+    ELSIF v_loyalty_points >= 10000 AND v_flights_taken >= 20 AND v_total_spending >= 75000000 AND v_bank_tier IN ('Platinum', 'Diamond') THEN
+        v_new_level := 4;
+    -- Level 3: Gold Adventurer
+    ELSIF v_loyalty_points >= 5000 AND v_flights_taken >= 10 AND v_total_spending >= 35000000 AND v_bank_tier IN ('Gold', 'Platinum', 'Diamond') THEN
+        v_new_level := 3;
+    -- Level 2: Silver Navigator
+    ELSIF v_loyalty_points >= 2500 AND v_flights_taken >= 5 AND v_total_spending >= 15000000 AND v_bank_tier IN ('Silver', 'Gold', 'Platinum', 'Diamond') THEN
+        v_new_level := 2;
+    -- Level 1: Bronze Traveler
+    ELSIF v_loyalty_points >= 1000 AND v_flights_taken >= 2 AND v_total_spending >= 5000000 THEN
+        v_new_level := 1;
+    -- Level 0: Explorer (default starting level)
+    ELSE
+        v_new_level := 0;
+    END IF;
+    
+    -- Update the loyalty level
+    UPDATE nft_attributes 
+    SET loyalty_level = v_new_level, 
+        last_updated = NOW()
+    WHERE nft_token_id = p_token_id;
+    
+    RETURN v_new_level;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_update_loyalty_level()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only recalculate if relevant fields have changed
+    IF OLD.loyalty_points != NEW.loyalty_points OR 
+       OLD.flights_taken != NEW.flights_taken OR 
+       OLD.total_spending != NEW.total_spending OR 
+       OLD.bank_tier != NEW.bank_tier THEN
+        
+        NEW.loyalty_level := calculate_and_update_loyalty_level(NEW.nft_token_id);
+        NEW.last_updated := NOW();
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS loyalty_level_for(INT, INT, DECIMAL, VARCHAR);
@@ -0,0 +1,123 @@
+-- Migration script for the user action pipeline
+-- Aligns user_actions and nft_attributes with what DatabaseService.processUserAction writes
+
+-- Points awarded for each action (kept for the action history API)
+ALTER TABLE user_actions
+ADD COLUMN IF NOT EXISTS points_earned INT NOT NULL DEFAULT 0;
+
+ALTER TABLE user_actions
+DROP CONSTRAINT IF EXISTS valid_points_earned;
+
+ALTER TABLE user_actions
+ADD CONSTRAINT valid_points_earned CHECK (points_earned >= 0);
+
+-- Allow the action types accepted by POST /api/actions/simulate (src/config/brands.ts)
+ALTER TABLE user_actions
+DROP CONSTRAINT IF EXISTS valid_action_type;
+
+ALTER TABLE user_actions
+ADD CONSTRAINT valid_action_type CHECK (
+    action_type IN (
+        'flight_booking', 'hotel_booking', 'resort_visit',
+        'bank_transaction', 'loyalty_redemption', 'referral',
+        'nft_mint', 'nft_stake', 'nft_unstake', 'perk_claim',
+        -- Brand-specific actions
+        'hdbank_deposit', 'hdbank_credit_card_usage', 'hdbank_investment',
+        'hd_saison_loan_application', 'hd_saison_payment',
+        'vietjet_flight_booking', 'vietjet_checkin', 'vietjet_loyalty_signup',
+        'dragon_city_property_inquiry', 'dragon_city_property_purchase', 'dragon_city_consultation',
+        'halong_star_booking', 'halong_star_checkin', 'halong_star_spa_service',
+        -- Actions simulated by the API
+        'hdbank_transaction', 'dragon_city_visit', 'hd_saison_purchase', 'ha_long_star_booking',
+        -- Cross-brand activities
+        'partner_referral', 'cross_brand_transaction', 'multi_brand_milestone'
+    )
+);
+
+-- nft_attributes has last_updated, not updated_at, so the shared
+-- update_updated_at_column() trigger made every UPDATE fail
+CREATE OR REPLACE FUNCTION update_last_updated_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.last_updated = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_nft_attributes_last_updated ON nft_attributes;
+CREATE TRIGGER update_nft_attributes_last_updated
+    BEFORE UPDATE ON nft_attributes
+    FOR EACH ROW EXECUTE FUNCTION update_last_updated_column();
+
+-- Level calculation on plain values, so the BEFORE UPDATE trigger can use NEW
+-- instead of re-reading (and re-updating) the row being updated
+CREATE OR REPLACE FUNCTION loyalty_level_for(
+    p_loyalty_points INT,
+    p_flights_taken INT,
+    p_total_spending DECIMAL,
+    p_bank_tier VARCHAR
+)
+RETURNS INT AS $$
+BEGIN
+    -- Level 7: Royal Crown (Ultimate tier)
+    IF p_loyalty_points >= 50000 AND p_flights_taken >= 75 AND p_total_spending >= 500000000 AND p_bank_tier = 'Diamond' THEN
+        RETURN 7;
+    -- Level 6: Elite Wings
+    ELSIF p_loyalty_points >= 35000 AND p_flights_taken >= 50 AND p_total_spending >= 300000000 AND p_bank_tier = 'Diamond' THEN
+        RETURN 6;
+    -- Level 5: Platinum Voyager
+    ELSIF p_loyalty_points >= 20000 AND p_flights_taken >= 35 AND p_total_spending >= 150000000 AND p_bank_tier IN ('Platinum', 'Diamond') THEN
+        RETURN 5;
+    -- Level 4: Diamond Explorer
+    ELSIF p_loyalty_points >= 10000 AND p_flights_taken >= 20 AND p_total_spending >= 75000000 AND p_bank_tier IN ('Platinum', 'Diamond') THEN
+        RETURN 4;
+    -- Level 3: Gold Adventurer
+    ELSIF p_loyalty_points >= 5000 AND p_flights_taken >= 10 AND p_total_spending >= 35000000 AND p_bank_tier IN ('Gold', 'Platinum', 'Diamond') THEN
+        RETURN 3;
+    -- Level 2: Silver Navigator
+    ELSIF p_loyalty_points >= 2500 AND p_flights_taken >= 5 AND p_total_spending >= 15000000 AND p_bank_tier IN ('Silver', 'Gold', 'Platinum', 'Diamond') THEN
+        RETURN 2;
+    -- Level 1: Bronze Traveler
+    ELSIF p_loyalty_points >= 1000 AND p_flights_taken >= 2 AND p_total_spending >= 5000000 THEN
+        RETURN 1;
+    END IF;
+
+    -- Level 0: Explorer (default starting level)
+    RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION calculate_and_update_loyalty_level(p_token_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_new_level INT;
+BEGIN
+    UPDATE nft_attributes
+    SET loyalty_level = loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier)
+    WHERE nft_token_id = p_token_id
+    RETURNING loyalty_level INTO v_new_level;
+
+    -- If no record found, return 0
+    RETURN COALESCE(v_new_level, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_update_loyalty_level()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only recalculate if relevant fields have changed
+    IF OLD.loyalty_points IS DISTINCT FROM NEW.loyalty_points OR
+       OLD.flights_taken IS DISTINCT FROM NEW.flights_taken OR
+       OLD.total_spending IS DISTINCT FROM NEW.total_spending OR
+       OLD.bank_tier IS DISTINCT FROM NEW.bank_tier THEN
+
+        NEW.loyalty_level := loyalty_level_for(NEW.loyalty_points, NEW.flights_taken, NEW.total_spending, NEW.bank_tier);
+        NEW.last_updated := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN user_actions.points_earned IS 'Loyalty points awarded when the action was processed';
+COMMENT ON FUNCTION loyalty_level_for(INT, INT, DECIMAL, VARCHAR) IS 'Loyalty level for the given points, flights, spending and bank tier';
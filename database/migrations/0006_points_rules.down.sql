@@ -0,0 +1,6 @@
+-- Reverts 0006_points_rules
+
+ALTER TABLE user_actions
+DROP COLUMN IF EXISTS points_rule_id;
+
+DROP TABLE IF EXISTS points_rules;
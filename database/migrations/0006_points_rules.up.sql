@@ -0,0 +1,59 @@
+-- Configurable points rules per brand and action type
+-- Replaces the formulas hard-coded in DatabaseService.calculatePoints
+
+-- =============================================================================
+-- POINTS_RULES TABLE
+-- =============================================================================
+-- Every change inserts a new version; the current version has superseded_at IS NULL
+CREATE TABLE points_rules (
+    rule_id SERIAL PRIMARY KEY,
+    action_type VARCHAR(50) NOT NULL,
+    brand_id INT REFERENCES brand_partners(brand_id) ON DELETE CASCADE,
+    version INT NOT NULL DEFAULT 1,
+
+    -- points = (fixed_points + floor(amount / unit_amount) * points_per_unit) * brand multiplier
+    fixed_points INT NOT NULL DEFAULT 0,
+    points_per_unit DECIMAL(12,4) NOT NULL DEFAULT 0,
+    unit_amount DECIMAL(14,2) NOT NULL DEFAULT 1,
+    currency VARCHAR(3) NOT NULL DEFAULT 'VND',
+    apply_brand_multiplier BOOLEAN NOT NULL DEFAULT true,
+
+    -- Caps (NULL means uncapped)
+    max_points_per_action INT,
+    max_points_per_day INT,
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by VARCHAR(255),
+    superseded_at TIMESTAMPTZ,
+
+    CONSTRAINT unique_points_rule_version UNIQUE (action_type, brand_id, version),
+    CONSTRAINT valid_fixed_points CHECK (fixed_points >= 0),
+    CONSTRAINT valid_points_per_unit CHECK (points_per_unit >= 0),
+    CONSTRAINT valid_unit_amount CHECK (unit_amount > 0),
+    CONSTRAINT valid_currency CHECK (currency ~ '^[A-Z]{3}$'),
+    CONSTRAINT valid_max_points_per_action CHECK (max_points_per_action >= 0),
+    CONSTRAINT valid_max_points_per_day CHECK (max_points_per_day >= 0)
+);
+
+-- Only one current version per brand and action type
+CREATE UNIQUE INDEX idx_points_rules_current
+    ON points_rules(action_type, COALESCE(brand_id, 0))
+    WHERE superseded_at IS NULL;
+
+CREATE INDEX idx_points_rules_brand ON points_rules(brand_id);
+
+-- Rule version used for each processed action
+ALTER TABLE user_actions
+ADD COLUMN points_rule_id INT REFERENCES points_rules(rule_id);
+
+-- Seed the previous earn rates
+INSERT INTO points_rules (action_type, brand_id, fixed_points, points_per_unit, unit_amount, created_by) VALUES
+('vietjet_flight_booking', (SELECT brand_id FROM brand_partners WHERE brand_name = 'Vietjet Air'), 100, 0, 1, 'migration'),
+('hdbank_transaction', (SELECT brand_id FROM brand_partners WHERE brand_name = 'HDBank'), 0, 1, 1000, 'migration'),
+('dragon_city_visit', (SELECT brand_id FROM brand_partners WHERE brand_name = 'Dragon City'), 50, 0, 1, 'migration'),
+('hd_saison_purchase', (SELECT brand_id FROM brand_partners WHERE brand_name = 'HD Saison'), 0, 1, 10000, 'migration'),
+('ha_long_star_booking', (SELECT brand_id FROM brand_partners WHERE brand_name = 'Ha Long Star'), 150, 0, 1, 'migration');
+
+COMMENT ON TABLE points_rules IS 'Versioned earn rates per brand and action type, managed through /api/admin/points-rules';
+COMMENT ON COLUMN user_actions.points_rule_id IS 'Points rule version applied when the action was processed';
@@ -0,0 +1,81 @@
+-- Revert 0007_loyalty_levels: restore the hard-coded level ladder from 0005
+
+CREATE OR REPLACE FUNCTION loyalty_level_for(
+    p_loyalty_points INT,
+    p_flights_taken INT,
+    p_total_spending DECIMAL,
+    p_bank_tier VARCHAR
+)
+RETURNS INT AS $$
+BEGIN
+    -- Level 7: Royal Crown (Ultimate tier)
+    IF p_loyalty_points >= 50000 AND p_flights_taken >= 75 AND p_total_spending >= 500000000 AND p_bank_tier = 'Diamond' THEN
+        RETURN 7;
+    -- Level 6: Elite Wings
+    ELSIF p_loyalty_points >= 35000 AND p_flights_taken >= 50 AND p_total_spending >= 300000000 AND p_bank_tier = 'Diamond' THEN
+        RETURN 6;
+    -- Level 5: Platinum Voyager
+    ELSIF p_loyalty_points >= 20000 AND p_flights_taken >= 35 AND p_total_spending >= 150000000 AND p_bank_tier IN ('Platinum', 'Diamond') THEN
+        RETURN 5;
+    -- Level 4: Diamond Explorer
+    ELSIF p_loyalty_points >= 10000 AND p_flights_taken >= 20 AND p_total_spending >= 75000000 AND p_bank_tier IN ('Platinum', 'Diamond') THEN
+        RETURN 4;
+    -- Level 3: Gold Adventurer
+    ELSIF p_loyalty_points >= 5000 AND p_flights_taken >= 10 AND p_total_spending >= 35000000 AND p_bank_tier IN ('Gold', 'Platinum', 'Diamond') THEN
+        RETURN 3;
+    -- Level 2: Silver Navigator
+    ELSIF p_loyalty_points >= 2500 AND p_flights_taken >= 5 AND p_total_spending >= 15000000 AND p_bank_tier IN ('Silver', 'Gold', 'Platinum', 'Diamond') THEN
+        RETURN 2;
+    -- Level 1: Bronze Traveler
+    ELSIF p_loyalty_points >= 1000 AND p_flights_taken >= 2 AND p_total_spending >= 5000000 THEN
+        RETURN 1;
+    END IF;
+
+    -- Level 0: Explorer (default starting level)
+    RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION calculate_and_update_loyalty_level(p_token_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_new_level INT;
+BEGIN
+    UPDATE nft_attributes
+    SET loyalty_level = loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier)
+    WHERE nft_token_id = p_token_id
+    RETURNING loyalty_level INTO v_new_level;
+
+    -- If no record found, return 0
+    RETURN COALESCE(v_new_level, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_update_loyalty_level()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only recalculate if relevant fields have changed
+    IF OLD.loyalty_points IS DISTINCT FROM NEW.loyalty_points OR
+       OLD.flights_taken IS DISTINCT FROM NEW.flights_taken OR
+       OLD.total_spending IS DISTINCT FROM NEW.total_spending OR
+       OLD.bank_tier IS DISTINCT FROM NEW.bank_tier THEN
+
+        NEW.loyalty_level := loyalty_level_for(NEW.loyalty_points, NEW.flights_taken, NEW.total_spending, NEW.bank_tier);
+        NEW.last_updated := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_loyalty_level_trigger ON nft_attributes;
+CREATE TRIGGER update_loyalty_level_trigger
+    BEFORE UPDATE ON nft_attributes
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_loyalty_level();
+
+DROP FUNCTION IF EXISTS recalculate_loyalty_levels();
+DROP FUNCTION IF EXISTS status_tier_for_level(INT);
+DROP FUNCTION IF EXISTS bank_tier_rank(VARCHAR);
+
+DROP TABLE IF EXISTS loyalty_levels;
@@ -0,0 +1,141 @@
+-- Loyalty level definitions shared by the metadata API and the level trigger
+-- Replaces the thresholds duplicated in src/config/nft-levels.ts and loyalty_level_for()
+
+-- =============================================================================
+-- LOYALTY_LEVELS TABLE
+-- =============================================================================
+-- A wallet reaches the highest level whose minimums it meets on every dimension
+CREATE TABLE loyalty_levels (
+    level INT PRIMARY KEY NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    image_cid VARCHAR(100) NOT NULL,
+
+    min_loyalty_points INT NOT NULL DEFAULT 0,
+    min_flights_taken INT NOT NULL DEFAULT 0,
+    min_total_spending DECIMAL(14,2) NOT NULL DEFAULT 0,
+    min_bank_tier VARCHAR(50) NOT NULL DEFAULT 'Standard',
+
+    -- nft_attributes.status_tier for NFTs at this level
+    status_tier VARCHAR(50) NOT NULL DEFAULT 'Bronze',
+
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_by VARCHAR(255),
+
+    CONSTRAINT valid_level_number CHECK (level >= 0 AND level <= 7),
+    CONSTRAINT valid_level_min_points CHECK (min_loyalty_points >= 0),
+    CONSTRAINT valid_level_min_flights CHECK (min_flights_taken >= 0),
+    CONSTRAINT valid_level_min_spending CHECK (min_total_spending >= 0),
+    CONSTRAINT valid_level_bank_tier CHECK (min_bank_tier IN ('Standard', 'Silver', 'Gold', 'Platinum', 'Diamond')),
+    CONSTRAINT valid_level_status_tier CHECK (status_tier IN ('Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'))
+);
+
+CREATE TRIGGER update_loyalty_levels_updated_at
+    BEFORE UPDATE ON loyalty_levels
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO loyalty_levels (level, name, description, image_cid, min_loyalty_points, min_flights_taken, min_total_spending, min_bank_tier, status_tier, updated_by) VALUES
+(0, 'Explorer', 'Welcome to GomGom! Start your loyalty journey.', 'bafkreihs44bfkpmh2wnuec3b567difnksanta37x7dtbnmlcylwn7h6gw4', 0, 0, 0, 'Standard', 'Bronze', 'migration'),
+(1, 'Bronze Traveler', 'You''re getting started with your travels!', 'bafybeibh56qt2q7dq7emhbrtp7vodkbkzerepxrdeaynhpubqizri4uute', 1000, 2, 5000000, 'Standard', 'Bronze', 'migration'),
+(2, 'Silver Navigator', 'You''re becoming a seasoned traveler!', 'bafkreidwdhm7e7pk4yfltkj3scur4mo7lobq5jetxod2zdstwcvxc46ptu', 2500, 5, 15000000, 'Silver', 'Silver', 'migration'),
+(3, 'Gold Adventurer', 'Your adventures are truly impressive!', 'bafkreih6smgbqwhgj4cul57afpd5465o3yxnpkvwl6f2ao5x2k65tsn7uq', 5000, 10, 35000000, 'Gold', 'Gold', 'migration'),
+(4, 'Diamond Explorer', 'You''re a true connoisseur of luxury travel!', 'bafybeibywmwc7vfghnchifh6dwbfzxhvb7joutacmwjf3pd2s4g2dbw2aa', 10000, 20, 75000000, 'Platinum', 'Platinum', 'migration'),
+(5, 'Platinum Voyager', 'Your loyalty and engagement are exceptional!', 'bafkreibjamecx6mrlua2bubdjek6el25gkgylkifnnkapu57jhn7dayqly', 20000, 35, 150000000, 'Platinum', 'Platinum', 'migration'),
+(6, 'Elite Wings', 'You''ve reached the pinnacle of travel excellence!', 'bafybeihajokglb5lfg2ujjidpgxdvsgy2cretjntrbdio7ffxo6vbqoaiy', 35000, 50, 300000000, 'Diamond', 'Diamond', 'migration'),
+(7, 'Royal Crown', 'You are the ultimate GomGom loyalty member!', 'bafybeie36og74jvgzjisjwzxs5c75rcm7e4g7qj6jmvyszxldp5nexyfly', 50000, 75, 500000000, 'Diamond', 'Diamond', 'migration');
+
+-- Rank of a bank tier (NULL for unknown tiers, which meet no bank requirement)
+CREATE OR REPLACE FUNCTION bank_tier_rank(p_bank_tier VARCHAR)
+RETURNS INT AS $$
+    SELECT array_position(ARRAY['Standard', 'Silver', 'Gold', 'Platinum', 'Diamond']::VARCHAR[], p_bank_tier) - 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION loyalty_level_for(
+    p_loyalty_points INT,
+    p_flights_taken INT,
+    p_total_spending DECIMAL,
+    p_bank_tier VARCHAR
+)
+RETURNS INT AS $$
+    SELECT COALESCE(MAX(level), 0)
+    FROM loyalty_levels
+    WHERE COALESCE(p_loyalty_points, 0) >= min_loyalty_points
+      AND COALESCE(p_flights_taken, 0) >= min_flights_taken
+      AND COALESCE(p_total_spending, 0) >= min_total_spending
+      AND bank_tier_rank(p_bank_tier) >= bank_tier_rank(min_bank_tier);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION status_tier_for_level(p_level INT)
+RETURNS VARCHAR AS $$
+    SELECT COALESCE((SELECT status_tier FROM loyalty_levels WHERE level = p_level), 'Bronze');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION calculate_and_update_loyalty_level(p_token_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_new_level INT;
+BEGIN
+    UPDATE nft_attributes
+    SET loyalty_level = loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier),
+        status_tier = status_tier_for_level(loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier))
+    WHERE nft_token_id = p_token_id
+    RETURNING loyalty_level INTO v_new_level;
+
+    -- If no record found, return 0
+    RETURN COALESCE(v_new_level, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate every NFT after the level definitions change; returns the number of NFTs whose level changed
+CREATE OR REPLACE FUNCTION recalculate_loyalty_levels()
+RETURNS INT AS $$
+DECLARE
+    v_changed INT;
+BEGIN
+    WITH computed AS (
+        SELECT nft_token_id, loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier) AS new_level
+        FROM nft_attributes
+    )
+    UPDATE nft_attributes na
+    SET loyalty_level = c.new_level,
+        status_tier = status_tier_for_level(c.new_level)
+    FROM computed c
+    WHERE na.nft_token_id = c.nft_token_id
+      AND (na.loyalty_level IS DISTINCT FROM c.new_level
+           OR na.status_tier IS DISTINCT FROM status_tier_for_level(c.new_level));
+
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+    RETURN v_changed;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_update_loyalty_level()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only recalculate on insert or when relevant fields have changed
+    IF TG_OP = 'INSERT' OR
+       OLD.loyalty_points IS DISTINCT FROM NEW.loyalty_points OR
+       OLD.flights_taken IS DISTINCT FROM NEW.flights_taken OR
+       OLD.total_spending IS DISTINCT FROM NEW.total_spending OR
+       OLD.bank_tier IS DISTINCT FROM NEW.bank_tier THEN
+
+        NEW.loyalty_level := loyalty_level_for(NEW.loyalty_points, NEW.flights_taken, NEW.total_spending, NEW.bank_tier);
+        NEW.status_tier := status_tier_for_level(NEW.loyalty_level);
+        NEW.last_updated := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_loyalty_level_trigger ON nft_attributes;
+CREATE TRIGGER update_loyalty_level_trigger
+    BEFORE INSERT OR UPDATE ON nft_attributes
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_loyalty_level();
+
+-- Bring existing NFTs in line with the table (status tiers used the old points ladder)
+SELECT recalculate_loyalty_levels();
+
+COMMENT ON TABLE loyalty_levels IS 'Level thresholds, names and images; read by loyalty_level_for() and the metadata API';
+COMMENT ON FUNCTION recalculate_loyalty_levels() IS 'Re-applies loyalty_levels to every NFT; run after editing levels';
@@ -0,0 +1,13 @@
+-- Revert 0008_perk_claims
+
+DROP INDEX IF EXISTS idx_user_perk_claims_user_perk;
+
+ALTER TABLE user_perk_claims
+    DROP CONSTRAINT IF EXISTS used_claim_has_used_at,
+    DROP CONSTRAINT IF EXISTS unique_redemption_code,
+    ALTER COLUMN is_used DROP NOT NULL,
+    DROP COLUMN IF EXISTS redeemed_by,
+    DROP COLUMN IF EXISTS redemption_code;
+
+COMMENT ON COLUMN perks.usage_limit IS NULL;
+COMMENT ON COLUMN perks.expiry_days IS NULL;
@@ -0,0 +1,27 @@
+-- Perk claiming and redemption
+-- A claim carries a one-time redemption code that the perk's brand verifies when redeeming it
+
+ALTER TABLE user_perk_claims
+    ADD COLUMN redemption_code VARCHAR(20),
+    ADD COLUMN redeemed_by VARCHAR(255);
+
+-- Claims made before this migration get a code so every claim can be redeemed the same way
+UPDATE user_perk_claims
+SET redemption_code = upper(substr(md5(random()::text || claim_id::text), 1, 10))
+WHERE redemption_code IS NULL;
+
+UPDATE user_perk_claims SET is_used = false WHERE is_used IS NULL;
+
+ALTER TABLE user_perk_claims
+    ALTER COLUMN redemption_code SET NOT NULL,
+    ALTER COLUMN is_used SET NOT NULL,
+    ADD CONSTRAINT unique_redemption_code UNIQUE (redemption_code),
+    ADD CONSTRAINT used_claim_has_used_at CHECK (NOT is_used OR used_at IS NOT NULL);
+
+-- Open claims per wallet and perk (usage limit and duplicate checks)
+CREATE INDEX idx_user_perk_claims_user_perk ON user_perk_claims(user_wallet_address, perk_id) WHERE is_used = false;
+
+COMMENT ON COLUMN user_perk_claims.redemption_code IS 'One-time code the user shows to the brand; redeeming it marks the claim used';
+COMMENT ON COLUMN user_perk_claims.redeemed_by IS 'API key, admin or wallet that redeemed the claim';
+COMMENT ON COLUMN perks.usage_limit IS 'Claims per wallet that are redeemed or still open (NULL = unlimited)';
+COMMENT ON COLUMN perks.expiry_days IS 'Days a claim stays redeemable (NULL = no expiry)';
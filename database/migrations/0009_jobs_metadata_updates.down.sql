@@ -0,0 +1,7 @@
+-- Reverts 0009_jobs_metadata_updates
+
+DROP TRIGGER IF EXISTS enqueue_nft_metadata_refresh_trigger ON nft_attributes;
+DROP FUNCTION IF EXISTS enqueue_nft_metadata_refresh();
+
+DROP TABLE IF EXISTS nft_metadata_updates;
+DROP TABLE IF EXISTS jobs;
@@ -0,0 +1,103 @@
+-- Background job queue and on-chain metadata refreshes
+-- A level change enqueues a job that pushes the token's metadata URI on-chain so marketplaces refetch it
+
+-- =============================================================================
+-- JOBS TABLE
+-- =============================================================================
+-- Workers claim due jobs with FOR UPDATE SKIP LOCKED; failures are retried with backoff until max_attempts
+CREATE TABLE jobs (
+    job_id BIGSERIAL PRIMARY KEY,
+    job_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    max_attempts INT NOT NULL DEFAULT 5,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Set while a worker holds the job; expired locks are reclaimed
+    locked_by VARCHAR(100),
+    locked_at TIMESTAMPTZ,
+
+    last_error TEXT,
+    -- At most one pending job per key
+    dedupe_key VARCHAR(255),
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_job_status CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    CONSTRAINT valid_job_attempts CHECK (attempts >= 0 AND max_attempts > 0)
+);
+
+CREATE INDEX idx_jobs_due ON jobs(run_at, job_id) WHERE status = 'pending';
+CREATE INDEX idx_jobs_running ON jobs(locked_at) WHERE status = 'running';
+CREATE INDEX idx_jobs_type_status ON jobs(job_type, status);
+CREATE UNIQUE INDEX idx_jobs_pending_dedupe ON jobs(dedupe_key) WHERE status = 'pending';
+
+CREATE TRIGGER update_jobs_updated_at
+    BEFORE UPDATE ON jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- NFT_METADATA_UPDATES TABLE
+-- =============================================================================
+-- One row per queued refresh; the transaction hash is filled in once the job succeeds
+CREATE TABLE nft_metadata_updates (
+    update_id SERIAL PRIMARY KEY,
+    nft_token_id INT NOT NULL REFERENCES loyalty_nfts(token_id) ON DELETE CASCADE,
+    job_id BIGINT REFERENCES jobs(job_id) ON DELETE SET NULL,
+    previous_level INT,
+    new_level INT NOT NULL,
+
+    -- 'metadata_update' when the contract supports ERC-4906, otherwise 'set_token_uri'
+    method VARCHAR(20),
+    token_uri TEXT,
+    transaction_hash VARCHAR(66),
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    confirmed_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_metadata_update_method CHECK (method IN ('metadata_update', 'set_token_uri'))
+);
+
+CREATE INDEX idx_nft_metadata_updates_token ON nft_metadata_updates(nft_token_id, created_at DESC);
+CREATE INDEX idx_nft_metadata_updates_job ON nft_metadata_updates(job_id);
+
+-- =============================================================================
+-- LEVEL CHANGE HOOK
+-- =============================================================================
+-- Runs after the level trigger, so every path that changes a level (actions, admin edits,
+-- recalculation) queues a refresh. Changes while a refresh is still pending reuse that job.
+CREATE OR REPLACE FUNCTION enqueue_nft_metadata_refresh()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_dedupe_key VARCHAR(255) := 'nft_metadata_refresh:' || NEW.nft_token_id;
+    v_job_id BIGINT;
+BEGIN
+    INSERT INTO jobs (job_type, payload, dedupe_key)
+    VALUES ('nft_metadata_refresh', jsonb_build_object('tokenId', NEW.nft_token_id), v_dedupe_key)
+    ON CONFLICT (dedupe_key) WHERE status = 'pending' DO NOTHING
+    RETURNING job_id INTO v_job_id;
+
+    IF v_job_id IS NOT NULL THEN
+        INSERT INTO nft_metadata_updates (nft_token_id, job_id, previous_level, new_level)
+        VALUES (NEW.nft_token_id, v_job_id, OLD.loyalty_level, NEW.loyalty_level);
+    ELSE
+        UPDATE nft_metadata_updates
+        SET new_level = NEW.loyalty_level
+        WHERE job_id = (SELECT job_id FROM jobs WHERE dedupe_key = v_dedupe_key AND status = 'pending');
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enqueue_nft_metadata_refresh_trigger
+    AFTER UPDATE ON nft_attributes
+    FOR EACH ROW
+    WHEN (OLD.loyalty_level IS DISTINCT FROM NEW.loyalty_level)
+    EXECUTE FUNCTION enqueue_nft_metadata_refresh();
+
+COMMENT ON TABLE jobs IS 'Background job queue processed by the API worker (see src/services/jobs.ts)';
+COMMENT ON TABLE nft_metadata_updates IS 'On-chain metadata refreshes queued by level changes, with their transaction hashes';
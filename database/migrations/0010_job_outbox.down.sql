@@ -0,0 +1,18 @@
+-- Reverts 0010_job_outbox
+
+DROP INDEX IF EXISTS idx_jobs_wallet;
+DROP INDEX IF EXISTS idx_jobs_dead_letter;
+
+ALTER TABLE jobs DROP CONSTRAINT valid_job_status;
+
+UPDATE jobs SET status = 'failed' WHERE status = 'dead_letter';
+
+ALTER TABLE jobs
+    ADD CONSTRAINT valid_job_status CHECK (status IN ('pending', 'running', 'completed', 'failed'));
+
+ALTER TABLE jobs
+    DROP COLUMN IF EXISTS dead_lettered_at,
+    DROP COLUMN IF EXISTS result,
+    DROP COLUMN IF EXISTS progress;
+
+COMMENT ON TABLE jobs IS 'Background job queue processed by the API worker (see src/services/jobs.ts)';
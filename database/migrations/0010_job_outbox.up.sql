@@ -0,0 +1,24 @@
+-- Durable blockchain writes through the job queue
+-- Jobs record checkpoints so a retried job resumes after the last completed step instead of
+-- repeating a transaction, and jobs that run out of attempts move to a dead-letter state.
+
+ALTER TABLE jobs
+    ADD COLUMN progress JSONB NOT NULL DEFAULT '{}',
+    ADD COLUMN result JSONB,
+    ADD COLUMN dead_lettered_at TIMESTAMPTZ;
+
+ALTER TABLE jobs DROP CONSTRAINT valid_job_status;
+
+UPDATE jobs SET status = 'dead_letter', dead_lettered_at = updated_at WHERE status = 'failed';
+
+ALTER TABLE jobs
+    ADD CONSTRAINT valid_job_status CHECK (status IN ('pending', 'running', 'completed', 'dead_letter'));
+
+CREATE INDEX idx_jobs_dead_letter ON jobs(dead_lettered_at DESC) WHERE status = 'dead_letter';
+-- Status lookups by wallet (mint jobs carry the wallet in their payload)
+CREATE INDEX idx_jobs_wallet ON jobs((payload->>'walletAddress')) WHERE payload ? 'walletAddress';
+
+COMMENT ON TABLE jobs IS 'Background job queue and outbox for blockchain writes, processed by the API worker (see src/services/jobs.ts)';
+COMMENT ON COLUMN jobs.progress IS 'Checkpoints written by the handler (e.g. transactionHash once a transaction is sent)';
+COMMENT ON COLUMN jobs.result IS 'Handler output reported by GET /api/jobs/:jobId';
+COMMENT ON COLUMN jobs.dead_lettered_at IS 'When the job used up its attempts; requeue with POST /api/admin/jobs/:jobId/retry';
@@ -0,0 +1,3 @@
+-- Reverts 0011_signer_transactions
+
+DROP TABLE IF EXISTS signer_transactions;
@@ -0,0 +1,58 @@
+-- Nonce management for the admin signer
+-- Every transaction the backend signs is recorded with its nonce and fees, so concurrent sends get
+-- distinct nonces and stuck transactions can be re-broadcast with higher fees under the same nonce.
+
+-- =============================================================================
+-- SIGNER_TRANSACTIONS TABLE
+-- =============================================================================
+-- One row per nonce; a replacement keeps the row and moves the old hash to previous_hashes
+CREATE TABLE signer_transactions (
+    tx_id SERIAL PRIMARY KEY,
+    chain_id INT NOT NULL,
+    signer_address VARCHAR(42) NOT NULL,
+    nonce INT NOT NULL,
+    purpose VARCHAR(50) NOT NULL,
+    job_id BIGINT REFERENCES jobs(job_id) ON DELETE SET NULL,
+
+    -- Request, kept so the transaction can be re-signed with new fees
+    to_address VARCHAR(42) NOT NULL,
+    data TEXT NOT NULL,
+    value NUMERIC(78,0) NOT NULL DEFAULT 0,
+    gas_limit NUMERIC(78,0) NOT NULL,
+    -- Legacy (pre EIP-1559) transactions store their gas price in max_fee_per_gas
+    max_fee_per_gas NUMERIC(78,0) NOT NULL,
+    max_priority_fee_per_gas NUMERIC(78,0),
+
+    -- Latest broadcast, and earlier ones that may still be mined instead
+    transaction_hash VARCHAR(66) NOT NULL,
+    previous_hashes VARCHAR(66)[] NOT NULL DEFAULT '{}',
+    replacements INT NOT NULL DEFAULT 0,
+    sent_block INT NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    mined_hash VARCHAR(66),
+    block_number INT,
+    gas_used NUMERIC(78,0),
+    effective_gas_price NUMERIC(78,0),
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    confirmed_at TIMESTAMPTZ,
+
+    CONSTRAINT unique_signer_nonce UNIQUE (chain_id, signer_address, nonce),
+    CONSTRAINT valid_signer_transaction_status CHECK (status IN ('pending', 'confirmed', 'reverted', 'dropped')),
+    CONSTRAINT valid_signer_nonce CHECK (nonce >= 0)
+);
+
+CREATE INDEX idx_signer_transactions_pending ON signer_transactions(chain_id, signer_address, nonce) WHERE status = 'pending';
+CREATE INDEX idx_signer_transactions_hash ON signer_transactions(transaction_hash);
+CREATE INDEX idx_signer_transactions_previous_hashes ON signer_transactions USING GIN (previous_hashes);
+CREATE INDEX idx_signer_transactions_job ON signer_transactions(job_id);
+
+CREATE TRIGGER update_signer_transactions_updated_at
+    BEFORE UPDATE ON signer_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE signer_transactions IS 'Transactions sent by the backend signer, one row per nonce (see src/services/transactions.ts)';
+COMMENT ON COLUMN signer_transactions.status IS 'pending until mined; dropped when the nonce was used by a transaction the backend did not send';
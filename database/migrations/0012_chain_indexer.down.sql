@@ -0,0 +1,5 @@
+-- Reverts 0012_chain_indexer
+
+DROP TABLE IF EXISTS staking_positions;
+DROP TABLE IF EXISTS chain_events;
+DROP TABLE IF EXISTS indexer_checkpoints;
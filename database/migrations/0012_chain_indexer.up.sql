@@ -0,0 +1,70 @@
+-- Chain event indexer
+-- Transfer, Staked and Unstaked logs are stored in chain_events and projected onto loyalty_nfts
+-- ownership and staking_positions. The checkpoint records the last indexed block and its hash,
+-- so a reorg is noticed when that hash changes (see src/services/indexer.ts).
+
+-- =============================================================================
+-- INDEXER_CHECKPOINTS TABLE
+-- =============================================================================
+CREATE TABLE indexer_checkpoints (
+    indexer_name VARCHAR(50) NOT NULL,
+    chain_id INT NOT NULL,
+    last_block INT NOT NULL,
+    last_block_hash VARCHAR(66) NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (indexer_name, chain_id)
+);
+
+CREATE TRIGGER update_indexer_checkpoints_updated_at
+    BEFORE UPDATE ON indexer_checkpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- CHAIN_EVENTS TABLE
+-- =============================================================================
+-- Decoded logs; rows from blocks dropped by a reorg are deleted after their effects are undone
+CREATE TABLE chain_events (
+    event_id BIGSERIAL PRIMARY KEY,
+    chain_id INT NOT NULL,
+    block_number INT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    transaction_hash VARCHAR(66) NOT NULL,
+    log_index INT NOT NULL,
+    contract_address VARCHAR(42) NOT NULL,
+    event_name VARCHAR(50) NOT NULL,
+    -- Addresses lowercased, uint256 values as decimal strings
+    args JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_chain_event UNIQUE (chain_id, block_hash, log_index)
+);
+
+CREATE INDEX idx_chain_events_block ON chain_events(chain_id, block_number);
+CREATE INDEX idx_chain_events_name ON chain_events(event_name);
+CREATE INDEX idx_chain_events_token ON chain_events((args->>'tokenId')) WHERE event_name = 'Transfer';
+
+-- =============================================================================
+-- STAKING_POSITIONS TABLE
+-- =============================================================================
+-- Stakers need not be users, so there is no foreign key to users
+CREATE TABLE staking_positions (
+    chain_id INT NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL,
+    staked_amount NUMERIC(78,0) NOT NULL DEFAULT 0,
+    total_staked NUMERIC(78,0) NOT NULL DEFAULT 0,
+    total_unstaked NUMERIC(78,0) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (chain_id, wallet_address),
+    CONSTRAINT non_negative_staked_amount CHECK (staked_amount >= 0)
+);
+
+CREATE INDEX idx_staking_positions_wallet ON staking_positions(wallet_address);
+
+CREATE TRIGGER update_staking_positions_updated_at
+    BEFORE UPDATE ON staking_positions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE chain_events IS 'Transfer, Staked and Unstaked logs indexed from the NFT and staking contracts';
+COMMENT ON COLUMN staking_positions.staked_amount IS 'Wei currently staked, from Staked minus Unstaked events';
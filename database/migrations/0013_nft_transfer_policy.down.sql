@@ -0,0 +1,58 @@
+-- Reverts 0013_nft_transfer_policy
+
+DROP TABLE IF EXISTS retained_loyalty_profiles;
+DROP TABLE IF EXISTS nft_ownership_changes;
+
+-- Restore the view without the audit columns before dropping them
+DROP VIEW IF EXISTS nft_complete_info;
+CREATE OR REPLACE VIEW nft_complete_info AS
+SELECT 
+    ln.token_id,
+    ln.owner_wallet_address,
+    ln.minted_at,
+    ln.token_uri,
+    ln.is_staked,
+    na.loyalty_level,
+    na.loyalty_points,
+    na.flights_taken,
+    na.bank_tier,
+    na.resorts_visited,
+    na.total_spending,
+    na.miles_earned,
+    na.status_tier,
+    na.last_updated,
+    u.display_name as owner_display_name,
+    u.created_at as owner_joined_at,
+    -- Brand activity summary
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'HDBank'
+    ) as hdbank_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Vietjet Air'
+    ) as vietjet_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Ha Long Star'
+    ) as halong_star_activities
+FROM loyalty_nfts ln
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN users u ON ln.owner_wallet_address = u.wallet_address;
+
+DROP TRIGGER IF EXISTS set_original_nft_owner_trigger ON loyalty_nfts;
+DROP FUNCTION IF EXISTS set_original_nft_owner();
+
+ALTER TABLE loyalty_nfts
+    DROP COLUMN IF EXISTS transfer_count,
+    DROP COLUMN IF EXISTS owner_changed_at,
+    DROP COLUMN IF EXISTS original_owner_wallet_address;
@@ -0,0 +1,127 @@
+-- NFT transfer policy and ownership audit
+-- The chain indexer records every ownership change of a loyalty NFT. Depending on NFT_TRANSFER_POLICY
+-- the loyalty attributes either move with the token, or stay with the sending wallet (kept in
+-- retained_loyalty_profiles) while the token is reset for its new owner (see src/services/ownership.ts).
+
+-- =============================================================================
+-- LOYALTY_NFTS AUDIT COLUMNS
+-- =============================================================================
+ALTER TABLE loyalty_nfts
+    ADD COLUMN original_owner_wallet_address VARCHAR(42),
+    ADD COLUMN owner_changed_at TIMESTAMPTZ,
+    ADD COLUMN transfer_count INT NOT NULL DEFAULT 0;
+
+UPDATE loyalty_nfts SET original_owner_wallet_address = owner_wallet_address;
+
+ALTER TABLE loyalty_nfts ALTER COLUMN original_owner_wallet_address SET NOT NULL;
+
+-- Minted records start with the minting wallet as original owner
+CREATE OR REPLACE FUNCTION set_original_nft_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.original_owner_wallet_address := COALESCE(NEW.original_owner_wallet_address, NEW.owner_wallet_address);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_original_nft_owner_trigger
+    BEFORE INSERT ON loyalty_nfts
+    FOR EACH ROW EXECUTE FUNCTION set_original_nft_owner();
+
+-- New columns are appended, as CREATE OR REPLACE VIEW requires
+CREATE OR REPLACE VIEW nft_complete_info AS
+SELECT 
+    ln.token_id,
+    ln.owner_wallet_address,
+    ln.minted_at,
+    ln.token_uri,
+    ln.is_staked,
+    na.loyalty_level,
+    na.loyalty_points,
+    na.flights_taken,
+    na.bank_tier,
+    na.resorts_visited,
+    na.total_spending,
+    na.miles_earned,
+    na.status_tier,
+    na.last_updated,
+    u.display_name as owner_display_name,
+    u.created_at as owner_joined_at,
+    -- Brand activity summary
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'HDBank'
+    ) as hdbank_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Vietjet Air'
+    ) as vietjet_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Ha Long Star'
+    ) as halong_star_activities,
+    ln.original_owner_wallet_address,
+    ln.owner_changed_at,
+    ln.transfer_count
+FROM loyalty_nfts ln
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN users u ON ln.owner_wallet_address = u.wallet_address;
+
+-- =============================================================================
+-- NFT_OWNERSHIP_CHANGES TABLE
+-- =============================================================================
+-- One row per indexed transfer; rows undone by a reorg are kept with reverted_at set
+CREATE TABLE nft_ownership_changes (
+    change_id BIGSERIAL PRIMARY KEY,
+    nft_token_id INT NOT NULL REFERENCES loyalty_nfts(token_id) ON DELETE CASCADE,
+    from_wallet_address VARCHAR(42) NOT NULL,
+    to_wallet_address VARCHAR(42) NOT NULL,
+    policy VARCHAR(20) NOT NULL,
+    -- Token attributes before and after the change
+    attributes_before JSONB NOT NULL,
+    attributes_after JSONB NOT NULL,
+    chain_event_id BIGINT REFERENCES chain_events(event_id) ON DELETE SET NULL,
+    block_number INT,
+    transaction_hash VARCHAR(66),
+    changed_at TIMESTAMPTZ DEFAULT NOW(),
+    reverted_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_transfer_policy CHECK (policy IN ('follow_token', 'stay_with_wallet'))
+);
+
+CREATE INDEX idx_nft_ownership_changes_token ON nft_ownership_changes(nft_token_id, change_id);
+CREATE INDEX idx_nft_ownership_changes_event ON nft_ownership_changes(chain_event_id);
+CREATE INDEX idx_nft_ownership_changes_from ON nft_ownership_changes(from_wallet_address);
+CREATE INDEX idx_nft_ownership_changes_to ON nft_ownership_changes(to_wallet_address);
+
+-- =============================================================================
+-- RETAINED_LOYALTY_PROFILES TABLE
+-- =============================================================================
+-- Attributes a wallet kept when it transferred its NFT under the stay_with_wallet policy.
+-- The newest unrestored profile is applied to the next NFT the wallet mints or receives.
+CREATE TABLE retained_loyalty_profiles (
+    profile_id BIGSERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    source_token_id INT NOT NULL,
+    attributes JSONB NOT NULL,
+    retained_change_id BIGINT REFERENCES nft_ownership_changes(change_id) ON DELETE CASCADE,
+    retained_at TIMESTAMPTZ DEFAULT NOW(),
+    restored_token_id INT,
+    -- NULL when restored by a mint
+    restored_change_id BIGINT REFERENCES nft_ownership_changes(change_id) ON DELETE SET NULL,
+    restored_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_retained_loyalty_profiles_unrestored ON retained_loyalty_profiles(wallet_address, retained_at) WHERE restored_at IS NULL;
+
+COMMENT ON TABLE nft_ownership_changes IS 'Audit of loyalty NFT ownership changes found by the chain indexer';
+COMMENT ON TABLE retained_loyalty_profiles IS 'Loyalty attributes kept by the sending wallet under the stay_with_wallet transfer policy';
@@ -0,0 +1,103 @@
+-- Reverts 0014_staking_attributes
+
+DELETE FROM user_actions WHERE action_type = 'eth_staking';
+DELETE FROM points_rules WHERE action_type = 'eth_staking';
+
+-- Perks gated on staking cannot be kept under the old constraint
+DELETE FROM perks WHERE unlock_type IN ('staked_eth', 'staking_days', 'eth_days');
+
+ALTER TABLE perks
+DROP CONSTRAINT IF EXISTS valid_unlock_type;
+
+ALTER TABLE perks
+ADD CONSTRAINT valid_unlock_type CHECK (
+    unlock_type IN (
+        'loyalty_level', 'loyalty_points', 'flights_taken', 
+        'bank_tier', 'resorts_visited', 'total_spending',
+        'miles_earned', 'status_tier', 'combined'
+    )
+);
+
+ALTER TABLE user_actions
+DROP CONSTRAINT IF EXISTS valid_action_type;
+
+ALTER TABLE user_actions
+ADD CONSTRAINT valid_action_type CHECK (
+    action_type IN (
+        'flight_booking', 'hotel_booking', 'resort_visit',
+        'bank_transaction', 'loyalty_redemption', 'referral',
+        'nft_mint', 'nft_stake', 'nft_unstake', 'perk_claim',
+        -- Brand-specific actions
+        'hdbank_deposit', 'hdbank_credit_card_usage', 'hdbank_investment',
+        'hd_saison_loan_application', 'hd_saison_payment',
+        'vietjet_flight_booking', 'vietjet_checkin', 'vietjet_loyalty_signup',
+        'dragon_city_property_inquiry', 'dragon_city_property_purchase', 'dragon_city_consultation',
+        'halong_star_booking', 'halong_star_checkin', 'halong_star_spa_service',
+        -- Actions simulated by the API
+        'hdbank_transaction', 'dragon_city_visit', 'hd_saison_purchase', 'ha_long_star_booking',
+        -- Cross-brand activities
+        'partner_referral', 'cross_brand_transaction', 'multi_brand_milestone'
+    )
+);
+
+-- Restore the view without the staking columns before dropping them
+DROP VIEW IF EXISTS nft_complete_info;
+CREATE OR REPLACE VIEW nft_complete_info AS
+SELECT 
+    ln.token_id,
+    ln.owner_wallet_address,
+    ln.minted_at,
+    ln.token_uri,
+    ln.is_staked,
+    na.loyalty_level,
+    na.loyalty_points,
+    na.flights_taken,
+    na.bank_tier,
+    na.resorts_visited,
+    na.total_spending,
+    na.miles_earned,
+    na.status_tier,
+    na.last_updated,
+    u.display_name as owner_display_name,
+    u.created_at as owner_joined_at,
+    -- Brand activity summary
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'HDBank'
+    ) as hdbank_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Vietjet Air'
+    ) as vietjet_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Ha Long Star'
+    ) as halong_star_activities,
+    ln.original_owner_wallet_address,
+    ln.owner_changed_at,
+    ln.transfer_count
+FROM loyalty_nfts ln
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN users u ON ln.owner_wallet_address = u.wallet_address;
+
+ALTER TABLE nft_attributes
+DROP CONSTRAINT IF EXISTS valid_eth_days_awarded,
+DROP CONSTRAINT IF EXISTS valid_staked_eth,
+DROP COLUMN IF EXISTS staking_synced_at,
+DROP COLUMN IF EXISTS eth_days_awarded,
+DROP COLUMN IF EXISTS eth_days,
+DROP COLUMN IF EXISTS staking_days,
+DROP COLUMN IF EXISTS staked_since,
+DROP COLUMN IF EXISTS staked_eth;
+
+ALTER TABLE staking_positions DROP COLUMN IF EXISTS last_stake_at;
+ALTER TABLE chain_events DROP COLUMN IF EXISTS block_timestamp;
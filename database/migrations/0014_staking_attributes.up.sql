@@ -0,0 +1,126 @@
+-- Staking-aware loyalty attributes
+-- The indexer copies each owner's staking position onto nft_attributes, and the staking sync
+-- accrues ETH-days and awards points for them under the eth_staking points rule
+-- (see src/services/staking.ts).
+
+-- Block time of indexed events, so stake durations follow the chain
+ALTER TABLE chain_events
+ADD COLUMN block_timestamp TIMESTAMPTZ;
+
+-- Time of the latest stake, like StakingPool's lastStakeTime
+ALTER TABLE staking_positions
+ADD COLUMN last_stake_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- NFT_ATTRIBUTES STAKING COLUMNS
+-- =============================================================================
+ALTER TABLE nft_attributes
+ADD COLUMN staked_eth NUMERIC(36,18) NOT NULL DEFAULT 0,
+ADD COLUMN staked_since TIMESTAMPTZ,
+ADD COLUMN staking_days INT NOT NULL DEFAULT 0,
+-- ETH staked times days staked, accrued by every sync
+ADD COLUMN eth_days NUMERIC(24,6) NOT NULL DEFAULT 0,
+-- Part of eth_days already turned into points
+ADD COLUMN eth_days_awarded NUMERIC(24,6) NOT NULL DEFAULT 0,
+ADD COLUMN staking_synced_at TIMESTAMPTZ,
+ADD CONSTRAINT valid_staked_eth CHECK (staked_eth >= 0),
+ADD CONSTRAINT valid_eth_days_awarded CHECK (eth_days_awarded <= eth_days);
+
+-- New columns are appended, as CREATE OR REPLACE VIEW requires
+CREATE OR REPLACE VIEW nft_complete_info AS
+SELECT 
+    ln.token_id,
+    ln.owner_wallet_address,
+    ln.minted_at,
+    ln.token_uri,
+    ln.is_staked,
+    na.loyalty_level,
+    na.loyalty_points,
+    na.flights_taken,
+    na.bank_tier,
+    na.resorts_visited,
+    na.total_spending,
+    na.miles_earned,
+    na.status_tier,
+    na.last_updated,
+    u.display_name as owner_display_name,
+    u.created_at as owner_joined_at,
+    -- Brand activity summary
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'HDBank'
+    ) as hdbank_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Vietjet Air'
+    ) as vietjet_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Ha Long Star'
+    ) as halong_star_activities,
+    ln.original_owner_wallet_address,
+    ln.owner_changed_at,
+    ln.transfer_count,
+    na.staked_eth,
+    na.staked_since,
+    na.staking_days,
+    na.eth_days
+FROM loyalty_nfts ln
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN users u ON ln.owner_wallet_address = u.wallet_address;
+
+-- Staking points are recorded as user actions
+ALTER TABLE user_actions
+DROP CONSTRAINT valid_action_type;
+
+ALTER TABLE user_actions
+ADD CONSTRAINT valid_action_type CHECK (
+    action_type IN (
+        'flight_booking', 'hotel_booking', 'resort_visit',
+        'bank_transaction', 'loyalty_redemption', 'referral',
+        'nft_mint', 'nft_stake', 'nft_unstake', 'perk_claim',
+        -- Brand-specific actions
+        'hdbank_deposit', 'hdbank_credit_card_usage', 'hdbank_investment',
+        'hd_saison_loan_application', 'hd_saison_payment',
+        'vietjet_flight_booking', 'vietjet_checkin', 'vietjet_loyalty_signup',
+        'dragon_city_property_inquiry', 'dragon_city_property_purchase', 'dragon_city_consultation',
+        'halong_star_booking', 'halong_star_checkin', 'halong_star_spa_service',
+        -- Actions simulated by the API
+        'hdbank_transaction', 'dragon_city_visit', 'hd_saison_purchase', 'ha_long_star_booking',
+        -- ETH-days accrued on the StakingPool (src/services/staking.ts)
+        'eth_staking',
+        -- Cross-brand activities
+        'partner_referral', 'cross_brand_transaction', 'multi_brand_milestone'
+    )
+);
+
+-- Stake-gated perks
+ALTER TABLE perks
+DROP CONSTRAINT valid_unlock_type;
+
+ALTER TABLE perks
+ADD CONSTRAINT valid_unlock_type CHECK (
+    unlock_type IN (
+        'loyalty_level', 'loyalty_points', 'flights_taken',
+        'bank_tier', 'resorts_visited', 'total_spending',
+        'miles_earned', 'status_tier', 'staked_eth',
+        'staking_days', 'eth_days', 'combined'
+    )
+);
+
+-- Points per ETH-day staked; admins can change it through /api/admin/points-rules
+INSERT INTO points_rules (action_type, brand_id, fixed_points, points_per_unit, unit_amount, currency, apply_brand_multiplier, created_by)
+VALUES ('eth_staking', NULL, 0, 10, 1, 'ETH', false, 'migration');
+
+COMMENT ON COLUMN nft_attributes.staked_eth IS 'ETH the owner has staked, from staking_positions';
+COMMENT ON COLUMN nft_attributes.staked_since IS 'Latest stake by the owner; a top-up restarts the duration, as on StakingPool';
+COMMENT ON COLUMN nft_attributes.eth_days IS 'ETH-days staked while this NFT was held, accrued by the staking sync';
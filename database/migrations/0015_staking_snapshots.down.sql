@@ -0,0 +1,3 @@
+-- Reverts 0015_staking_snapshots
+
+DROP TABLE IF EXISTS staking_snapshots;
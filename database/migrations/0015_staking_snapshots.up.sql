@@ -0,0 +1,30 @@
+-- Daily staking statistics
+-- The staking sync records StakingPool's getGlobalStakingInfo once a day, next to the indexed
+-- positions, for the /api/staking/snapshots time series (see src/services/staking.ts).
+
+-- =============================================================================
+-- STAKING_SNAPSHOTS TABLE
+-- =============================================================================
+CREATE TABLE staking_snapshots (
+    snapshot_id SERIAL PRIMARY KEY,
+    chain_id INT NOT NULL,
+    -- UTC day the snapshot stands for
+    snapshot_date DATE NOT NULL,
+    block_number INT NOT NULL,
+
+    -- From the contract
+    total_eth NUMERIC(36,18) NOT NULL,
+    total_nfts INT NOT NULL,
+    contract_balance NUMERIC(36,18) NOT NULL,
+
+    -- From staking_positions
+    indexed_staked_eth NUMERIC(36,18) NOT NULL DEFAULT 0,
+    stakers INT NOT NULL DEFAULT 0,
+
+    taken_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_staking_snapshot UNIQUE (chain_id, snapshot_date)
+);
+
+COMMENT ON TABLE staking_snapshots IS 'One row per chain and UTC day of StakingPool totals, for dashboards';
+COMMENT ON COLUMN staking_snapshots.indexed_staked_eth IS 'Sum of staking_positions; differs from total_eth while the indexer is behind';
@@ -0,0 +1,218 @@
+-- Reverts 0016_nft_chain_id
+
+-- The views depend on the columns, so they are rebuilt without them first
+DROP VIEW IF EXISTS nft_complete_info;
+CREATE OR REPLACE VIEW nft_complete_info AS
+SELECT 
+    ln.token_id,
+    ln.owner_wallet_address,
+    ln.minted_at,
+    ln.token_uri,
+    ln.is_staked,
+    na.loyalty_level,
+    na.loyalty_points,
+    na.flights_taken,
+    na.bank_tier,
+    na.resorts_visited,
+    na.total_spending,
+    na.miles_earned,
+    na.status_tier,
+    na.last_updated,
+    u.display_name as owner_display_name,
+    u.created_at as owner_joined_at,
+    -- Brand activity summary
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'HDBank'
+    ) as hdbank_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Vietjet Air'
+    ) as vietjet_activities,
+    (
+        SELECT COUNT(*) 
+        FROM user_actions ua 
+        JOIN brand_partners bp ON ua.brand_id = bp.brand_id 
+        WHERE ua.user_wallet_address = ln.owner_wallet_address 
+        AND bp.brand_name = 'Ha Long Star'
+    ) as halong_star_activities,
+    ln.original_owner_wallet_address,
+    ln.owner_changed_at,
+    ln.transfer_count,
+    na.staked_eth,
+    na.staked_since,
+    na.staking_days,
+    na.eth_days
+FROM loyalty_nfts ln
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN users u ON ln.owner_wallet_address = u.wallet_address;
+
+CREATE OR REPLACE VIEW brand_analytics AS
+SELECT 
+    bp.brand_id,
+    bp.brand_name,
+    bp.brand_type,
+    bp.loyalty_multiplier,
+    COUNT(DISTINCT ua.user_wallet_address) as active_users,
+    COUNT(ua.action_id) as total_actions,
+    COUNT(CASE WHEN ua.processed = true THEN 1 END) as processed_actions,
+    AVG(CASE WHEN na.loyalty_points > 0 THEN na.loyalty_points END) as avg_user_loyalty_points,
+    COUNT(upc.claim_id) as total_perk_claims,
+    COUNT(p.perk_id) as available_perks
+FROM brand_partners bp
+LEFT JOIN user_actions ua ON bp.brand_id = ua.brand_id
+LEFT JOIN users u ON ua.user_wallet_address = u.wallet_address
+LEFT JOIN loyalty_nfts ln ON u.wallet_address = ln.owner_wallet_address
+LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+LEFT JOIN perks p ON bp.brand_id = p.brand_id
+LEFT JOIN user_perk_claims upc ON p.perk_id = upc.perk_id
+WHERE bp.is_active = true
+GROUP BY bp.brand_id, bp.brand_name, bp.brand_type, bp.loyalty_multiplier
+ORDER BY active_users DESC;
+
+-- =============================================================================
+-- LEVEL FUNCTIONS
+-- =============================================================================
+DROP FUNCTION IF EXISTS calculate_and_update_loyalty_level(INT, INT);
+
+CREATE OR REPLACE FUNCTION calculate_and_update_loyalty_level(p_token_id INT)
+RETURNS INT AS $$
+DECLARE
+    v_new_level INT;
+BEGIN
+    UPDATE nft_attributes
+    SET loyalty_level = loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier),
+        status_tier = status_tier_for_level(loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier))
+    WHERE nft_token_id = p_token_id
+    RETURNING loyalty_level INTO v_new_level;
+
+    -- If no record found, return 0
+    RETURN COALESCE(v_new_level, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_loyalty_levels()
+RETURNS INT AS $$
+DECLARE
+    v_changed INT;
+BEGIN
+    WITH computed AS (
+        SELECT nft_token_id, loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier) AS new_level
+        FROM nft_attributes
+    )
+    UPDATE nft_attributes na
+    SET loyalty_level = c.new_level,
+        status_tier = status_tier_for_level(c.new_level)
+    FROM computed c
+    WHERE na.nft_token_id = c.nft_token_id
+      AND (na.loyalty_level IS DISTINCT FROM c.new_level
+           OR na.status_tier IS DISTINCT FROM status_tier_for_level(c.new_level));
+
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+    RETURN v_changed;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_nft_metadata(p_token_id INT)
+RETURNS TABLE(
+    token_id INT,
+    owner_wallet_address VARCHAR(42),
+    minted_at TIMESTAMPTZ,
+    loyalty_level INT,
+    loyalty_points INT,
+    flights_taken INT,
+    bank_tier VARCHAR(50),
+    resorts_visited INT,
+    total_spending DECIMAL(12,2),
+    miles_earned INT,
+    status_tier VARCHAR(50),
+    last_updated TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        ln.token_id,
+        ln.owner_wallet_address,
+        ln.minted_at,
+        COALESCE(na.loyalty_level, 0) as loyalty_level,
+        COALESCE(na.loyalty_points, 0) as loyalty_points,
+        COALESCE(na.flights_taken, 0) as flights_taken,
+        COALESCE(na.bank_tier, 'Standard') as bank_tier,
+        COALESCE(na.resorts_visited, 0) as resorts_visited,
+        COALESCE(na.total_spending, 0.00) as total_spending,
+        COALESCE(na.miles_earned, 0) as miles_earned,
+        COALESCE(na.status_tier, 'Bronze') as status_tier,
+        COALESCE(na.last_updated, ln.minted_at) as last_updated
+    FROM loyalty_nfts ln
+    LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
+    WHERE ln.token_id = p_token_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enqueue_nft_metadata_refresh()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_dedupe_key VARCHAR(255) := 'nft_metadata_refresh:' || NEW.nft_token_id;
+    v_job_id BIGINT;
+BEGIN
+    INSERT INTO jobs (job_type, payload, dedupe_key)
+    VALUES ('nft_metadata_refresh', jsonb_build_object('tokenId', NEW.nft_token_id), v_dedupe_key)
+    ON CONFLICT (dedupe_key) WHERE status = 'pending' DO NOTHING
+    RETURNING job_id INTO v_job_id;
+
+    IF v_job_id IS NOT NULL THEN
+        INSERT INTO nft_metadata_updates (nft_token_id, job_id, previous_level, new_level)
+        VALUES (NEW.nft_token_id, v_job_id, OLD.loyalty_level, NEW.loyalty_level);
+    ELSE
+        UPDATE nft_metadata_updates
+        SET new_level = NEW.loyalty_level
+        WHERE job_id = (SELECT job_id FROM jobs WHERE dedupe_key = v_dedupe_key AND status = 'pending');
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE jobs
+SET payload = payload - 'chainId',
+    dedupe_key = 'nft_metadata_refresh:' || (payload->>'tokenId')
+WHERE job_type = 'nft_metadata_refresh';
+
+-- =============================================================================
+-- TOKEN ID KEYS
+-- =============================================================================
+-- Fails if two chains hold the same token ID; remove one chain's tokens first
+ALTER TABLE nft_attributes DROP CONSTRAINT fk_nft_attributes_token;
+ALTER TABLE nft_metadata_updates DROP CONSTRAINT nft_metadata_updates_nft_token_id_fkey;
+ALTER TABLE nft_ownership_changes DROP CONSTRAINT nft_ownership_changes_nft_token_id_fkey;
+
+ALTER TABLE loyalty_nfts DROP CONSTRAINT loyalty_nfts_pkey;
+ALTER TABLE loyalty_nfts ADD PRIMARY KEY (token_id);
+
+ALTER TABLE nft_attributes DROP CONSTRAINT nft_attributes_pkey;
+ALTER TABLE nft_attributes ADD PRIMARY KEY (nft_token_id);
+ALTER TABLE nft_attributes ADD CONSTRAINT fk_nft_attributes_token
+    FOREIGN KEY (nft_token_id) REFERENCES loyalty_nfts(token_id) ON DELETE CASCADE;
+
+ALTER TABLE nft_metadata_updates ADD CONSTRAINT nft_metadata_updates_nft_token_id_fkey
+    FOREIGN KEY (nft_token_id) REFERENCES loyalty_nfts(token_id) ON DELETE CASCADE;
+DROP INDEX idx_nft_metadata_updates_token;
+CREATE INDEX idx_nft_metadata_updates_token ON nft_metadata_updates(nft_token_id, created_at DESC);
+
+ALTER TABLE nft_ownership_changes ADD CONSTRAINT nft_ownership_changes_nft_token_id_fkey
+    FOREIGN KEY (nft_token_id) REFERENCES loyalty_nfts(token_id) ON DELETE CASCADE;
+DROP INDEX idx_nft_ownership_changes_token;
+CREATE INDEX idx_nft_ownership_changes_token ON nft_ownership_changes(nft_token_id, change_id);
+
+ALTER TABLE nft_ownership_changes DROP COLUMN chain_id;
+ALTER TABLE nft_metadata_updates DROP COLUMN chain_id;
+ALTER TABLE nft_attributes DROP COLUMN chain_id;
+
+ALTER TABLE loyalty_nfts
+DROP COLUMN chain_id;
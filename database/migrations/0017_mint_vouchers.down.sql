@@ -0,0 +1,3 @@
+-- Reverts 0017_mint_vouchers
+
+DROP TABLE IF EXISTS mint_vouchers;
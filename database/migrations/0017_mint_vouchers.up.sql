@@ -0,0 +1,41 @@
+-- EIP-712 mint vouchers for gasless minting
+-- The backend signs a voucher (recipient, tokenURI, expiry, nonce) and the user redeems it on the
+-- NFT contract, paying the gas. Issuance, expiry, revocation and redemption are tracked here
+-- (see src/services/vouchers.ts).
+
+-- =============================================================================
+-- MINT_VOUCHERS TABLE
+-- =============================================================================
+CREATE TABLE mint_vouchers (
+    voucher_id SERIAL PRIMARY KEY,
+    chain_id INT NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL,
+
+    -- The signed voucher; an empty token URI leaves the contract's base URI
+    token_uri TEXT NOT NULL DEFAULT '',
+    nonce NUMERIC(78,0) NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    signer_address VARCHAR(42) NOT NULL,
+    signature TEXT NOT NULL,
+    issued_at TIMESTAMPTZ DEFAULT NOW(),
+
+    revoked_at TIMESTAMPTZ,
+    revoked_by VARCHAR(100),
+    revoked_reason TEXT,
+
+    redeemed_at TIMESTAMPTZ,
+    redeemed_token_id INT,
+    redemption_transaction_hash VARCHAR(66),
+
+    CONSTRAINT fk_mint_vouchers_user
+        FOREIGN KEY (wallet_address)
+        REFERENCES users(wallet_address)
+        ON DELETE CASCADE,
+    CONSTRAINT unique_mint_voucher_nonce UNIQUE (chain_id, nonce)
+);
+
+CREATE INDEX idx_mint_vouchers_wallet ON mint_vouchers(wallet_address, chain_id);
+
+COMMENT ON TABLE mint_vouchers IS 'Signed EIP-712 mint vouchers users redeem on-chain themselves';
+COMMENT ON COLUMN mint_vouchers.nonce IS 'Random uint256 nonce the contract marks as used on redemption';
+COMMENT ON COLUMN mint_vouchers.revoked_at IS 'Revoked vouchers are no longer handed out; the signature stays valid on-chain until expires_at';
@@ -0,0 +1,3 @@
+-- Reverts 0018_ipfs_pins
+
+DROP TABLE IF EXISTS ipfs_pins;
@@ -0,0 +1,31 @@
+-- Content pinned to IPFS through the backend
+-- CIDs are computed locally before uploading, so content already pinned with the configured
+-- provider is not uploaded again, and the CID a provider reports is checked against ours
+-- (see src/services/ipfs.ts).
+
+-- =============================================================================
+-- IPFS_PINS TABLE
+-- =============================================================================
+CREATE TABLE ipfs_pins (
+    pin_id SERIAL PRIMARY KEY,
+    cid VARCHAR(100) NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    mime_type VARCHAR(255) NOT NULL,
+    name TEXT,
+
+    -- Who uploaded it (a wallet address or API key, as in describeActor) and what for
+    owner VARCHAR(100),
+    purpose VARCHAR(50) NOT NULL,
+
+    pinned_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_ipfs_pin UNIQUE (cid, provider)
+);
+
+CREATE INDEX idx_ipfs_pins_owner ON ipfs_pins(owner);
+CREATE INDEX idx_ipfs_pins_purpose ON ipfs_pins(purpose, pinned_at DESC);
+
+COMMENT ON TABLE ipfs_pins IS 'IPFS content pinned by the backend, one row per CID and provider';
+COMMENT ON COLUMN ipfs_pins.cid IS 'CIDv1 computed locally and confirmed by the provider';
+COMMENT ON COLUMN ipfs_pins.owner IS 'First uploader; later uploads of the same content reuse the pin';
@@ -0,0 +1,8 @@
+-- Reverts 0019_ipfs_pin_references
+
+DROP TABLE IF EXISTS ipfs_pin_references;
+DROP INDEX IF EXISTS idx_ipfs_pins_unpinned;
+
+ALTER TABLE ipfs_pins
+    DROP COLUMN IF EXISTS unpinned_at,
+    DROP COLUMN IF EXISTS unpinned_by;
@@ -0,0 +1,88 @@
+-- IPFS pin lifecycle
+-- Records what uses each CID (an NFT, a mint job or voucher, or a metadata document using an image),
+-- so content nothing references can be unpinned by the garbage collector (see src/ipfs-gc.ts).
+-- Unpinned content keeps its ipfs_pins row; pinning it again reuses the row.
+
+ALTER TABLE ipfs_pins
+    ADD COLUMN unpinned_at TIMESTAMPTZ,
+    ADD COLUMN unpinned_by VARCHAR(100);
+
+-- =============================================================================
+-- IPFS_PIN_REFERENCES TABLE
+-- =============================================================================
+CREATE TABLE ipfs_pin_references (
+    reference_id SERIAL PRIMARY KEY,
+    cid VARCHAR(100) NOT NULL,
+
+    -- nft (chain_id:token_id), mint_job, mint_voucher, or metadata (the metadata document's CID)
+    referrer_type VARCHAR(20) NOT NULL,
+    referrer_id VARCHAR(100) NOT NULL,
+
+    created_by VARCHAR(100),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_ipfs_pin_reference UNIQUE (cid, referrer_type, referrer_id)
+);
+
+CREATE INDEX idx_ipfs_pin_references_referrer ON ipfs_pin_references(referrer_type, referrer_id);
+CREATE INDEX idx_ipfs_pins_unpinned ON ipfs_pins(provider, pinned_at) WHERE unpinned_at IS NULL;
+
+-- =============================================================================
+-- BACKFILL
+-- =============================================================================
+-- Content pinned before references were recorded. ipfs:// URIs and gateway URLs are read as in
+-- cidFromUri (src/services/ipfs-pins.ts).
+
+-- NFTs minted with an IPFS token URI
+INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+SELECT uri.cid, 'nft', ln.chain_id || ':' || ln.token_id, 'backfill'
+FROM loyalty_nfts ln
+CROSS JOIN LATERAL (
+    SELECT COALESCE(substring(ln.token_uri from '^ipfs://(?:ipfs/)?([A-Za-z0-9]+)'),
+                    substring(ln.token_uri from '^https?://[^/]+/ipfs/([A-Za-z0-9]+)')) AS cid
+) uri
+WHERE uri.cid IS NOT NULL
+ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING;
+
+-- Mint jobs and vouchers with an IPFS token URI
+INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+SELECT uri.cid, 'mint_job', j.job_id::text, 'backfill'
+FROM jobs j
+CROSS JOIN LATERAL (
+    SELECT COALESCE(substring(j.payload->>'tokenUri' from '^ipfs://(?:ipfs/)?([A-Za-z0-9]+)'),
+                    substring(j.payload->>'tokenUri' from '^https?://[^/]+/ipfs/([A-Za-z0-9]+)')) AS cid
+) uri
+WHERE j.job_type = 'nft_mint' AND uri.cid IS NOT NULL
+ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING;
+
+INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+SELECT uri.cid, 'mint_voucher', mv.voucher_id::text, 'backfill'
+FROM mint_vouchers mv
+CROSS JOIN LATERAL (
+    SELECT COALESCE(substring(mv.token_uri from '^ipfs://(?:ipfs/)?([A-Za-z0-9]+)'),
+                    substring(mv.token_uri from '^https?://[^/]+/ipfs/([A-Za-z0-9]+)')) AS cid
+) uri
+WHERE uri.cid IS NOT NULL
+ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING;
+
+-- Images of metadata documents: mint jobs record both CIDs
+INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+SELECT DISTINCT j.payload->'metadata'->>'imageHash', 'metadata', j.payload->'metadata'->>'metadataHash', 'backfill'
+FROM jobs j
+WHERE j.job_type = 'nft_mint'
+  AND j.payload->'metadata'->>'imageHash' ~ '^[A-Za-z0-9]+$'
+  AND j.payload->'metadata'->>'metadataHash' ~ '^[A-Za-z0-9]+$'
+ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING;
+
+-- Other pinned metadata documents are only on IPFS, so their images cannot be read here. Each
+-- keeps everything its owner pinned up to then; unpinning the document releases it.
+INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+SELECT DISTINCT p.cid, 'metadata', d.cid, 'backfill'
+FROM ipfs_pins d
+JOIN ipfs_pins p ON p.provider = d.provider AND p.owner = d.owner AND p.pinned_at <= d.pinned_at
+WHERE d.purpose = 'nft_metadata' AND p.purpose <> 'nft_metadata'
+  AND NOT EXISTS (SELECT 1 FROM ipfs_pin_references r WHERE r.referrer_type = 'metadata' AND r.referrer_id = d.cid)
+ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING;
+
+COMMENT ON TABLE ipfs_pin_references IS 'What uses each pinned CID; content with no references can be garbage collected';
+COMMENT ON COLUMN ipfs_pins.unpinned_at IS 'Set when the content was unpinned from the provider';
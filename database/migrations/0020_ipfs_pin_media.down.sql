@@ -0,0 +1,10 @@
+-- Reverts 0020_ipfs_pin_media
+
+DROP INDEX IF EXISTS idx_ipfs_pins_source;
+
+ALTER TABLE ipfs_pins
+    DROP COLUMN IF EXISTS source_cid,
+    DROP COLUMN IF EXISTS variant,
+    DROP COLUMN IF EXISTS width,
+    DROP COLUMN IF EXISTS height,
+    DROP COLUMN IF EXISTS blurhash;
@@ -0,0 +1,15 @@
+-- Processed media uploads
+-- Images uploaded for NFTs go through src/services/image-pipeline.ts before pinning. The original
+-- records its dimensions and blurhash, and each resized variant is its own pin pointing back at it.
+
+ALTER TABLE ipfs_pins
+    ADD COLUMN source_cid VARCHAR(100),
+    ADD COLUMN variant VARCHAR(20),
+    ADD COLUMN width INTEGER,
+    ADD COLUMN height INTEGER,
+    ADD COLUMN blurhash VARCHAR(100);
+
+CREATE INDEX idx_ipfs_pins_source ON ipfs_pins(source_cid, provider) WHERE source_cid IS NOT NULL;
+
+COMMENT ON COLUMN ipfs_pins.source_cid IS 'For a variant, the CID of the upload it was generated from';
+COMMENT ON COLUMN ipfs_pins.variant IS 'Variant name: thumbnail, 512 or 1024';
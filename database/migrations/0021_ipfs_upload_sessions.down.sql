@@ -0,0 +1,3 @@
+-- Reverts 0021_ipfs_upload_sessions
+
+DROP TABLE IF EXISTS ipfs_upload_sessions;
@@ -0,0 +1,38 @@
+-- Resumable IPFS uploads
+-- Large files, typically videos, are sent in chunks to a session and pinned once complete. Received
+-- bytes are kept in <IPFS_UPLOAD_DIR>/<upload_id>.part until then (see src/services/uploads.ts).
+-- Sessions in progress count against the owner's storage quota.
+
+-- =============================================================================
+-- IPFS_UPLOAD_SESSIONS TABLE
+-- =============================================================================
+CREATE TABLE ipfs_upload_sessions (
+    upload_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner VARCHAR(100) NOT NULL,
+    file_name TEXT NOT NULL,
+    -- Name and key-values to pin the file with
+    pin_name TEXT,
+    pin_metadata JSONB,
+
+    size_bytes BIGINT NOT NULL,
+    received_bytes BIGINT NOT NULL DEFAULT 0,
+    content_type VARCHAR(255),
+
+    status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+    cid VARCHAR(100),
+    error_message TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT valid_upload_status CHECK (status IN ('uploading', 'completing', 'completed', 'aborted', 'expired', 'failed')),
+    CONSTRAINT valid_upload_progress CHECK (received_bytes >= 0 AND received_bytes <= size_bytes)
+);
+
+CREATE INDEX idx_ipfs_upload_sessions_owner ON ipfs_upload_sessions(owner, status);
+CREATE INDEX idx_ipfs_upload_sessions_active ON ipfs_upload_sessions(expires_at) WHERE status IN ('uploading', 'completing');
+
+COMMENT ON TABLE ipfs_upload_sessions IS 'Chunked, resumable uploads pinned to IPFS once all bytes are received';
+COMMENT ON COLUMN ipfs_upload_sessions.content_type IS 'Sniffed from the first bytes received';
+COMMENT ON COLUMN ipfs_upload_sessions.expires_at IS 'Pushed back by each chunk; the sweeper expires the session and deletes its bytes after it';
@@ -0,0 +1,3 @@
+-- Reverts 0022_ipfs_upload_reservations
+
+DROP TABLE IF EXISTS ipfs_upload_reservations;
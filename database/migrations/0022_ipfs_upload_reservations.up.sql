@@ -0,0 +1,22 @@
+-- Quota reservations for single-request uploads
+-- /upload-file, /upload-json, /create-nft-metadata and the demo pins reserve the bytes they may
+-- pin before uploading and release them once done, so concurrent uploads cannot together go over
+-- the owner's quota. Reservations are made under a per-owner advisory lock (see src/services/uploads.ts).
+
+-- =============================================================================
+-- IPFS_UPLOAD_RESERVATIONS TABLE
+-- =============================================================================
+CREATE TABLE ipfs_upload_reservations (
+    reservation_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner VARCHAR(100) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT valid_reservation_size CHECK (size_bytes >= 0)
+);
+
+CREATE INDEX idx_ipfs_upload_reservations_owner ON ipfs_upload_reservations(owner, expires_at);
+
+COMMENT ON TABLE ipfs_upload_reservations IS 'Quota held by single-request uploads in progress';
+COMMENT ON COLUMN ipfs_upload_reservations.expires_at IS 'A reservation left behind by a crash stops counting after it; the upload sweeper deletes it';
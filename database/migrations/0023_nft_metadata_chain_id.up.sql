@@ -0,0 +1,45 @@
+-- NFT metadata by chain
+-- Token IDs restart at 1 on every chain (see 0016_nft_chain_id), so get_nft_metadata(token_id)
+-- returned a row per chain holding that ID. It now takes the chain ID as well.
+
+DROP FUNCTION IF EXISTS get_nft_metadata(INT);
+
+CREATE OR REPLACE FUNCTION get_nft_metadata(p_chain_id INT, p_token_id INT)
+RETURNS TABLE(
+    chain_id INT,
+    token_id INT,
+    owner_wallet_address VARCHAR(42),
+    minted_at TIMESTAMPTZ,
+    loyalty_level INT,
+    loyalty_points INT,
+    flights_taken INT,
+    bank_tier VARCHAR(50),
+    resorts_visited INT,
+    total_spending DECIMAL(12,2),
+    miles_earned INT,
+    status_tier VARCHAR(50),
+    last_updated TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        ln.chain_id,
+        ln.token_id,
+        ln.owner_wallet_address,
+        ln.minted_at,
+        COALESCE(na.loyalty_level, 0) as loyalty_level,
+        COALESCE(na.loyalty_points, 0) as loyalty_points,
+        COALESCE(na.flights_taken, 0) as flights_taken,
+        COALESCE(na.bank_tier, 'Standard') as bank_tier,
+        COALESCE(na.resorts_visited, 0) as resorts_visited,
+        COALESCE(na.total_spending, 0.00) as total_spending,
+        COALESCE(na.miles_earned, 0) as miles_earned,
+        COALESCE(na.status_tier, 'Bronze') as status_tier,
+        COALESCE(na.last_updated, ln.minted_at) as last_updated
+    FROM loyalty_nfts ln
+    LEFT JOIN nft_attributes na ON ln.chain_id = na.chain_id AND ln.token_id = na.nft_token_id
+    WHERE ln.chain_id = p_chain_id AND ln.token_id = p_token_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION get_nft_metadata(INT, INT) IS 'Returns complete NFT metadata for a token on a chain';
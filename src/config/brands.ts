@@ -0,0 +1,31 @@
+/**
+ * Brand Action Configuration
+ * Maps each simulated action type to the brand partner that owns it
+ */
+
+export type ActionType =
+  | 'vietjet_flight_booking'
+  | 'hdbank_transaction'
+  | 'dragon_city_visit'
+  | 'hd_saison_purchase'
+  | 'ha_long_star_booking';
+
+/**
+ * Brand name (brand_partners.brand_name) responsible for each action type
+ */
+export const ACTION_BRAND_NAMES: { [key in ActionType]: string } = {
+  vietjet_flight_booking: 'Vietjet Air',
+  hdbank_transaction: 'HDBank',
+  dragon_city_visit: 'Dragon City',
+  hd_saison_purchase: 'HD Saison',
+  ha_long_star_booking: 'Ha Long Star',
+};
+
+export const VALID_ACTION_TYPES = Object.keys(ACTION_BRAND_NAMES) as ActionType[];
+
+/**
+ * Check whether a string is a supported action type
+ */
+export function isValidActionType(actionType: string): actionType is ActionType {
+  return (VALID_ACTION_TYPES as string[]).includes(actionType);
+}
@@ -1,9 +1,27 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
 import path from 'path';
 
 // Load environment variables from root directory
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
+/**
+ * A chain the backend can talk to, with its own deployment of the three contracts
+ */
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  // In priority order; later URLs are fallbacks
+  rpcUrls: string[];
+  contracts: {
+    registry: string;
+    nft: string;
+    staking: string;
+  };
+  // Block the chain indexer starts from, usually the contracts' deployment block
+  indexerStartBlock: number;
+}
+
 // Configuration interface for the application
 export interface AppConfig {
   port: number;
@@ -17,37 +35,187 @@ export interface AppConfig {
     port: number;
   };
   blockchain: {
-    rpcUrl: string;
-    adminPrivateKey: string;
-    contracts: {
-      registry: string;
-      nft: string;
-      staking: string;
-    };
+    // Network used when a request or token does not name one
+    defaultNetwork: string;
+    // Only profiles with contract addresses configured
+    networks: { [name: string]: NetworkProfile };
+  };
+  // The admin signer, the same on every network
+  signer: {
+    type: 'local' | 'keystore' | 'remote';
+    privateKey: string;
+    keystorePath: string;
+    keystorePassword: string;
+    remoteUrl: string;
+    remoteAddress: string;
+    remoteAuthToken: string;
+    remoteTimeoutMs: number;
+  };
+  rpc: {
+    timeoutMs: number;
+    failureThreshold: number;
+    cooldownMs: number;
+    maxBlockLag: number;
+    cacheTtlMs: number;
   };
   server: {
     jwtSecret: string;
+    accessTokenTtlSeconds: number;
+    refreshTokenTtlSeconds: number;
+    adminApiKey: string;
+  };
+  auth: {
+    siweDomain: string;
+    siweUri: string;
+    chainId: number;
+    nonceTtlSeconds: number;
+  };
+  jobs: {
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+    lockTimeoutSeconds: number;
+  };
+  transactions: {
+    maxFeePerGasGwei: string;
+    maxPriorityFeePerGasGwei: string;
+    stuckAfterBlocks: number;
+    feeBumpPercent: number;
+    pollIntervalMs: number;
+    monitorIntervalMs: number;
+  };
+  nft: {
+    transferPolicy: 'follow_token' | 'stay_with_wallet';
+  };
+  ipfs: {
+    provider: 'pinata' | 'kubo' | 'web3storage' | 'filesystem' | 'memory';
+    gatewayUrl: string;
+    pinataApiKey: string;
+    pinataSecretApiKey: string;
+    kuboApiUrl: string;
+    kuboAuthorization: string;
+    web3StorageUrl: string;
+    web3StorageToken: string;
+    localDir: string;
+    gcMinAgeDays: number;
+    uploadDir: string;
+    userQuotaMb: number;
+    maxResumableUploadMb: number;
+    uploadSessionTtlHours: number;
+    uploadSweepIntervalMs: number;
   };
+  vouchers: {
+    enabled: boolean;
+    ttlSeconds: number;
+    domainName: string;
+    domainVersion: string;
+  };
+  indexer: {
+    enabled: boolean;
+    startBlock: number;
+    batchSize: number;
+    reorgDepth: number;
+    pollIntervalMs: number;
+  };
+  staking: {
+    syncIntervalMs: number;
+    snapshotsEnabled: boolean;
+    snapshotIntervalMs: number;
+  };
+}
+
+/**
+ * Built-in network profiles. Each reads its RPC URLs (comma-separated, in priority order) and
+ * contract addresses from <PREFIX>_RPC_URL and <PREFIX>_CONTRACT_{REGISTRY,NFT,STAKING}_ADDRESS,
+ * and its indexer start block from <PREFIX>_INDEXER_START_BLOCK (default INDEXER_START_BLOCK).
+ */
+const NETWORK_PRESETS = [
+  { name: 'lisk-sepolia', chainId: 4202, envPrefix: 'LISK_SEPOLIA', defaultRpcUrl: 'https://rpc.sepolia-api.lisk.com' },
+  { name: 'lisk-mainnet', chainId: 1135, envPrefix: 'LISK_MAINNET', defaultRpcUrl: 'https://rpc.api.lisk.com' },
+  { name: 'anvil', chainId: 31337, envPrefix: 'ANVIL', defaultRpcUrl: 'http://127.0.0.1:8545' }
+];
+
+/**
+ * Build the enabled network profiles: a network is enabled once all three contract addresses are set
+ * Lisk Sepolia also accepts the older NEXT_PUBLIC_CONTRACT_* variables.
+ */
+function loadNetworks(): { [name: string]: NetworkProfile } {
+  const networks: { [name: string]: NetworkProfile } = {};
+
+  for (const preset of NETWORK_PRESETS) {
+    const contract = (kind: string) =>
+      process.env[`${preset.envPrefix}_CONTRACT_${kind}_ADDRESS`] ||
+      (preset.name === 'lisk-sepolia' ? process.env[`NEXT_PUBLIC_CONTRACT_${kind}_ADDRESS`] : undefined);
+
+    const contracts = { registry: contract('REGISTRY'), nft: contract('NFT'), staking: contract('STAKING') };
+    const configured = Object.values(contracts).filter(Boolean).length;
+    if (configured === 0) {
+      continue;
+    }
+    if (configured < 3) {
+      throw new Error(`Network ${preset.name} needs registry, NFT and staking contract addresses (${preset.envPrefix}_CONTRACT_*_ADDRESS)`);
+    }
+
+    networks[preset.name] = {
+      name: preset.name,
+      chainId: preset.chainId,
+      rpcUrls: (process.env[`${preset.envPrefix}_RPC_URL`] || preset.defaultRpcUrl)
+        .split(',')
+        .map(url => url.trim())
+        .filter(Boolean),
+      contracts: contracts as NetworkProfile['contracts'],
+      indexerStartBlock: parseInt(process.env[`${preset.envPrefix}_INDEXER_START_BLOCK`] || process.env.INDEXER_START_BLOCK || '0')
+    };
+  }
+
+  return networks;
 }
 
 /**
  * Load and validate configuration from environment variables
  */
 export function loadConfig(): AppConfig {
+  const signerType = process.env.SIGNER_TYPE || 'local';
+  if (signerType !== 'local' && signerType !== 'keystore' && signerType !== 'remote') {
+    throw new Error('SIGNER_TYPE must be local, keystore or remote');
+  }
+
   // Validate required environment variables
-  const requiredVars = [
-    'LISK_SEPOLIA_RPC_URL',
-    'ADMIN_PRIVATE_KEY',
-    'NEXT_PUBLIC_CONTRACT_REGISTRY_ADDRESS',
-    'NEXT_PUBLIC_CONTRACT_NFT_ADDRESS',
-    'NEXT_PUBLIC_CONTRACT_STAKING_ADDRESS'
-  ];
+  const requiredVars = {
+    local: ['ADMIN_PRIVATE_KEY'],
+    keystore: ['SIGNER_KEYSTORE_PATH'],
+    remote: ['SIGNER_REMOTE_URL', 'SIGNER_REMOTE_ADDRESS']
+  }[signerType];
+  if (signerType === 'keystore' && !process.env.SIGNER_KEYSTORE_PASSWORD_FILE) {
+    requiredVars.push('SIGNER_KEYSTORE_PASSWORD');
+  }
+
+  // Tokens signed with the placeholder secret would be forgeable in production, and SIWE messages
+  // would have to name localhost
+  if (process.env.NODE_ENV === 'production') {
+    requiredVars.push('JWT_SECRET', 'SIWE_DOMAIN', 'SIWE_URI');
+  }
 
   const missing = requiredVars.filter(varName => !process.env[varName]);
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
+  const networks = loadNetworks();
+  const defaultNetwork = process.env.DEFAULT_NETWORK || 'lisk-sepolia';
+  if (!networks[defaultNetwork]) {
+    throw new Error(`DEFAULT_NETWORK ${defaultNetwork} has no contract addresses configured (enabled: ${Object.keys(networks).join(', ') || 'none'})`);
+  }
+
+  const ipfsProvider = process.env.IPFS_PROVIDER || 'pinata';
+  if (!['pinata', 'kubo', 'web3storage', 'filesystem', 'memory'].includes(ipfsProvider)) {
+    throw new Error('IPFS_PROVIDER must be pinata, kubo, web3storage, filesystem or memory');
+  }
+
+  const transferPolicy = process.env.NFT_TRANSFER_POLICY || 'follow_token';
+  if (transferPolicy !== 'follow_token' && transferPolicy !== 'stay_with_wallet') {
+    throw new Error('NFT_TRANSFER_POLICY must be follow_token or stay_with_wallet');
+  }
+
   return {
     port: parseInt(process.env.PORT || '3002'),
     nodeEnv: process.env.NODE_ENV || 'development',
@@ -60,16 +228,97 @@ export function loadConfig(): AppConfig {
       port: parseInt(process.env.PGPORT || '5432'),
     },
     blockchain: {
-      rpcUrl: process.env.LISK_SEPOLIA_RPC_URL!,
-      adminPrivateKey: process.env.ADMIN_PRIVATE_KEY!,
-      contracts: {
-        registry: process.env.NEXT_PUBLIC_CONTRACT_REGISTRY_ADDRESS!,
-        nft: process.env.NEXT_PUBLIC_CONTRACT_NFT_ADDRESS!,
-        staking: process.env.NEXT_PUBLIC_CONTRACT_STAKING_ADDRESS!,
-      },
+      defaultNetwork,
+      networks,
+    },
+    signer: {
+      // local: ADMIN_PRIVATE_KEY; keystore: an encrypted JSON keystore file; remote: an HTTP signing service
+      type: signerType,
+      privateKey: process.env.ADMIN_PRIVATE_KEY || '',
+      keystorePath: process.env.SIGNER_KEYSTORE_PATH || '',
+      // A password file keeps the password out of the environment, e.g. a mounted secret
+      keystorePassword: process.env.SIGNER_KEYSTORE_PASSWORD_FILE
+        ? fs.readFileSync(process.env.SIGNER_KEYSTORE_PASSWORD_FILE, 'utf8').trim()
+        : process.env.SIGNER_KEYSTORE_PASSWORD || '',
+      remoteUrl: (process.env.SIGNER_REMOTE_URL || '').replace(/\/+$/, ''),
+      remoteAddress: process.env.SIGNER_REMOTE_ADDRESS || '', // every remote signature is checked against it
+      remoteAuthToken: process.env.SIGNER_REMOTE_TOKEN || '',
+      remoteTimeoutMs: parseInt(process.env.SIGNER_REMOTE_TIMEOUT_MS || '10000'),
+    },
+    rpc: {
+      timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '10000'),
+      failureThreshold: parseInt(process.env.RPC_FAILURE_THRESHOLD || '3'), // consecutive failures before a cooldown
+      cooldownMs: parseInt(process.env.RPC_COOLDOWN_MS || '30000'), // doubles while the endpoint keeps failing
+      maxBlockLag: parseInt(process.env.RPC_MAX_BLOCK_LAG || '5'), // endpoints further behind are tried last
+      cacheTtlMs: parseInt(process.env.RPC_CACHE_TTL_MS || '2000'), // about one Lisk block; 0 disables the read cache
     },
     server: {
       jwtSecret: process.env.JWT_SECRET || 'your_jwt_secret_here',
+      accessTokenTtlSeconds: parseInt(process.env.JWT_ACCESS_TTL_SECONDS || '900'), // 15 minutes
+      refreshTokenTtlSeconds: parseInt(process.env.JWT_REFRESH_TTL_SECONDS || '2592000'), // 30 days
+      adminApiKey: process.env.ADMIN_API_KEY || '', // bootstrap key for creating the first API keys
+    },
+    auth: {
+      siweDomain: process.env.SIWE_DOMAIN || 'localhost:3001',
+      siweUri: process.env.SIWE_URI || 'http://localhost:3001',
+      chainId: parseInt(process.env.SIWE_CHAIN_ID || '4202'), // Lisk Sepolia
+      nonceTtlSeconds: parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '600'), // 10 minutes
+    },
+    jobs: {
+      workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+      pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000'),
+      lockTimeoutSeconds: parseInt(process.env.JOB_LOCK_TIMEOUT_SECONDS || '600'), // reclaim jobs from crashed workers
+    },
+    transactions: {
+      maxFeePerGasGwei: process.env.TX_MAX_FEE_PER_GAS_GWEI || '50',
+      maxPriorityFeePerGasGwei: process.env.TX_MAX_PRIORITY_FEE_PER_GAS_GWEI || '2',
+      stuckAfterBlocks: parseInt(process.env.TX_STUCK_AFTER_BLOCKS || '20'),
+      feeBumpPercent: Math.max(parseInt(process.env.TX_FEE_BUMP_PERCENT || '25'), 10), // nodes reject replacements below +10%
+      pollIntervalMs: parseInt(process.env.TX_POLL_INTERVAL_MS || '3000'),
+      monitorIntervalMs: parseInt(process.env.TX_MONITOR_INTERVAL_MS || '15000'),
+    },
+    nft: {
+      // follow_token: attributes move with a transferred NFT; stay_with_wallet: the sender keeps them and the NFT is reset
+      transferPolicy,
+    },
+    ipfs: {
+      // filesystem and memory compute CIDs locally and pin nothing to the network, for development and tests
+      provider: ipfsProvider as AppConfig['ipfs']['provider'],
+      gatewayUrl: (process.env.IPFS_GATEWAY_URL || 'https://gateway.pinata.cloud').replace(/\/+$/, ''),
+      pinataApiKey: process.env.PINATA_API_KEY || '',
+      pinataSecretApiKey: process.env.PINATA_SECRET_API_KEY || '',
+      kuboApiUrl: (process.env.IPFS_KUBO_API_URL || 'http://127.0.0.1:5001').replace(/\/+$/, ''),
+      kuboAuthorization: process.env.IPFS_KUBO_AUTHORIZATION || '', // Authorization header for a Kubo API behind a proxy
+      web3StorageUrl: (process.env.IPFS_WEB3STORAGE_URL || 'https://api.web3.storage').replace(/\/+$/, ''),
+      web3StorageToken: process.env.IPFS_WEB3STORAGE_TOKEN || '',
+      localDir: process.env.IPFS_LOCAL_DIR || path.resolve(__dirname, '../../ipfs-data'),
+      gcMinAgeDays: parseInt(process.env.IPFS_GC_MIN_AGE_DAYS || '30'), // unreferenced pins younger than this are kept
+      uploadDir: process.env.IPFS_UPLOAD_DIR || path.resolve(__dirname, '../../uploads'), // resumable uploads in progress
+      userQuotaMb: parseInt(process.env.IPFS_USER_QUOTA_MB || '1024'), // pinned plus in-progress bytes per uploader; 0 for no limit
+      maxResumableUploadMb: parseInt(process.env.IPFS_MAX_RESUMABLE_UPLOAD_MB || '2048'),
+      uploadSessionTtlHours: parseInt(process.env.IPFS_UPLOAD_SESSION_TTL_HOURS || '24'), // from the last chunk received
+      uploadSweepIntervalMs: parseInt(process.env.IPFS_UPLOAD_SWEEP_INTERVAL_MS || '900000'),
+    },
+    vouchers: {
+      // Gasless minting: needs an NFT contract with redeem(voucher, signature)
+      enabled: process.env.VOUCHERS_ENABLED === 'true',
+      ttlSeconds: parseInt(process.env.VOUCHER_TTL_SECONDS || '3600'), // revocation cannot stop an issued voucher, so keep this short
+      domainName: process.env.VOUCHER_DOMAIN_NAME || 'GomGomNFT', // must match the contract's EIP-712 domain
+      domainVersion: process.env.VOUCHER_DOMAIN_VERSION || '1',
+    },
+    indexer: {
+      enabled: process.env.INDEXER_ENABLED === 'true',
+      startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'), // the contracts' deployment block; networks override it
+      batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '2000'), // blocks per eth_getLogs request
+      reorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH || '12'), // deepest reorg that is rolled back
+      pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '10000'),
+    },
+    staking: {
+      // How often ETH-days are accrued and turned into points
+      syncIntervalMs: parseInt(process.env.STAKING_SYNC_INTERVAL_MS || '3600000'),
+      // Daily StakingPool totals; the check only takes one when today has none
+      snapshotsEnabled: process.env.STAKING_SNAPSHOTS_ENABLED !== 'false',
+      snapshotIntervalMs: parseInt(process.env.STAKING_SNAPSHOT_INTERVAL_MS || '3600000'),
     },
   };
 }
@@ -1,6 +1,7 @@
 /**
  * NFT Level Configuration
- * Maps loyalty levels to their corresponding IPFS image CIDs
+ * Level definitions live in the loyalty_levels table (see src/services/levels.ts);
+ * this module holds the shared types, the level calculation and NFT constants.
  */
 
 export interface LevelConfig {
@@ -8,6 +9,7 @@ export interface LevelConfig {
   name: string;
   description: string;
   imageCid: string;
+  statusTier: string;
   minRequirements: {
     loyaltyPoints?: number;
     flightsTaken?: number;
@@ -16,9 +18,19 @@ export interface LevelConfig {
   };
 }
 
+/**
+ * Bank tiers from lowest to highest (same order as bank_tier_rank() in SQL)
+ */
+export const BANK_TIER_HIERARCHY = ['Standard', 'Silver', 'Gold', 'Platinum', 'Diamond'];
+
+/**
+ * Status tiers from lowest to highest (nft_attributes.status_tier)
+ */
+export const STATUS_TIER_HIERARCHY = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'];
+
 /**
  * Image CID mapping for each loyalty level
- * These CIDs correspond to the images provided in the task
+ * Only used for mock metadata when the database is unavailable; loyalty_levels.image_cid is authoritative.
  */
 export const LEVEL_IMAGE_MAP: { [key: number]: string } = {
   0: 'bafkreihs44bfkpmh2wnuec3b567difnksanta37x7dtbnmlcylwn7h6gw4', // Level 0: Firework (Starting level)
@@ -31,106 +43,6 @@ export const LEVEL_IMAGE_MAP: { [key: number]: string } = {
   7: 'bafybeie36og74jvgzjisjwzxs5c75rcm7e4g7qj6jmvyszxldp5nexyfly', // Level 7: Golden Crown (Highest level)
 };
 
-/**
- * Detailed level configuration with requirements and descriptions
- */
-export const LEVEL_CONFIGS: LevelConfig[] = [
-  {
-    level: 0,
-    name: 'Explorer',
-    description: 'Welcome to GomGom! Start your loyalty journey.',
-    imageCid: LEVEL_IMAGE_MAP[0],
-    minRequirements: {
-      loyaltyPoints: 0,
-      flightsTaken: 0,
-      totalSpending: 0,
-    }
-  },
-  {
-    level: 1,
-    name: 'Bronze Traveler',
-    description: 'You\'re getting started with your travels!',
-    imageCid: LEVEL_IMAGE_MAP[1],
-    minRequirements: {
-      loyaltyPoints: 1000,
-      flightsTaken: 2,
-      totalSpending: 5000000, // 5M VND
-    }
-  },
-  {
-    level: 2,
-    name: 'Silver Navigator',
-    description: 'You\'re becoming a seasoned traveler!',
-    imageCid: LEVEL_IMAGE_MAP[2],
-    minRequirements: {
-      loyaltyPoints: 2500,
-      flightsTaken: 5,
-      totalSpending: 15000000, // 15M VND
-      bankTier: 'Silver',
-    }
-  },
-  {
-    level: 3,
-    name: 'Gold Adventurer',
-    description: 'Your adventures are truly impressive!',
-    imageCid: LEVEL_IMAGE_MAP[3],
-    minRequirements: {
-      loyaltyPoints: 5000,
-      flightsTaken: 10,
-      totalSpending: 35000000, // 35M VND
-      bankTier: 'Gold',
-    }
-  },
-  {
-    level: 4,
-    name: 'Diamond Explorer',
-    description: 'You\'re a true connoisseur of luxury travel!',
-    imageCid: LEVEL_IMAGE_MAP[4],
-    minRequirements: {
-      loyaltyPoints: 10000,
-      flightsTaken: 20,
-      totalSpending: 75000000, // 75M VND
-      bankTier: 'Platinum',
-    }
-  },
-  {
-    level: 5,
-    name: 'Platinum Voyager',
-    description: 'Your loyalty and engagement are exceptional!',
-    imageCid: LEVEL_IMAGE_MAP[5],
-    minRequirements: {
-      loyaltyPoints: 20000,
-      flightsTaken: 35,
-      totalSpending: 150000000, // 150M VND
-      bankTier: 'Platinum',
-    }
-  },
-  {
-    level: 6,
-    name: 'Elite Wings',
-    description: 'You\'ve reached the pinnacle of travel excellence!',
-    imageCid: LEVEL_IMAGE_MAP[6],
-    minRequirements: {
-      loyaltyPoints: 35000,
-      flightsTaken: 50,
-      totalSpending: 300000000, // 300M VND
-      bankTier: 'Diamond',
-    }
-  },
-  {
-    level: 7,
-    name: 'Royal Crown',
-    description: 'You are the ultimate GomGom loyalty member!',
-    imageCid: LEVEL_IMAGE_MAP[7],
-    minRequirements: {
-      loyaltyPoints: 50000,
-      flightsTaken: 75,
-      totalSpending: 500000000, // 500M VND
-      bankTier: 'Diamond',
-    }
-  },
-];
-
 /**
  * Configuration constants
  */
@@ -153,24 +65,25 @@ export const NFT_CONFIG = {
 /**
  * Get level configuration by level number
  */
-export function getLevelConfig(level: number): LevelConfig | null {
-  return LEVEL_CONFIGS.find(config => config.level === level) || null;
+export function getLevelConfig(levels: LevelConfig[], level: number): LevelConfig | null {
+  return levels.find(config => config.level === level) || null;
 }
 
 /**
  * Calculate user's loyalty level based on their attributes
+ * Mirrors loyalty_level_for() in SQL: the highest level whose requirements are all met.
  */
 export function calculateLoyaltyLevel(attributes: {
   loyaltyPoints: number;
   flightsTaken: number;
   totalSpending: number;
   bankTier: string;
-}): number {
+}, levels: LevelConfig[]): number {
   let level = 0;
   
   // Check each level from highest to lowest
-  for (let i = LEVEL_CONFIGS.length - 1; i >= 0; i--) {
-    const config = LEVEL_CONFIGS[i];
+  const sorted = [...levels].sort((a, b) => b.level - a.level);
+  for (const config of sorted) {
     const requirements = config.minRequirements;
     
     // Check if user meets all requirements for this level
@@ -179,9 +92,8 @@ export function calculateLoyaltyLevel(attributes: {
     const meetsSpending = attributes.totalSpending >= (requirements.totalSpending || 0);
     
     // Bank tier comparison (hierarchy: Standard < Silver < Gold < Platinum < Diamond)
-    const bankTierHierarchy = ['Standard', 'Silver', 'Gold', 'Platinum', 'Diamond'];
-    const userTierIndex = bankTierHierarchy.indexOf(attributes.bankTier);
-    const requiredTierIndex = requirements.bankTier ? bankTierHierarchy.indexOf(requirements.bankTier) : 0;
+    const userTierIndex = BANK_TIER_HIERARCHY.indexOf(attributes.bankTier);
+    const requiredTierIndex = requirements.bankTier ? BANK_TIER_HIERARCHY.indexOf(requirements.bankTier) : 0;
     const meetsBankTier = userTierIndex >= requiredTierIndex;
     
     if (meetsPoints && meetsFlights && meetsSpending && meetsBankTier) {
@@ -194,10 +106,10 @@ export function calculateLoyaltyLevel(attributes: {
 }
 
 /**
- * Generate metadata URL for a specific token ID
+ * Generate metadata URL for a token; token IDs repeat across chains, so the URL names the chain
  */
-export function generateMetadataUrl(tokenId: number): string {
-  return `${NFT_CONFIG.METADATA_BASE_URL}/${tokenId}`;
+export function generateMetadataUrl(chainId: number, tokenId: number): string {
+  return `${NFT_CONFIG.METADATA_BASE_URL}/${chainId}/${tokenId}`;
 }
 
 /**
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { databaseService } from '../services/database';
+import { isValidActionType, VALID_ACTION_TYPES } from '../config/brands';
+import { PointsRuleError } from '../services/points';
 
 /**
  * Simulate user action controller
@@ -19,18 +21,10 @@ export const simulateAction = async (req: Request, res: Response): Promise<void>
     }
 
     // Validate action type
-    const validActionTypes = [
-      'vietjet_flight_booking',
-      'hdbank_transaction',
-      'dragon_city_visit',
-      'hd_saison_purchase',
-      'ha_long_star_booking'
-    ];
-
-    if (!validActionTypes.includes(actionType)) {
+    if (!isValidActionType(actionType)) {
       res.status(400).json({
         status: 'error',
-        message: `Invalid action type. Valid types: ${validActionTypes.join(', ')}`
+        message: `Invalid action type. Valid types: ${VALID_ACTION_TYPES.join(', ')}`
       });
       return;
     }
@@ -54,6 +48,14 @@ export const simulateAction = async (req: Request, res: Response): Promise<void>
       details
     });
   } catch (error) {
+    if (error instanceof PointsRuleError) {
+      res.status(400).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Error in simulateAction controller:', error);
     res.status(500).json({
       status: 'error',
@@ -82,10 +84,11 @@ export const getActionHistory = async (req: Request, res: Response): Promise<voi
 
     // Get action history from database
     const query = `
-      SELECT action_id, action_type, details, points_earned, created_at
+      SELECT action_id, action_type, action_details AS details, brand_id,
+             points_earned, action_timestamp AS created_at
       FROM user_actions 
-      WHERE user_id = $1 
-      ORDER BY created_at DESC 
+      WHERE user_wallet_address = $1 
+      ORDER BY action_timestamp DESC, action_id DESC 
       LIMIT $2 OFFSET $3
     `;
 
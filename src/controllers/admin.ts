@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { accessService, ELEVATED_ROLES } from '../services/access';
+import { databaseService } from '../services/database';
+
+/**
+ * Create API key controller
+ * POST /api/admin/api-keys
+ */
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, brandId, label } = req.body;
+
+    // Validate request body
+    if (!role || !ELEVATED_ROLES.includes(role)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Valid role is required. Valid roles: ${ELEVATED_ROLES.join(', ')}`
+      });
+      return;
+    }
+
+    if ((role === 'brand_partner') !== (brandId != null)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Brand ID is required for brand_partner keys and not allowed for other roles'
+      });
+      return;
+    }
+
+    const { apiKey, record } = await accessService.createApiKey({
+      role,
+      brandId: brandId != null ? parseInt(brandId) : undefined,
+      label
+    });
+
+    res.status(201).json({
+      status: 'success',
+      apiKey,
+      data: record,
+      message: 'Store this API key now. It cannot be shown again.'
+    });
+  } catch (error) {
+    console.error('Error in createApiKey controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List API keys controller
+ * GET /api/admin/api-keys
+ */
+export const listApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await accessService.listApiKeys();
+
+    res.status(200).json({
+      status: 'success',
+      data: keys
+    });
+  } catch (error) {
+    console.error('Error in listApiKeys controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Revoke API key controller
+ * DELETE /api/admin/api-keys/:keyId
+ */
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keyId = parseInt(req.params.keyId);
+
+    if (isNaN(keyId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid key ID is required'
+      });
+      return;
+    }
+
+    const revoked = await accessService.revokeApiKey(keyId);
+
+    if (!revoked) {
+      res.status(404).json({
+        status: 'error',
+        message: 'API key not found or already revoked'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    console.error('Error in revokeApiKey controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Grant wallet role controller
+ * PUT /api/admin/wallet-roles/:walletAddress
+ */
+export const setWalletRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { walletAddress } = req.params;
+    const { role, brandId } = req.body;
+
+    if (!ethers.utils.isAddress(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    if (!role || !ELEVATED_ROLES.includes(role)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Valid role is required. Valid roles: ${ELEVATED_ROLES.join(', ')}`
+      });
+      return;
+    }
+
+    if ((role === 'brand_partner') !== (brandId != null)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Brand ID is required for brand_partner roles and not allowed for other roles'
+      });
+      return;
+    }
+
+    await accessService.setWalletRole(walletAddress, role, brandId != null ? parseInt(brandId) : undefined);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Role granted. It applies from the wallet\'s next sign-in or token refresh.'
+    });
+  } catch (error) {
+    console.error('Error in setWalletRole controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Remove wallet role controller
+ * DELETE /api/admin/wallet-roles/:walletAddress
+ */
+export const removeWalletRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const removed = await accessService.removeWalletRole(req.params.walletAddress);
+
+    if (!removed) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Wallet has no elevated role'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Role removed'
+    });
+  } catch (error) {
+    console.error('Error in removeWalletRole controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Brand analytics controller (brand partners only see their own brand)
+ * GET /api/admin/brands/analytics
+ */
+export const getBrandAnalytics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const brandId = req.auth?.role === 'brand_partner' ? req.auth.brandId : null;
+
+    const query = brandId
+      ? 'SELECT * FROM brand_analytics WHERE brand_id = $1'
+      : 'SELECT * FROM brand_analytics';
+
+    const result = await databaseService.executeQuery(query, brandId ? [brandId] : []);
+
+    res.status(200).json({
+      status: 'success',
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error in getBrandAnalytics controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { authService, AuthError } from '../services/auth';
+
+/**
+ * Send an auth failure as 401 and anything else as 500
+ */
+function handleAuthError(res: Response, error: unknown, context: string): void {
+  if (error instanceof AuthError) {
+    res.status(401).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`Error in ${context} controller:`, error);
+  res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
+
+/**
+ * Issue SIWE nonce controller
+ * GET /api/auth/nonce?walletAddress=0x...
+ */
+export const getNonce = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const walletAddress = req.query.walletAddress as string | undefined;
+
+    // Validate wallet address
+    if (!walletAddress || !ethers.utils.isAddress(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    const result = await authService.createNonce(walletAddress);
+
+    res.status(200).json({
+      status: 'success',
+      ...result
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'getNonce');
+  }
+};
+
+/**
+ * Verify signed SIWE message controller
+ * POST /api/auth/verify
+ */
+export const verifySignIn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { message, signature } = req.body;
+
+    // Validate request body
+    if (!message || !signature) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Message and signature are required'
+      });
+      return;
+    }
+
+    const tokens = await authService.verifySignIn(message, signature);
+
+    res.status(200).json({
+      status: 'success',
+      ...tokens
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'verifySignIn');
+  }
+};
+
+/**
+ * Refresh tokens controller
+ * POST /api/auth/refresh
+ */
+export const refreshTokens = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Refresh token is required'
+      });
+      return;
+    }
+
+    const tokens = await authService.refreshSession(refreshToken);
+
+    res.status(200).json({
+      status: 'success',
+      ...tokens
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'refreshTokens');
+  }
+};
+
+/**
+ * Logout controller (revokes the refresh-token session)
+ * POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Refresh token is required'
+      });
+      return;
+    }
+
+    await authService.logout(refreshToken);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'logout');
+  }
+};
+
+/**
+ * Current session controller
+ * GET /api/auth/me
+ */
+export const getMe = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    status: 'success',
+    walletAddress: req.auth!.walletAddress,
+    role: req.auth!.role,
+    brandId: req.auth!.brandId
+  });
+};
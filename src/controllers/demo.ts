@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
-import { IpfsService } from '../services/ipfs';
+import { IpfsService, IpfsUploadLimitError } from '../services/ipfs';
+import { uploadService } from '../services/uploads';
+import { describeActor } from '../middleware/auth';
 import path from 'path';
 import fs from 'fs';
 
@@ -8,6 +10,27 @@ import fs from 'fs';
  * These endpoints are for demonstration and testing purposes
  */
 
+/**
+ * Pin while sizeBytes are reserved against the caller's quota; admins have no quota
+ */
+function withReservation<T>(req: Request, sizeBytes: number, upload: () => Promise<T>): Promise<T> {
+  return uploadService.withReservation({
+    owner: describeActor(req),
+    sizeBytes,
+    enforceQuota: req.auth!.role !== 'admin'
+  }, upload);
+}
+
+/**
+ * Send a quota refusal as 413 and anything else as 500
+ */
+function sendError(res: Response, error: any): void {
+  res.status(error instanceof IpfsUploadLimitError ? error.statusCode : 500).json({
+    success: false,
+    message: error.message
+  });
+}
+
 /**
  * Test IPFS connection
  * GET /api/demo/ipfs/test
@@ -19,6 +42,7 @@ export const testIPFSConnection = async (req: Request, res: Response): Promise<v
     res.json({
       success: true,
       connected: isConnected,
+      provider: IpfsService.getProviderName(),
       message: isConnected ? 'IPFS connection successful' : 'IPFS connection failed'
     });
   } catch (error: any) {
@@ -58,14 +82,15 @@ export const createSampleNFTMetadata = async (req: Request, res: Response): Prom
     });
 
     // Upload to IPFS
-    const metadataHash = await IpfsService.pinJSONToIPFS(sampleMetadata, {
+    const metadataHash = await withReservation(req, Buffer.byteLength(JSON.stringify(sampleMetadata)), () => IpfsService.pinJSONToIPFS(sampleMetadata, {
       name: 'GomGom Demo NFT #1 - Metadata',
+      owner: describeActor(req),
       metadata: {
         type: 'nft_metadata',
         nft_name: 'GomGom Demo NFT #1',
         category: 'demo'
       }
-    });
+    }));
 
     res.json({
       success: true,
@@ -77,10 +102,7 @@ export const createSampleNFTMetadata = async (req: Request, res: Response): Prom
     });
 
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: error.message
-    });
+    sendError(res, error);
   }
 };
 
@@ -120,15 +142,16 @@ export const createSampleGallery = async (req: Request, res: Response): Promise<
         externalUrl: `https://gomgom.com/nft/demo-${i}`
       });
 
-      const metadataHash = await IpfsService.pinJSONToIPFS(metadata, {
+      const metadataHash = await withReservation(req, Buffer.byteLength(JSON.stringify(metadata)), () => IpfsService.pinJSONToIPFS(metadata, {
         name: `GomGom Demo NFT #${i} - Metadata`,
+        owner: describeActor(req),
         metadata: {
           type: 'nft_metadata',
           nft_name: `GomGom Demo NFT #${i}`,
           category: 'demo',
           demo_id: i
         }
-      });
+      }));
 
       results.push({
         id: i,
@@ -150,10 +173,7 @@ export const createSampleGallery = async (req: Request, res: Response): Promise<
     });
 
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: error.message
-    });
+    sendError(res, error);
   }
 };
 
@@ -219,13 +239,14 @@ export const uploadSampleImage = async (req: Request, res: Response): Promise<vo
       fs.writeFileSync(tempPath, demoContent);
 
       try {
-        const imageHash = await IpfsService.pinFileToIPFS(tempPath, {
+        const imageHash = await withReservation(req, fs.statSync(tempPath).size, () => IpfsService.pinFileToIPFS(tempPath, {
           name: 'GomGom Demo Image',
+          owner: describeActor(req),
           metadata: {
             type: 'demo_image',
             category: 'sample'
           }
-        });
+        }));
 
         // Clean up temp file
         fs.unlinkSync(tempPath);
@@ -246,13 +267,14 @@ export const uploadSampleImage = async (req: Request, res: Response): Promise<vo
       }
     } else {
       // Upload actual image file
-      const imageHash = await IpfsService.pinFileToIPFS(imagePath, {
+      const imageHash = await withReservation(req, fs.statSync(imagePath).size, () => IpfsService.pinFileToIPFS(imagePath, {
         name: imageName,
+        owner: describeActor(req),
         metadata: {
           type: 'demo_image',
           category: 'sample'
         }
-      });
+      }));
 
       res.json({
         success: true,
@@ -263,10 +285,7 @@ export const uploadSampleImage = async (req: Request, res: Response): Promise<vo
     }
 
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: error.message
-    });
+    sendError(res, error);
   }
 };
 
@@ -284,13 +303,14 @@ export const completeWorkflowDemo = async (req: Request, res: Response): Promise
     const tempImagePath = path.join(__dirname, '../../temp-workflow-image.txt');
     fs.writeFileSync(tempImagePath, demoImageContent);
 
-    const imageHash = await IpfsService.pinFileToIPFS(tempImagePath, {
+    const imageHash = await withReservation(req, fs.statSync(tempImagePath).size, () => IpfsService.pinFileToIPFS(tempImagePath, {
       name: 'GomGom Workflow Demo Image',
+      owner: describeActor(req),
       metadata: {
         type: 'demo_image',
         workflow: 'complete_demo'
       }
-    });
+    }));
     workflow.push(`✅ Image uploaded: ${imageHash}`);
 
     // Step 2: Create and upload metadata
@@ -307,13 +327,14 @@ export const completeWorkflowDemo = async (req: Request, res: Response): Promise
       externalUrl: 'https://gomgom.com/demo/workflow'
     });
 
-    const metadataHash = await IpfsService.pinJSONToIPFS(metadata, {
+    const metadataHash = await withReservation(req, Buffer.byteLength(JSON.stringify(metadata)), () => IpfsService.pinJSONToIPFS(metadata, {
       name: 'GomGom Workflow Demo - Metadata',
+      owner: describeActor(req),
       metadata: {
         type: 'nft_metadata',
         workflow: 'complete_demo'
       }
-    });
+    }));
     workflow.push(`✅ Metadata uploaded: ${metadataHash}`);
 
     // Step 3: Generate token URI
@@ -339,9 +360,6 @@ export const completeWorkflowDemo = async (req: Request, res: Response): Promise
     });
 
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: error.message
-    });
+    sendError(res, error);
   }
 };
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { jobService, JobError } from '../services/jobs';
+
+const JOB_STATUSES = ['pending', 'running', 'completed', 'dead_letter'];
+
+/**
+ * Get a job's status and progress
+ * GET /api/jobs/:jobId
+ */
+export const getJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid job ID'
+      });
+      return;
+    }
+
+    const job = await jobService.getJob(jobId);
+
+    // Wallet users only see jobs for their own wallet; others get the same 404 as a missing job
+    const ownWallet = req.auth!.role !== 'user' || job?.payload?.walletAddress === req.auth!.walletAddress;
+    if (!job || !ownWallet) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Job not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: job
+    });
+  } catch (error) {
+    console.error('Error in getJob controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List jobs, e.g. the dead letter
+ * GET /api/admin/jobs?status=dead_letter&type=nft_mint
+ */
+export const listJobs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status as string | undefined;
+    const jobType = req.query.type as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid status. Valid statuses: ${JOB_STATUSES.join(', ')}`
+      });
+      return;
+    }
+    if (isNaN(limit) || limit < 1 || limit > 500) {
+      res.status(400).json({
+        status: 'error',
+        message: 'limit must be between 1 and 500'
+      });
+      return;
+    }
+
+    const jobs = await jobService.listJobs({ status, jobType, limit });
+
+    res.status(200).json({
+      status: 'success',
+      data: jobs
+    });
+  } catch (error) {
+    console.error('Error in listJobs controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Requeue a dead-letter job
+ * POST /api/admin/jobs/:jobId/retry
+ */
+export const retryJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid job ID'
+      });
+      return;
+    }
+
+    const job = await jobService.retry(jobId);
+    if (!job) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Job not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: job,
+      message: 'Job requeued'
+    });
+  } catch (error) {
+    if (error instanceof JobError) {
+      res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Error in retryJob controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
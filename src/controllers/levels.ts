@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { levelService, LevelConfigError, LevelInput, LEVEL_FIELDS } from '../services/levels';
+import { describeActor } from '../middleware/auth';
+
+/**
+ * List loyalty levels controller
+ * GET /api/admin/levels
+ */
+export const listLoyaltyLevels = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const levels = await levelService.refresh();
+
+    res.status(200).json({
+      status: 'success',
+      data: levels
+    });
+  } catch (error) {
+    console.error('Error in listLoyaltyLevels controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Update loyalty level controller
+ * PUT /api/admin/levels/:level
+ */
+export const updateLoyaltyLevel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const level = parseInt(req.params.level);
+
+    if (isNaN(level)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid level number is required'
+      });
+      return;
+    }
+
+    const changes: LevelInput = Object.fromEntries(
+      LEVEL_FIELDS
+        .filter(field => req.body[field] !== undefined)
+        .map(field => [field, req.body[field]])
+    );
+    const unknown = Object.keys(req.body || {}).filter(key => !LEVEL_FIELDS.includes(key as keyof LevelInput));
+
+    if (unknown.length > 0) {
+      res.status(400).json({
+        status: 'error',
+        message: `Unknown level field: ${unknown.join(', ')}`
+      });
+      return;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No level fields to update'
+      });
+      return;
+    }
+
+    const result = await levelService.updateLevel(level, changes, describeActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Loyalty level not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: result.level,
+      message: `Level ${level} updated; ${result.nftsRecalculated} NFT(s) changed level or status tier`
+    });
+  } catch (error) {
+    if (error instanceof LevelConfigError) {
+      res.status(400).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Error in updateLoyaltyLevel controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
@@ -1,14 +1,21 @@
 import { Request, Response } from 'express';
-import { blockchainService } from '../services/blockchain';
+import { getBlockchainServiceForChain, RpcUnavailableError, UnknownNetworkError } from '../services/blockchain';
 import { databaseService } from '../services/database';
-import { IpfsService } from '../services/ipfs';
+import { PointsRuleError } from '../services/points';
+import { IpfsIntegrityError, IpfsService } from '../services/ipfs';
+import { MediaPipelineError } from '../services/image-pipeline';
+import { ipfsPinService } from '../services/ipfs-pins';
+import { metadataRefreshService } from '../services/metadata-refresh';
+import { mintService } from '../services/mint';
+import { ownershipService } from '../services/ownership';
+import { voucherService } from '../services/vouchers';
 import { generateMetadataUrl, NFT_CONFIG } from '../config/nft-levels';
 import path from 'path';
 import fs from 'fs';
 
 /**
  * Mint NFT controller with Dynamic Metadata API
- * POST /api/nfts/mint
+ * POST /api/nfts/mint?network=lisk-sepolia
  */
 export const mintNFT = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -36,7 +43,8 @@ export const mintNFT = async (req: Request, res: Response): Promise<void> => {
     }
 
     // Check if user already owns an NFT (blockchain check)
-    const ownsNFT = await blockchainService.userOwnsNFT(userAddress);
+    const blockchain = req.blockchain!;
+    const ownsNFT = await blockchain.userOwnsNFT(userAddress);
     if (ownsNFT) {
       res.status(400).json({
         status: 'error',
@@ -45,62 +53,42 @@ export const mintNFT = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Get the expected token ID for the static metadata URL
-    const currentSupply = await blockchainService.getTotalSupply();
-    const expectedTokenId = currentSupply + 1;
-    
-    // Generate static metadata URL that points to our dynamic API
-    const staticTokenURI = generateMetadataUrl(expectedTokenId);
-    
-    console.log(`📋 Generated static tokenURI: ${staticTokenURI}`);
+    // An outstanding voucher can still be redeemed, which would give the wallet two NFTs
+    if (await rejectOutstandingVoucher(res, userAddress)) {
+      return;
+    }
 
-    // Mint NFT on blockchain with static metadata URL
-    const mintResult = await blockchainService.mintNFTWithURI(userAddress, staticTokenURI);
-    
-    console.log(`⛓️ NFT minted on blockchain: Token ID ${mintResult.tokenId}`);
-
-    // Create database records with initial attributes
-    await databaseService.createNFTRecord(
-      userAddress,
-      mintResult.tokenId,
-      mintResult.transactionHash,
-      {
-        name: `${NFT_CONFIG.DEFAULT_NAME_PREFIX} #${mintResult.tokenId}`,
-        description: NFT_CONFIG.DEFAULT_DESCRIPTION,
-        tokenUri: staticTokenURI,
-        attributes: [
-          { trait_type: 'Loyalty Level', value: 0 },
-          { trait_type: 'Level Name', value: 'Explorer' },
-          { trait_type: 'Loyalty Points', value: 0 },
-          { trait_type: 'Flights Taken', value: 0 },
-          { trait_type: 'Bank Tier', value: 'Standard' },
-          { trait_type: 'Status Tier', value: 'Bronze' },
-          { trait_type: 'Rarity', value: 'Common' }
-        ]
-      }
-    );
+    // The mint runs as a job; the token ID and transaction hash are reported by GET /api/jobs/:jobId
+    const { job, existing } = await mintService.requestMint({ walletAddress: userAddress, network: blockchain.network.name });
 
-    console.log(`💾 Database record created for NFT ${mintResult.tokenId}`);
+    console.log(`📋 Mint job ${job.job_id} ${existing ? 'already queued' : 'queued'} for ${userAddress} on ${blockchain.network.name}`);
 
-    // Verify the metadata API is working
-    const metadataUrl = `${staticTokenURI}`;
-    
-    res.status(200).json({
+    res.status(202).json({
       status: 'success',
-      tokenId: mintResult.tokenId,
-      transactionHash: mintResult.transactionHash,
-      tokenURI: staticTokenURI,
-      metadataUrl,
+      jobId: job.job_id,
+      jobStatus: job.status,
+      network: job.payload.network || blockchain.network.name,
+      statusUrl: `/api/jobs/${job.job_id}`,
       architecture: {
         type: 'dynamic_nft',
         description: 'NFT with static tokenURI pointing to dynamic metadata API',
-        api_endpoint: `${NFT_CONFIG.METADATA_BASE_URL}/${mintResult.tokenId}`,
         evolution: 'NFT appearance will change automatically based on user loyalty activities'
       },
-      message: 'Dynamic NFT minted successfully! Your NFT will evolve as you engage with our partner ecosystem.'
+      message: existing
+        ? 'A mint for this wallet is already in progress'
+        : 'Dynamic NFT mint queued. Your NFT will evolve as you engage with our partner ecosystem.'
     });
 
   } catch (error) {
+    if (error instanceof RpcUnavailableError) {
+      // Minting without knowing whether the wallet already owns an NFT could mint twice
+      res.status(503).json({
+        status: 'error',
+        message: 'Blockchain RPC is unavailable; try again shortly'
+      });
+      return;
+    }
+
     console.error('❌ Error in dynamic mintNFT controller:', error);
     res.status(500).json({
       status: 'error',
@@ -109,6 +97,23 @@ export const mintNFT = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * Answer 409 when the wallet holds an unexpired, unredeemed mint voucher
+ */
+async function rejectOutstandingVoucher(res: Response, walletAddress: string): Promise<boolean> {
+  const [voucher] = await voucherService.getOutstandingVouchers(walletAddress);
+  if (!voucher) {
+    return false;
+  }
+
+  res.status(409).json({
+    status: 'error',
+    message: `This wallet holds mint voucher ${voucher.voucher_id}, redeemable until ${new Date(voucher.expires_at).toISOString()}`,
+    voucherId: voucher.voucher_id
+  });
+  return true;
+}
+
 /**
  * Get user NFT controller
  * GET /api/nfts/user/:walletAddress
@@ -137,23 +142,47 @@ export const getUserNFT = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Get additional blockchain data
-    const [tokenId, stakingInfo] = await Promise.all([
-      blockchainService.getUserTokenId(walletAddress),
-      blockchainService.getUserStakingInfo(walletAddress)
-    ]);
+    // Get additional blockchain data from the network the token was minted on
+    let blockchain;
+    try {
+      blockchain = getBlockchainServiceForChain(nftInfo.chain_id);
+    } catch (error) {
+      if (!(error instanceof UnknownNetworkError)) {
+        throw error;
+      }
+      // The token's network is no longer configured; the database record is still useful
+      console.warn(`⚠️ NFT ${nftInfo.token_id} is on chain ${nftInfo.chain_id}, which has no enabled network profile`);
+    }
+
+    // tokenId confirms the returned token is still the wallet's on chain; null when it is not, or unknown
+    let tokenId = null;
+    let stakingInfo = null;
+    if (blockchain) {
+      try {
+        const [owner, staking] = await Promise.all([
+          blockchain.getTokenOwner(nftInfo.token_id),
+          blockchain.getUserStakingInfo(walletAddress)
+        ]);
+        tokenId = owner === walletAddress.toLowerCase() ? nftInfo.token_id : null;
+        stakingInfo = staking;
+      } catch (error) {
+        if (!(error instanceof RpcUnavailableError)) {
+          throw error;
+        }
+        // The database record is still useful while the RPC is down; null means unknown, not zero
+        console.error('Error reading on-chain NFT data:', error.message);
+      }
+    }
 
     // Combine database and blockchain data
     const completeInfo = {
       ...nftInfo,
       tokenId,
       blockchain: {
+        network: blockchain ? blockchain.network.name : null,
+        chainId: nftInfo.chain_id,
         stakingInfo,
-        contractAddresses: {
-          nft: process.env.NEXT_PUBLIC_CONTRACT_NFT_ADDRESS,
-          staking: process.env.NEXT_PUBLIC_CONTRACT_STAKING_ADDRESS,
-          registry: process.env.NEXT_PUBLIC_CONTRACT_REGISTRY_ADDRESS
-        }
+        contractAddresses: blockchain ? blockchain.network.contracts : null
       }
     };
 
@@ -172,7 +201,7 @@ export const getUserNFT = async (req: Request, res: Response): Promise<void> =>
 
 /**
  * Mint NFT with IPFS metadata controller
- * POST /api/nfts/mint-with-metadata
+ * POST /api/nfts/mint-with-metadata?network=lisk-sepolia
  */
 export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -213,7 +242,8 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
     }
 
     // Check if user already owns an NFT
-    const ownsNFT = await blockchainService.userOwnsNFT(userAddress);
+    const blockchain = req.blockchain!;
+    const ownsNFT = await blockchain.userOwnsNFT(userAddress);
     if (ownsNFT) {
       res.status(400).json({
         status: 'error',
@@ -222,6 +252,22 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
       return;
     }
 
+    // An outstanding voucher can still be redeemed, which would give the wallet two NFTs
+    if (await rejectOutstandingVoucher(res, userAddress)) {
+      return;
+    }
+
+    // Avoid pinning files for a mint that is already running
+    const activeMint = await mintService.getActiveMint(userAddress);
+    if (activeMint) {
+      res.status(409).json({
+        status: 'error',
+        message: 'A mint for this wallet is already in progress',
+        jobId: activeMint.job_id
+      });
+      return;
+    }
+
     // Verify image file exists
     if (!fs.existsSync(imagePath)) {
       res.status(400).json({
@@ -233,8 +279,9 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
 
     // Step 1: Upload image to IPFS
     console.log('📤 Uploading image to IPFS...');
-    const imageHash = await IpfsService.pinFileToIPFS(imagePath, {
+    const { cid: imageHash, properties } = await IpfsService.uploadMedia(imagePath, {
       name: `${name} - Image`,
+      owner: userAddress,
       metadata: {
         type: 'nft_image',
         nft_name: name,
@@ -249,11 +296,13 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
       description,
       imageHash,
       attributes,
-      externalUrl
+      externalUrl,
+      properties
     });
 
     const metadataHash = await IpfsService.pinJSONToIPFS(metadata, {
       name: `${name} - Metadata`,
+      owner: userAddress,
       metadata: {
         type: 'nft_metadata',
         nft_name: name,
@@ -261,30 +310,24 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
       }
     });
 
-    // Step 3: Mint NFT on blockchain with IPFS metadata URI
-    console.log('⛓️ Minting NFT on blockchain...');
+    // Step 3: Queue the mint with the IPFS metadata URI
     const tokenUri = `ipfs://${metadataHash}`;
-    const mintResult = await blockchainService.mintNFTWithURI(userAddress, tokenUri);
-
-    // Step 4: Create database records with IPFS information
-    await databaseService.createNFTRecord(
-      userAddress,
-      mintResult.tokenId,
-      mintResult.transactionHash,
-      {
-        name,
-        description,
-        imageHash,
-        metadataHash,
-        tokenUri,
-        attributes
-      }
-    );
+    const { job } = await mintService.requestMint({
+      walletAddress: userAddress,
+      network: blockchain.network.name,
+      tokenUri,
+      metadata: { name, description, imageHash, metadataHash, attributes }
+    });
 
-    res.status(200).json({
+    // Keep the uploads from being garbage collected
+    await ipfsPinService.addReference(metadataHash, 'mint_job', job.job_id, userAddress.toLowerCase());
+    await IpfsService.addMetadataReferences(metadataHash, metadata, userAddress.toLowerCase());
+
+    res.status(202).json({
       status: 'success',
-      tokenId: mintResult.tokenId,
-      transactionHash: mintResult.transactionHash,
+      jobId: job.job_id,
+      jobStatus: job.status,
+      statusUrl: `/api/jobs/${job.job_id}`,
       ipfs: {
         imageHash,
         metadataHash,
@@ -293,10 +336,34 @@ export const mintNFTWithMetadata = async (req: Request, res: Response): Promise<
         metadataUrl: IpfsService.getIPFSUrl(metadataHash)
       },
       metadata,
-      message: 'NFT minted successfully with IPFS metadata'
+      message: 'NFT mint queued with IPFS metadata'
     });
 
   } catch (error) {
+    if (error instanceof RpcUnavailableError) {
+      res.status(503).json({
+        status: 'error',
+        message: 'Blockchain RPC is unavailable; try again shortly'
+      });
+      return;
+    }
+
+    if (error instanceof IpfsIntegrityError) {
+      res.status(502).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error instanceof MediaPipelineError) {
+      res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Error in mintNFTWithMetadata controller:', error);
     res.status(500).json({
       status: 'error',
@@ -358,6 +425,7 @@ export const getDemoNFTGallery = async (req: Request, res: Response): Promise<vo
 export const updateNFTLoyalty = async (req: Request, res: Response): Promise<void> => {
   try {
     const tokenId = parseInt(req.params.tokenId);
+    const { chainId } = req.blockchain!.network;
     const { actionType, actionDetails } = req.body;
 
     if (isNaN(tokenId)) {
@@ -371,7 +439,7 @@ export const updateNFTLoyalty = async (req: Request, res: Response): Promise<voi
     console.log(`🔄 Updating loyalty for NFT ${tokenId} due to action: ${actionType}`);
 
     // Get NFT data to find the owner
-    const nftData = await databaseService.getNFTMetadata(tokenId);
+    const nftData = await databaseService.getNFTMetadata(chainId, tokenId);
     if (!nftData) {
       res.status(404).json({
         status: 'error',
@@ -388,32 +456,107 @@ export const updateNFTLoyalty = async (req: Request, res: Response): Promise<voi
     );
 
     // Force recalculate loyalty level
-    const newLevel = await databaseService.updateLoyaltyLevel(tokenId);
+    const newLevel = await databaseService.updateLoyaltyLevel(chainId, tokenId);
 
     console.log(`✅ NFT ${tokenId} loyalty updated - New level: ${newLevel}`);
 
     // Get updated metadata
-    const updatedMetadata = await databaseService.getNFTMetadata(tokenId);
+    const updatedMetadata = await databaseService.getNFTMetadata(chainId, tokenId);
+    const levelChanged = newLevel !== nftData.loyalty_level;
+
+    // A level change queues an on-chain metadata refresh (see metadata-refresh service)
+    const [metadataRefresh] = levelChanged ? await metadataRefreshService.getUpdates(chainId, tokenId, 1) : [];
 
     res.status(200).json({
       status: 'success',
       tokenId,
       previousLevel: nftData.loyalty_level,
       newLevel,
-      levelChanged: newLevel !== nftData.loyalty_level,
+      levelChanged,
       actionProcessed: actionResult,
       updatedAttributes: updatedMetadata,
-      metadataUrl: generateMetadataUrl(tokenId),
+      metadataUrl: generateMetadataUrl(chainId, tokenId),
+      metadataRefresh: metadataRefresh || null,
       message: newLevel !== nftData.loyalty_level 
         ? `Congratulations! Your NFT evolved to level ${newLevel}!` 
         : 'NFT attributes updated successfully'
     });
 
   } catch (error) {
+    if (error instanceof PointsRuleError) {
+      res.status(400).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Error updating NFT loyalty:', error);
     res.status(500).json({
       status: 'error',
       message: error instanceof Error ? error.message : 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get an NFT's on-chain metadata refreshes
+ * GET /api/nfts/:tokenId/metadata-updates
+ */
+export const getNFTMetadataUpdates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tokenId = parseInt(req.params.tokenId);
+
+    if (isNaN(tokenId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid token ID'
+      });
+      return;
+    }
+
+    const updates = await metadataRefreshService.getUpdates(req.blockchain!.network.chainId, tokenId);
+
+    res.status(200).json({
+      status: 'success',
+      data: updates
+    });
+  } catch (error) {
+    console.error('Error in getNFTMetadataUpdates controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get an NFT's ownership changes
+ * GET /api/nfts/:tokenId/ownership-history
+ */
+export const getNFTOwnershipHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tokenId = parseInt(req.params.tokenId);
+
+    if (isNaN(tokenId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid token ID'
+      });
+      return;
+    }
+
+    const changes = await ownershipService.getHistory(req.blockchain!.network.chainId, tokenId);
+
+    res.status(200).json({
+      status: 'success',
+      data: changes
+    });
+  } catch (error) {
+    console.error('Error in getNFTOwnershipHistory controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
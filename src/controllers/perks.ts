@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { databaseService } from '../services/database';
+import { claimService, PerkClaimError } from '../services/claims';
+import { unlockService, UnlockConditionError } from '../services/unlocks';
+import { describeActor } from '../middleware/auth';
 
 /**
  * Get user perks controller
@@ -105,4 +108,296 @@ export const getPerksByBrand = async (req: Request, res: Response): Promise<void
       message: error instanceof Error ? error.message : 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+const VALID_VALUE_TYPES = ['discount', 'cashback', 'upgrade', 'free_service', 'priority_access'];
+
+/**
+ * Validate perk fields shared by create and update
+ * Returns the error message, or null when the fields are valid.
+ */
+function validatePerkFields(body: any): string | null {
+  if (body.valueType !== undefined && !VALID_VALUE_TYPES.includes(body.valueType)) {
+    return `Invalid value type. Valid types: ${VALID_VALUE_TYPES.join(', ')}`;
+  }
+  if (body.unlockType !== undefined || body.unlockThreshold !== undefined) {
+    try {
+      body.unlockThreshold = unlockService.normalizeThreshold(body.unlockType, body.unlockThreshold);
+    } catch (error) {
+      if (error instanceof UnlockConditionError) {
+        return error.message;
+      }
+      throw error;
+    }
+    if (body.unlockThreshold.length > 255) {
+      return 'Unlock threshold must be at most 255 characters';
+    }
+  }
+  return null;
+}
+
+/**
+ * Create perk controller
+ * POST /api/perks
+ */
+export const createPerk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { perkName, unlockType, unlockThreshold } = req.body;
+
+    // Validate request body
+    if (!perkName || !unlockType || unlockThreshold === undefined) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Perk name, unlock type, and unlock threshold are required'
+      });
+      return;
+    }
+
+    const validationError = validatePerkFields(req.body);
+    if (validationError) {
+      res.status(400).json({
+        status: 'error',
+        message: validationError
+      });
+      return;
+    }
+
+    // Brand partners create perks for their own brand by default
+    const brandId = req.body.brandId ?? req.auth?.brandId ?? null;
+
+    const perk = await databaseService.createPerk({ ...req.body, brandId });
+
+    res.status(201).json({
+      status: 'success',
+      data: perk
+    });
+  } catch (error) {
+    console.error('Error in createPerk controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Update perk controller
+ * PUT /api/perks/:perkId
+ */
+export const updatePerk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const perkId = parseInt(req.params.perkId);
+
+    if (isNaN(perkId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid perk ID is required'
+      });
+      return;
+    }
+
+    // A new threshold is validated against the current unlock type and vice versa
+    if ((req.body.unlockType === undefined) !== (req.body.unlockThreshold === undefined)) {
+      const existing = await databaseService.getPerkById(perkId);
+      if (!existing) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Perk not found'
+        });
+        return;
+      }
+      req.body.unlockType = req.body.unlockType ?? existing.unlock_type;
+      req.body.unlockThreshold = req.body.unlockThreshold ?? existing.unlock_threshold;
+    }
+
+    const validationError = validatePerkFields(req.body);
+    if (validationError) {
+      res.status(400).json({
+        status: 'error',
+        message: validationError
+      });
+      return;
+    }
+
+    const { brandId, ...changes } = req.body;
+    const perk = await databaseService.updatePerk(perkId, changes);
+
+    if (!perk) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Perk not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: perk
+    });
+  } catch (error) {
+    console.error('Error in updatePerk controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Deactivate perk controller
+ * DELETE /api/perks/:perkId
+ */
+export const deactivatePerk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const perkId = parseInt(req.params.perkId);
+
+    if (isNaN(perkId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid perk ID is required'
+      });
+      return;
+    }
+
+    const perk = await databaseService.updatePerk(perkId, { isActive: false });
+
+    if (!perk) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Perk not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: perk,
+      message: 'Perk deactivated'
+    });
+  } catch (error) {
+    console.error('Error in deactivatePerk controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Send a claim rejection with its status code and anything else as 500
+ */
+function handleClaimError(res: Response, error: unknown, context: string): void {
+  if (error instanceof PerkClaimError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`Error in ${context} controller:`, error);
+  res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
+
+/**
+ * Claim perk controller
+ * POST /api/perks/:perkId/claim
+ */
+export const claimPerk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const perkId = parseInt(req.params.perkId);
+    const { walletAddress } = req.body;
+
+    if (isNaN(perkId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid perk ID is required'
+      });
+      return;
+    }
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    const claim = await claimService.claimPerk(walletAddress, perkId);
+
+    res.status(201).json({
+      status: 'success',
+      data: claim,
+      message: 'Perk claimed. Show the redemption code to the brand to use it.'
+    });
+  } catch (error) {
+    handleClaimError(res, error, 'claimPerk');
+  }
+};
+
+/**
+ * Redeem perk claim controller
+ * POST /api/perks/claims/:claimId/redeem
+ */
+export const redeemPerkClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const claimId = parseInt(req.params.claimId);
+    const { code } = req.body;
+
+    if (isNaN(claimId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid claim ID is required'
+      });
+      return;
+    }
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        status: 'error',
+        message: 'Redemption code is required'
+      });
+      return;
+    }
+
+    const claim = await claimService.redeemClaim(claimId, code, describeActor(req));
+
+    res.status(200).json({
+      status: 'success',
+      data: claim,
+      message: 'Perk redeemed'
+    });
+  } catch (error) {
+    handleClaimError(res, error, 'redeemPerkClaim');
+  }
+};
+
+/**
+ * Get perk claims controller
+ * GET /api/perks/claims/:walletAddress
+ */
+export const getPerkClaims = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    const claims = await claimService.getClaims(walletAddress);
+
+    res.status(200).json({
+      status: 'success',
+      data: claims
+    });
+  } catch (error) {
+    handleClaimError(res, error, 'getPerkClaims');
+  }
+};
@@ -0,0 +1,206 @@
+import { Request, Response } from 'express';
+import { pointsService, PointsRuleError, PointsRuleInput, POINTS_RULE_FIELDS } from '../services/points';
+import { databaseService } from '../services/database';
+import { isValidActionType, VALID_ACTION_TYPES } from '../config/brands';
+import { describeActor } from '../middleware/auth';
+
+/**
+ * Send a rule validation failure as 400 and anything else as 500
+ */
+function handlePointsError(res: Response, error: unknown, context: string): void {
+  if (error instanceof PointsRuleError) {
+    res.status(400).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`Error in ${context} controller:`, error);
+  res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
+
+/**
+ * Pick the rule fields from a request body
+ */
+function ruleInputFromBody(body: any): PointsRuleInput {
+  return Object.fromEntries(
+    POINTS_RULE_FIELDS
+      .filter(field => body[field] !== undefined)
+      .map(field => [field, body[field]])
+  );
+}
+
+/**
+ * List points rules controller
+ * GET /api/admin/points-rules?actionType=&brandId=&includeHistory=true
+ */
+export const listPointsRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { actionType, brandId, includeHistory } = req.query;
+
+    const rules = await pointsService.listRules({
+      actionType: actionType as string | undefined,
+      brandId: brandId ? parseInt(brandId as string) : undefined,
+      includeHistory: includeHistory === 'true'
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: rules
+    });
+  } catch (error) {
+    handlePointsError(res, error, 'listPointsRules');
+  }
+};
+
+/**
+ * Get points rule controller
+ * GET /api/admin/points-rules/:ruleId
+ */
+export const getPointsRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ruleId = parseInt(req.params.ruleId);
+
+    if (isNaN(ruleId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid rule ID is required'
+      });
+      return;
+    }
+
+    const rule = await pointsService.getRule(ruleId);
+
+    if (!rule) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Points rule not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: rule
+    });
+  } catch (error) {
+    handlePointsError(res, error, 'getPointsRule');
+  }
+};
+
+/**
+ * Create points rule controller
+ * POST /api/admin/points-rules
+ */
+export const createPointsRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { actionType, brandId } = req.body;
+
+    // Validate action type
+    if (!actionType || !isValidActionType(actionType)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid action type. Valid types: ${VALID_ACTION_TYPES.join(', ')}`
+      });
+      return;
+    }
+
+    // Rules default to the brand the action belongs to
+    const ruleBrandId = brandId != null ? parseInt(brandId) : await databaseService.getBrandIdForAction(actionType);
+
+    const rule = await pointsService.createRule(actionType, ruleBrandId, ruleInputFromBody(req.body), describeActor(req));
+
+    res.status(201).json({
+      status: 'success',
+      data: rule,
+      message: 'Points rule created'
+    });
+  } catch (error) {
+    handlePointsError(res, error, 'createPointsRule');
+  }
+};
+
+/**
+ * Update points rule controller (creates a new version)
+ * PUT /api/admin/points-rules/:ruleId
+ */
+export const updatePointsRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ruleId = parseInt(req.params.ruleId);
+
+    if (isNaN(ruleId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid rule ID is required'
+      });
+      return;
+    }
+
+    const changes = ruleInputFromBody(req.body);
+
+    if (Object.keys(changes).length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No rule fields to update'
+      });
+      return;
+    }
+
+    const rule = await pointsService.updateRule(ruleId, changes, describeActor(req));
+
+    if (!rule) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Points rule not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: rule,
+      message: `Points rule updated to version ${rule.version}`
+    });
+  } catch (error) {
+    handlePointsError(res, error, 'updatePointsRule');
+  }
+};
+
+/**
+ * Retire points rule controller
+ * DELETE /api/admin/points-rules/:ruleId
+ */
+export const retirePointsRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ruleId = parseInt(req.params.ruleId);
+
+    if (isNaN(ruleId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid rule ID is required'
+      });
+      return;
+    }
+
+    const retired = await pointsService.retireRule(ruleId);
+
+    if (!retired) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Points rule not found or not the current version'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Points rule retired. The action earns no points until a new rule is created.'
+    });
+  } catch (error) {
+    handlePointsError(res, error, 'retirePointsRule');
+  }
+};
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { RpcUnavailableError } from '../services/blockchain';
+import { getStakingService } from '../services/staking';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get the StakingPool totals and the latest daily snapshot
+ * GET /api/staking/global?network=
+ */
+export const getGlobalStaking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const blockchain = req.blockchain!;
+    const stakingService = getStakingService(blockchain.network.name);
+
+    // The snapshot is still useful while the RPC is down, so the live read is optional
+    let live = null;
+    try {
+      live = await blockchain.getGlobalStakingInfo();
+    } catch (error) {
+      console.error('Error reading live staking totals:', error);
+    }
+
+    const [latestSnapshot] = await stakingService.listSnapshots({ limit: 1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        network: blockchain.network.name,
+        live,
+        latestSnapshot: latestSnapshot || null
+      }
+    });
+  } catch (error) {
+    console.error('Error in getGlobalStaking controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get a wallet's on-chain stake, indexed position, NFT staking attributes and staking points
+ * GET /api/staking/user/:walletAddress?network=
+ */
+export const getUserStaking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!ethers.utils.isAddress(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    const blockchain = req.blockchain!;
+
+    // The indexed report is still useful while the RPC is down, so onChain is null then
+    const [onChain, report] = await Promise.all([
+      blockchain.getUserStakingInfo(walletAddress).catch(error => {
+        if (!(error instanceof RpcUnavailableError)) {
+          throw error;
+        }
+        console.error('Error reading on-chain staking info:', error.message);
+        return null;
+      }),
+      getStakingService(blockchain.network.name).getUserReport(walletAddress)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        walletAddress: walletAddress.toLowerCase(),
+        network: blockchain.network.name,
+        onChain,
+        ...report
+      }
+    });
+  } catch (error) {
+    console.error('Error in getUserStaking controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List daily staking snapshots for dashboards
+ * GET /api/staking/snapshots?from=2025-01-01&to=2025-03-31&limit=90&network=
+ */
+export const listStakingSnapshots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 90;
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value !== undefined && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+        res.status(400).json({
+          status: 'error',
+          message: `${name} must be a date (YYYY-MM-DD)`
+        });
+        return;
+      }
+    }
+    if (from && to && from > to) {
+      res.status(400).json({
+        status: 'error',
+        message: 'from must not be after to'
+      });
+      return;
+    }
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      res.status(400).json({
+        status: 'error',
+        message: 'limit must be between 1 and 1000'
+      });
+      return;
+    }
+
+    const snapshots = await getStakingService(req.blockchain!.network.name).listSnapshots({ from, to, limit });
+
+    res.status(200).json({
+      status: 'success',
+      data: snapshots
+    });
+  } catch (error) {
+    console.error('Error in listStakingSnapshots controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { SIGNER_TRANSACTION_STATUSES } from '../services/transactions';
+
+/**
+ * List the signer's transactions on the selected network, in-flight ones by default
+ * GET /api/admin/tx?status=pending&network=lisk-sepolia
+ */
+export const listSignerTransactions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = (req.query.status as string | undefined) || 'pending';
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    if (status !== 'all' && !(SIGNER_TRANSACTION_STATUSES as readonly string[]).includes(status)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid status. Valid statuses: ${SIGNER_TRANSACTION_STATUSES.join(', ')}, all`
+      });
+      return;
+    }
+    if (isNaN(limit) || limit < 1 || limit > 500) {
+      res.status(400).json({
+        status: 'error',
+        message: 'limit must be between 1 and 500'
+      });
+      return;
+    }
+
+    const blockchain = req.blockchain!;
+    const transactions = await blockchain.transactions.listTransactions({
+      status: status === 'all' ? undefined : status,
+      limit
+    });
+
+    // The list is still useful while the RPC is down, just without block counts
+    let chain = null;
+    try {
+      chain = await blockchain.transactions.getChainState();
+    } catch (error) {
+      console.error('Error getting chain state for transaction list:', error);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        chain,
+        stuckAfterBlocks: config.transactions.stuckAfterBlocks,
+        transactions: transactions.map(tx => {
+          const blocksPending = tx.status === 'pending' && chain ? chain.blockNumber - tx.sent_block : null;
+          return {
+            ...tx,
+            blocks_pending: blocksPending,
+            stuck: blocksPending !== null && blocksPending >= config.transactions.stuckAfterBlocks
+          };
+        })
+      }
+    });
+  } catch (error) {
+    console.error('Error in listSignerTransactions controller:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { RpcUnavailableError, UnknownNetworkError } from '../services/blockchain';
+import { databaseService } from '../services/database';
+import { mintService } from '../services/mint';
+import { voucherService, VoucherError, MintVoucherRecord } from '../services/vouchers';
+import { describeActor } from '../middleware/auth';
+import { cidFromUri, ipfsPinService, IpfsPinError } from '../services/ipfs-pins';
+
+/**
+ * Issue mint voucher controller
+ * POST /api/nfts/vouchers?network=lisk-sepolia
+ */
+export const issueMintVoucher = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userAddress, tokenUri = '' } = req.body;
+
+    if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid user address is required'
+      });
+      return;
+    }
+
+    if (typeof tokenUri !== 'string') {
+      res.status(400).json({
+        status: 'error',
+        message: 'Token URI must be a string'
+      });
+      return;
+    }
+
+    const user = await databaseService.getUserByAddress(userAddress);
+    if (!user) {
+      res.status(404).json({
+        status: 'error',
+        message: 'User not found. Please initialize user first.'
+      });
+      return;
+    }
+
+    const blockchain = req.blockchain!;
+    if (await blockchain.userOwnsNFT(userAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'User already owns an NFT'
+      });
+      return;
+    }
+
+    // A voucher next to a backend mint would give the wallet two NFTs
+    const activeMint = await mintService.getActiveMint(userAddress);
+    if (activeMint) {
+      res.status(409).json({
+        status: 'error',
+        message: 'A mint for this wallet is already in progress',
+        jobId: activeMint.job_id
+      });
+      return;
+    }
+
+    const { voucher, existing } = await voucherService.issueVoucher(blockchain, userAddress, tokenUri);
+
+    // Signed IPFS metadata must outlive the voucher's redemption
+    const metadataCid = cidFromUri(voucher.token_uri);
+    if (!existing && metadataCid) {
+      await ipfsPinService.addReference(metadataCid, 'mint_voucher', voucher.voucher_id, describeActor(req));
+    }
+
+    res.status(existing ? 200 : 201).json({
+      status: 'success',
+      data: voucher,
+      network: blockchain.network.name,
+      redeem: voucherService.getRedeemParams(voucher),
+      message: existing
+        ? 'This wallet already holds an active voucher'
+        : 'Voucher issued. Redeem it on the NFT contract, then confirm the transaction.'
+    });
+  } catch (error) {
+    handleVoucherError(res, error, 'issueMintVoucher');
+  }
+};
+
+/**
+ * Get mint vouchers controller
+ * GET /api/nfts/vouchers/user/:walletAddress
+ */
+export const getMintVouchers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid wallet address is required'
+      });
+      return;
+    }
+
+    const vouchers = await voucherService.getVouchers(walletAddress);
+
+    res.status(200).json({
+      status: 'success',
+      data: vouchers
+    });
+  } catch (error) {
+    handleVoucherError(res, error, 'getMintVouchers');
+  }
+};
+
+/**
+ * Confirm voucher redemption controller
+ * POST /api/nfts/vouchers/:voucherId/confirm
+ */
+export const confirmMintVoucher = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const voucherId = parseInt(req.params.voucherId);
+    const { transactionHash } = req.body;
+
+    if (isNaN(voucherId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid voucher ID is required'
+      });
+      return;
+    }
+
+    if (!transactionHash || !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid transaction hash is required'
+      });
+      return;
+    }
+
+    const voucher = await voucherService.getVoucher(voucherId);
+    if (!voucher || !canAccess(req, voucher)) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Voucher not found'
+      });
+      return;
+    }
+
+    const redeemed = await voucherService.confirmRedemption(voucherId, transactionHash);
+
+    res.status(200).json({
+      status: 'success',
+      data: redeemed,
+      message: `NFT ${redeemed.redeemed_token_id} recorded`
+    });
+  } catch (error) {
+    handleVoucherError(res, error, 'confirmMintVoucher');
+  }
+};
+
+/**
+ * Revoke mint voucher controller
+ * POST /api/nfts/vouchers/:voucherId/revoke
+ */
+export const revokeMintVoucher = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const voucherId = parseInt(req.params.voucherId);
+    const { reason } = req.body;
+
+    if (isNaN(voucherId)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Valid voucher ID is required'
+      });
+      return;
+    }
+
+    const voucher = await voucherService.revokeVoucher(voucherId, describeActor(req), reason || null);
+
+    res.status(200).json({
+      status: 'success',
+      data: voucher,
+      message: `Voucher revoked; its signature stays valid on-chain until ${new Date(voucher.expires_at).toISOString()}`
+    });
+  } catch (error) {
+    handleVoucherError(res, error, 'revokeMintVoucher');
+  }
+};
+
+/**
+ * Users only see their own vouchers
+ */
+function canAccess(req: Request, voucher: MintVoucherRecord): boolean {
+  return req.auth?.role !== 'user' || req.auth.walletAddress === voucher.wallet_address;
+}
+
+/**
+ * Send a voucher rejection with its status code and anything else as 500
+ */
+function handleVoucherError(res: Response, error: unknown, context: string): void {
+  if (error instanceof VoucherError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof IpfsPinError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof UnknownNetworkError) {
+    res.status(400).json({
+      status: 'error',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof RpcUnavailableError) {
+    res.status(503).json({
+      status: 'error',
+      message: 'Blockchain RPC is unavailable; try again shortly'
+    });
+    return;
+  }
+
+  console.error(`Error in ${context} controller:`, error);
+  res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
@@ -5,7 +5,15 @@ import path from 'path';
 import swaggerUi from 'swagger-ui-express';
 import { DatabaseHelpers } from './database';
 import { config } from './config';
-import { blockchainService } from './services/blockchain';
+import { getBlockchainServices } from './services/blockchain';
+import { getChainIndexers } from './services/indexer';
+import { levelService } from './services/levels';
+import { jobService } from './services/jobs';
+import { metadataRefreshService, METADATA_REFRESH_JOB } from './services/metadata-refresh';
+import { mintService, MINT_JOB } from './services/mint';
+import { getStakingServices } from './services/staking';
+import { uploadService } from './services/uploads';
+import { selectNetwork } from './middleware/network';
 import { swaggerSpec } from './swagger/config';
 import apiRoutes from './routes';
 
@@ -56,7 +64,7 @@ app.get('/api/health', (req: Request, res: Response) => {
  * /api/health/database:
  *   get:
  *     summary: Database health check
- *     description: Checks the database connection status
+ *     description: Checks the database connection status and that the API and the level trigger agree on loyalty levels
  *     tags: [Health]
  *     responses:
  *       200:
@@ -76,11 +84,22 @@ app.get('/api/health', (req: Request, res: Response) => {
  *                   type: boolean
  *       500:
  *         description: Database is unhealthy
+ *       503:
+ *         description: Database is unreachable or loyalty level calculations disagree
  */
 app.get('/api/health/database', async (req: Request, res: Response) => {
   try {
     const healthCheck = await DatabaseHelpers.healthCheck();
-    res.json(healthCheck);
+
+    if (healthCheck.status === 'healthy') {
+      const levels = await levelService.checkConsistency();
+      healthCheck.details.loyaltyLevels = levels;
+      if (!levels.consistent) {
+        healthCheck.status = 'unhealthy';
+      }
+    }
+
+    res.status(healthCheck.status === 'healthy' ? 200 : 503).json(healthCheck);
   } catch (error) {
     res.status(500).json({
       status: 'unhealthy',
@@ -95,8 +114,10 @@ app.get('/api/health/database', async (req: Request, res: Response) => {
  * /api/health/blockchain:
  *   get:
  *     summary: Blockchain connectivity health check
- *     description: Checks the blockchain connection and contract accessibility
+ *     description: Checks the selected network's connection and contract accessibility
  *     tags: [Health]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Network'
  *     responses:
  *       200:
  *         description: Blockchain is accessible
@@ -107,7 +128,11 @@ app.get('/api/health/database', async (req: Request, res: Response) => {
  *               properties:
  *                 status:
  *                   type: string
- *                   example: 'healthy'
+ *                   enum: [healthy, degraded]
+ *                   description: degraded while some RPC endpoints are cooling down
+ *                 network:
+ *                   type: string
+ *                   example: 'lisk-sepolia'
  *                 blockNumber:
  *                   type: number
  *                 signerAddress:
@@ -116,18 +141,45 @@ app.get('/api/health/database', async (req: Request, res: Response) => {
  *                   type: string
  *                 contractsAccessible:
  *                   type: boolean
+ *                 rpc:
+ *                   type: array
+ *                   description: RPC endpoints in the order they are tried
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       host:
+ *                         type: string
+ *                       available:
+ *                         type: boolean
+ *                       score:
+ *                         type: number
+ *                         description: Recent success rate, 0-100
+ *                       latencyMs:
+ *                         type: number
+ *                         nullable: true
+ *                       blockNumber:
+ *                         type: number
+ *                         nullable: true
+ *                       consecutiveFailures:
+ *                         type: number
+ *                       lastError:
+ *                         type: string
+ *                         nullable: true
+ *       400:
+ *         description: Unknown network
  *       500:
  *         description: Blockchain is not accessible
  */
-app.get('/api/health/blockchain', async (req: Request, res: Response) => {
+app.get('/api/health/blockchain', selectNetwork, async (req: Request, res: Response) => {
   try {
-    const healthCheck = await blockchainService.healthCheck();
-    res.json(healthCheck);
+    const healthCheck = await req.blockchain!.healthCheck();
+    res.json({ ...healthCheck, network: req.blockchain!.network.name });
   } catch (error) {
     res.status(500).json({
       status: 'unhealthy',
       timestamp: new Date().toISOString(),
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: error instanceof Error ? error.message : 'Unknown error',
+      rpc: req.blockchain!.getRpcStatus()
     });
   }
 });
@@ -161,6 +213,10 @@ app.use((req: Request, res: Response) => {
   });
 });
 
+// Background jobs
+jobService.register(MINT_JOB, job => mintService.process(job));
+jobService.register(METADATA_REFRESH_JOB, job => metadataRefreshService.process(job));
+
 // Start server
 app.listen(PORT, () => {
   console.log(`\n🚀 GomGom Backend Server is running!`);
@@ -168,10 +224,36 @@ app.listen(PORT, () => {
   console.log(`🌍 Environment: ${config.nodeEnv}`);
   console.log(`📚 API Documentation: http://localhost:${PORT}/api/docs`);
   console.log(`🔍 Health Check: http://localhost:${PORT}/api/health`);
-  console.log(`\n🔗 Blockchain Configuration:`);
-  console.log(`   RPC: ${config.blockchain.rpcUrl}`);
-  console.log(`   Registry: ${config.blockchain.contracts.registry}`);
-  console.log(`   NFT: ${config.blockchain.contracts.nft}`);
-  console.log(`   Staking: ${config.blockchain.contracts.staking}`);
+  console.log(`\n🔗 Blockchain Configuration (default: ${config.blockchain.defaultNetwork}):`);
+  for (const network of Object.values(config.blockchain.networks)) {
+    console.log(`   ${network.name} (chain ${network.chainId}): ${network.rpcUrls.join(', ')}`);
+    console.log(`     Registry: ${network.contracts.registry}`);
+    console.log(`     NFT: ${network.contracts.nft}`);
+    console.log(`     Staking: ${network.contracts.staking}`);
+  }
+  console.log(`🔑 Signer: ${config.signer.type}${config.signer.type === 'remote' ? ` (${config.signer.remoteAddress})` : ''}`);
+  if (config.nodeEnv === 'production' && config.signer.type === 'local') {
+    console.warn('⚠️ The admin key is a plain environment variable; use SIGNER_TYPE=keystore or remote in production');
+  }
   console.log(`\n⚡ Ready to serve requests!\n`);
+
+  // Expires idle resumable uploads and deletes upload files nothing owns
+  uploadService.start();
+
+  if (config.jobs.workerEnabled) {
+    jobService.start();
+    // Replaces stuck transactions even when no job is waiting on them, on every network
+    getBlockchainServices().forEach(service => service.transactions.start());
+  }
+
+  if (config.indexer.enabled) {
+    // Every network's transfers and stakes are indexed, so tokens on any of them get the transfer policy
+    getChainIndexers().forEach(indexer => indexer.start());
+    // Staking attributes come from the indexed positions
+    getStakingServices().forEach(service => service.start());
+  }
+
+  if (config.staking.snapshotsEnabled) {
+    getStakingServices().forEach(service => service.startSnapshots());
+  }
 });
\ No newline at end of file
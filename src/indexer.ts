@@ -0,0 +1,121 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { db } from './database';
+import { getChainIndexer, getChainIndexers } from './services/indexer';
+import { getStakingServices } from './services/staking';
+
+// Load environment variables from root directory
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+/**
+ * Chain indexer CLI
+ * Usage: npm run indexer -- sync | follow | status | rewind <block> [network] | staking-sync | staking-snapshot
+ * Every enabled network is indexed; rewind applies to one, DEFAULT_NETWORK unless named. To test against
+ * a local Anvil node, set the ANVIL_CONTRACT_*_ADDRESS variables (and ANVIL_RPC_URL if it is not on port 8545).
+ */
+
+async function sync(): Promise<void> {
+  console.log('📇 Indexing every network to its chain head...');
+  for (const indexer of getChainIndexers()) {
+    const { batches, events } = await indexer.syncToHead();
+    const status = await indexer.getStatus();
+    console.log(`✅ Chain ${status.chainId}: ${batches} batch(es), ${events} event(s); checkpoint at block ${status.checkpoint?.last_block ?? 'none'} of ${status.head}`);
+  }
+}
+
+async function follow(): Promise<void> {
+  const indexers = getChainIndexers();
+  indexers.forEach(indexer => indexer.start());
+  // The poll timers are unref'd, so keep the process alive until interrupted
+  const keepAlive = setInterval(() => undefined, 60 * 60 * 1000);
+  await new Promise<void>(resolve => process.once('SIGINT', resolve));
+  clearInterval(keepAlive);
+  console.log('\n🛑 Stopping the indexers...');
+  await Promise.all(indexers.map(indexer => indexer.stop()));
+}
+
+async function syncStaking(): Promise<void> {
+  for (const service of getStakingServices()) {
+    console.log(`🥩 Accruing ETH-days from the indexed staking positions on ${service.blockchain.network.name}...`);
+    const { nfts, pointsAwarded } = await service.sync();
+    console.log(`✅ ${nfts} NFT(s) updated, ${pointsAwarded} point(s) awarded`);
+  }
+}
+
+async function snapshotStaking(): Promise<void> {
+  for (const service of getStakingServices()) {
+    const snapshot = await service.takeSnapshot();
+    console.log(`📸 Staking snapshot of ${service.blockchain.network.name} for ${snapshot.snapshot_date} at block ${snapshot.block_number}:`);
+    console.log(`  ${snapshot.total_eth} ETH staked on-chain (${snapshot.indexed_staked_eth} indexed, ${snapshot.stakers} staker(s))`);
+    console.log(`  ${snapshot.total_nfts} NFT(s), contract balance ${snapshot.contract_balance} ETH`);
+  }
+}
+
+async function showStatus(): Promise<void> {
+  for (const indexer of getChainIndexers()) {
+    const status = await indexer.getStatus();
+    console.log(`📋 Chain ${status.chainId}, head ${status.head}`);
+    if (status.checkpoint) {
+      console.log(`  Checkpoint: block ${status.checkpoint.last_block} (${status.checkpoint.last_block_hash}), ${status.head - status.checkpoint.last_block} block(s) behind`);
+    } else {
+      console.log('  Checkpoint: none (indexing starts at the network\'s start block)');
+    }
+    console.log(`  Events indexed: ${status.events}`);
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const [command, arg, network] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case 'sync':
+        await sync();
+        break;
+      case 'follow':
+        await follow();
+        break;
+      case 'status':
+        await showStatus();
+        break;
+      case 'staking-sync':
+        await syncStaking();
+        break;
+      case 'staking-snapshot':
+        await snapshotStaking();
+        break;
+      case 'rewind': {
+        const block = parseInt(arg);
+        if (isNaN(block)) {
+          throw new Error('Usage: npm run indexer -- rewind <block> [network]');
+        }
+        await getChainIndexer(network).rewind(block);
+        break;
+      }
+      default:
+        console.log('Available commands:');
+        console.log('  sync             - Index every network from its checkpoint to the chain head, then exit');
+        console.log('  follow           - Keep indexing new blocks until interrupted');
+        console.log('  status           - Show each checkpoint and how far behind it is');
+        console.log('  rewind <block> [network] - Undo events after <block> and index them again on the next run');
+        console.log('  staking-sync     - Copy staking positions onto NFT attributes and award ETH-day points');
+        console.log('  staking-snapshot - Record today\'s StakingPool totals (replaces today\'s snapshot)');
+        console.log('');
+        console.log('Usage: npm run indexer -- <command>');
+        break;
+    }
+  } catch (error) {
+    console.error('❌ Indexer failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -1,7 +1,7 @@
-import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
 import { db, DatabaseHelpers } from './database';
+import { migrationService, formatMigration } from './services/migrations';
 
 // Load environment variables from root directory
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
@@ -23,21 +23,12 @@ async function initializeDatabase(): Promise<void> {
     }
     console.log('✅ Database connection successful');
 
-    // Read and execute schema SQL
-    console.log('📋 Reading schema file...');
-    const schemaPath = path.join(__dirname, '../database/schema.sql');
-    
-    if (!fs.existsSync(schemaPath)) {
-      throw new Error(`Schema file not found at: ${schemaPath}`);
-    }
-
-    const schemaSql = fs.readFileSync(schemaPath, 'utf8');
-    console.log('✅ Schema file loaded');
-
-    // Execute schema creation
-    console.log('🔨 Creating database schema...');
-    await db.query(schemaSql);
-    console.log('✅ Database schema created successfully');
+    // Apply versioned migrations from database/migrations
+    console.log('🔨 Applying database migrations...');
+    const applied = await migrationService.up((migration, durationMs) => {
+      console.log(`✅ Migration ${formatMigration(migration)} applied (${durationMs}ms)`);
+    });
+    console.log(`✅ Database schema is up to date (${applied.length} new migration(s))`);
 
     // Verify schema creation
     console.log('🔍 Verifying schema creation...');
@@ -72,36 +63,27 @@ async function initializeDatabase(): Promise<void> {
 }
 
 /**
- * Reset database (drops and recreates all tables)
+ * Reset database (rolls back every migration and re-applies them)
  * WARNING: This will delete all data!
  */
 async function resetDatabase(): Promise<void> {
   console.log('⚠️ RESETTING DATABASE - ALL DATA WILL BE LOST!');
   
   try {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Refusing to reset a production database');
+    }
+
     // Test connection
     const connectionOk = await db.testConnection();
     if (!connectionOk) {
       throw new Error('Database connection failed');
     }
 
-    // Drop all tables in correct order (reverse of dependencies)
-    const dropQueries = [
-      'DROP TABLE IF EXISTS user_perk_claims CASCADE;',
-      'DROP TABLE IF EXISTS user_actions CASCADE;',
-      'DROP TABLE IF EXISTS perks CASCADE;',
-      'DROP TABLE IF EXISTS nft_attributes CASCADE;',
-      'DROP TABLE IF EXISTS loyalty_nfts CASCADE;',
-      'DROP TABLE IF EXISTS users CASCADE;',
-      'DROP VIEW IF EXISTS nft_complete_info;',
-      'DROP VIEW IF EXISTS user_activity_summary;'
-    ];
-
-    for (const query of dropQueries) {
-      await db.query(query);
-    }
-
-    console.log('🗑️ All tables dropped');
+    const applied = await migrationService.getApplied();
+    await migrationService.down(applied.length, (migration) => {
+      console.log(`🗑️ Migration ${formatMigration(migration)} rolled back`);
+    });
 
     // Recreate schema
     await initializeDatabase();
@@ -130,20 +112,20 @@ async function seedDatabase(): Promise<void> {
 
     // Insert sample NFTs
     await db.query(`
-      INSERT INTO loyalty_nfts (token_id, owner_wallet_address, token_uri) VALUES
-      (1, '0x1234567890123456789012345678901234567890', 'https://api.gomgom.com/metadata/1'),
-      (2, '0x2345678901234567890123456789012345678901', 'https://api.gomgom.com/metadata/2'),
-      (3, '0x3456789012345678901234567890123456789012', 'https://api.gomgom.com/metadata/3')
-      ON CONFLICT (token_id) DO NOTHING;
+      INSERT INTO loyalty_nfts (token_id, owner_wallet_address, token_uri, chain_id) VALUES
+      (1, '0x1234567890123456789012345678901234567890', 'https://api.gomgom.com/metadata/4202/1', 4202),
+      (2, '0x2345678901234567890123456789012345678901', 'https://api.gomgom.com/metadata/4202/2', 4202),
+      (3, '0x3456789012345678901234567890123456789012', 'https://api.gomgom.com/metadata/4202/3', 4202)
+      ON CONFLICT (chain_id, token_id) DO NOTHING;
     `);
 
     // Insert sample NFT attributes
     await db.query(`
-      INSERT INTO nft_attributes (nft_token_id, loyalty_level, loyalty_points, flights_taken, bank_tier, resorts_visited) VALUES
-      (1, 3, 1500, 8, 'Gold', 3),
-      (2, 2, 750, 4, 'Silver', 1),
-      (3, 1, 250, 1, 'Standard', 0)
-      ON CONFLICT (nft_token_id) DO NOTHING;
+      INSERT INTO nft_attributes (chain_id, nft_token_id, loyalty_level, loyalty_points, flights_taken, bank_tier, resorts_visited) VALUES
+      (4202, 1, 3, 1500, 8, 'Gold', 3),
+      (4202, 2, 2, 750, 4, 'Silver', 1),
+      (4202, 3, 1, 250, 1, 'Standard', 0)
+      ON CONFLICT (chain_id, nft_token_id) DO NOTHING;
     `);
 
     // Insert sample user actions
@@ -186,8 +168,8 @@ async function main(): Promise<void> {
         break;
       default:
         console.log('Available commands:');
-        console.log('  init  - Initialize database schema');
-        console.log('  reset - Reset database (WARNING: deletes all data)');
+        console.log('  init  - Apply pending migrations');
+        console.log('  reset - Roll back all migrations and re-apply them (WARNING: deletes all data)');
         console.log('  seed  - Seed database with sample data');
         console.log('  health - Check database health');
         console.log('');
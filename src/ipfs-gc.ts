@@ -0,0 +1,76 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { db } from './database';
+import { config } from './config';
+import { ipfsPinService } from './services/ipfs-pins';
+
+// Load environment variables from root directory
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+/**
+ * IPFS garbage collector CLI
+ * Usage: npm run ipfs-gc -- [--dry-run] [--older-than <days>]
+ * Unpins content on IPFS_PROVIDER that nothing references and that was pinned more than
+ * <days> ago (IPFS_GC_MIN_AGE_DAYS by default). --dry-run only reports what would be unpinned.
+ */
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KiB', 'MiB', 'GiB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const olderThanIndex = args.indexOf('--older-than');
+  const olderThanDays = olderThanIndex >= 0 ? parseInt(args[olderThanIndex + 1]) : config.ipfs.gcMinAgeDays;
+
+  try {
+    if (isNaN(olderThanDays) || olderThanDays < 0) {
+      throw new Error('Usage: npm run ipfs-gc -- [--dry-run] [--older-than <days>]');
+    }
+
+    const report = await ipfsPinService.collectGarbage(olderThanDays, dryRun);
+
+    console.log(`🧹 ${report.candidates.length} unreferenced pin(s) on ${report.provider} older than ${olderThanDays} day(s), ${formatBytes(report.totalBytes)}`);
+    for (const pin of report.candidates) {
+      const age = Math.floor((Date.now() - new Date(pin.pinned_at).getTime()) / 86400000);
+      console.log(`  ${pin.cid}  ${formatBytes(Number(pin.size_bytes)).padStart(10)}  ${age}d  ${pin.purpose}  ${pin.name || ''}`);
+    }
+
+    if (dryRun) {
+      console.log('🔍 Dry run: nothing was unpinned');
+      return;
+    }
+
+    console.log(`✅ Unpinned ${report.unpinned.length}, skipped ${report.skipped.length} referenced since listing, ${report.failed.length} failed`);
+    for (const failure of report.failed) {
+      console.error(`  ❌ ${failure.cid}: ${failure.error}`);
+    }
+    if (report.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ IPFS garbage collection failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
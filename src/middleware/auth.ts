@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/auth';
+import { accessService, Role } from '../services/access';
+
+export interface AuthContext {
+  role: Role;
+  walletAddress?: string;
+  sessionId?: string;
+  brandId?: number;
+  apiKeyId?: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Resolve credentials (X-API-Key header or Bearer access token) into req.auth
+ * Requests without credentials pass through unauthenticated; invalid credentials get a 401
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const apiKey = req.headers['x-api-key'];
+  const header = req.headers.authorization;
+
+  try {
+    if (typeof apiKey === 'string' && apiKey) {
+      const grant = await accessService.authenticateApiKey(apiKey);
+      if (!grant) {
+        res.status(401).json({
+          status: 'error',
+          message: 'Invalid API key'
+        });
+        return;
+      }
+      req.auth = grant;
+    } else if (header && header.startsWith('Bearer ')) {
+      const payload = await authService.verifyAccessToken(header.slice('Bearer '.length).trim());
+      req.auth = {
+        role: payload.role || 'user',
+        walletAddress: payload.sub,
+        sessionId: payload.sid,
+        brandId: payload.brandId
+      };
+    }
+
+    next();
+  } catch (error) {
+    res.status(401).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Invalid credentials'
+    });
+  }
+};
+
+/**
+ * Require any authenticated caller
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.auth) {
+    res.status(401).json({
+      status: 'error',
+      message: 'Authentication required'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Require the caller to hold one of the given roles
+ */
+export const requireRole = (...roles: Role[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      res.status(401).json({
+        status: 'error',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!roles.includes(req.auth.role)) {
+      res.status(403).json({
+        status: 'error',
+        message: `This action requires one of the roles: ${roles.join(', ')}`
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Only let wallet-authenticated users act for their own wallet
+ * Checks the wallet in req.params.walletAddress, req.body.walletAddress or req.body.userAddress.
+ * Operator roles are gated by requireRole/requireBrandScope instead.
+ */
+export const requireWalletMatch = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.auth) {
+    res.status(401).json({
+      status: 'error',
+      message: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.auth.role !== 'user') {
+    next();
+    return;
+  }
+
+  const requestedWallet: string | undefined =
+    req.params.walletAddress || req.body?.walletAddress || req.body?.userAddress;
+
+  // Let the controller report a missing wallet with its usual 400
+  if (!requestedWallet) {
+    next();
+    return;
+  }
+
+  if (requestedWallet.toLowerCase() !== req.auth.walletAddress) {
+    res.status(403).json({
+      status: 'error',
+      message: 'Authenticated wallet does not match the requested wallet'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Restrict brand partners to resources of their own brand
+ * The resolver returns the brand the request targets (null when it targets no brand).
+ */
+export const requireBrandScope = (resolveBrandId: (req: Request) => Promise<number | null> | number | null) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.auth || req.auth.role !== 'brand_partner') {
+      next();
+      return;
+    }
+
+    try {
+      const targetBrandId = await resolveBrandId(req);
+
+      if (targetBrandId === null || targetBrandId !== req.auth.brandId) {
+        res.status(403).json({
+          status: 'error',
+          message: 'Brand partners can only act on their own brand'
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Error resolving brand scope:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  };
+};
+
+/**
+ * Who made a change, for audit columns such as created_by and updated_by
+ * Unauthenticated requests are 'anonymous', never the bootstrap key.
+ */
+export function describeActor(req: Request): string {
+  if (!req.auth) {
+    return 'anonymous';
+  }
+  if (req.auth.walletAddress) {
+    return req.auth.walletAddress;
+  }
+  return req.auth.apiKeyId ? `api_key:${req.auth.apiKeyId}` : 'admin_bootstrap_key';
+}
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { BlockchainService, getBlockchainService, UnknownNetworkError } from '../services/blockchain';
+
+declare global {
+  namespace Express {
+    interface Request {
+      blockchain?: BlockchainService;
+    }
+  }
+}
+
+/**
+ * Choose the network a request talks to from ?network= or the X-Network header
+ * Requests that name no network use DEFAULT_NETWORK.
+ */
+export const selectNetwork = (req: Request, res: Response, next: NextFunction): void => {
+  const requested = (req.query.network as string | undefined) || req.header('x-network');
+
+  try {
+    req.blockchain = getBlockchainService(requested || undefined);
+  } catch (error) {
+    if (error instanceof UnknownNetworkError) {
+      res.status(400).json({
+        status: 'error',
+        message: error.message
+      });
+      return;
+    }
+    throw error;
+  }
+
+  next();
+};
@@ -0,0 +1,105 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { db } from './database';
+import { migrationService, formatMigration } from './services/migrations';
+
+// Load environment variables from root directory
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+/**
+ * Schema migration CLI
+ * Usage: npm run migrate -- up | down [steps] | status | baseline <version>
+ */
+
+async function migrateUp(): Promise<void> {
+  console.log('🚀 Applying pending migrations...');
+
+  const applied = await migrationService.up((migration, durationMs) => {
+    console.log(`✅ ${formatMigration(migration)} (${durationMs}ms)`);
+  });
+
+  console.log(applied.length > 0 ? `🎉 Applied ${applied.length} migration(s)` : '✅ Database schema is up to date');
+}
+
+async function migrateDown(steps: number): Promise<void> {
+  console.log(`⚠️ Rolling back ${steps} migration(s)...`);
+
+  const reverted = await migrationService.down(steps, (migration) => {
+    console.log(`↩️ ${formatMigration(migration)}`);
+  });
+
+  console.log(`✅ Rolled back ${reverted.length} migration(s)`);
+}
+
+async function showStatus(): Promise<void> {
+  const statuses = await migrationService.status();
+  const icons = { applied: '✅', pending: '⏳', modified: '❌', missing: '❓' };
+
+  console.log('📋 Migration status:');
+  for (const status of statuses) {
+    const appliedAt = status.appliedAt ? ` (applied ${new Date(status.appliedAt).toISOString()})` : '';
+    console.log(`  ${icons[status.state]} ${formatMigration(status)}: ${status.state}${appliedAt}`);
+  }
+}
+
+async function markBaseline(version: number): Promise<void> {
+  const recorded = await migrationService.baseline(version);
+
+  for (const migration of recorded) {
+    console.log(`📌 ${formatMigration(migration)} marked as applied`);
+  }
+  console.log('✅ Baseline recorded. Run "npm run migrate -- up" to apply the remaining migrations.');
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const [command, arg] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case 'up':
+        await migrateUp();
+        break;
+      case 'down': {
+        const steps = arg ? parseInt(arg) : 1;
+        if (isNaN(steps) || steps < 1) {
+          throw new Error('Steps must be a positive number');
+        }
+        await migrateDown(steps);
+        break;
+      }
+      case 'status':
+        await showStatus();
+        break;
+      case 'baseline': {
+        const version = parseInt(arg);
+        if (isNaN(version)) {
+          throw new Error('Usage: npm run migrate -- baseline <version>');
+        }
+        await markBaseline(version);
+        break;
+      }
+      default:
+        console.log('Available commands:');
+        console.log('  up               - Apply pending migrations');
+        console.log('  down [steps]     - Roll back the last migration(s) (default 1)');
+        console.log('  status           - Show applied, pending and modified migrations');
+        console.log('  baseline <ver>   - Mark migrations up to <ver> as applied on an existing database');
+        console.log('');
+        console.log('Usage: npm run migrate -- <command>');
+        break;
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -1,8 +1,16 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { simulateAction, getActionHistory } from '../controllers/actions';
+import { requireRole, requireWalletMatch, requireBrandScope } from '../middleware/auth';
+import { databaseService } from '../services/database';
 
 const router = Router();
 
+/**
+ * Brand that owns the posted action type
+ */
+const actionBrand = (req: Request): Promise<number | null> =>
+  databaseService.getBrandIdForAction(req.body.actionType);
+
 /**
  * @swagger
  * /api/actions/simulate:
@@ -10,6 +18,9 @@ const router = Router();
  *     summary: Simulate a real-world user action
  *     description: Processes user actions to demonstrate dynamic NFT attribute updates
  *     tags: [Actions]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -66,10 +77,14 @@ const router = Router();
  *         description: Invalid request
  *       404:
  *         description: User not found
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Wallet, role or brand scope not allowed
  *       500:
  *         description: Internal server error
  */
-router.post('/simulate', simulateAction);
+router.post('/simulate', requireRole('user', 'admin', 'brand_partner'), requireWalletMatch, requireBrandScope(actionBrand), simulateAction);
 
 /**
  * @swagger
@@ -120,6 +135,8 @@ router.post('/simulate', simulateAction);
  *                         type: string
  *                       details:
  *                         type: object
+ *                       brand_id:
+ *                         type: number
  *                       points_earned:
  *                         type: number
  *                       created_at:
@@ -0,0 +1,495 @@
+import { Router } from 'express';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  setWalletRole,
+  removeWalletRole,
+  getBrandAnalytics
+} from '../controllers/admin';
+import {
+  listPointsRules,
+  getPointsRule,
+  createPointsRule,
+  updatePointsRule,
+  retirePointsRule
+} from '../controllers/points';
+import { listLoyaltyLevels, updateLoyaltyLevel } from '../controllers/levels';
+import { listJobs, retryJob } from '../controllers/jobs';
+import { listSignerTransactions } from '../controllers/transactions';
+import { requireRole } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: Creates a key for an admin, a brand partner (scoped to one brand) or a read-only analyst. The key is returned once.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: ['admin', 'brand_partner', 'analyst']
+ *               brandId:
+ *                 type: number
+ *                 description: Required for brand_partner keys
+ *               label:
+ *                 type: string
+ *             required:
+ *               - role
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin role required
+ *   get:
+ *     summary: List API keys
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys (hashes are never returned)
+ *       403:
+ *         description: Admin role required
+ */
+router.post('/api-keys', requireRole('admin'), createApiKey);
+router.get('/api-keys', requireRole('admin'), listApiKeys);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{keyId}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       403:
+ *         description: Admin role required
+ *       404:
+ *         description: API key not found or already revoked
+ */
+router.delete('/api-keys/:keyId', requireRole('admin'), revokeApiKey);
+
+/**
+ * @swagger
+ * /api/admin/wallet-roles/{walletAddress}:
+ *   put:
+ *     summary: Grant a role to a SIWE wallet
+ *     description: The role is embedded in JWTs issued from the wallet's next sign-in or token refresh
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: ['admin', 'brand_partner', 'analyst']
+ *               brandId:
+ *                 type: number
+ *             required:
+ *               - role
+ *     responses:
+ *       200:
+ *         description: Role granted
+ *       400:
+ *         description: Invalid request
+ *       403:
+ *         description: Admin role required
+ *   delete:
+ *     summary: Remove a wallet's role
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role removed
+ *       404:
+ *         description: Wallet has no elevated role
+ */
+router.put('/wallet-roles/:walletAddress', requireRole('admin'), setWalletRole);
+router.delete('/wallet-roles/:walletAddress', requireRole('admin'), removeWalletRole);
+
+/**
+ * @swagger
+ * /api/admin/brands/analytics:
+ *   get:
+ *     summary: Brand performance analytics
+ *     description: Admins and analysts see every brand; brand partners only see their own brand
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rows from the brand_analytics view
+ *       403:
+ *         description: Role not allowed
+ */
+router.get('/brands/analytics', requireRole('admin', 'analyst', 'brand_partner'), getBrandAnalytics);
+
+/**
+ * @swagger
+ * /api/admin/points-rules:
+ *   get:
+ *     summary: List points rules
+ *     description: Returns the current rule version per brand and action type, or every version with includeHistory=true
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actionType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: brandId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: includeHistory
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Points rules
+ *       403:
+ *         description: Admin or analyst role required
+ *   post:
+ *     summary: Create a points rule
+ *     description: |
+ *       Points = (fixedPoints + floor(details.amount / unitAmount) * pointsPerUnit) * brand loyalty_multiplier,
+ *       then capped by maxPointsPerAction and maxPointsPerDay.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/PointsRuleInput'
+ *               - type: object
+ *                 properties:
+ *                   actionType:
+ *                     type: string
+ *                     enum: ['vietjet_flight_booking', 'hdbank_transaction', 'dragon_city_visit', 'hd_saison_purchase', 'ha_long_star_booking']
+ *                   brandId:
+ *                     type: number
+ *                     description: Defaults to the brand of the action type
+ *                 required:
+ *                   - actionType
+ *     responses:
+ *       201:
+ *         description: Points rule created
+ *       400:
+ *         description: Invalid rule, or a rule already exists for this action
+ *       403:
+ *         description: Admin role required
+ */
+router.get('/points-rules', requireRole('admin', 'analyst'), listPointsRules);
+router.post('/points-rules', requireRole('admin'), createPointsRule);
+
+/**
+ * @swagger
+ * /api/admin/points-rules/{ruleId}:
+ *   get:
+ *     summary: Get a points rule version
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Points rule
+ *       404:
+ *         description: Points rule not found
+ *   put:
+ *     summary: Update a points rule
+ *     description: Supersedes the current version with a new one. Actions keep a reference to the version that scored them.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PointsRuleInput'
+ *     responses:
+ *       200:
+ *         description: New rule version
+ *       400:
+ *         description: Invalid fields or not the current version
+ *       404:
+ *         description: Points rule not found
+ *   delete:
+ *     summary: Retire a points rule
+ *     description: The action earns no points until a new rule is created
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Points rule retired
+ *       404:
+ *         description: Points rule not found or not the current version
+ */
+router.get('/points-rules/:ruleId', requireRole('admin', 'analyst'), getPointsRule);
+router.put('/points-rules/:ruleId', requireRole('admin'), updatePointsRule);
+router.delete('/points-rules/:ruleId', requireRole('admin'), retirePointsRule);
+
+/**
+ * @swagger
+ * /api/admin/levels:
+ *   get:
+ *     summary: List loyalty levels
+ *     description: Level thresholds, names, images and status tiers from the loyalty_levels table
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loyalty levels ordered by level
+ */
+router.get('/levels', requireRole('admin', 'analyst'), listLoyaltyLevels);
+
+/**
+ * @swagger
+ * /api/admin/levels/{level}:
+ *   put:
+ *     summary: Update a loyalty level
+ *     description: Edits one level and recalculates the level and status tier of every NFT. Each level must require at least as much as the level below it.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: level
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 7
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoyaltyLevelInput'
+ *     responses:
+ *       200:
+ *         description: Updated level
+ *       400:
+ *         description: Invalid fields or thresholds out of order
+ *       404:
+ *         description: Loyalty level not found
+ */
+router.put('/levels/:level', requireRole('admin'), updateLoyaltyLevel);
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: List background jobs
+ *     description: Newest first. Use status=dead_letter to find jobs that used up their retries.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, running, completed, dead_letter]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           example: 'nft_mint'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: Jobs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Job'
+ *       400:
+ *         description: Invalid status or limit
+ */
+router.get('/jobs', requireRole('admin', 'analyst'), listJobs);
+
+/**
+ * @swagger
+ * /api/admin/jobs/{jobId}/retry:
+ *   post:
+ *     summary: Requeue a dead-letter job
+ *     description: Resets the attempt count and runs the job again. Checkpoints are kept, so a mint whose transaction was already sent waits for it instead of minting twice.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Job requeued
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job is not in the dead letter, or the same work is already queued
+ */
+router.post('/jobs/:jobId/retry', requireRole('admin'), retryJob);
+
+/**
+ * @swagger
+ * /api/admin/tx:
+ *   get:
+ *     summary: List the signer's transactions
+ *     description: In-flight transactions by default, lowest nonce first. Transactions pending for stuckAfterBlocks blocks are re-sent with higher fees under the same nonce; earlier hashes are kept in previous_hashes.
+ *     tags: [Admin]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, confirmed, reverted, dropped, all]
+ *           default: pending
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Transactions, with the chain head and signer nonces (null while the RPC is unreachable)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     chain:
+ *                       type: object
+ *                       properties:
+ *                         chainId:
+ *                           type: number
+ *                         signerAddress:
+ *                           type: string
+ *                         blockNumber:
+ *                           type: number
+ *                         minedNonce:
+ *                           type: number
+ *                         pendingNonce:
+ *                           type: number
+ *                     stuckAfterBlocks:
+ *                       type: number
+ *                     transactions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SignerTransaction'
+ *       400:
+ *         description: Invalid status, limit or network
+ */
+router.get('/tx', requireRole('admin', 'analyst'), selectNetwork, listSignerTransactions);
+
+export default router;
@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import { getNonce, verifySignIn, refreshTokens, logout, getMe } from '../controllers/auth';
+import { authenticate, requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/nonce:
+ *   get:
+ *     summary: Issue a Sign-In-With-Ethereum nonce
+ *     description: Returns a one-time nonce and the EIP-4361 message the wallet must sign
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: query
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: '0x742d35Cc6634C0532925a3b8D1e4DB4c926e9e'
+ *     responses:
+ *       200:
+ *         description: Nonce issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 nonce:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                   description: EIP-4361 message to sign with personal_sign
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid wallet address
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/nonce', getNonce);
+
+/**
+ * @swagger
+ * /api/auth/verify:
+ *   post:
+ *     summary: Verify a signed SIWE message
+ *     description: Checks the wallet signature and nonce, then issues an access token and a refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *             required:
+ *               - message
+ *               - signature
+ *     responses:
+ *       200:
+ *         description: Signed in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Signature, nonce or message verification failed
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/verify', verifySignIn);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh an access token
+ *     description: Exchanges a refresh token for a new token pair. The old refresh token stops working.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *             required:
+ *               - refreshToken
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Refresh token invalid, expired or already used
+ */
+router.post('/refresh', refreshTokens);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Revokes the session behind the given refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *             required:
+ *               - refreshToken
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       401:
+ *         description: Invalid refresh token
+ */
+router.post('/logout', logout);
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the authenticated identity
+ *     description: Returns the wallet, role and brand scope of the caller
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Authenticated identity
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/me', authenticate, requireAuth, getMe);
+
+export default router;
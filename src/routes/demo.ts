@@ -7,6 +7,7 @@ import {
   uploadSampleImage,
   completeWorkflowDemo
 } from '../controllers/demo';
+import { requireAuth } from '../middleware/auth';
 
 const router = Router();
 
@@ -15,7 +16,7 @@ const router = Router();
  * /api/demo/ipfs/test:
  *   get:
  *     summary: Test IPFS connection
- *     description: Test connection to Pinata IPFS service
+ *     description: Test connection to the configured IPFS provider
  *     tags: [Demo]
  *     responses:
  *       200:
@@ -32,13 +33,20 @@ router.get('/ipfs/test', testIPFSConnection);
  *     summary: Create sample NFT metadata
  *     description: Create and upload sample NFT metadata to IPFS for demo
  *     tags: [Demo]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Sample metadata created successfully
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: Over the caller's remaining upload quota
  *       500:
  *         description: Failed to create sample metadata
  */
-router.post('/ipfs/create-sample-metadata', createSampleNFTMetadata);
+router.post('/ipfs/create-sample-metadata', requireAuth, createSampleNFTMetadata);
 
 /**
  * @swagger
@@ -47,6 +55,9 @@ router.post('/ipfs/create-sample-metadata', createSampleNFTMetadata);
  *     summary: Create sample NFT gallery
  *     description: Create multiple sample NFTs for gallery demonstration
  *     tags: [Demo]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     requestBody:
  *       content:
  *         application/json:
@@ -62,10 +73,14 @@ router.post('/ipfs/create-sample-metadata', createSampleNFTMetadata);
  *     responses:
  *       200:
  *         description: Sample gallery created successfully
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: Over the caller's remaining upload quota
  *       500:
  *         description: Failed to create sample gallery
  */
-router.post('/ipfs/create-sample-gallery', createSampleGallery);
+router.post('/ipfs/create-sample-gallery', requireAuth, createSampleGallery);
 
 /**
  * @swagger
@@ -89,6 +104,9 @@ router.get('/ipfs/gallery', getDemoGallery);
  *     summary: Upload sample image
  *     description: Upload a sample image to IPFS for demo purposes
  *     tags: [Demo]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     requestBody:
  *       content:
  *         application/json:
@@ -102,10 +120,14 @@ router.get('/ipfs/gallery', getDemoGallery);
  *     responses:
  *       200:
  *         description: Sample image uploaded successfully
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: Over the caller's remaining upload quota
  *       500:
  *         description: Failed to upload sample image
  */
-router.post('/ipfs/upload-sample-image', uploadSampleImage);
+router.post('/ipfs/upload-sample-image', requireAuth, uploadSampleImage);
 
 /**
  * @swagger
@@ -114,12 +136,19 @@ router.post('/ipfs/upload-sample-image', uploadSampleImage);
  *     summary: Complete NFT workflow demo
  *     description: Demonstrate the complete NFT creation workflow from image to metadata
  *     tags: [Demo]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Complete workflow demo executed successfully
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: Over the caller's remaining upload quota
  *       500:
  *         description: Workflow demo failed
  */
-router.post('/ipfs/complete-workflow', completeWorkflowDemo);
+router.post('/ipfs/complete-workflow', requireAuth, completeWorkflowDemo);
 
 export default router;
\ No newline at end of file
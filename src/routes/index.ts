@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import authRoutes from './auth';
 import usersRoutes from './users';
 import nftsRoutes from './nfts';
 import actionsRoutes from './actions';
@@ -6,9 +7,19 @@ import perksRoutes from './perks';
 import ipfsRoutes from './ipfs';
 import demoRoutes from './demo';
 import metadataRoutes from './metadata';
+import adminRoutes from './admin';
+import jobsRoutes from './jobs';
+import stakingRoutes from './staking';
+import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
+// Auth routes resolve credentials themselves so an expired access token never blocks a refresh
+router.use('/auth', authRoutes);
+
+// Resolve API key / JWT credentials for every other route; each route checks its own roles
+router.use(authenticate);
+
 // Mount routes
 router.use('/users', usersRoutes);
 router.use('/nfts', nftsRoutes);
@@ -17,5 +28,8 @@ router.use('/perks', perksRoutes);
 router.use('/ipfs', ipfsRoutes);
 router.use('/demo', demoRoutes);
 router.use('/metadata', metadataRoutes);
+router.use('/admin', adminRoutes);
+router.use('/jobs', jobsRoutes);
+router.use('/staking', stakingRoutes);
 
 export default router;
\ No newline at end of file
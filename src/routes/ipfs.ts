@@ -1,52 +1,22 @@
 import { Router, Request, Response } from 'express';
-import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
-import { IpfsService } from '../services/ipfs';
+import busboy from 'busboy';
+import { IpfsIntegrityError, IpfsMediaUpload, IpfsService, IpfsUploadLimitError } from '../services/ipfs';
+import { IPFS_REFERRER_TYPES, IpfsPinError, IpfsReferrerType, ipfsPinService } from '../services/ipfs-pins';
+import { MediaPipelineError } from '../services/image-pipeline';
+import { UploadError, UploadSession, uploadService } from '../services/uploads';
+import { describeActor, requireAuth, requireRole } from '../middleware/auth';
 
 const router = Router();
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadDir = path.join(__dirname, '../../uploads');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: (req, file, cb) => {
-    // Generate unique filename
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
-
-const upload = multer({
-  storage: storage,
-  limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow common image and video formats
-    const allowedTypes = /jpeg|jpg|png|gif|webp|mp4|mov|avi|svg/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Only image and video files are allowed'));
-    }
-  }
-});
+// Single-request uploads; larger files go through /uploads in chunks
+const MAX_UPLOAD_SIZE = 100 * 1024 * 1024; // 100MB limit
 
 /**
  * @swagger
  * /api/ipfs/test:
  *   get:
- *     summary: Test Pinata connection
- *     description: Verify that Pinata API credentials are working
+ *     summary: Test IPFS provider connection
+ *     description: Verify that the configured IPFS provider (IPFS_PROVIDER) is reachable and its credentials work
  *     tags: [IPFS]
  *     responses:
  *       200:
@@ -58,6 +28,8 @@ const upload = multer({
  *               properties:
  *                 success:
  *                   type: boolean
+ *                 provider:
+ *                   type: string
  *                 message:
  *                   type: string
  *       500:
@@ -70,12 +42,14 @@ router.get('/test', async (req: Request, res: Response) => {
     if (isConnected) {
       res.json({
         success: true,
-        message: 'Pinata connection successful'
+        provider: IpfsService.getProviderName(),
+        message: 'IPFS provider connection successful'
       });
     } else {
       res.status(500).json({
         success: false,
-        message: 'Pinata connection failed'
+        provider: IpfsService.getProviderName(),
+        message: 'IPFS provider connection failed'
       });
     }
   } catch (error: any) {
@@ -91,8 +65,11 @@ router.get('/test', async (req: Request, res: Response) => {
  * /api/ipfs/upload-file:
  *   post:
  *     summary: Upload file to IPFS
- *     description: Upload an image or video file to IPFS via Pinata
+ *     description: Upload an image or video file of up to 100 MB to IPFS through the configured provider. The request is streamed, not stored; send `name` and `metadata` before `file`, since fields after it are not read. The file type is sniffed from its content; anything but JPEG, PNG, GIF, WebP, SVG, MP4, MOV or AVI is refused with 415. SVGs are sanitized and EXIF metadata is stripped before pinning, and images also get WebP variants (thumbnail, 512 and 1024 pixels) and a blurhash, returned as metadata `properties`. Videos are hashed on their way to the provider, which must report the same CID or the upload fails with 502. Uploads count against the caller's quota (see /api/ipfs/quota); admins have none.
  *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -100,16 +77,16 @@ router.get('/test', async (req: Request, res: Response) => {
  *           schema:
  *             type: object
  *             properties:
- *               file:
- *                 type: string
- *                 format: binary
- *                 description: File to upload
  *               name:
  *                 type: string
  *                 description: Optional name for the file
  *               metadata:
  *                 type: string
  *                 description: Optional JSON metadata
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: File to upload, after the other fields
  *     responses:
  *       200:
  *         description: File uploaded successfully
@@ -124,57 +101,427 @@ router.get('/test', async (req: Request, res: Response) => {
  *                   type: string
  *                 ipfsUrl:
  *                   type: string
+ *                 isDuplicate:
+ *                   type: boolean
+ *                   description: The content was already pinned
+ *                 contentType:
+ *                   type: string
+ *                   description: Type sniffed from the content
+ *                 properties:
+ *                   type: object
+ *                   description: The original and its variants (files) plus the blurhash, for the NFT metadata
  *       400:
  *         description: Bad request
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: The file is over 100 MB or the caller's remaining quota
+ *       415:
+ *         description: Not a supported image or video, or an unreadable or unsafe one
  *       500:
  *         description: Upload failed
+ *       502:
+ *         description: The provider returned a different CID than the content's
  */
-router.post('/upload-file', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/upload-file', requireAuth, async (req: Request, res: Response) => {
+  const owner = describeActor(req);
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({ headers: req.headers, limits: { files: 1, fields: 10, fileSize: MAX_UPLOAD_SIZE } });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      message: 'Expected a multipart/form-data upload'
+    });
+  }
+
   try {
-    if (!req.file) {
+    // The request body is a little larger than the file it carries, so its length covers the file
+    const contentLength = Number(req.headers['content-length']);
+    const fields: Record<string, string> = {};
+
+    const uploaded = await uploadService.withReservation({
+      owner,
+      sizeBytes: Number.isSafeInteger(contentLength) && contentLength > 0 ? Math.min(contentLength, MAX_UPLOAD_SIZE) : MAX_UPLOAD_SIZE,
+      partial: true,
+      enforceQuota: req.auth!.role !== 'admin'
+    }, maxBytes => new Promise<IpfsMediaUpload | null>((resolve, reject) => {
+      let upload: Promise<IpfsMediaUpload> | null = null;
+
+      parser.on('field', (field, value) => {
+        fields[field] = value;
+      });
+      parser.on('file', (field, stream, info) => {
+        if (field !== 'file' || upload) {
+          stream.resume();
+          return;
+        }
+
+        let metadata;
+        try {
+          metadata = fields.metadata ? JSON.parse(fields.metadata) : undefined;
+        } catch (error) {
+          stream.resume();
+          return reject(new UploadError('Invalid metadata JSON'));
+        }
+
+        // busboy truncates the file at fileSize; fail the upload instead
+        stream.on('limit', () => stream.destroy(new IpfsUploadLimitError(MAX_UPLOAD_SIZE)));
+        upload = IpfsService.uploadMediaStream(stream, {
+          name: fields.name || info.filename,
+          metadata,
+          owner,
+          maxBytes
+        });
+        // Fails fast on refused content instead of waiting for the rest of the request
+        upload.catch(reject);
+      });
+      parser.on('close', () => (upload ? upload.then(resolve, reject) : resolve(null)));
+      parser.on('error', reject);
+      req.pipe(parser);
+    }));
+
+    if (!uploaded) {
       return res.status(400).json({
         success: false,
         message: 'No file provided'
       });
     }
 
-    const { name } = req.body;
-    let metadata;
-    
-    try {
-      metadata = req.body.metadata ? JSON.parse(req.body.metadata) : undefined;
-    } catch (error) {
+    res.json({
+      success: true,
+      ipfsHash: uploaded.cid,
+      ipfsUrl: IpfsService.getIPFSUrl(uploaded.cid),
+      isDuplicate: uploaded.duplicate,
+      contentType: uploaded.contentType,
+      properties: uploaded.properties,
+      message: uploaded.duplicate ? 'File was already pinned to IPFS' : 'File uploaded to IPFS successfully'
+    });
+
+  } catch (error: any) {
+    // The rest of the request is not read; close the connection rather than drain it
+    req.unpipe(parser);
+    res.setHeader('Connection', 'close');
+    handleUploadError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/quota:
+ *   get:
+ *     summary: Get the caller's upload quota
+ *     description: Bytes the caller has pinned and reserved by uploads in progress, against IPFS_USER_QUOTA_MB. Admins upload without a quota.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: limitBytes and remainingBytes are null when uploads are unlimited
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/quota', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const quota = await uploadService.getQuota(describeActor(req));
+    const exempt = req.auth!.role === 'admin';
+    res.json({
+      success: true,
+      data: exempt ? { ...quota, limitBytes: null, remainingBytes: null } : quota
+    });
+
+  } catch (error: any) {
+    handleUploadError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/uploads:
+ *   post:
+ *     summary: Start a resumable upload
+ *     description: For files too large for one request, typically videos. Declare the size, send the bytes in order with PATCH /api/ipfs/uploads/{uploadId}, then complete the upload to pin it. After an interrupted chunk, GET the upload and resume from its offset. The size is reserved against the caller's quota until the upload ends, and sessions idle for IPFS_UPLOAD_SESSION_TTL_HOURS expire.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fileName
+ *               - size
+ *             properties:
+ *               fileName:
+ *                 type: string
+ *                 example: 'launch-video.mp4'
+ *               size:
+ *                 type: integer
+ *                 description: Total size in bytes, at most IPFS_MAX_RESUMABLE_UPLOAD_MB
+ *               name:
+ *                 type: string
+ *                 description: Optional name to pin the file with
+ *               metadata:
+ *                 type: object
+ *                 description: Optional key-values to pin the file with
+ *     responses:
+ *       201:
+ *         description: Upload started; send the first chunk at offset 0
+ *       400:
+ *         description: Missing fileName or invalid size
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: Larger than the resumable upload limit or the caller's remaining quota
+ */
+router.post('/uploads', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { fileName, size, name, metadata } = req.body;
+    if (typeof fileName !== 'string' || !fileName || fileName.length > 255) {
+      return res.status(400).json({
+        success: false,
+        message: 'fileName is required'
+      });
+    }
+    if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid metadata JSON'
+        message: 'metadata must be an object'
       });
     }
 
-    const ipfsHash = await IpfsService.pinFileToIPFS(req.file.path, {
-      name: name || req.file.originalname,
-      metadata
+    const session = await uploadService.createSession({
+      owner: describeActor(req),
+      fileName,
+      sizeBytes: Number(size),
+      name,
+      metadata,
+      enforceQuota: req.auth!.role !== 'admin'
+    });
+
+    res.status(201).json({
+      success: true,
+      data: formatSession(session)
+    });
+
+  } catch (error: any) {
+    handleUploadError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/uploads/{uploadId}:
+ *   get:
+ *     summary: Get a resumable upload
+ *     description: The offset to resume from, the status, and the CID once completed
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The upload
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: No such upload for the caller
+ */
+router.get('/uploads/:uploadId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const session = await uploadService.getSession(req.params.uploadId, describeActor(req));
+    res.json({
+      success: true,
+      data: formatSession(session)
     });
 
-    // Clean up temporary file
-    fs.unlinkSync(req.file.path);
+  } catch (error: any) {
+    handleUploadError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/uploads/{uploadId}:
+ *   patch:
+ *     summary: Send a chunk of a resumable upload
+ *     description: The body is raw bytes written at Upload-Offset, which must equal the bytes received so far. Bytes received before a chunk is interrupted are kept. The first chunk is checked to be a supported image or video.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: header
+ *         name: Upload-Offset
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/offset+octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Chunk written; the response has the new offset
+ *       400:
+ *         description: Missing or invalid Upload-Offset
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: No such upload for the caller
+ *       409:
+ *         description: Wrong offset, a chunk already in flight, or the upload is no longer in progress; the response has the current offset
+ *       413:
+ *         description: The chunk goes past the declared size
+ *       415:
+ *         description: Not an octet-stream body, or the file is not a supported image or video
+ */
+router.patch('/uploads/:uploadId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!req.is('application/offset+octet-stream') && !req.is('application/octet-stream')) {
+      return res.status(415).json({
+        success: false,
+        message: 'Chunks must be sent as application/offset+octet-stream'
+      });
+    }
+    const offset = Number(req.headers['upload-offset']);
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload-Offset header is required'
+      });
+    }
 
+    const session = await uploadService.writeChunk(req.params.uploadId, describeActor(req), offset, req);
+    res.setHeader('Upload-Offset', session.received_bytes);
     res.json({
       success: true,
-      ipfsHash,
-      ipfsUrl: IpfsService.getIPFSUrl(ipfsHash),
-      message: 'File uploaded to IPFS successfully'
+      data: formatSession(session)
     });
 
   } catch (error: any) {
-    // Clean up temporary file if it exists
-    if (req.file && fs.existsSync(req.file.path)) {
-      fs.unlinkSync(req.file.path);
+    if (!req.complete) {
+      res.setHeader('Connection', 'close');
     }
+    if (error instanceof UploadError && error.offset !== undefined) {
+      res.setHeader('Upload-Offset', error.offset);
+    }
+    handleUploadError(res, error);
+  }
+});
 
-    res.status(500).json({
-      success: false,
-      message: error.message
+/**
+ * @swagger
+ * /api/ipfs/uploads/{uploadId}/complete:
+ *   post:
+ *     summary: Complete a resumable upload
+ *     description: Once every byte is received, the file goes through the same pipeline as /api/ipfs/upload-file and is pinned. A failed pin can be retried; content the pipeline refuses fails the upload.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pinned; same fields as /api/ipfs/upload-file plus the upload
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: No such upload for the caller
+ *       409:
+ *         description: The upload is incomplete or no longer in progress
+ *       415:
+ *         description: Not a supported image or video, or an unreadable or unsafe one
+ *       502:
+ *         description: The provider returned a different CID than the content's
+ */
+router.post('/uploads/:uploadId/complete', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { session, upload } = await uploadService.completeSession(req.params.uploadId, describeActor(req));
+    res.json({
+      success: true,
+      ipfsHash: upload.cid,
+      ipfsUrl: IpfsService.getIPFSUrl(upload.cid),
+      isDuplicate: upload.duplicate,
+      contentType: upload.contentType,
+      properties: upload.properties,
+      data: formatSession(session),
+      message: 'Upload pinned to IPFS successfully'
     });
+
+  } catch (error: any) {
+    handleUploadError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/uploads/{uploadId}:
+ *   delete:
+ *     summary: Abort a resumable upload
+ *     description: Deletes the bytes received and releases the quota reserved for it
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Upload aborted
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: No such upload for the caller
+ *       409:
+ *         description: The upload is no longer in progress
+ */
+router.delete('/uploads/:uploadId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const session = await uploadService.abortSession(req.params.uploadId, describeActor(req));
+    res.json({
+      success: true,
+      data: formatSession(session),
+      message: 'Upload aborted'
+    });
+
+  } catch (error: any) {
+    handleUploadError(res, error);
   }
 });
 
@@ -183,8 +530,11 @@ router.post('/upload-file', upload.single('file'), async (req: Request, res: Res
  * /api/ipfs/upload-json:
  *   post:
  *     summary: Upload JSON metadata to IPFS
- *     description: Upload JSON metadata (NFT metadata) to IPFS via Pinata
+ *     description: Upload JSON metadata (NFT metadata) to IPFS through the configured provider. The pinned bytes are the compact JSON serialization of data, and identical JSON already pinned is not uploaded again. The JSON counts against the caller's quota (see /api/ipfs/quota); admins have none.
  *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -203,13 +553,19 @@ router.post('/upload-file', upload.single('file'), async (req: Request, res: Res
  *                 description: Optional metadata
  *     responses:
  *       200:
- *         description: JSON uploaded successfully
+ *         description: JSON uploaded successfully, or already pinned (isDuplicate)
  *       400:
  *         description: Bad request
+ *       401:
+ *         description: Authentication required
+ *       413:
+ *         description: The JSON is over the caller's remaining quota
  *       500:
  *         description: Upload failed
+ *       502:
+ *         description: The provider returned a different CID than the content's
  */
-router.post('/upload-json', async (req: Request, res: Response) => {
+router.post('/upload-json', requireAuth, async (req: Request, res: Response) => {
   try {
     const { data, name, metadata } = req.body;
 
@@ -220,23 +576,22 @@ router.post('/upload-json', async (req: Request, res: Response) => {
       });
     }
 
-    const ipfsHash = await IpfsService.pinJSONToIPFS(data, {
+    const { cid: ipfsHash, duplicate } = await withJsonReservation(req, data, () => IpfsService.uploadJSON(data, {
       name,
-      metadata
-    });
+      metadata,
+      owner: describeActor(req)
+    }));
 
     res.json({
       success: true,
       ipfsHash,
       ipfsUrl: IpfsService.getIPFSUrl(ipfsHash),
-      message: 'JSON uploaded to IPFS successfully'
+      isDuplicate: duplicate,
+      message: duplicate ? 'JSON was already pinned to IPFS' : 'JSON uploaded to IPFS successfully'
     });
 
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      message: error.message
-    });
+    handleUploadError(res, error);
   }
 });
 
@@ -245,7 +600,7 @@ router.post('/upload-json', async (req: Request, res: Response) => {
  * /api/ipfs/pins:
  *   get:
  *     summary: Get list of pinned files
- *     description: Retrieve list of files pinned to IPFS via Pinata
+ *     description: Retrieve list of files pinned to IPFS through the configured provider
  *     tags: [IPFS]
  *     parameters:
  *       - in: query
@@ -303,13 +658,320 @@ router.get('/pins', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/ipfs/pins/{cid}:
+ *   get:
+ *     summary: Get a pin and its references
+ *     description: The backend's record of the content on the configured provider, and what uses it. Content with no references is unpinned by `npm run ipfs-gc` once it is old enough.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: cid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pin record (null if the backend never pinned it) and references
+ *       400:
+ *         description: Invalid CID
+ *       403:
+ *         description: Requires admin or analyst
+ *       500:
+ *         description: Failed to get the pin
+ */
+router.get('/pins/:cid', requireRole('admin', 'analyst'), async (req: Request, res: Response) => {
+  try {
+    const { cid } = req.params;
+    if (!isValidCid(cid)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid CID is required'
+      });
+    }
+
+    const [pin, references] = await Promise.all([
+      ipfsPinService.getPin(cid, IpfsService.getProviderName()),
+      ipfsPinService.getReferences(cid)
+    ]);
+
+    res.json({
+      success: true,
+      data: { pin, references }
+    });
+
+  } catch (error: any) {
+    handlePinError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/pins/{cid}:
+ *   delete:
+ *     summary: Unpin content
+ *     description: Unpins the content from the configured provider. Content something references is refused unless `force=true`; its references are kept. Unpinning a metadata document drops its reference on its image.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: cid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: force
+ *         schema:
+ *           type: boolean
+ *         description: Unpin even though the content is referenced
+ *     responses:
+ *       200:
+ *         description: Content unpinned
+ *       400:
+ *         description: Invalid CID
+ *       403:
+ *         description: Requires admin
+ *       409:
+ *         description: The content is referenced
+ *       500:
+ *         description: Unpin failed
+ */
+router.delete('/pins/:cid', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { cid } = req.params;
+    if (!isValidCid(cid)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid CID is required'
+      });
+    }
+
+    const result = await ipfsPinService.unpin(cid, describeActor(req), req.query.force === 'true');
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Content unpinned from IPFS'
+    });
+
+  } catch (error: any) {
+    handlePinError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/pins/{cid}/replace:
+ *   post:
+ *     summary: Replace content with another CID
+ *     description: Moves every reference from the CID to `newCid`, then unpins the old content. Upload the replacement first. References the old content held as a metadata document (on its image) are dropped with it, so reference the image from the new metadata.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: cid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newCid
+ *             properties:
+ *               newCid:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: References moved and the old content unpinned
+ *       400:
+ *         description: Invalid CIDs
+ *       403:
+ *         description: Requires admin
+ *       404:
+ *         description: The replacement is not pinned
+ *       500:
+ *         description: Replace failed
+ */
+router.post('/pins/:cid/replace', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { cid } = req.params;
+    const { newCid } = req.body;
+    if (!isValidCid(cid) || !isValidCid(newCid)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid CID and newCid are required'
+      });
+    }
+
+    const result = await ipfsPinService.replace(cid, newCid, describeActor(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.moved} reference(s) moved to ${newCid}`
+    });
+
+  } catch (error: any) {
+    handlePinError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/pins/{cid}/references:
+ *   post:
+ *     summary: Record a reference to content
+ *     description: Records that an NFT, mint job, mint voucher or metadata document uses the CID, which keeps it from being garbage collected. Recording the same reference twice is a no-op.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: cid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - referrerType
+ *               - referrerId
+ *             properties:
+ *               referrerType:
+ *                 type: string
+ *                 enum: [nft, metadata, mint_job, mint_voucher]
+ *               referrerId:
+ *                 type: string
+ *                 description: chainId:tokenId for an NFT, the metadata document's CID, or a job or voucher ID
+ *     responses:
+ *       201:
+ *         description: Reference recorded
+ *       400:
+ *         description: Invalid CID or referrer
+ *       403:
+ *         description: Requires admin
+ *       409:
+ *         description: The content was unpinned
+ *       500:
+ *         description: Failed to record the reference
+ */
+router.post('/pins/:cid/references', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { cid } = req.params;
+    const { referrerType, referrerId } = req.body;
+    if (!isValidCid(cid)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid CID is required'
+      });
+    }
+    if (!isValidReferrer(referrerType, referrerId)) {
+      return res.status(400).json({
+        success: false,
+        message: `referrerType must be one of ${IPFS_REFERRER_TYPES.join(', ')} and referrerId is required`
+      });
+    }
+
+    const reference = await ipfsPinService.addReference(cid, referrerType, referrerId, describeActor(req));
+
+    res.status(201).json({
+      success: true,
+      data: reference
+    });
+
+  } catch (error: any) {
+    handlePinError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/ipfs/pins/{cid}/references/{referrerType}/{referrerId}:
+ *   delete:
+ *     summary: Remove a reference to content
+ *     description: The content stays pinned until it is unpinned or garbage collected.
+ *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: cid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: referrerType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [nft, metadata, mint_job, mint_voucher]
+ *       - in: path
+ *         name: referrerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reference removed
+ *       400:
+ *         description: Invalid CID or referrer
+ *       403:
+ *         description: Requires admin
+ *       404:
+ *         description: Reference not found
+ *       500:
+ *         description: Failed to remove the reference
+ */
+router.delete('/pins/:cid/references/:referrerType/:referrerId', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { cid, referrerType, referrerId } = req.params;
+    if (!isValidCid(cid) || !isValidReferrer(referrerType, referrerId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid CID and referrer are required'
+      });
+    }
+
+    await ipfsPinService.removeReference(cid, referrerType as IpfsReferrerType, referrerId);
+
+    res.json({
+      success: true,
+      message: 'Reference removed'
+    });
+
+  } catch (error: any) {
+    handlePinError(res, error);
+  }
+});
+
 /**
  * @swagger
  * /api/ipfs/create-nft-metadata:
  *   post:
  *     summary: Create and upload NFT metadata
- *     description: Create properly formatted NFT metadata and upload to IPFS
+ *     description: Create properly formatted NFT metadata and upload to IPFS. The metadata counts against the caller's quota (see /api/ipfs/quota); admins have none.
  *     tags: [IPFS]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -349,10 +1011,18 @@ router.get('/pins', async (req: Request, res: Response) => {
  *         description: NFT metadata created and uploaded successfully
  *       400:
  *         description: Bad request
+ *       401:
+ *         description: Authentication required
+ *       409:
+ *         description: The image was unpinned, so the metadata cannot reference it
+ *       413:
+ *         description: The metadata is over the caller's remaining quota
  *       500:
  *         description: Upload failed
+ *       502:
+ *         description: The provider returned a different CID than the content's
  */
-router.post('/create-nft-metadata', async (req: Request, res: Response) => {
+router.post('/create-nft-metadata', requireAuth, async (req: Request, res: Response) => {
   try {
     const { name, description, imageHash, attributes, externalUrl } = req.body;
 
@@ -363,23 +1033,29 @@ router.post('/create-nft-metadata', async (req: Request, res: Response) => {
       });
     }
 
-    // Create NFT metadata
+    // Create NFT metadata, with the image's variants if it was uploaded through /upload-file
     const metadata = IpfsService.createNFTMetadata({
       name,
       description,
       imageHash,
       attributes,
-      externalUrl
+      externalUrl,
+      properties: isValidCid(imageHash) ? await IpfsService.getMediaProperties(imageHash) : null
     });
 
     // Upload metadata to IPFS
-    const metadataHash = await IpfsService.pinJSONToIPFS(metadata, {
+    const metadataHash = await withJsonReservation(req, metadata, () => IpfsService.pinJSONToIPFS(metadata, {
       name: `${name} - Metadata`,
+      owner: describeActor(req),
       metadata: {
         type: 'nft_metadata',
         nft_name: name
       }
-    });
+    }));
+    // The metadata keeps its image and variants pinned; the metadata itself is collected unless something references it
+    if (isValidCid(imageHash)) {
+      await IpfsService.addMetadataReferences(metadataHash, metadata, describeActor(req));
+    }
 
     res.json({
       success: true,
@@ -391,11 +1067,79 @@ router.post('/create-nft-metadata', async (req: Request, res: Response) => {
     });
 
   } catch (error: any) {
-    res.status(500).json({
+    handlePinError(res, error);
+  }
+});
+
+function isValidCid(cid: unknown): cid is string {
+  return typeof cid === 'string' && /^[A-Za-z0-9]{46,100}$/.test(cid);
+}
+
+function isValidReferrer(referrerType: unknown, referrerId: unknown): referrerType is IpfsReferrerType {
+  return IPFS_REFERRER_TYPES.includes(referrerType as IpfsReferrerType)
+    && (typeof referrerId === 'string' || typeof referrerId === 'number')
+    && String(referrerId).length > 0 && String(referrerId).length <= 100;
+}
+
+/**
+ * Send a pin rejection or quota refusal with its status code, a CID mismatch as 502 and anything else as 500
+ */
+function handlePinError(res: Response, error: any): void {
+  if (error instanceof IpfsPinError || error instanceof IpfsUploadLimitError) {
+    res.status(error.statusCode).json({
       success: false,
       message: error.message
     });
+    return;
   }
-});
 
-export default router;
\ No newline at end of file
+  res.status(error instanceof IpfsIntegrityError ? 502 : 500).json({
+    success: false,
+    message: error.message
+  });
+}
+
+/**
+ * Pin JSON while its serialization is reserved against the caller's quota; admins have no quota
+ */
+function withJsonReservation<T>(req: Request, data: object, upload: () => Promise<T>): Promise<T> {
+  return uploadService.withReservation({
+    owner: describeActor(req),
+    sizeBytes: Buffer.byteLength(JSON.stringify(data)),
+    enforceQuota: req.auth!.role !== 'admin'
+  }, upload);
+}
+
+function formatSession(session: UploadSession) {
+  return {
+    uploadId: session.upload_id,
+    fileName: session.file_name,
+    size: Number(session.size_bytes),
+    offset: Number(session.received_bytes),
+    contentType: session.content_type,
+    status: session.status,
+    cid: session.cid,
+    error: session.error_message,
+    expiresAt: session.expires_at
+  };
+}
+
+/**
+ * Send an upload rejection with its status code, a provider CID mismatch as 502 and anything else as 500
+ */
+function handleUploadError(res: Response, error: any): void {
+  if (error instanceof UploadError || error instanceof IpfsUploadLimitError || error instanceof MediaPipelineError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+    return;
+  }
+
+  res.status(error instanceof IpfsIntegrityError ? 502 : 500).json({
+    success: false,
+    message: error.message
+  });
+}
+
+export default router;
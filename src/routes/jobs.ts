@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { getJob } from '../controllers/jobs';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}:
+ *   get:
+ *     summary: Get a background job's status
+ *     description: |
+ *       Reports progress of queued blockchain writes such as NFT mints. `progress` holds the checkpoints
+ *       reached so far (e.g. `transactionHash`, then `tokenId`); `result` is set once the job completes.
+ *       Jobs that used up their retries end in `dead_letter` with `last_error`.
+ *       Wallet users can only see jobs for their own wallet.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Job status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       400:
+ *         description: Invalid job ID
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Job not found
+ */
+router.get('/:jobId', requireRole('user', 'admin', 'analyst'), getJob);
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
+import { config } from '../config';
 import { databaseService } from '../services/database';
+import { levelService } from '../services/levels';
 import { 
+  LevelConfig,
   LEVEL_IMAGE_MAP, 
-  LEVEL_CONFIGS, 
   NFT_CONFIG, 
   calculateLoyaltyLevel, 
   generateImageUrl,
@@ -13,12 +15,22 @@ const router = Router();
 
 /**
  * Dynamic NFT Metadata Endpoint
- * GET /api/metadata/:tokenId
+ * GET /api/metadata/:chainId/:tokenId
  * 
  * This endpoint generates dynamic metadata for NFTs based on the current
  * loyalty level and user attributes stored in the database.
  */
-router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
+router.get('/:chainId(\\d+)/:tokenId', (req: Request, res: Response) => sendMetadata(req, res, parseInt(req.params.chainId)));
+
+/**
+ * Metadata URLs of tokens minted before URLs named the chain
+ * GET /api/metadata/:tokenId
+ * 
+ * Serves the token on the default network, or on another chain when the default has no such token.
+ */
+router.get('/:tokenId', (req: Request, res: Response) => sendMetadata(req, res, null));
+
+async function sendMetadata(req: Request, res: Response, chainId: number | null): Promise<void> {
   try {
     const tokenId = parseInt(req.params.tokenId);
 
@@ -36,6 +48,7 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
     let nftData: any = null;
     let loyaltyLevel = 0;
     let userAttributes: any = {};
+    let levels: LevelConfig[] = [];
 
     try {
       // Query the database for NFT attributes
@@ -54,11 +67,14 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
           na.status_tier,
           na.last_updated
         FROM loyalty_nfts ln
-        LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
-        WHERE ln.token_id = $1
+        LEFT JOIN nft_attributes na ON ln.chain_id = na.chain_id AND ln.token_id = na.nft_token_id
+        WHERE ln.token_id = $1 AND ($2::int IS NULL OR ln.chain_id = $2)
+        ORDER BY ln.chain_id = $3 DESC
+        LIMIT 1
       `;
+      const defaultChainId = config.blockchain.networks[config.blockchain.defaultNetwork].chainId;
       
-      const result = await databaseService.executeQuery(query, [tokenId]);
+      const result = await databaseService.executeQuery(query, [tokenId, chainId, defaultChainId]);
       
       if (result.rows.length > 0) {
         nftData = result.rows[0];
@@ -72,11 +88,13 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
           statusTier: nftData.status_tier || 'Bronze'
         };
         
-        // Calculate current loyalty level based on user attributes
-        loyaltyLevel = calculateLoyaltyLevel(userAttributes);
+        // Calculate current loyalty level from the loyalty_levels table (same rules as the DB trigger)
+        levels = await levelService.getLevels();
+        loyaltyLevel = calculateLoyaltyLevel(userAttributes, levels);
         
         console.log(`📊 NFT ${tokenId} - Current level: ${loyaltyLevel}, Points: ${userAttributes.loyaltyPoints}`);
       } else {
+        levels = await levelService.getLevels();
         console.log(`⚠️ NFT ${tokenId} not found in database, using mock data`);
         // If NFT not found in database, generate mock data based on tokenId
         loyaltyLevel = tokenId % 8; // Cycles through levels 0-7
@@ -90,8 +108,8 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
     }
 
     // Get level configuration
-    const levelConfig = getLevelConfig(loyaltyLevel);
-    const imageCid = LEVEL_IMAGE_MAP[loyaltyLevel];
+    const levelConfig = getLevelConfig(levels, loyaltyLevel);
+    const imageCid = levelConfig?.imageCid || LEVEL_IMAGE_MAP[loyaltyLevel];
     const imageUrl = generateImageUrl(imageCid);
 
     // Generate dynamic attributes based on user data
@@ -175,7 +193,7 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
         level: loyaltyLevel,
         level_name: levelConfig?.name || `Level ${loyaltyLevel}`,
         max_level: NFT_CONFIG.MAX_LEVEL,
-        progress_to_next_level: calculateProgressToNextLevel(userAttributes, loyaltyLevel),
+        progress_to_next_level: calculateProgressToNextLevel(userAttributes, loyaltyLevel, levels),
         eligible_perks: [], // Could be populated with available perks
         partner_benefits: {
           hdbank: userAttributes.bankTier,
@@ -222,7 +240,7 @@ router.get('/:tokenId', async (req: Request, res: Response): Promise<void> => {
 
     res.status(200).json(fallbackMetadata);
   }
-});
+}
 
 /**
  * Generate mock attributes for testing when database is not available
@@ -244,12 +262,12 @@ function generateMockAttributes(tokenId: number): any {
 /**
  * Calculate progress percentage to next loyalty level
  */
-function calculateProgressToNextLevel(attributes: any, currentLevel: number): number {
+function calculateProgressToNextLevel(attributes: any, currentLevel: number, levels: LevelConfig[]): number {
   if (currentLevel >= NFT_CONFIG.MAX_LEVEL) {
     return 100; // Already at max level
   }
 
-  const nextLevelConfig = getLevelConfig(currentLevel + 1);
+  const nextLevelConfig = getLevelConfig(levels, currentLevel + 1);
   if (!nextLevelConfig) {
     return 100;
   }
@@ -271,11 +289,13 @@ function calculateProgressToNextLevel(attributes: any, currentLevel: number): nu
  */
 router.get('/health/check', async (req: Request, res: Response): Promise<void> => {
   try {
+    const levels = await levelService.getLevels();
+
     res.status(200).json({
       status: 'healthy',
       service: 'metadata-api',
       timestamp: new Date().toISOString(),
-      levels_configured: LEVEL_CONFIGS.length,
+      levels_configured: levels.length,
       max_level: NFT_CONFIG.MAX_LEVEL,
       gateway: NFT_CONFIG.PINATA_GATEWAY
     });
@@ -1,15 +1,34 @@
-import { Router } from 'express';
-import { mintNFT, getUserNFT, mintNFTWithMetadata, getDemoNFTGallery, updateNFTLoyalty } from '../controllers/nfts';
+import { Router, Request } from 'express';
+import { mintNFT, getUserNFT, mintNFTWithMetadata, getDemoNFTGallery, updateNFTLoyalty, getNFTMetadataUpdates, getNFTOwnershipHistory } from '../controllers/nfts';
+import { issueMintVoucher, getMintVouchers, confirmMintVoucher, revokeMintVoucher } from '../controllers/vouchers';
+import { requireRole, requireWalletMatch, requireBrandScope } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
+import { databaseService } from '../services/database';
 
 const router = Router();
 
+/**
+ * Brand that owns the action being applied to an NFT
+ */
+const actionBrand = (req: Request): Promise<number | null> =>
+  databaseService.getBrandIdForAction(req.body.actionType);
+
 /**
  * @swagger
  * /api/nfts/mint:
  *   post:
  *     summary: Mint a new Loyalty NFT for a user
- *     description: Mints a new NFT on-chain and creates corresponding database records
+ *     description: |
+ *       Queues a mint job and returns its ID immediately. The job sends the transaction, waits for it
+ *       and creates the database records; poll GET /api/jobs/{jobId} for the token ID.
+ *       Asking again while a mint for the wallet is in progress returns the same job.
+ *       If the token URI was built for a different token ID than the one minted, the job corrects it with setTokenURI.
+ *       The NFT is minted on the selected network and the token records its chain ID.
  *     tags: [NFTs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Network'
  *     requestBody:
  *       required: true
  *       content:
@@ -24,8 +43,8 @@ const router = Router();
  *             required:
  *               - userAddress
  *     responses:
- *       200:
- *         description: NFT minted successfully
+ *       202:
+ *         description: Mint queued
  *         content:
  *           application/json:
  *             schema:
@@ -34,23 +53,37 @@ const router = Router();
  *                 status:
  *                   type: string
  *                   example: 'success'
- *                 tokenId:
+ *                 jobId:
  *                   type: number
- *                   example: 1
- *                 transactionHash:
+ *                   example: 42
+ *                 jobStatus:
+ *                   type: string
+ *                   example: 'pending'
+ *                 statusUrl:
+ *                   type: string
+ *                   example: '/api/jobs/42'
+ *                 network:
  *                   type: string
- *                   example: '0x123...'
+ *                   example: 'lisk-sepolia'
  *                 message:
  *                   type: string
- *                   example: 'NFT minted successfully'
+ *                   example: 'Dynamic NFT mint queued. Your NFT will evolve as you engage with our partner ecosystem.'
  *       400:
- *         description: Invalid request or user already owns NFT
+ *         description: Invalid request, unknown network or user already owns NFT
  *       404:
  *         description: User not found
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Authenticated wallet does not match the requested wallet
+ *       409:
+ *         description: The wallet holds an unexpired, unredeemed mint voucher
  *       500:
  *         description: Internal server error
+ *       503:
+ *         description: No RPC endpoint answered, so NFT ownership could not be checked
  */
-router.post('/mint', mintNFT);
+router.post('/mint', requireRole('user', 'admin'), requireWalletMatch, selectNetwork, mintNFT);
 
 /**
  * @swagger
@@ -94,9 +127,26 @@ router.post('/mint', mintNFT);
  *                     total_transactions:
  *                       type: number
  *                     staked_eth:
+ *                       type: string
+ *                     staking_days:
  *                       type: number
+ *                     eth_days:
+ *                       type: string
  *                     blockchain:
  *                       type: object
+ *                       description: On-chain data from the network the token was minted on. network is null when that network is not enabled; tokenId and stakingInfo are null while its RPC is unreachable
+ *                       properties:
+ *                         network:
+ *                           type: string
+ *                           nullable: true
+ *                         chainId:
+ *                           type: number
+ *                         stakingInfo:
+ *                           type: object
+ *                           nullable: true
+ *                         contractAddresses:
+ *                           type: object
+ *                           nullable: true
  *       404:
  *         description: NFT not found for this user
  *       500:
@@ -109,8 +159,12 @@ router.get('/user/:walletAddress', getUserNFT);
  * /api/nfts/mint-with-metadata:
  *   post:
  *     summary: Mint NFT with IPFS metadata
- *     description: Complete NFT minting workflow with image and metadata upload to IPFS
+ *     description: Runs the image through the media pipeline (sanitized, EXIF stripped, resized variants and a blurhash in the metadata `properties`), uploads it and the metadata to IPFS, then queues a mint job with the IPFS token URI on the selected network. Poll GET /api/jobs/{jobId} for the token ID.
  *     tags: [NFTs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Network'
  *     requestBody:
  *       required: true
  *       content:
@@ -153,16 +207,243 @@ router.get('/user/:walletAddress', getUserNFT);
  *                 type: string
  *                 example: 'https://gomgom.com/nft/1'
  *     responses:
- *       200:
- *         description: NFT minted with IPFS metadata successfully
+ *       202:
+ *         description: IPFS uploads done and mint queued (returns jobId and statusUrl)
  *       400:
- *         description: Invalid request or missing required fields
+ *         description: Invalid request, unknown network or missing required fields
  *       404:
  *         description: User not found or image file not found
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Authenticated wallet does not match the requested wallet
+ *       409:
+ *         description: A mint for this wallet is already in progress, or it holds an unexpired mint voucher
+ *       415:
+ *         description: The image is not a supported image or video, or is unreadable or unsafe
+ *       500:
+ *         description: Internal server error
+ *       502:
+ *         description: The IPFS provider returned a different CID than the uploaded content's
+ *       503:
+ *         description: No RPC endpoint answered, so NFT ownership could not be checked
+ */
+router.post('/mint-with-metadata', requireRole('user', 'admin'), requireWalletMatch, selectNetwork, mintNFTWithMetadata);
+
+/**
+ * @swagger
+ * /api/nfts/vouchers:
+ *   post:
+ *     summary: Issue a gasless mint voucher
+ *     description: |
+ *       Signs an EIP-712 MintVoucher (recipient, tokenURI, expiry, nonce) with the admin signer. The wallet
+ *       calls redeem(voucher, signature) on the NFT contract itself and pays the gas, then reports the
+ *       transaction to POST /api/nfts/vouchers/{voucherId}/confirm. A wallet with an active voucher on the
+ *       network gets it back. Vouchers expire after VOUCHER_TTL_SECONDS; requires VOUCHERS_ENABLED=true.
+ *     tags: [NFTs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Network'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userAddress:
+ *                 type: string
+ *                 pattern: '^0x[a-fA-F0-9]{40}$'
+ *                 example: '0x742d35Cc6634C0532925a3b8D1e4DB4c926e9e'
+ *               tokenUri:
+ *                 type: string
+ *                 description: Empty or omitted for the contract's base URI (the dynamic metadata API)
+ *                 example: 'ipfs://bafkreia...'
+ *             required:
+ *               - userAddress
+ *     responses:
+ *       201:
+ *         description: Voucher issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   $ref: '#/components/schemas/MintVoucher'
+ *                 network:
+ *                   type: string
+ *                   example: 'lisk-sepolia'
+ *                 redeem:
+ *                   $ref: '#/components/schemas/MintVoucherRedeemParams'
+ *       200:
+ *         description: The wallet's active voucher on the network
+ *       400:
+ *         description: Invalid request, unknown network or user already owns NFT
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Authenticated wallet does not match the requested wallet
+ *       404:
+ *         description: User not found, or gasless minting is not enabled
+ *       409:
+ *         description: A mint for this wallet is already in progress
+ *       500:
+ *         description: Internal server error
+ *       503:
+ *         description: No RPC endpoint answered, so NFT ownership could not be checked
+ */
+router.post('/vouchers', requireRole('user', 'admin'), requireWalletMatch, selectNetwork, issueMintVoucher);
+
+/**
+ * @swagger
+ * /api/nfts/vouchers/user/{walletAddress}:
+ *   get:
+ *     summary: List a wallet's mint vouchers
+ *     description: Vouchers on every network with their status (active, redeemed, revoked, expired)
+ *     tags: [NFTs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *     responses:
+ *       200:
+ *         description: Vouchers, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MintVoucher'
+ *       400:
+ *         description: Invalid wallet address
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Authenticated wallet does not match the requested wallet
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/vouchers/user/:walletAddress', requireRole('user', 'admin'), requireWalletMatch, getMintVouchers);
+
+/**
+ * @swagger
+ * /api/nfts/vouchers/{voucherId}/confirm:
+ *   post:
+ *     summary: Record a voucher redemption
+ *     description: |
+ *       Reads the wallet's redeem transaction and looks for a VoucherRedeemed event with the voucher's nonce
+ *       and recipient, then creates the NFT's database records. Reporting the same transaction again
+ *       returns the recorded redemption.
+ *     tags: [NFTs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: voucherId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               transactionHash:
+ *                 type: string
+ *                 pattern: '^0x[a-fA-F0-9]{64}$'
+ *             required:
+ *               - transactionHash
+ *     responses:
+ *       200:
+ *         description: Redemption recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   $ref: '#/components/schemas/MintVoucher'
+ *       400:
+ *         description: Invalid request, or the transaction did not redeem this voucher
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Voucher not found
+ *       409:
+ *         description: Transaction not mined yet, or the voucher was redeemed in another transaction
+ *       500:
+ *         description: Internal server error
+ *       503:
+ *         description: No RPC endpoint answered
+ */
+router.post('/vouchers/:voucherId/confirm', requireRole('user', 'admin'), confirmMintVoucher);
+
+/**
+ * @swagger
+ * /api/nfts/vouchers/{voucherId}/revoke:
+ *   post:
+ *     summary: Revoke a mint voucher
+ *     description: |
+ *       Marks an unredeemed voucher revoked so it is no longer handed out. The contract cannot tell, so
+ *       the signed voucher stays redeemable until its expiry, and backend mints for the wallet stay
+ *       blocked until then. A late redemption is still recorded.
+ *     tags: [NFTs]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: voucherId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'Issued to the wrong wallet'
+ *     responses:
+ *       200:
+ *         description: Voucher revoked
+ *       400:
+ *         description: Invalid voucher ID
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Requires admin
+ *       404:
+ *         description: Voucher not found
+ *       409:
+ *         description: Voucher already redeemed or revoked
  *       500:
  *         description: Internal server error
  */
-router.post('/mint-with-metadata', mintNFTWithMetadata);
+router.post('/vouchers/:voucherId/revoke', requireRole('admin'), revokeMintVoucher);
 
 /**
  * @swagger
@@ -219,6 +500,9 @@ router.get('/demo-gallery', getDemoNFTGallery);
  *     summary: Update NFT loyalty level based on user activities
  *     description: Process user action and automatically update NFT loyalty level and metadata
  *     tags: [NFTs]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: tokenId
@@ -226,6 +510,7 @@ router.get('/demo-gallery', getDemoNFTGallery);
  *         schema:
  *           type: integer
  *         example: 1
+ *       - $ref: '#/components/parameters/Network'
  *     requestBody:
  *       required: true
  *       content:
@@ -264,19 +549,104 @@ router.get('/demo-gallery', getDemoNFTGallery);
  *                 levelChanged:
  *                   type: boolean
  *                   example: true
+ *                 metadataRefresh:
+ *                   $ref: '#/components/schemas/NFTMetadataUpdate'
  *                 metadataUrl:
  *                   type: string
- *                   example: 'https://api.gomgom.devpros.io.vn/metadata/1'
+ *                   example: 'https://api.gomgom.devpros.io.vn/metadata/4202/1'
  *                 message:
  *                   type: string
  *                   example: 'Congratulations! Your NFT evolved to level 2!'
  *       400:
  *         description: Invalid token ID
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Requires admin, or a brand partner key for the action's brand
  *       404:
  *         description: NFT not found
  *       500:
  *         description: Internal server error
  */
-router.post('/update-loyalty/:tokenId', updateNFTLoyalty);
+router.post('/update-loyalty/:tokenId', requireRole('admin', 'brand_partner'), requireBrandScope(actionBrand), selectNetwork, updateNFTLoyalty);
+
+/**
+ * @swagger
+ * /api/nfts/{tokenId}/metadata-updates:
+ *   get:
+ *     summary: List on-chain metadata refreshes for an NFT
+ *     description: |
+ *       Every loyalty level change queues a job that sets the token URI on-chain so marketplaces refetch
+ *       the metadata. Contracts supporting ERC-4906 emit MetadataUpdate; others get a level-specific URI.
+ *       Failed attempts are retried with backoff.
+ *     tags: [NFTs]
+ *     parameters:
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         example: 1
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Refreshes, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NFTMetadataUpdate'
+ *       400:
+ *         description: Invalid token ID
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:tokenId/metadata-updates', selectNetwork, getNFTMetadataUpdates);
+
+/**
+ * @swagger
+ * /api/nfts/{tokenId}/ownership-history:
+ *   get:
+ *     summary: List ownership changes of an NFT
+ *     description: |
+ *       Transfers found by the chain indexer, with the transfer policy applied and the loyalty attributes
+ *       before and after. Transfers undone by a reorg are kept with reverted_at set.
+ *     tags: [NFTs]
+ *     parameters:
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         example: 1
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Ownership changes, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NFTOwnershipChange'
+ *       400:
+ *         description: Invalid token ID
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:tokenId/ownership-history', selectNetwork, getNFTOwnershipHistory);
 
 export default router;
\ No newline at end of file
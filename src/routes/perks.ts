@@ -1,14 +1,47 @@
-import { Router } from 'express';
-import { getUserPerks, getAllPerks, getPerksByBrand } from '../controllers/perks';
+import { Router, Request } from 'express';
+import {
+  getUserPerks,
+  getAllPerks,
+  getPerksByBrand,
+  createPerk,
+  updatePerk,
+  deactivatePerk,
+  claimPerk,
+  redeemPerkClaim,
+  getPerkClaims
+} from '../controllers/perks';
+import { requireRole, requireBrandScope, requireWalletMatch } from '../middleware/auth';
+import { databaseService } from '../services/database';
+import { claimService } from '../services/claims';
 
 const router = Router();
 
+/**
+ * Brand targeted by a new perk (brand partners default to their own brand)
+ */
+const newPerkBrand = (req: Request): number | null =>
+  req.body.brandId != null ? Number(req.body.brandId) : req.auth?.brandId ?? null;
+
+/**
+ * Brand that owns an existing perk
+ */
+const existingPerkBrand = async (req: Request): Promise<number | null> => {
+  const perk = await databaseService.getPerkById(parseInt(req.params.perkId));
+  return perk ? perk.brand_id : null;
+};
+
+/**
+ * Brand that owns a claimed perk
+ */
+const claimBrand = (req: Request): Promise<number | null> =>
+  claimService.getClaimBrandId(parseInt(req.params.claimId));
+
 /**
  * @swagger
  * /api/perks/user/{walletAddress}:
  *   get:
  *     summary: Get user perks with unlock status
- *     description: Retrieves all available perks and indicates which ones are unlocked for the user
+ *     description: Retrieves all available perks, indicates which ones are unlocked for the user and lists what is still missing for the rest
  *     tags: [Perks]
  *     parameters:
  *       - in: path
@@ -42,12 +75,18 @@ const router = Router();
  *                         type: string
  *                       brand_id:
  *                         type: number
- *                       unlock_condition:
- *                         type: object
+ *                       unlock_type:
+ *                         type: string
+ *                       unlock_threshold:
+ *                         type: string
  *                       is_active:
  *                         type: boolean
  *                       is_unlocked:
  *                         type: boolean
+ *                       unmet_requirements:
+ *                         type: array
+ *                         items:
+ *                           $ref: '#/components/schemas/UnmetRequirement'
  *       400:
  *         description: Invalid request
  *       500:
@@ -133,4 +172,214 @@ router.get('/all', getAllPerks);
  */
 router.get('/brand/:brandId', getPerksByBrand);
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/perks:
+ *   post:
+ *     summary: Create a perk
+ *     description: Admins can create perks for any brand (or cross-brand perks). Brand partner keys can only create perks for their own brand.
+ *     tags: [Perks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PerkInput'
+ *     responses:
+ *       201:
+ *         description: Perk created
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Role or brand scope not allowed
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', requireRole('admin', 'brand_partner'), requireBrandScope(newPerkBrand), createPerk);
+
+/**
+ * @swagger
+ * /api/perks/{perkId}:
+ *   put:
+ *     summary: Update a perk
+ *     description: Updates perk fields. The owning brand cannot be changed.
+ *     tags: [Perks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: perkId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PerkInput'
+ *     responses:
+ *       200:
+ *         description: Perk updated
+ *       400:
+ *         description: Invalid request
+ *       403:
+ *         description: Role or brand scope not allowed
+ *       404:
+ *         description: Perk not found
+ *   delete:
+ *     summary: Deactivate a perk
+ *     tags: [Perks]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: perkId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Perk deactivated
+ *       403:
+ *         description: Role or brand scope not allowed
+ *       404:
+ *         description: Perk not found
+ */
+router.put('/:perkId', requireRole('admin', 'brand_partner'), requireBrandScope(existingPerkBrand), updatePerk);
+router.delete('/:perkId', requireRole('admin', 'brand_partner'), requireBrandScope(existingPerkBrand), deactivatePerk);
+
+/**
+ * @swagger
+ * /api/perks/{perkId}/claim:
+ *   post:
+ *     summary: Claim a perk
+ *     description: Claims an unlocked perk and returns a one-time redemption code. Enforces the perk's usage_limit (redeemed plus open claims per wallet) and sets expires_at from expiry_days.
+ *     tags: [Perks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: perkId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [walletAddress]
+ *             properties:
+ *               walletAddress:
+ *                 $ref: '#/components/schemas/WalletAddress'
+ *     responses:
+ *       201:
+ *         description: Perk claimed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   $ref: '#/components/schemas/PerkClaim'
+ *       403:
+ *         description: Perk not unlocked for this wallet
+ *       404:
+ *         description: Perk not found or inactive
+ *       409:
+ *         description: Open claim already exists or usage limit reached
+ */
+router.post('/:perkId/claim', requireRole('user', 'admin'), requireWalletMatch, claimPerk);
+
+/**
+ * @swagger
+ * /api/perks/claims/{claimId}/redeem:
+ *   post:
+ *     summary: Redeem a perk claim
+ *     description: Verifies the one-time code the user presents and marks the claim used. Brand partners can only redeem claims on their own perks.
+ *     tags: [Perks]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: claimId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: 'K7P2M-QX9RT'
+ *     responses:
+ *       200:
+ *         description: Claim redeemed
+ *       400:
+ *         description: Invalid redemption code
+ *       403:
+ *         description: Role or brand scope not allowed
+ *       404:
+ *         description: Claim not found
+ *       409:
+ *         description: Claim already redeemed or perk inactive
+ *       410:
+ *         description: Claim expired
+ */
+router.post('/claims/:claimId/redeem', requireRole('admin', 'brand_partner'), requireBrandScope(claimBrand), redeemPerkClaim);
+
+/**
+ * @swagger
+ * /api/perks/claims/{walletAddress}:
+ *   get:
+ *     summary: Get a wallet's perk claims
+ *     description: Lists claims with their redemption codes and status (active, redeemed, expired)
+ *     tags: [Perks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *     responses:
+ *       200:
+ *         description: Claims, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PerkClaim'
+ *       403:
+ *         description: Wallet does not match the signed-in wallet
+ */
+router.get('/claims/:walletAddress', requireRole('user', 'admin'), requireWalletMatch, getPerkClaims);
+
+export default router;
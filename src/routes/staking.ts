@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { getGlobalStaking, getUserStaking, listStakingSnapshots } from '../controllers/staking';
+import { requireRole, requireWalletMatch } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/staking/global:
+ *   get:
+ *     summary: StakingPool totals
+ *     description: Live getGlobalStakingInfo from the selected network's contract (null while the RPC is unreachable) and its latest daily snapshot
+ *     tags: [Staking]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Staking totals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     network:
+ *                       type: string
+ *                     live:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         totalETH:
+ *                           type: string
+ *                         totalNFTs:
+ *                           type: string
+ *                         contractBalance:
+ *                           type: string
+ *                     latestSnapshot:
+ *                       nullable: true
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/StakingSnapshot'
+ *       400:
+ *         description: Unknown network
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin or analyst role required
+ */
+router.get('/global', requireRole('admin', 'analyst'), selectNetwork, getGlobalStaking);
+
+/**
+ * @swagger
+ * /api/staking/snapshots:
+ *   get:
+ *     summary: Daily staking history
+ *     description: One snapshot per UTC day of the selected network, oldest first. Without from/to, the latest `limit` days are returned.
+ *     tags: [Staking]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 90
+ *           maximum: 1000
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Snapshots
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: 'success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StakingSnapshot'
+ *       400:
+ *         description: Invalid date range, limit or network
+ *       403:
+ *         description: Admin or analyst role required
+ */
+router.get('/snapshots', requireRole('admin', 'analyst'), selectNetwork, listStakingSnapshots);
+
+/**
+ * @swagger
+ * /api/staking/user/{walletAddress}:
+ *   get:
+ *     summary: A wallet's staking report
+ *     description: |
+ *       The selected network's getUserStakingInfo (onChain, null while the RPC is unreachable), the indexed position
+ *       (amounts in wei), the staking attributes of the wallet's NFTs and the points awarded for ETH-days staked.
+ *       Wallet users can only see their own wallet.
+ *     tags: [Staking]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: walletAddress
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *       - $ref: '#/components/parameters/Network'
+ *     responses:
+ *       200:
+ *         description: Staking report
+ *       400:
+ *         description: Invalid wallet address or unknown network
+ *       403:
+ *         description: Another wallet's report
+ */
+router.get('/user/:walletAddress', requireRole('user', 'admin', 'analyst'), requireWalletMatch, selectNetwork, getUserStaking);
+
+export default router;
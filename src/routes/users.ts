@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { initUser } from '../controllers/users';
+import { requireRole, requireWalletMatch } from '../middleware/auth';
 
 const router = Router();
 
@@ -10,6 +11,8 @@ const router = Router();
  *     summary: Initialize a user in the database
  *     description: Creates a new user record when they connect their wallet for the first time
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -50,9 +53,13 @@ const router = Router();
  *                       format: date-time
  *       400:
  *         description: Invalid request
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Authenticated wallet does not match the requested wallet
  *       500:
  *         description: Internal server error
  */
-router.post('/init', initUser);
+router.post('/init', requireRole('user', 'admin'), requireWalletMatch, initUser);
 
 export default router;
\ No newline at end of file
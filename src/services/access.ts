@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+
+export type Role = 'user' | 'admin' | 'brand_partner' | 'analyst';
+
+export type ElevatedRole = Exclude<Role, 'user'>;
+
+export const ELEVATED_ROLES: ElevatedRole[] = ['admin', 'brand_partner', 'analyst'];
+
+export interface RoleGrant {
+  role: Role;
+  brandId?: number;
+}
+
+export interface ApiKeyRecord {
+  key_id: number;
+  key_prefix: string;
+  label: string | null;
+  role: ElevatedRole;
+  brand_id: number | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+const API_KEY_PREFIX = 'gg';
+
+/**
+ * Access service for API keys and wallet role grants
+ */
+export class AccessService {
+
+  /**
+   * Create a new API key. The plaintext key is only returned here.
+   */
+  async createApiKey(params: {
+    role: ElevatedRole;
+    brandId?: number;
+    label?: string;
+  }): Promise<{ apiKey: string; record: ApiKeyRecord }> {
+    try {
+      this.validateGrant(params.role, params.brandId);
+
+      const prefix = crypto.randomBytes(6).toString('hex');
+      const secret = crypto.randomBytes(24).toString('hex');
+      const apiKey = `${API_KEY_PREFIX}_${prefix}_${secret}`;
+
+      const result = await DatabaseHelpers.executeQuery(
+        `INSERT INTO api_keys (key_prefix, key_hash, label, role, brand_id)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING key_id, key_prefix, label, role, brand_id, created_at, last_used_at, revoked_at`,
+        [prefix, this.hashKey(apiKey), params.label || null, params.role, params.brandId ?? null]
+      );
+
+      return { apiKey, record: result.rows[0] };
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List API keys (without hashes)
+   */
+  async listApiKeys(): Promise<ApiKeyRecord[]> {
+    const result = await DatabaseHelpers.executeQuery(
+      `SELECT key_id, key_prefix, label, role, brand_id, created_at, last_used_at, revoked_at
+       FROM api_keys
+       ORDER BY created_at DESC`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(keyId: number): Promise<boolean> {
+    const result = await DatabaseHelpers.executeQuery(
+      'UPDATE api_keys SET revoked_at = NOW() WHERE key_id = $1 AND revoked_at IS NULL',
+      [keyId]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Resolve an API key to its role grant, or null if unknown or revoked
+   */
+  async authenticateApiKey(apiKey: string): Promise<(RoleGrant & { apiKeyId?: number }) | null> {
+    // Bootstrap key from the environment so the first real keys can be created
+    if (config.server.adminApiKey && this.safeEqual(apiKey, config.server.adminApiKey)) {
+      return { role: 'admin' };
+    }
+
+    const parts = apiKey.split('_');
+    if (parts.length !== 3 || parts[0] !== API_KEY_PREFIX) {
+      return null;
+    }
+
+    const result = await DatabaseHelpers.executeQuery(
+      `SELECT key_id, key_hash, role, brand_id
+       FROM api_keys
+       WHERE key_prefix = $1 AND revoked_at IS NULL`,
+      [parts[1]]
+    );
+
+    const record = result.rows[0];
+    if (!record || !this.safeEqual(record.key_hash, this.hashKey(apiKey))) {
+      return null;
+    }
+
+    // Usage tracking is best-effort and must not block the request
+    DatabaseHelpers.executeQuery('UPDATE api_keys SET last_used_at = NOW() WHERE key_id = $1', [record.key_id])
+      .catch(error => console.error('Error updating API key usage:', error));
+
+    return {
+      role: record.role,
+      brandId: record.brand_id ?? undefined,
+      apiKeyId: record.key_id
+    };
+  }
+
+  /**
+   * Get the role granted to a SIWE wallet (plain 'user' if none)
+   */
+  async getWalletRole(walletAddress: string): Promise<RoleGrant> {
+    const result = await DatabaseHelpers.executeQuery(
+      'SELECT role, brand_id FROM wallet_roles WHERE wallet_address = $1',
+      [walletAddress.toLowerCase()]
+    );
+
+    if (result.rows.length === 0) {
+      return { role: 'user' };
+    }
+
+    return {
+      role: result.rows[0].role,
+      brandId: result.rows[0].brand_id ?? undefined
+    };
+  }
+
+  /**
+   * Grant an elevated role to a wallet (takes effect on next sign-in or token refresh)
+   */
+  async setWalletRole(walletAddress: string, role: ElevatedRole, brandId?: number): Promise<void> {
+    this.validateGrant(role, brandId);
+
+    await DatabaseHelpers.executeQuery(
+      `INSERT INTO wallet_roles (wallet_address, role, brand_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (wallet_address) DO UPDATE SET
+         role = EXCLUDED.role,
+         brand_id = EXCLUDED.brand_id,
+         granted_at = NOW()`,
+      [walletAddress.toLowerCase(), role, brandId ?? null]
+    );
+  }
+
+  /**
+   * Remove a wallet's elevated role
+   */
+  async removeWalletRole(walletAddress: string): Promise<boolean> {
+    const result = await DatabaseHelpers.executeQuery(
+      'DELETE FROM wallet_roles WHERE wallet_address = $1',
+      [walletAddress.toLowerCase()]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Brand partner grants need a brand; other roles must not have one
+   */
+  private validateGrant(role: string, brandId?: number): void {
+    if (!(ELEVATED_ROLES as string[]).includes(role)) {
+      throw new Error(`Invalid role. Valid roles: ${ELEVATED_ROLES.join(', ')}`);
+    }
+    if (role === 'brand_partner' && !brandId) {
+      throw new Error('Brand partner roles require a brand ID');
+    }
+    if (role !== 'brand_partner' && brandId) {
+      throw new Error('Only brand partner roles can be scoped to a brand');
+    }
+  }
+
+  /**
+   * SHA-256 hash used to store API keys at rest
+   */
+  private hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  /**
+   * Constant-time string comparison
+   */
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+  }
+}
+
+// Export singleton instance
+export const accessService = new AccessService();
@@ -0,0 +1,378 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import jwt from 'jsonwebtoken';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+import { accessService, Role } from './access';
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  walletAddress: string;
+  role: Role;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  typ: 'access';
+  role: Role;
+  brandId?: number;
+}
+
+interface RefreshTokenPayload {
+  sub: string;
+  sid: string;
+  typ: 'refresh';
+  jti: string;
+}
+
+/**
+ * Error raised when a sign-in, token or session check fails (maps to HTTP 401)
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const SIWE_STATEMENT = 'Sign in to GomGom Loyalty with your wallet.';
+
+/**
+ * Authentication service implementing Sign-In-With-Ethereum (EIP-4361)
+ * Issues short-lived access JWTs and rotating refresh JWTs backed by auth_sessions
+ */
+export class AuthService {
+
+  /**
+   * Issue a one-time nonce and the SIWE message the wallet should sign
+   */
+  async createNonce(walletAddress: string): Promise<{ nonce: string; message: string; expiresAt: string }> {
+    try {
+      if (!ethers.utils.isAddress(walletAddress)) {
+        throw new AuthError('Invalid wallet address format');
+      }
+
+      // EIP-4361 requires an alphanumeric nonce of at least 8 characters
+      const nonce = crypto.randomBytes(16).toString('hex');
+      const issuedAt = new Date();
+      const expiresAt = new Date(issuedAt.getTime() + config.auth.nonceTtlSeconds * 1000);
+
+      await DatabaseHelpers.executeQuery(
+        `INSERT INTO auth_nonces (nonce, wallet_address, issued_at, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [nonce, walletAddress.toLowerCase(), issuedAt, expiresAt]
+      );
+
+      const message = this.buildSiweMessage({
+        domain: config.auth.siweDomain,
+        address: ethers.utils.getAddress(walletAddress),
+        statement: SIWE_STATEMENT,
+        uri: config.auth.siweUri,
+        version: '1',
+        chainId: config.auth.chainId,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: expiresAt.toISOString()
+      });
+
+      return { nonce, message, expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+      console.error('Error creating SIWE nonce:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a signed SIWE message and open a new session
+   */
+  async verifySignIn(message: string, signature: string): Promise<AuthTokens> {
+    const fields = this.parseSiweMessage(message);
+
+    if (fields.domain !== config.auth.siweDomain) {
+      throw new AuthError('SIWE domain mismatch');
+    }
+    if (fields.uri !== config.auth.siweUri) {
+      throw new AuthError('SIWE URI mismatch');
+    }
+    if (fields.chainId !== config.auth.chainId) {
+      throw new AuthError('SIWE chain ID mismatch');
+    }
+
+    const now = Date.now();
+    if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+      throw new AuthError('SIWE message has expired');
+    }
+    if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+      throw new AuthError('SIWE message is not yet valid');
+    }
+
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = ethers.utils.verifyMessage(message, signature);
+    } catch (error) {
+      throw new AuthError('Invalid signature');
+    }
+
+    if (recoveredAddress.toLowerCase() !== fields.address.toLowerCase()) {
+      throw new AuthError('Signature does not match SIWE address');
+    }
+
+    const walletAddress = fields.address.toLowerCase();
+
+    // Consume the nonce atomically so a signed message can only be used once
+    const nonceResult = await DatabaseHelpers.executeQuery(
+      `UPDATE auth_nonces
+       SET consumed_at = NOW()
+       WHERE nonce = $1
+         AND consumed_at IS NULL
+         AND expires_at > NOW()
+         AND (wallet_address IS NULL OR wallet_address = $2)
+       RETURNING nonce`,
+      [fields.nonce, walletAddress]
+    );
+
+    if (nonceResult.rows.length === 0) {
+      throw new AuthError('Invalid or expired nonce');
+    }
+
+    return await this.createSession(walletAddress);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotating the refresh token)
+   * The hash is checked and replaced in one UPDATE, so of two refreshes with the same token only one succeeds.
+   */
+  async refreshSession(refreshToken: string): Promise<AuthTokens> {
+    const payload = this.verifyToken<RefreshTokenPayload>(refreshToken, 'refresh');
+
+    // Re-read the role so grants and revocations apply on the next refresh
+    const tokens = await this.signTokens(payload.sub, payload.sid);
+
+    const result = await DatabaseHelpers.executeQuery(
+      `UPDATE auth_sessions
+       SET refresh_token_hash = $4,
+           last_refreshed_at = NOW(),
+           expires_at = NOW() + ($5 || ' seconds')::interval
+       WHERE session_id = $1 AND wallet_address = $2 AND refresh_token_hash = $3
+         AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING session_id`,
+      [payload.sid, payload.sub, this.hashToken(refreshToken), this.hashToken(tokens.refreshToken), config.server.refreshTokenTtlSeconds]
+    );
+
+    // A live session that did not match holds a newer token: treat as reuse and kill the session
+    if (result.rows.length === 0) {
+      if (await this.revokeSession(payload.sid)) {
+        throw new AuthError('Refresh token has already been used');
+      }
+      throw new AuthError('Session not found or expired');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Revoke the session behind a refresh token
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const payload = this.verifyToken<RefreshTokenPayload>(refreshToken, 'refresh');
+    await this.revokeSession(payload.sid);
+  }
+
+  /**
+   * Verify an access token and return its payload
+   * The token's session is checked too, so logging out or a detected refresh token reuse ends
+   * the access tokens already issued from it.
+   */
+  async verifyAccessToken(accessToken: string): Promise<AccessTokenPayload> {
+    const payload = this.verifyToken<AccessTokenPayload>(accessToken, 'access');
+
+    const result = await DatabaseHelpers.executeQuery(
+      'SELECT 1 FROM auth_sessions WHERE session_id = $1 AND wallet_address = $2 AND revoked_at IS NULL',
+      [payload.sid, payload.sub]
+    );
+    if (result.rows.length === 0) {
+      throw new AuthError('Session has been revoked');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Build an EIP-4361 message string
+   */
+  buildSiweMessage(fields: SiweMessageFields): string {
+    const lines = [
+      `${fields.domain} wants you to sign in with your Ethereum account:`,
+      fields.address,
+      '',
+      ...(fields.statement ? [fields.statement, ''] : []),
+      `URI: ${fields.uri}`,
+      `Version: ${fields.version}`,
+      `Chain ID: ${fields.chainId}`,
+      `Nonce: ${fields.nonce}`,
+      `Issued At: ${fields.issuedAt}`
+    ];
+
+    if (fields.expirationTime) {
+      lines.push(`Expiration Time: ${fields.expirationTime}`);
+    }
+    if (fields.notBefore) {
+      lines.push(`Not Before: ${fields.notBefore}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse an EIP-4361 message string into its fields
+   */
+  parseSiweMessage(message: string): SiweMessageFields {
+    const lines = message.split('\n');
+
+    const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/);
+    if (!header) {
+      throw new AuthError('Malformed SIWE message: missing header');
+    }
+
+    const address = lines[1];
+    if (!address || !ethers.utils.isAddress(address)) {
+      throw new AuthError('Malformed SIWE message: invalid address');
+    }
+
+    const fieldMap: Record<string, string> = {};
+    let statement: string | undefined;
+
+    for (const line of lines.slice(2)) {
+      const match = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time|Not Before|Request ID): (.+)$/);
+      if (match) {
+        fieldMap[match[1]] = match[2];
+      } else if (line.trim() && !line.startsWith('Resources:') && !line.startsWith('- ') && statement === undefined) {
+        statement = line;
+      }
+    }
+
+    for (const required of ['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At']) {
+      if (!fieldMap[required]) {
+        throw new AuthError(`Malformed SIWE message: missing ${required}`);
+      }
+    }
+
+    if (fieldMap['Version'] !== '1') {
+      throw new AuthError('Unsupported SIWE message version');
+    }
+
+    return {
+      domain: header[1],
+      address,
+      statement,
+      uri: fieldMap['URI'],
+      version: fieldMap['Version'],
+      chainId: parseInt(fieldMap['Chain ID']),
+      nonce: fieldMap['Nonce'],
+      issuedAt: fieldMap['Issued At'],
+      expirationTime: fieldMap['Expiration Time'],
+      notBefore: fieldMap['Not Before']
+    };
+  }
+
+  /**
+   * Create a session row and issue its first token pair
+   */
+  private async createSession(walletAddress: string): Promise<AuthTokens> {
+    const sessionId = crypto.randomUUID();
+    const tokens = await this.signTokens(walletAddress, sessionId);
+
+    await DatabaseHelpers.executeQuery(
+      `INSERT INTO auth_sessions (session_id, wallet_address, refresh_token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + ($4 || ' seconds')::interval)`,
+      [sessionId, walletAddress, this.hashToken(tokens.refreshToken), config.server.refreshTokenTtlSeconds]
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Mark a live session as revoked
+   * Returns false when it was already revoked, had expired or does not exist.
+   */
+  private async revokeSession(sessionId: string): Promise<boolean> {
+    const result = await DatabaseHelpers.executeQuery(
+      'UPDATE auth_sessions SET revoked_at = NOW() WHERE session_id = $1 AND revoked_at IS NULL AND expires_at > NOW()',
+      [sessionId]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Sign an access/refresh token pair for a session, embedding the wallet's role
+   */
+  private async signTokens(walletAddress: string, sessionId: string): Promise<AuthTokens> {
+    const grant = await accessService.getWalletRole(walletAddress);
+
+    const accessToken = jwt.sign(
+      { sid: sessionId, typ: 'access', role: grant.role, ...(grant.brandId && { brandId: grant.brandId }) },
+      config.server.jwtSecret,
+      { subject: walletAddress, expiresIn: config.server.accessTokenTtlSeconds }
+    );
+
+    const refreshToken = jwt.sign(
+      { sid: sessionId, typ: 'refresh' },
+      config.server.jwtSecret,
+      { subject: walletAddress, expiresIn: config.server.refreshTokenTtlSeconds, jwtid: crypto.randomUUID() }
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: config.server.accessTokenTtlSeconds,
+      walletAddress,
+      role: grant.role
+    };
+  }
+
+  /**
+   * Verify a JWT signature and check its token type
+   */
+  private verifyToken<T extends { typ: string }>(token: string, expectedType: T['typ']): T {
+    let payload: any;
+    try {
+      payload = jwt.verify(token, config.server.jwtSecret);
+    } catch (error) {
+      throw new AuthError('Invalid or expired token');
+    }
+
+    if (!payload || payload.typ !== expectedType) {
+      throw new AuthError('Invalid token type');
+    }
+
+    return payload as T;
+  }
+
+  /**
+   * SHA-256 hash used to store refresh tokens at rest
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -1,5 +1,10 @@
 import { ethers } from 'ethers';
-import { config } from '../config';
+import { config, NetworkProfile } from '../config';
+import { TransactionManager, TransactionFailedError } from './transactions';
+import { FailoverProvider, BlockReadCache, RpcUnavailableError, ContractReadError, RpcEndpointStatus } from './rpc';
+import { getDefaultSigner, signTypedData } from './signers';
+
+export { TransactionFailedError, RpcUnavailableError, ContractReadError };
 
 // ABI definitions for the contracts
 export const GOMGOM_REGISTRY_ABI = [
@@ -26,9 +31,35 @@ export const GOMGOM_NFT_ABI = [
   "function setTokenURI(uint256 tokenId, string memory uri)",
   "function name() view returns (string)",
   "function symbol() view returns (string)",
-  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function redeem(tuple(address recipient, string tokenURI, uint256 expiry, uint256 nonce) voucher, bytes signature) returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event MetadataUpdate(uint256 _tokenId)",
+  "event VoucherRedeemed(uint256 indexed tokenId, address indexed recipient, uint256 nonce)"
 ];
 
+// EIP-712 type of the vouchers redeem() accepts, signed by an account with MINTER_ROLE
+export const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: 'recipient', type: 'address' },
+    { name: 'tokenURI', type: 'string' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+export interface MintVoucher {
+  recipient: string;
+  tokenURI: string;
+  // Unix seconds
+  expiry: number;
+  // uint256 as a decimal string
+  nonce: string;
+}
+
+// ERC-4906 interface ID: contracts that report it emit MetadataUpdate when a token URI is set
+export const ERC4906_INTERFACE_ID = '0x49064906';
+
 export const STAKING_POOL_ABI = [
   "function getStakedAmount(address user) view returns (uint256)",
   "function getUserStakingInfo(address user) view returns (tuple(uint256 totalETH, uint256 pendingRewards, uint256 lastStakeTime, bool hasActiveStake))",
@@ -43,39 +74,64 @@ export const STAKING_POOL_ABI = [
 
 /**
  * Blockchain service for interacting with smart contracts
+ * Reads throw RpcUnavailableError when no RPC endpoint answers and ContractReadError when the
+ * contract call fails, so an outage is never reported as "no NFT" or a zero balance.
  */
 export class BlockchainService {
-  private provider: ethers.providers.JsonRpcProvider;
-  private signer: ethers.Wallet;
+  private provider: FailoverProvider;
+  private cache: BlockReadCache;
+  private signer: ethers.Signer;
   private registryContract: ethers.Contract;
   private nftContract: ethers.Contract;
   private stakingContract: ethers.Contract;
-
-  constructor() {
-    // Initialize provider and signer
-    this.provider = new ethers.providers.JsonRpcProvider(config.blockchain.rpcUrl);
-    this.signer = new ethers.Wallet(config.blockchain.adminPrivateKey, this.provider);
+  private metadataUpdateSupport: boolean | null = null;
+  // Every write goes through the manager so the signer's nonces never collide
+  readonly transactions: TransactionManager;
+
+  constructor(
+    readonly network: NetworkProfile = config.blockchain.networks[config.blockchain.defaultNetwork],
+    signer: ethers.Signer = getDefaultSigner()
+  ) {
+    // Initialize provider and signer; a static network skips the chain ID lookup and catches a wrong RPC URL
+    this.provider = new FailoverProvider(network.rpcUrls, { chainId: network.chainId, name: network.name });
+    this.cache = new BlockReadCache(this.provider);
+    this.signer = signer.connect(this.provider);
+    this.transactions = new TransactionManager(this.signer);
 
     // Initialize contract instances
     this.registryContract = new ethers.Contract(
-      config.blockchain.contracts.registry,
+      network.contracts.registry,
       GOMGOM_REGISTRY_ABI,
       this.signer
     );
 
     this.nftContract = new ethers.Contract(
-      config.blockchain.contracts.nft,
+      network.contracts.nft,
       GOMGOM_NFT_ABI,
       this.signer
     );
 
     this.stakingContract = new ethers.Contract(
-      config.blockchain.contracts.staking,
+      network.contracts.staking,
       STAKING_POOL_ABI,
       this.signer
     );
   }
 
+  /**
+   * Get the read provider, e.g. for the event indexer
+   */
+  getProvider(): FailoverProvider {
+    return this.provider;
+  }
+
+  /**
+   * Health of the network's RPC endpoints, in the order they are tried
+   */
+  getRpcStatus(): RpcEndpointStatus[] {
+    return this.provider.getStatus();
+  }
+
   /**
    * Get the signer address
    */
@@ -95,43 +151,29 @@ export class BlockchainService {
    * Get total supply of NFTs
    */
   async getTotalSupply(): Promise<number> {
-    try {
-      const totalSupply = await this.nftContract.totalSupply();
+    return await this.read('totalSupply', 'NFT total supply', async (blockTag) => {
+      const totalSupply = await this.nftContract.totalSupply({ blockTag });
       return totalSupply.toNumber();
-    } catch (error) {
-      console.error('Error getting total supply:', error);
-      return 0;
-    }
+    });
   }
 
   /**
    * Check if user owns an NFT
+   * Minting is intentionally limited to wallets holding none; further NFTs only arrive by transfer.
    */
   async userOwnsNFT(userAddress: string): Promise<boolean> {
-    try {
-      const balance = await this.nftContract.balanceOf(userAddress);
-      return balance.gt(0);
-    } catch (error) {
-      console.error('Error checking NFT ownership:', error);
-      return false;
-    }
+    const balance = await this.getNFTBalance(userAddress);
+    return balance.gt(0);
   }
 
   /**
-   * Get user's NFT token ID (if they own one)
+   * Get the current owner of a token (lowercase)
    */
-  async getUserTokenId(userAddress: string): Promise<number | null> {
-    try {
-      const balance = await this.nftContract.balanceOf(userAddress);
-      if (balance.eq(0)) {
-        return null;
-      }
-      const tokenId = await this.nftContract.tokenOfOwnerByIndex(userAddress, 0);
-      return tokenId.toNumber();
-    } catch (error) {
-      console.error('Error getting user token ID:', error);
-      return null;
-    }
+  async getTokenOwner(tokenId: number): Promise<string> {
+    return await this.read(`ownerOf:${tokenId}`, 'token owner', async (blockTag) => {
+      const owner: string = await this.nftContract.ownerOf(tokenId, { blockTag });
+      return owner.toLowerCase();
+    });
   }
 
   /**
@@ -147,25 +189,13 @@ export class BlockchainService {
         throw new Error('User already owns an NFT');
       }
 
-      // Get current total supply to predict the next token ID
-      const currentSupply = await this.nftContract.totalSupply();
-      const expectedTokenId = currentSupply.toNumber() + 1;
-
-      // Mint the NFT
-      const tx = await this.nftContract.mint(userAddress);
-      console.log('Mint transaction sent:', tx.hash);
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      console.log('Mint transaction confirmed:', receipt.transactionHash);
-
-      // Get the actual token ID from the Transfer event
-      const transferEvent = receipt.events?.find((event: any) => event.event === 'Transfer');
-      const tokenId = transferEvent?.args?.tokenId?.toNumber() || expectedTokenId;
+      // Mint the NFT and read the token ID from the Transfer event
+      const hash = await this.transactions.send('nft_mint', await this.nftContract.populateTransaction.mint(userAddress));
+      const { tokenId, transactionHash } = await this.waitForMint(hash);
 
       return {
         tokenId,
-        transactionHash: receipt.transactionHash
+        transactionHash
       };
     } catch (error) {
       console.error('Error minting NFT:', error);
@@ -192,27 +222,15 @@ export class BlockchainService {
         throw new Error('Token URI cannot be empty');
       }
 
-      // Get current total supply to predict the next token ID
-      const currentSupply = await this.nftContract.totalSupply();
-      const expectedTokenId = currentSupply.toNumber() + 1;
-
-      // Mint the NFT with custom URI
-      const tx = await this.nftContract.mintWithURI(userAddress, tokenURI);
-      console.log('Mint with URI transaction sent:', tx.hash);
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      console.log('Mint with URI transaction confirmed:', receipt.transactionHash);
-
-      // Get the actual token ID from the Transfer event
-      const transferEvent = receipt.events?.find((event: any) => event.event === 'Transfer');
-      const tokenId = transferEvent?.args?.tokenId?.toNumber() || expectedTokenId;
+      // Mint the NFT with custom URI and read the token ID from the Transfer event
+      const hash = await this.sendMintWithURI(userAddress, tokenURI);
+      const { tokenId, transactionHash } = await this.waitForMint(hash);
 
       console.log(`NFT minted successfully: Token ID ${tokenId} with URI ${tokenURI}`);
 
       return {
         tokenId,
-        transactionHash: receipt.transactionHash
+        transactionHash
       };
     } catch (error) {
       console.error('Error minting NFT with URI:', error);
@@ -220,6 +238,136 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Get the token a user owns at the latest block, or null
+   * Bypasses the read cache, for the mint job's check of whether an earlier attempt was mined.
+   */
+  async getOwnedTokenId(userAddress: string): Promise<number | null> {
+    const balance = await this.nftContract.balanceOf(userAddress);
+    if (balance.eq(0)) {
+      return null;
+    }
+    const tokenId = await this.nftContract.tokenOfOwnerByIndex(userAddress, 0);
+    return tokenId.toNumber();
+  }
+
+  /**
+   * Send a mint-with-URI transaction without waiting for it
+   * Returns the transaction hash so it can be recorded before confirmation.
+   */
+  async sendMintWithURI(userAddress: string, tokenURI: string, jobId?: number): Promise<string> {
+    if (!tokenURI || tokenURI.trim().length === 0) {
+      throw new Error('Token URI cannot be empty');
+    }
+
+    const request = await this.nftContract.populateTransaction.mintWithURI(userAddress, tokenURI);
+    return await this.transactions.send('nft_mint', request, jobId);
+  }
+
+  /**
+   * Get a token's current URI from the contract
+   */
+  async getTokenURI(tokenId: number): Promise<string> {
+    return await this.nftContract.tokenURI(tokenId);
+  }
+
+  /**
+   * Send a setTokenURI transaction without waiting for it
+   */
+  async sendTokenURIUpdate(tokenId: number, newURI: string, jobId?: number): Promise<string> {
+    const request = await this.nftContract.populateTransaction.setTokenURI(tokenId, newURI);
+    return await this.transactions.send('set_token_uri', request, jobId);
+  }
+
+  /**
+   * Wait for a sent transaction, or the replacement sent for it, to be mined
+   * Throws TransactionFailedError when it reverted or was dropped, or a timeout error when it is still pending.
+   * The receipt's transactionHash is the hash that was actually mined.
+   */
+  async waitForConfirmation(transactionHash: string, timeoutMs: number = 120000): Promise<ethers.providers.TransactionReceipt> {
+    return await this.transactions.waitForTransaction(transactionHash, timeoutMs);
+  }
+
+  /**
+   * Wait for a mint transaction and read the token ID from its Transfer event
+   */
+  async waitForMint(transactionHash: string, timeoutMs?: number): Promise<{ tokenId: number; blockNumber: number; transactionHash: string }> {
+    const receipt = await this.waitForConfirmation(transactionHash, timeoutMs);
+
+    const nftAddress = this.nftContract.address.toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== nftAddress) {
+        continue;
+      }
+      try {
+        const event = this.nftContract.interface.parseLog(log);
+        if (event.name === 'Transfer' && event.args.from === ethers.constants.AddressZero) {
+          console.log('Mint transaction confirmed:', receipt.transactionHash);
+          return { tokenId: event.args.tokenId.toNumber(), blockNumber: receipt.blockNumber, transactionHash: receipt.transactionHash };
+        }
+      } catch {
+        // Not an event from this ABI
+      }
+    }
+
+    throw new Error(`Mint transaction ${transactionHash} has no Transfer event`);
+  }
+
+  /**
+   * EIP-712 domain of the NFT contract's mint vouchers
+   */
+  getVoucherDomain(): ethers.TypedDataDomain {
+    return {
+      name: config.vouchers.domainName,
+      version: config.vouchers.domainVersion,
+      chainId: this.network.chainId,
+      verifyingContract: this.network.contracts.nft
+    };
+  }
+
+  /**
+   * Sign a mint voucher with the admin signer
+   */
+  async signMintVoucher(voucher: MintVoucher): Promise<string> {
+    return await signTypedData(this.signer, this.getVoucherDomain(), MINT_VOUCHER_TYPES, voucher);
+  }
+
+  /**
+   * Read the vouchers a transaction redeemed from its VoucherRedeemed events
+   * Returns null while the transaction is not mined; a reverted transaction redeemed nothing.
+   */
+  async getVoucherRedemptions(transactionHash: string): Promise<{
+    blockNumber: number;
+    transactionHash: string;
+    redemptions: Array<{ tokenId: number; recipient: string; nonce: string }>;
+  } | null> {
+    const receipt = await this.provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      return null;
+    }
+
+    const nftAddress = this.nftContract.address.toLowerCase();
+    const redemptions = [];
+    for (const log of receipt.status === 0 ? [] : receipt.logs) {
+      if (log.address.toLowerCase() !== nftAddress) {
+        continue;
+      }
+      try {
+        const event = this.nftContract.interface.parseLog(log);
+        if (event.name === 'VoucherRedeemed') {
+          redemptions.push({
+            tokenId: event.args.tokenId.toNumber(),
+            recipient: event.args.recipient.toLowerCase(),
+            nonce: event.args.nonce.toString()
+          });
+        }
+      } catch {
+        // Not an event from this ABI
+      }
+    }
+    return { blockNumber: receipt.blockNumber, transactionHash: receipt.transactionHash, redemptions };
+  }
+
   /**
    * Update NFT metadata URI
    */
@@ -227,10 +375,8 @@ export class BlockchainService {
     try {
       console.log(`Updating token URI for token ${tokenId}: ${newURI}`);
       
-      const tx = await this.nftContract.setTokenURI(tokenId, newURI);
-      console.log('Update URI transaction sent:', tx.hash);
-
-      const receipt = await tx.wait();
+      const hash = await this.sendTokenURIUpdate(tokenId, newURI);
+      const receipt = await this.waitForConfirmation(hash);
       console.log('Update URI transaction confirmed:', receipt.transactionHash);
 
       return receipt.transactionHash;
@@ -240,17 +386,34 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Check whether the NFT contract supports ERC-4906 metadata update events
+   * Contracts without ERC-165 revert, which counts as unsupported; network errors are thrown.
+   */
+  async supportsMetadataUpdate(): Promise<boolean> {
+    if (this.metadataUpdateSupport !== null) {
+      return this.metadataUpdateSupport;
+    }
+
+    try {
+      this.metadataUpdateSupport = await this.nftContract.supportsInterface(ERC4906_INTERFACE_ID);
+    } catch (error: any) {
+      if (error?.code !== ethers.errors.CALL_EXCEPTION) {
+        throw error;
+      }
+      this.metadataUpdateSupport = false;
+    }
+    return this.metadataUpdateSupport!;
+  }
+
   /**
    * Get user's staked amount
    */
   async getUserStakedAmount(userAddress: string): Promise<string> {
-    try {
-      const stakedAmount = await this.stakingContract.getStakedAmount(userAddress);
+    return await this.read(`getStakedAmount:${userAddress.toLowerCase()}`, 'staked amount', async (blockTag) => {
+      const stakedAmount = await this.stakingContract.getStakedAmount(userAddress, { blockTag });
       return ethers.utils.formatEther(stakedAmount);
-    } catch (error) {
-      console.error('Error getting staked amount:', error);
-      return '0';
-    }
+    });
   }
 
   /**
@@ -262,23 +425,15 @@ export class BlockchainService {
     lastStakeTime: number;
     hasActiveStake: boolean;
   }> {
-    try {
-      const stakingInfo = await this.stakingContract.getUserStakingInfo(userAddress);
+    return await this.read(`getUserStakingInfo:${userAddress.toLowerCase()}`, 'user staking info', async (blockTag) => {
+      const stakingInfo = await this.stakingContract.getUserStakingInfo(userAddress, { blockTag });
       return {
         totalETH: ethers.utils.formatEther(stakingInfo.totalETH),
         pendingRewards: ethers.utils.formatEther(stakingInfo.pendingRewards),
         lastStakeTime: stakingInfo.lastStakeTime.toNumber(),
         hasActiveStake: stakingInfo.hasActiveStake
       };
-    } catch (error) {
-      console.error('Error getting user staking info:', error);
-      return {
-        totalETH: '0',
-        pendingRewards: '0',
-        lastStakeTime: 0,
-        hasActiveStake: false
-      };
-    }
+    });
   }
 
   /**
@@ -289,25 +444,19 @@ export class BlockchainService {
     totalNFTs: string;
     contractBalance: string;
   }> {
-    try {
-      const globalInfo = await this.stakingContract.getGlobalStakingInfo();
+    return await this.read('getGlobalStakingInfo', 'global staking info', async (blockTag) => {
+      const globalInfo = await this.stakingContract.getGlobalStakingInfo({ blockTag });
       return {
         totalETH: ethers.utils.formatEther(globalInfo.totalETH),
         totalNFTs: globalInfo.totalNFTs.toString(),
         contractBalance: ethers.utils.formatEther(globalInfo.contractBalance)
       };
-    } catch (error) {
-      console.error('Error getting global staking info:', error);
-      return {
-        totalETH: '0',
-        totalNFTs: '0',
-        contractBalance: '0'
-      };
-    }
+    });
   }
 
   /**
    * Health check for blockchain connectivity
+   * Reports 'degraded' while some RPC endpoints are cooling down but another one answers.
    */
   async healthCheck(): Promise<{
     status: string;
@@ -315,6 +464,7 @@ export class BlockchainService {
     signerAddress: string;
     signerBalance: string;
     contractsAccessible: boolean;
+    rpc: RpcEndpointStatus[];
   }> {
     try {
       const blockNumber = await this.provider.getBlockNumber();
@@ -323,20 +473,90 @@ export class BlockchainService {
       
       // Test contract accessibility
       const registryConfigured = await this.registryContract.isConfigured();
-      
+      const rpc = this.getRpcStatus();
+
       return {
-        status: 'healthy',
+        status: rpc.every(endpoint => endpoint.available) ? 'healthy' : 'degraded',
         blockNumber,
         signerAddress,
         signerBalance,
-        contractsAccessible: registryConfigured
+        contractsAccessible: registryConfigured,
+        rpc
       };
     } catch (error) {
       console.error('Blockchain health check failed:', error);
       throw error;
     }
   }
+
+  /**
+   * NFT balance of a wallet, shared by the ownership reads
+   */
+  private async getNFTBalance(userAddress: string): Promise<ethers.BigNumber> {
+    return await this.read(`balanceOf:${userAddress.toLowerCase()}`, 'NFT balance', (blockTag) =>
+      this.nftContract.balanceOf(userAddress, { blockTag })
+    );
+  }
+
+  /**
+   * Cached contract read; failures other than RPC outages become ContractReadError
+   */
+  private async read<T>(key: string, description: string, load: (blockTag: number | 'latest') => Promise<T>): Promise<T> {
+    try {
+      return await this.cache.read(key, load);
+    } catch (error) {
+      if (error instanceof RpcUnavailableError) {
+        throw error;
+      }
+      throw new ContractReadError(description, error);
+    }
+  }
+}
+
+/**
+ * Unknown or disabled network name or chain ID (reported as 400)
+ */
+export class UnknownNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownNetworkError';
+  }
+}
+
+// One service per enabled network profile
+const services = new Map<string, BlockchainService>(
+  Object.values(config.blockchain.networks).map(network => [network.name, new BlockchainService(network)])
+);
+
+/**
+ * Get the service for a named network, or the default network's
+ */
+export function getBlockchainService(network: string = config.blockchain.defaultNetwork): BlockchainService {
+  const service = services.get(network);
+  if (!service) {
+    throw new UnknownNetworkError(`Unknown network ${network}. Enabled networks: ${[...services.keys()].join(', ')}`);
+  }
+  return service;
+}
+
+/**
+ * Get the service for the network a token was minted on
+ */
+export function getBlockchainServiceForChain(chainId: number): BlockchainService {
+  for (const service of services.values()) {
+    if (service.network.chainId === Number(chainId)) {
+      return service;
+    }
+  }
+  throw new UnknownNetworkError(`No enabled network has chain ID ${chainId}`);
+}
+
+/**
+ * Get every enabled network's service
+ */
+export function getBlockchainServices(): BlockchainService[] {
+  return [...services.values()];
 }
 
-// Export singleton instance
-export const blockchainService = new BlockchainService();
\ No newline at end of file
+// Export the default network's service
+export const blockchainService = getBlockchainService();
\ No newline at end of file
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * CIDv1 computation for IPFS content, without an IPFS node
+ * Matches `ipfs add --cid-version=1` with Kubo's defaults: content is cut into 256 KiB chunks stored
+ * as raw leaves, and files of more than one chunk get a balanced UnixFS dag-pb tree of at most
+ * 174 links per node. A single-chunk file's CID is the raw leaf's CID.
+ */
+
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+
+// Multicodec and multihash codes
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+
+// UnixFS Data.Type File
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+interface DagNode {
+  cid: Buffer;
+  // Bytes of file content below the node
+  fileSize: number;
+  // Bytes of every block below and including the node (dag-pb Tsize)
+  dagSize: number;
+}
+
+/**
+ * Incremental CID builder, so large files are hashed chunk by chunk
+ */
+export class CidBuilder {
+  private leaves: DagNode[] = [];
+  private pending: Buffer[] = [];
+  private pendingLength = 0;
+  private finished = false;
+
+  update(data: Buffer): this {
+    if (this.finished) {
+      throw new Error('CID already computed');
+    }
+
+    this.pending.push(data);
+    this.pendingLength += data.length;
+    while (this.pendingLength >= CHUNK_SIZE) {
+      const buffered = Buffer.concat(this.pending);
+      this.addLeaf(buffered.subarray(0, CHUNK_SIZE));
+      const rest = buffered.subarray(CHUNK_SIZE);
+      this.pending = [rest];
+      this.pendingLength = rest.length;
+    }
+    return this;
+  }
+
+  /**
+   * Finish and return the CID in its base32 string form
+   */
+  digest(): string {
+    if (this.finished) {
+      throw new Error('CID already computed');
+    }
+    this.finished = true;
+
+    // An empty file is a single empty chunk
+    if (this.pendingLength > 0 || this.leaves.length === 0) {
+      this.addLeaf(Buffer.concat(this.pending));
+    }
+
+    let level = this.leaves;
+    while (level.length > 1) {
+      const parents: DagNode[] = [];
+      for (let i = 0; i < level.length; i += MAX_LINKS) {
+        parents.push(buildParent(level.slice(i, i + MAX_LINKS)));
+      }
+      level = parents;
+    }
+    return formatCid(level[0].cid);
+  }
+
+  private addLeaf(chunk: Buffer): void {
+    this.leaves.push({ cid: encodeCid(RAW_CODEC, chunk), fileSize: chunk.length, dagSize: chunk.length });
+  }
+}
+
+/**
+ * CID of a buffer
+ */
+export function computeCid(content: Buffer | string): string {
+  return new CidBuilder().update(typeof content === 'string' ? Buffer.from(content) : content).digest();
+}
+
+/**
+ * CID of a file, read as a stream
+ */
+export async function computeFileCid(filePath: string): Promise<string> {
+  const builder = new CidBuilder();
+  for await (const chunk of fs.createReadStream(filePath)) {
+    builder.update(chunk as Buffer);
+  }
+  return builder.digest();
+}
+
+/**
+ * Pass-through stream computing the CID of the bytes flowing through it
+ * cid is set once the stream has flushed, so a consumer can compare it with what it stored.
+ */
+export class CidStream extends Transform {
+  cid: string | null = null;
+  bytes = 0;
+  private readonly builder = new CidBuilder();
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.builder.update(chunk);
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.cid = this.builder.digest();
+    callback();
+  }
+}
+
+/**
+ * UnixFS file node linking to its children
+ */
+function buildParent(children: DagNode[]): DagNode {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+
+  const unixfs = Buffer.from([
+    ...field(1, 0), ...varint(UNIXFS_FILE),
+    ...field(3, 0), ...varint(fileSize),
+    // blocksizes is a proto2 repeated field, so it is not packed
+    ...children.flatMap(child => [...field(4, 0), ...varint(child.fileSize)])
+  ]);
+
+  // dag-pb writes Links (field 2) before Data (field 1); every link carries an empty name
+  const links = children.map(child => {
+    const link = Buffer.from([
+      ...field(1, 2), ...varint(child.cid.length), ...child.cid,
+      ...field(2, 2), ...varint(0),
+      ...field(3, 0), ...varint(child.dagSize)
+    ]);
+    return Buffer.from([...field(2, 2), ...varint(link.length), ...link]);
+  });
+  const node = Buffer.concat([...links, Buffer.from([...field(1, 2), ...varint(unixfs.length)]), unixfs]);
+
+  return {
+    cid: encodeCid(DAG_PB_CODEC, node),
+    fileSize,
+    dagSize: node.length + children.reduce((sum, child) => sum + child.dagSize, 0)
+  };
+}
+
+/**
+ * Binary CIDv1 of a block: version, codec and sha2-256 multihash
+ */
+function encodeCid(codec: number, block: Buffer): Buffer {
+  const digest = crypto.createHash('sha256').update(block).digest();
+  return Buffer.from([...varint(CID_VERSION), ...varint(codec), ...varint(SHA2_256), ...varint(digest.length), ...digest]);
+}
+
+/**
+ * Multibase base32 (RFC 4648, lowercase, unpadded) with its 'b' prefix
+ */
+function formatCid(cid: Buffer): string {
+  let output = 'b';
+  let bits = 0;
+  let value = 0;
+  for (const byte of cid) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function field(number: number, wireType: number): number[] {
+  return varint(number * 8 + wireType);
+}
+
+/**
+ * Unsigned LEB128; arithmetic instead of bit operations keeps sizes above 2^32 exact
+ */
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
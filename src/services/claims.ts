@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { DatabaseHelpers } from '../database';
+import { databaseService, Perk } from './database';
+
+export interface PerkClaim {
+  claim_id: number;
+  user_wallet_address: string;
+  perk_id: number;
+  claimed_at: Date;
+  used_at: Date | null;
+  expires_at: Date | null;
+  is_used: boolean;
+  redemption_code: string;
+  redeemed_by: string | null;
+}
+
+export interface PerkClaimDetails extends PerkClaim {
+  perk_name: string;
+  description: string | null;
+  brand_id: number | null;
+  brand_name: string | null;
+  value_type: string | null;
+  value_amount: string | null;
+  status: 'active' | 'redeemed' | 'expired';
+}
+
+/**
+ * Rejected claim or redemption, with the HTTP status to report
+ */
+export class PerkClaimError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'PerkClaimError';
+  }
+}
+
+// No 0/O or 1/I so codes survive being read aloud at a counter
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 10;
+
+/**
+ * Perk claim service: claims, one-time redemption codes and redemption
+ */
+export class ClaimService {
+
+  /**
+   * Claim a perk for a wallet
+   * The perk must be active and unlocked, the wallet must not hold an open claim for it,
+   * and redeemed plus open claims must stay within the perk's usage_limit.
+   */
+  async claimPerk(walletAddress: string, perkId: number): Promise<PerkClaim> {
+    const wallet = walletAddress.toLowerCase();
+
+    try {
+      const perk: Perk | null = await databaseService.getPerkById(perkId);
+      if (!perk || !perk.is_active) {
+        throw new PerkClaimError('Perk not found or no longer active', 404);
+      }
+
+      const unlock = await databaseService.evaluatePerkUnlock(perk, wallet);
+      if (!unlock.unlocked) {
+        const missing = unlock.unmet.map(requirement => requirement.message).join('; ');
+        throw new PerkClaimError(`Perk is not unlocked for this wallet: ${missing}`, 403);
+      }
+
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        // Serialize claims of the same perk by the same wallet so limits cannot be raced
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`perk_claim:${wallet}:${perkId}`]);
+
+        const existing = await client.query(
+          `SELECT
+             COUNT(*) FILTER (WHERE NOT is_used AND (expires_at IS NULL OR expires_at > NOW())) AS open,
+             COUNT(*) FILTER (WHERE is_used OR expires_at IS NULL OR expires_at > NOW()) AS counted
+           FROM user_perk_claims
+           WHERE user_wallet_address = $1 AND perk_id = $2`,
+          [wallet, perkId]
+        );
+
+        if (parseInt(existing.rows[0].open) > 0) {
+          throw new PerkClaimError('This wallet already has an unredeemed claim for the perk', 409);
+        }
+        if (perk.usage_limit != null && parseInt(existing.rows[0].counted) >= perk.usage_limit) {
+          throw new PerkClaimError(`Usage limit of ${perk.usage_limit} reached for this perk`, 409);
+        }
+
+        const result = await client.query(
+          `INSERT INTO user_perk_claims (user_wallet_address, perk_id, expires_at, redemption_code)
+           VALUES ($1, $2, CASE WHEN $3::INT IS NULL THEN NULL ELSE NOW() + make_interval(days => $3::INT) END, $4)
+           RETURNING *`,
+          [wallet, perkId, perk.expiry_days, this.generateCode()]
+        );
+        return result.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof PerkClaimError)) {
+        console.error('Error claiming perk:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Redeem a claim with its one-time code
+   */
+  async redeemClaim(claimId: number, code: string, redeemedBy: string): Promise<PerkClaim> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        const result = await client.query(
+          `SELECT upc.*, p.is_active AS perk_is_active
+           FROM user_perk_claims upc
+           JOIN perks p ON p.perk_id = upc.perk_id
+           WHERE upc.claim_id = $1
+           FOR UPDATE OF upc`,
+          [claimId]
+        );
+
+        if (result.rows.length === 0) {
+          throw new PerkClaimError('Claim not found', 404);
+        }
+
+        const claim = result.rows[0];
+        if (!this.codesMatch(claim.redemption_code, code)) {
+          throw new PerkClaimError('Invalid redemption code', 400);
+        }
+        if (claim.is_used) {
+          throw new PerkClaimError(`Claim was already redeemed at ${new Date(claim.used_at).toISOString()}`, 409);
+        }
+        if (claim.expires_at && new Date(claim.expires_at) <= new Date()) {
+          throw new PerkClaimError('Claim has expired', 410);
+        }
+        if (!claim.perk_is_active) {
+          throw new PerkClaimError('Perk is no longer active', 409);
+        }
+
+        const updated = await client.query(
+          `UPDATE user_perk_claims
+           SET is_used = true, used_at = NOW(), redeemed_by = $2
+           WHERE claim_id = $1
+           RETURNING *`,
+          [claimId, redeemedBy]
+        );
+        return updated.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof PerkClaimError)) {
+        console.error('Error redeeming perk claim:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List a wallet's claims, newest first
+   */
+  async getClaims(walletAddress: string): Promise<PerkClaimDetails[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT upc.*, p.perk_name, p.description, p.brand_id, bp.brand_name, p.value_type, p.value_amount,
+                CASE
+                  WHEN upc.is_used THEN 'redeemed'
+                  WHEN upc.expires_at IS NOT NULL AND upc.expires_at <= NOW() THEN 'expired'
+                  ELSE 'active'
+                END AS status
+         FROM user_perk_claims upc
+         JOIN perks p ON p.perk_id = upc.perk_id
+         LEFT JOIN brand_partners bp ON bp.brand_id = p.brand_id
+         WHERE upc.user_wallet_address = $1
+         ORDER BY upc.claimed_at DESC, upc.claim_id DESC`,
+        [walletAddress.toLowerCase()]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting perk claims:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the brand that owns a claim's perk
+   */
+  async getClaimBrandId(claimId: number): Promise<number | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT p.brand_id
+         FROM user_perk_claims upc
+         JOIN perks p ON p.perk_id = upc.perk_id
+         WHERE upc.claim_id = $1`,
+        [claimId]
+      );
+      return result.rows.length > 0 ? result.rows[0].brand_id : null;
+    } catch (error) {
+      console.error('Error getting claim brand:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Random code formatted as XXXXX-XXXXX
+   */
+  private generateCode(): string {
+    // 256 is a multiple of the alphabet size, so the modulo is unbiased
+    const chars = Array.from(crypto.randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  }
+
+  private codesMatch(expected: string, provided: string): boolean {
+    const normalized = String(provided || '').trim().toUpperCase();
+    const a = Buffer.from(expected);
+    const b = Buffer.from(normalized);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
+
+// Export singleton instance
+export const claimService = new ClaimService();
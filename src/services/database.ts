@@ -1,4 +1,10 @@
 import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+import { ACTION_BRAND_NAMES, isValidActionType } from '../config/brands';
+import { pointsService } from './points';
+import { unlockService, UnlockResult, UnmetRequirement } from './unlocks';
+import { ownershipService } from './ownership';
+import { cidFromUri, ipfsPinService } from './ipfs-pins';
 
 export interface User {
   wallet_address: string;
@@ -7,19 +13,30 @@ export interface User {
 }
 
 export interface NFTCompleteInfo {
-  user_id: string;
-  wallet_address: string;
   token_id: number;
+  owner_wallet_address: string;
+  chain_id: number;
+  minted_at: Date;
+  token_uri: string;
+  is_staked: boolean;
+  loyalty_level: number;
   loyalty_points: number;
-  tier_level: string;
-  total_transactions: number;
-  total_spent: number;
-  vietjet_flights: number;
-  hdbank_transactions: number;
-  dragon_city_visits: number;
-  staked_eth: number;
-  created_at: Date;
-  updated_at: Date;
+  flights_taken: number;
+  bank_tier: string;
+  resorts_visited: number;
+  total_spending: string;
+  miles_earned: number;
+  status_tier: string;
+  staked_eth: string;
+  staked_since: Date | null;
+  staking_days: number;
+  eth_days: string;
+  last_updated: Date;
+  owner_display_name: string | null;
+  owner_joined_at: Date;
+  hdbank_activities: string;
+  vietjet_activities: string;
+  halong_star_activities: string;
 }
 
 export interface Perk {
@@ -27,17 +44,35 @@ export interface Perk {
   perk_name: string;
   description: string;
   brand_id: number;
-  unlock_condition: any;
+  unlock_type: string;
+  unlock_threshold: string;
   is_active: boolean;
+  usage_limit: number | null;
+  expiry_days: number | null;
+}
+
+export interface PerkInput {
+  perkName: string;
+  description?: string;
+  unlockType: string;
+  unlockThreshold: string | number;
+  category?: string;
+  valueType?: string;
+  valueAmount?: number;
+  usageLimit?: number;
+  expiryDays?: number;
 }
 
 export interface UserAction {
   action_id: number;
-  user_id: string;
+  user_wallet_address: string;
   action_type: string;
-  details: any;
+  action_details: any;
+  brand_id: number | null;
   points_earned: number;
-  created_at: Date;
+  action_timestamp: Date;
+  processed: boolean;
+  processed_at: Date | null;
 }
 
 /**
@@ -55,7 +90,7 @@ export class DatabaseService {
   /**
    * Get NFT metadata for dynamic API endpoint
    */
-  async getNFTMetadata(tokenId: number): Promise<any | null> {
+  async getNFTMetadata(chainId: number, tokenId: number): Promise<any | null> {
     try {
       const query = `
         SELECT 
@@ -72,11 +107,11 @@ export class DatabaseService {
           COALESCE(na.status_tier, 'Bronze') as status_tier,
           COALESCE(na.last_updated, ln.minted_at) as last_updated
         FROM loyalty_nfts ln
-        LEFT JOIN nft_attributes na ON ln.token_id = na.nft_token_id
-        WHERE ln.token_id = $1
+        LEFT JOIN nft_attributes na ON ln.chain_id = na.chain_id AND ln.token_id = na.nft_token_id
+        WHERE ln.chain_id = $1 AND ln.token_id = $2
       `;
       
-      const result = await DatabaseHelpers.executeQuery(query, [tokenId]);
+      const result = await DatabaseHelpers.executeQuery(query, [chainId, tokenId]);
       return result.rows.length > 0 ? result.rows[0] : null;
     } catch (error) {
       console.error('Error getting NFT metadata:', error);
@@ -87,10 +122,10 @@ export class DatabaseService {
   /**
    * Update loyalty level for a specific NFT
    */
-  async updateLoyaltyLevel(tokenId: number): Promise<number> {
+  async updateLoyaltyLevel(chainId: number, tokenId: number): Promise<number> {
     try {
-      const query = 'SELECT calculate_and_update_loyalty_level($1) as new_level';
-      const result = await DatabaseHelpers.executeQuery(query, [tokenId]);
+      const query = 'SELECT calculate_and_update_loyalty_level($1, $2) as new_level';
+      const result = await DatabaseHelpers.executeQuery(query, [chainId, tokenId]);
       return result.rows[0]?.new_level || 0;
     } catch (error) {
       console.error('Error updating loyalty level:', error);
@@ -166,6 +201,7 @@ export class DatabaseService {
 
   /**
    * Create NFT record after successful minting
+   * Pass a transaction client to create it atomically with other writes.
    */
   async createNFTRecord(
     walletAddress: string, 
@@ -178,45 +214,67 @@ export class DatabaseService {
       metadataHash?: string;
       tokenUri?: string;
       attributes?: Array<{ trait_type: string; value: any }>;
-    }
+    },
+    chainId: number = config.blockchain.networks[config.blockchain.defaultNetwork].chainId,
+    client?: any
   ): Promise<void> {
+    const insert = async (transaction: any) => {
+      // Insert into loyalty_nfts table with IPFS data
+      const nftQuery = `
+        INSERT INTO loyalty_nfts (token_id, owner_wallet_address, token_uri, chain_id)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (chain_id, token_id) DO UPDATE SET
+          token_uri = EXCLUDED.token_uri
+      `;
+      const tokenUri = ipfsMetadata?.tokenUri || '';
+      await transaction.query(nftQuery, [tokenId, walletAddress.toLowerCase(), tokenUri, chainId]);
+
+      // Insert initial attributes (the level trigger sets loyalty_level and status_tier)
+      const attributesQuery = `
+        INSERT INTO nft_attributes (chain_id, nft_token_id, loyalty_points, bank_tier)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (chain_id, nft_token_id) DO UPDATE SET
+          loyalty_level = EXCLUDED.loyalty_level,
+          loyalty_points = EXCLUDED.loyalty_points,
+          bank_tier = EXCLUDED.bank_tier,
+          status_tier = EXCLUDED.status_tier,
+          last_updated = CURRENT_TIMESTAMP
+      `;
+      await transaction.query(attributesQuery, [chainId, tokenId, 0, 'Standard']);
+
+      // A wallet that kept its profile when transferring an earlier NFT gets it back
+      await ownershipService.restoreOnMint(transaction, walletAddress, chainId, tokenId);
+
+      // If IPFS metadata is provided, log it for future reference
+      if (ipfsMetadata) {
+        console.log(`NFT ${tokenId} created with IPFS metadata:`, {
+          name: ipfsMetadata.name,
+          description: ipfsMetadata.description,
+          imageHash: ipfsMetadata.imageHash,
+          metadataHash: ipfsMetadata.metadataHash,
+          tokenUri: ipfsMetadata.tokenUri,
+          attributesCount: ipfsMetadata.attributes?.length || 0
+        });
+      }
+    };
+
     try {
-      await DatabaseHelpers.executeTransaction(async (client) => {
-        // Insert into loyalty_nfts table with IPFS data
-        const nftQuery = `
-          INSERT INTO loyalty_nfts (token_id, owner_wallet_address, token_uri)
-          VALUES ($1, $2, $3)
-          ON CONFLICT (token_id) DO UPDATE SET
-            token_uri = EXCLUDED.token_uri
-        `;
-        const tokenUri = ipfsMetadata?.tokenUri || '';
-        await client.query(nftQuery, [tokenId, walletAddress.toLowerCase(), tokenUri]);
-
-        // Insert initial attributes
-        const attributesQuery = `
-          INSERT INTO nft_attributes (nft_token_id, loyalty_level, loyalty_points, bank_tier, status_tier)
-          VALUES ($1, $2, $3, $4, $5)
-          ON CONFLICT (nft_token_id) DO UPDATE SET
-            loyalty_level = EXCLUDED.loyalty_level,
-            loyalty_points = EXCLUDED.loyalty_points,
-            bank_tier = EXCLUDED.bank_tier,
-            status_tier = EXCLUDED.status_tier,
-            last_updated = CURRENT_TIMESTAMP
-        `;
-        await client.query(attributesQuery, [tokenId, 1, 0, 'Standard', 'Bronze']);
-
-        // If IPFS metadata is provided, log it for future reference
-        if (ipfsMetadata) {
-          console.log(`NFT ${tokenId} created with IPFS metadata:`, {
-            name: ipfsMetadata.name,
-            description: ipfsMetadata.description,
-            imageHash: ipfsMetadata.imageHash,
-            metadataHash: ipfsMetadata.metadataHash,
-            tokenUri: ipfsMetadata.tokenUri,
-            attributesCount: ipfsMetadata.attributes?.length || 0
-          });
+      if (client) {
+        await insert(client);
+      } else {
+        await DatabaseHelpers.executeTransaction(insert);
+      }
+
+      // The NFT keeps its IPFS metadata pinned
+      const metadataCid = cidFromUri(ipfsMetadata?.tokenUri || '');
+      if (metadataCid) {
+        try {
+          await ipfsPinService.addReference(metadataCid, 'nft', `${chainId}:${tokenId}`);
+        } catch (error) {
+          // The garbage collector also skips token URIs, so the record stands without the reference
+          console.warn(`⚠️ NFT ${tokenId} metadata ${metadataCid} not referenced:`, error instanceof Error ? error.message : error);
         }
-      });
+      }
     } catch (error) {
       console.error('Error creating NFT record:', error);
       throw error;
@@ -225,12 +283,15 @@ export class DatabaseService {
 
   /**
    * Get complete NFT information for a user
+   * A wallet can receive further NFTs by transfer; the highest-level one is returned.
    */
-  async getNFTCompleteInfo(walletAddress: string): Promise<any | null> {
+  async getNFTCompleteInfo(walletAddress: string): Promise<NFTCompleteInfo | null> {
     try {
       const query = `
         SELECT * FROM nft_complete_info
         WHERE owner_wallet_address = $1
+        ORDER BY loyalty_level DESC, loyalty_points DESC, token_id
+        LIMIT 1
       `;
       
       const result = await DatabaseHelpers.executeQuery(query, [walletAddress.toLowerCase()]);
@@ -249,33 +310,43 @@ export class DatabaseService {
     walletAddress: string, 
     actionType: string, 
     details: any
-  ): Promise<{ status: string; message: string; pointsEarned?: number }> {
+  ): Promise<{ status: string; message: string; pointsEarned?: number; pointsRuleId?: number | null }> {
     try {
-      // Calculate points based on action type
-      const pointsEarned = this.calculatePoints(actionType, details);
-      
-      await DatabaseHelpers.executeTransaction(async (client) => {
-        // Insert user action
+      const brandId = await this.getBrandIdForAction(actionType);
+
+      const award = await DatabaseHelpers.executeTransaction(async (client) => {
+        // Points come from the current rule for this brand and action type
+        const award = await pointsService.calculatePoints(client, walletAddress, actionType, brandId, details);
+
+        // Insert user action (processed in the same transaction)
         const actionQuery = `
-          INSERT INTO user_actions (user_id, action_type, details, points_earned)
-          VALUES ($1, $2, $3, $4)
+          INSERT INTO user_actions (
+            user_wallet_address, action_type, action_details, brand_id,
+            points_earned, points_rule_id, processed, processed_at
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, true, CURRENT_TIMESTAMP)
           RETURNING action_id
         `;
-        const actionResult = await client.query(actionQuery, [
+        await client.query(actionQuery, [
           walletAddress.toLowerCase(),
           actionType,
           JSON.stringify(details),
-          pointsEarned
+          brandId,
+          award.points,
+          award.ruleId
         ]);
 
         // Update NFT attributes
-        await this.updateNFTAttributes(client, walletAddress, actionType, pointsEarned, details);
+        await this.updateNFTAttributes(client, walletAddress, actionType, award.points, details);
+
+        return award;
       });
 
       return {
         status: 'success',
-        message: 'Action processed successfully',
-        pointsEarned
+        message: award.capped ? 'Action processed successfully (points capped)' : 'Action processed successfully',
+        pointsEarned: award.points,
+        pointsRuleId: award.ruleId
       };
     } catch (error) {
       console.error('Error processing user action:', error);
@@ -286,7 +357,7 @@ export class DatabaseService {
   /**
    * Get all perks with user unlock status
    */
-  async getUserPerks(walletAddress: string): Promise<Array<Perk & { is_unlocked: boolean }>> {
+  async getUserPerks(walletAddress: string): Promise<Array<Perk & { is_unlocked: boolean; unmet_requirements: UnmetRequirement[] }>> {
     try {
       // Get all active perks
       const perksQuery = 'SELECT * FROM perks WHERE is_active = true ORDER BY brand_id, perk_name';
@@ -296,10 +367,14 @@ export class DatabaseService {
       const userInfo = await this.getNFTCompleteInfo(walletAddress);
       
       // Evaluate unlock conditions for each perk
-      const perksWithStatus = perksResult.rows.map((perk: Perk) => ({
-        ...perk,
-        is_unlocked: this.evaluatePerkUnlockCondition(perk, userInfo)
-      }));
+      const perksWithStatus = perksResult.rows.map((perk: Perk) => {
+        const result = unlockService.evaluate(perk, userInfo);
+        return {
+          ...perk,
+          is_unlocked: result.unlocked,
+          unmet_requirements: result.unmet
+        };
+      });
 
       return perksWithStatus;
     } catch (error) {
@@ -309,29 +384,135 @@ export class DatabaseService {
   }
 
   /**
-   * Validate wallet address format
+   * Check a wallet against a perk's unlock condition
    */
-  private isValidWalletAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  async evaluatePerkUnlock(perk: Perk, walletAddress: string): Promise<UnlockResult> {
+    const userInfo = await this.getNFTCompleteInfo(walletAddress);
+    return unlockService.evaluate(perk, userInfo);
   }
 
   /**
-   * Calculate points based on action type
+   * Get brand ID by brand name
    */
-  private calculatePoints(actionType: string, details: any): number {
-    const pointsMap: { [key: string]: number } = {
-      'vietjet_flight_booking': details.pointsEarned || 100,
-      'hdbank_transaction': Math.floor((details.amount || 0) / 1000), // 1 point per 1000 VND
-      'dragon_city_visit': details.pointsEarned || 50,
-      'hd_saison_purchase': Math.floor((details.amount || 0) / 10000), // 1 point per 10,000 VND
-      'ha_long_star_booking': details.pointsEarned || 150,
-    };
+  async getBrandIdByName(brandName: string): Promise<number | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        'SELECT brand_id FROM brand_partners WHERE brand_name = $1',
+        [brandName]
+      );
+      return result.rows.length > 0 ? result.rows[0].brand_id : null;
+    } catch (error) {
+      console.error('Error getting brand ID by name:', error);
+      throw error;
+    }
+  }
 
-    return Math.max(pointsMap[actionType] || 0, 0);
+  /**
+   * Get the brand that owns an action type
+   */
+  async getBrandIdForAction(actionType: string): Promise<number | null> {
+    if (!isValidActionType(actionType)) {
+      return null;
+    }
+    return await this.getBrandIdByName(ACTION_BRAND_NAMES[actionType]);
   }
 
   /**
-   * Update NFT attributes based on action
+   * Get a perk by ID
+   */
+  async getPerkById(perkId: number): Promise<any | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery('SELECT * FROM perks WHERE perk_id = $1', [perkId]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error getting perk by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a perk
+   */
+  async createPerk(perk: PerkInput & { brandId: number | null }): Promise<any> {
+    try {
+      const query = `
+        INSERT INTO perks (
+          perk_name, description, unlock_type, unlock_threshold, category,
+          value_type, value_amount, usage_limit, expiry_days, brand_id
+        )
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6, 'discount'), $7, $8, $9, $10)
+        RETURNING *
+      `;
+      const result = await DatabaseHelpers.executeQuery(query, [
+        perk.perkName,
+        perk.description ?? null,
+        perk.unlockType,
+        String(perk.unlockThreshold),
+        perk.category ?? null,
+        perk.valueType ?? null,
+        perk.valueAmount ?? null,
+        perk.usageLimit ?? null,
+        perk.expiryDays ?? null,
+        perk.brandId
+      ]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating perk:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a perk (brand ownership cannot be changed)
+   */
+  async updatePerk(perkId: number, changes: Partial<PerkInput> & { isActive?: boolean }): Promise<any | null> {
+    try {
+      const columns: Array<[keyof typeof changes, string]> = [
+        ['perkName', 'perk_name'],
+        ['description', 'description'],
+        ['unlockType', 'unlock_type'],
+        ['unlockThreshold', 'unlock_threshold'],
+        ['category', 'category'],
+        ['valueType', 'value_type'],
+        ['valueAmount', 'value_amount'],
+        ['usageLimit', 'usage_limit'],
+        ['expiryDays', 'expiry_days'],
+        ['isActive', 'is_active']
+      ];
+
+      const assignments: string[] = [];
+      const params: any[] = [perkId];
+
+      for (const [key, column] of columns) {
+        const value = changes[key];
+        if (value !== undefined) {
+          params.push(key === 'unlockThreshold' ? String(value) : value);
+          assignments.push(`${column} = $${params.length}`);
+        }
+      }
+
+      if (assignments.length === 0) {
+        return await this.getPerkById(perkId);
+      }
+
+      const query = `UPDATE perks SET ${assignments.join(', ')} WHERE perk_id = $1 RETURNING *`;
+      const result = await DatabaseHelpers.executeQuery(query, params);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error updating perk:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate wallet address format
+   */
+  private isValidWalletAddress(address: string): boolean {
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  }
+
+  /**
+   * Update the attributes of the wallet's highest-level NFT based on the action
    */
   private async updateNFTAttributes(
     client: any, 
@@ -341,101 +522,39 @@ export class DatabaseService {
     details: any
   ): Promise<void> {
     let updateQuery = `
-      UPDATE nft_attributes 
-      SET loyalty_points = loyalty_points + $2,
-          total_transactions = total_transactions + 1,
-          updated_at = CURRENT_TIMESTAMP
+      UPDATE nft_attributes na
+      SET loyalty_points = na.loyalty_points + $2
     `;
     const queryParams = [walletAddress.toLowerCase(), pointsEarned];
 
     // Add specific updates based on action type
     switch (actionType) {
       case 'vietjet_flight_booking':
-        updateQuery += ', vietjet_flights = vietjet_flights + 1';
+        updateQuery += ', flights_taken = na.flights_taken + 1';
         break;
       case 'hdbank_transaction':
-        updateQuery += ', hdbank_transactions = hdbank_transactions + 1, total_spent = total_spent + $3';
-        queryParams.push(details.amount || 0);
+      case 'hd_saison_purchase':
+        updateQuery += ', total_spending = na.total_spending + $3';
+        queryParams.push(Math.max(Number(details.amount) || 0, 0));
         break;
-      case 'dragon_city_visit':
-        updateQuery += ', dragon_city_visits = dragon_city_visits + 1';
+      case 'ha_long_star_booking':
+        updateQuery += ', resorts_visited = na.resorts_visited + 1';
         break;
     }
 
-    updateQuery += ' WHERE user_id = $1';
-
-    await client.query(updateQuery, queryParams);
-
-    // Update tier level based on new points total
-    await this.updateUserTier(client, walletAddress);
-  }
-
-  /**
-   * Update user tier based on loyalty points
-   */
-  private async updateUserTier(client: any, walletAddress: string): Promise<void> {
-    const tierQuery = `
-      UPDATE nft_attributes 
-      SET tier_level = CASE 
-        WHEN loyalty_points >= 10000 THEN 'Diamond'
-        WHEN loyalty_points >= 5000 THEN 'Platinum'
-        WHEN loyalty_points >= 2000 THEN 'Gold'
-        WHEN loyalty_points >= 500 THEN 'Silver'
-        ELSE 'Bronze'
-      END
-      WHERE user_id = $1
+    // Credit the same NFT getNFTCompleteInfo returns, so a wallet holding several is credited once
+    updateQuery += `
+      FROM (
+        SELECT chain_id, token_id FROM nft_complete_info
+        WHERE owner_wallet_address = $1
+        ORDER BY loyalty_level DESC, loyalty_points DESC, token_id
+        LIMIT 1
+      ) held
+      WHERE na.chain_id = held.chain_id AND na.nft_token_id = held.token_id
     `;
-    
-    await client.query(tierQuery, [walletAddress.toLowerCase()]);
-  }
-
-  /**
-   * Evaluate if a perk is unlocked for a user
-   */
-  private evaluatePerkUnlockCondition(perk: Perk, userInfo: NFTCompleteInfo | null): boolean {
-    if (!userInfo || !perk.unlock_condition) {
-      return false;
-    }
-
-    const condition = perk.unlock_condition;
-
-    // Check different types of conditions
-    if (condition.min_loyalty_points && userInfo.loyalty_points < condition.min_loyalty_points) {
-      return false;
-    }
-
-    if (condition.min_tier_level) {
-      const tierLevels = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'];
-      const userTierIndex = tierLevels.indexOf(userInfo.tier_level);
-      const requiredTierIndex = tierLevels.indexOf(condition.min_tier_level);
-      if (userTierIndex < requiredTierIndex) {
-        return false;
-      }
-    }
-
-    if (condition.min_staked_eth && userInfo.staked_eth < condition.min_staked_eth) {
-      return false;
-    }
 
-    if (condition.min_transactions && userInfo.total_transactions < condition.min_transactions) {
-      return false;
-    }
-
-    if (condition.min_brand_specific) {
-      const brandChecks = {
-        vietjet_flights: userInfo.vietjet_flights,
-        hdbank_transactions: userInfo.hdbank_transactions,
-        dragon_city_visits: userInfo.dragon_city_visits,
-      };
-
-      for (const [key, required] of Object.entries(condition.min_brand_specific)) {
-        if (brandChecks[key as keyof typeof brandChecks] < (required as number)) {
-          return false;
-        }
-      }
-    }
-
-    return true;
+    // The level trigger recalculates loyalty_level and status_tier from loyalty_levels
+    await client.query(updateQuery, queryParams);
   }
 }
 
@@ -0,0 +1,257 @@
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+
+/**
+ * Media pipeline run on NFT uploads before they are pinned
+ * The content type comes from the file's magic bytes, not its name. SVGs are sanitized, EXIF and
+ * other metadata are stripped from raster images, and images get standard-size WebP variants and a
+ * blurhash. Videos are passed through unchanged.
+ */
+
+export const MEDIA_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/svg+xml',
+  'video/mp4',
+  'video/quicktime',
+  'video/x-msvideo'
+] as const;
+export type MediaType = typeof MEDIA_TYPES[number];
+
+// Bounding box of each variant in pixels; images are never enlarged
+export const IMAGE_VARIANTS = [
+  { name: 'thumbnail', size: 256 },
+  { name: '512', size: 512 },
+  { name: '1024', size: 1024 }
+] as const;
+export type ImageVariantName = typeof IMAGE_VARIANTS[number]['name'];
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  content: Buffer;
+  contentType: 'image/webp';
+  width: number;
+  height: number;
+}
+
+export interface ProcessedMedia {
+  contentType: MediaType;
+  category: 'image' | 'video';
+  // What gets pinned as the original: sanitized or stripped, otherwise the upload itself
+  content: Buffer;
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
+  blurhash: string | null;
+}
+
+/**
+ * Upload the pipeline refuses, with the HTTP status to report
+ */
+export class MediaPipelineError extends Error {
+  constructor(message: string, public readonly statusCode: number = 415) {
+    super(message);
+    this.name = 'MediaPipelineError';
+  }
+}
+
+/**
+ * Content type from a file's leading bytes, or null if it is none of MEDIA_TYPES
+ */
+export function sniffContentType(content: Buffer): MediaType | null {
+  const ascii = (start: number, end: number) => content.subarray(start, end).toString('latin1');
+
+  if (content.length >= 3 && content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') {
+    return 'video/x-msvideo';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (isSvg(content)) {
+    return 'image/svg+xml';
+  }
+  return null;
+}
+
+/**
+ * Whether text content starts with an <svg> root, after any XML declaration, comments and doctype
+ */
+function isSvg(content: Buffer): boolean {
+  const head = content.subarray(0, 4096).toString('utf8').replace(/^﻿/, '');
+  const prolog = /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i;
+  return prolog.test(head);
+}
+
+const SVG_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textpath', 'image', 'marker', 'pattern', 'clippath', 'mask',
+  'lineargradient', 'radialgradient', 'stop', 'filter'
+]);
+
+// Anything that could load or run something outside the image; url(#id) stays allowed
+const UNSAFE_CSS = /url\s*\(\s*['"]?\s*(?![\s'"#])|@import|expression\s*\(|javascript:/i;
+const SAFE_HREF = /^(#|data:image\/(png|jpeg|gif|webp);base64,)/i;
+
+/**
+ * Rebuild an SVG keeping only drawing elements and attributes
+ * Scripts, event handlers, foreignObject, external references and CSS that loads URLs are removed.
+ * Documents declaring entities are refused outright.
+ */
+export function sanitizeSvg(content: Buffer): Buffer {
+  const source = content.toString('utf8');
+  if (/<!ENTITY/i.test(source)) {
+    throw new MediaPipelineError('SVG files may not declare entities');
+  }
+
+  const errors: string[] = [];
+  const document = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: (message: string) => errors.push(message),
+      fatalError: (message: string) => errors.push(message)
+    }
+  }).parseFromString(source, 'image/svg+xml');
+  const root = document.documentElement;
+  if (errors.length > 0 || !root || root.localName !== 'svg') {
+    throw new MediaPipelineError('Invalid SVG file');
+  }
+
+  const clean = (element: Element): void => {
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === 1) {
+        const childElement = child as Element;
+        const name = childElement.localName.toLowerCase();
+        const allowed = SVG_ELEMENTS.has(name) || name.startsWith('fe');
+        if (!allowed || (name === 'style' && UNSAFE_CSS.test(childElement.textContent || ''))) {
+          element.removeChild(child);
+        } else {
+          clean(childElement);
+        }
+      } else if (child.nodeType !== 3 && child.nodeType !== 4) {
+        // Comments, processing instructions and the like
+        element.removeChild(child);
+      }
+    }
+
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.localName.toLowerCase();
+      const value = attribute.value.trim();
+      const unsafe = name.startsWith('on')
+        || (name === 'href' ? !SAFE_HREF.test(value) : /^(javascript|vbscript|data):/i.test(value))
+        || UNSAFE_CSS.test(value);
+      if (unsafe) {
+        element.removeAttributeNode(attribute);
+      }
+    }
+  };
+  clean(root);
+
+  return Buffer.from(new XMLSerializer().serializeToString(root));
+}
+
+/**
+ * Content type from a file's leading bytes
+ * @throws MediaPipelineError if it is none of MEDIA_TYPES
+ */
+export function detectMediaType(content: Buffer): MediaType {
+  const contentType = sniffContentType(content);
+  if (!contentType) {
+    throw new MediaPipelineError('Unsupported file type; only JPEG, PNG, GIF, WebP, SVG, MP4, MOV and AVI files are allowed');
+  }
+  return contentType;
+}
+
+/**
+ * Run an upload through the pipeline
+ * @param content The uploaded bytes
+ * @returns The content to pin, its variants and blurhash
+ */
+export async function processMedia(content: Buffer): Promise<ProcessedMedia> {
+  const contentType = detectMediaType(content);
+
+  if (contentType.startsWith('video/')) {
+    return { contentType, category: 'video', content, width: null, height: null, variants: [], blurhash: null };
+  }
+
+  let original = contentType === 'image/svg+xml' ? sanitizeSvg(content) : content;
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(original).metadata();
+  } catch (error) {
+    throw new MediaPipelineError(`Could not read the ${contentType} image`);
+  }
+
+  // Re-encoding drops EXIF, XMP and IPTC; the orientation is applied to the pixels first
+  if (contentType !== 'image/svg+xml' && (metadata.exif || metadata.xmp || metadata.iptc)) {
+    original = await stripMetadata(original, contentType);
+    metadata = await sharp(original).metadata();
+  }
+
+  // EXIF orientations 5-8 swap the sides
+  const rotated = (metadata.orientation || 1) >= 5;
+  const width = rotated ? metadata.height! : metadata.width!;
+  const height = rotated ? metadata.width! : metadata.height!;
+
+  // A small image fits several boxes unchanged; it gets the first of them only
+  const variants: ImageVariant[] = [];
+  for (const { name, size } of IMAGE_VARIANTS) {
+    const previous = variants[variants.length - 1];
+    if (previous && previous.width === width && previous.height === height) {
+      break;
+    }
+    const { data, info } = await sharp(original)
+      .rotate()
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ name, content: data, contentType: 'image/webp', width: info.width, height: info.height });
+  }
+
+  return { contentType, category: 'image', content: original, width, height, variants, blurhash: await computeBlurhash(original) };
+}
+
+/**
+ * Re-encode a raster image without its metadata, keeping the colour profile and animation
+ */
+async function stripMetadata(content: Buffer, contentType: MediaType): Promise<Buffer> {
+  const image = sharp(content, { animated: true }).rotate().keepIccProfile();
+  switch (contentType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 92 }).toBuffer();
+    case 'image/png':
+      return image.png().toBuffer();
+    case 'image/webp':
+      return image.webp({ quality: 90 }).toBuffer();
+    default:
+      return image.toBuffer();
+  }
+}
+
+/**
+ * Blurhash of a downscaled copy, 4x3 components
+ */
+async function computeBlurhash(content: Buffer): Promise<string> {
+  const { data, info } = await sharp(content)
+    .rotate()
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+}
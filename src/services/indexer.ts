@@ -0,0 +1,416 @@
+import { ethers } from 'ethers';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+import { getBlockchainServices, GOMGOM_NFT_ABI, STAKING_POOL_ABI, UnknownNetworkError } from './blockchain';
+import { ownershipService } from './ownership';
+import { stakingService } from './staking';
+
+// Checkpoint name of the Transfer/Staked/Unstaked indexer
+export const CHAIN_EVENTS_INDEXER = 'chain_events';
+
+export interface ChainEvent {
+  event_id: number;
+  chain_id: number;
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  contract_address: string;
+  event_name: 'Transfer' | 'Staked' | 'Unstaked';
+  args: { [key: string]: string };
+  block_timestamp: Date | null;
+  created_at: Date;
+}
+
+export interface IndexerCheckpoint {
+  indexer_name: string;
+  chain_id: number;
+  last_block: number;
+  last_block_hash: string;
+  updated_at: Date;
+}
+
+export interface IndexBatchResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // Set when a reorg was detected: the batch rolled back to this block instead of indexing
+  rewoundTo: number | null;
+}
+
+type DecodedEvent = Omit<ChainEvent, 'event_id' | 'chain_id' | 'created_at'>;
+
+const nftInterface = new ethers.utils.Interface(GOMGOM_NFT_ABI);
+const stakingInterface = new ethers.utils.Interface(STAKING_POOL_ABI);
+
+/**
+ * Chain indexer: projects NFT transfers and staking events onto the database
+ * Block ranges are indexed from a checkpoint that stores the last block's hash. When that hash
+ * changes, the last reorgDepth blocks of events are undone and indexed again.
+ */
+export class ChainIndexer {
+  private chainId: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+
+  constructor(
+    private provider: ethers.providers.Provider,
+    private contracts: { nft: string; staking: string } = config.blockchain.networks[config.blockchain.defaultNetwork].contracts,
+    private settings = config.indexer
+  ) {}
+
+  /**
+   * Index the next block range, or roll back a reorg
+   * Returns null when caught up with the chain head or when another instance holds the lock.
+   */
+  async indexNext(): Promise<IndexBatchResult | null> {
+    const chainId = await this.getChainId();
+
+    return await DatabaseHelpers.executeTransaction(async (client) => {
+      const lock = await client.query('SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked', [`${CHAIN_EVENTS_INDEXER}:${chainId}`]);
+      if (!lock.rows[0].locked) {
+        return null;
+      }
+
+      const checkpoint = await this.loadCheckpoint(client, chainId);
+      if (checkpoint) {
+        const block = await this.provider.getBlock(checkpoint.last_block);
+        if (!block || block.hash !== checkpoint.last_block_hash) {
+          const target = Math.max(checkpoint.last_block - this.settings.reorgDepth, this.settings.startBlock - 1);
+          console.warn(`⚠️ Block ${checkpoint.last_block} was reorged; rewinding the indexer to block ${target}`);
+          await this.rewindTo(client, chainId, target);
+          return { fromBlock: target + 1, toBlock: checkpoint.last_block, events: 0, rewoundTo: target };
+        }
+      }
+
+      const fromBlock = checkpoint ? checkpoint.last_block + 1 : this.settings.startBlock;
+      const head = await this.provider.getBlockNumber();
+      if (fromBlock > head) {
+        return null;
+      }
+      const toBlock = Math.min(head, fromBlock + this.settings.batchSize - 1);
+
+      const toBlockHash = (await this.provider.getBlock(toBlock)).hash;
+      const events = await this.fetchEvents(fromBlock, toBlock);
+
+      // A reorg between the two reads could mix logs from both forks; the next round retries
+      const after = await this.provider.getBlock(toBlock);
+      if (!after || after.hash !== toBlockHash) {
+        return null;
+      }
+
+      for (const event of events) {
+        const inserted = await client.query(
+          `INSERT INTO chain_events (
+             chain_id, block_number, block_hash, transaction_hash, log_index, contract_address, event_name, args, block_timestamp
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           ON CONFLICT (chain_id, block_hash, log_index) DO NOTHING
+           RETURNING event_id`,
+          [chainId, event.block_number, event.block_hash, event.transaction_hash, event.log_index,
+           event.contract_address, event.event_name, JSON.stringify(event.args), event.block_timestamp]
+        );
+        if (inserted.rows.length > 0) {
+          await this.applyEvent(client, chainId, { ...event, event_id: inserted.rows[0].event_id }, 1);
+        }
+      }
+
+      await this.saveCheckpoint(client, chainId, toBlock, toBlockHash);
+      return { fromBlock, toBlock, events: events.length, rewoundTo: null };
+    });
+  }
+
+  /**
+   * Index until the chain head
+   */
+  async syncToHead(): Promise<{ batches: number; events: number }> {
+    let batches = 0;
+    let events = 0;
+
+    let result: IndexBatchResult | null;
+    while (!this.stopping && (result = await this.indexNext())) {
+      batches++;
+      events += result.events;
+      if (result.rewoundTo === null && result.events > 0) {
+        console.log(`📇 Indexed blocks ${result.fromBlock}-${result.toBlock} of chain ${await this.getChainId()}: ${result.events} event(s)`);
+      }
+    }
+    return { batches, events };
+  }
+
+  /**
+   * Undo and delete events after a block, and move the checkpoint back to it
+   */
+  async rewind(block: number): Promise<number> {
+    const chainId = await this.getChainId();
+    return await DatabaseHelpers.executeTransaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${CHAIN_EVENTS_INDEXER}:${chainId}`]);
+      return await this.rewindTo(client, chainId, block);
+    });
+  }
+
+  /**
+   * Get the checkpoint and the chain head
+   */
+  async getStatus(): Promise<{ chainId: number; checkpoint: IndexerCheckpoint | null; head: number; events: number }> {
+    const chainId = await this.getChainId();
+    const [checkpoint, head, count] = await Promise.all([
+      this.loadCheckpoint(null, chainId),
+      this.provider.getBlockNumber(),
+      DatabaseHelpers.executeQuery('SELECT COUNT(*)::int AS count FROM chain_events WHERE chain_id = $1', [chainId])
+    ]);
+    return { chainId, checkpoint, head, events: count.rows[0].count };
+  }
+
+  /**
+   * Poll for new blocks
+   */
+  start(): void {
+    if (this.timer || this.running) {
+      return;
+    }
+    this.stopping = false;
+    console.log(`📇 Chain indexer started (from block ${this.settings.startBlock}, reorg depth ${this.settings.reorgDepth})`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.running = this.syncToHead()
+        .then(() => undefined)
+        .catch(error => console.error('Chain indexer error:', error))
+        .finally(() => {
+          this.running = null;
+          if (!this.stopping) {
+            this.schedule(this.settings.pollIntervalMs);
+          }
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Undo events after the target block, newest first, then move the checkpoint
+   * Rewinding before the start block removes the checkpoint, so indexing restarts from startBlock.
+   */
+  private async rewindTo(client: any, chainId: number, target: number): Promise<number> {
+    const orphaned = await client.query(
+      `SELECT * FROM chain_events
+       WHERE chain_id = $1 AND block_number > $2
+       ORDER BY block_number DESC, log_index DESC`,
+      [chainId, target]
+    );
+    for (const event of orphaned.rows) {
+      await this.applyEvent(client, chainId, event, -1);
+    }
+    await client.query('DELETE FROM chain_events WHERE chain_id = $1 AND block_number > $2', [chainId, target]);
+
+    if (target < this.settings.startBlock) {
+      await client.query('DELETE FROM indexer_checkpoints WHERE indexer_name = $1 AND chain_id = $2', [CHAIN_EVENTS_INDEXER, chainId]);
+    } else {
+      const block = await this.provider.getBlock(target);
+      await this.saveCheckpoint(client, chainId, target, block.hash);
+    }
+
+    console.log(`⏪ Indexer rewound to block ${target}: ${orphaned.rows.length} event(s) undone`);
+    return orphaned.rows.length;
+  }
+
+  /**
+   * Apply an event to ownership and staking, or undo it (direction -1)
+   * Either way the affected wallet's NFTs get its current staking position.
+   */
+  private async applyEvent(client: any, chainId: number, event: DecodedEvent & { event_id: number }, direction: 1 | -1): Promise<void> {
+    const args = event.args;
+
+    if (event.event_name === 'Transfer') {
+      // Mints are recorded by the mint job and burns are left alone; the transfer policy handles the rest
+      if (args.from === ethers.constants.AddressZero || args.to === ethers.constants.AddressZero) {
+        return;
+      }
+      if (direction === 1) {
+        await ownershipService.recordTransfer(client, chainId, {
+          tokenId: Number(args.tokenId),
+          from: args.from,
+          to: args.to,
+          chainEventId: event.event_id,
+          blockNumber: event.block_number,
+          transactionHash: event.transaction_hash
+        });
+      } else {
+        await ownershipService.revertTransfer(client, chainId, event.event_id);
+      }
+      await stakingService.refreshAttributes(client, chainId, direction === 1 ? args.to : args.from);
+      return;
+    }
+
+    const amount = ethers.BigNumber.from(args.amount).mul(direction);
+    const staked = event.event_name === 'Staked';
+    await client.query(
+      `INSERT INTO staking_positions (chain_id, wallet_address, staked_amount, total_staked, total_unstaked, last_stake_at)
+       VALUES ($1, $2, GREATEST($3::numeric, 0), $4, $5, $6)
+       ON CONFLICT (chain_id, wallet_address) DO UPDATE
+       SET staked_amount = GREATEST(staking_positions.staked_amount + $3::numeric, 0),
+           total_staked = staking_positions.total_staked + $4,
+           total_unstaked = staking_positions.total_unstaked + $5,
+           last_stake_at = GREATEST(staking_positions.last_stake_at, $6)`,
+      [
+        chainId, args.user,
+        (staked ? amount : amount.mul(-1)).toString(),
+        staked ? amount.toString() : '0',
+        staked ? '0' : amount.toString(),
+        staked && direction === 1 ? event.block_timestamp : null
+      ]
+    );
+    if (staked && direction === -1) {
+      // Events are undone newest first, so the latest stake left is the one before this event
+      await client.query(
+        `UPDATE staking_positions
+         SET last_stake_at = (
+           SELECT MAX(block_timestamp) FROM chain_events
+           WHERE chain_id = $1 AND event_name = 'Staked' AND args->>'user' = $2
+             AND (block_number, log_index) < ($3, $4)
+         )
+         WHERE chain_id = $1 AND wallet_address = $2`,
+        [chainId, args.user, event.block_number, event.log_index]
+      );
+    }
+    await client.query(
+      `UPDATE loyalty_nfts ln
+       SET is_staked = sp.staked_amount > 0
+       FROM staking_positions sp
+       WHERE sp.chain_id = $1 AND sp.wallet_address = $2
+         AND ln.chain_id = sp.chain_id AND ln.owner_wallet_address = sp.wallet_address`,
+      [chainId, args.user]
+    );
+    await stakingService.refreshAttributes(client, chainId, args.user);
+  }
+
+  /**
+   * Fetch and decode the indexed events in a block range, in chain order
+   */
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<DecodedEvent[]> {
+    const [transfers, staking] = await Promise.all([
+      this.provider.getLogs({
+        address: this.contracts.nft,
+        fromBlock,
+        toBlock,
+        topics: [nftInterface.getEventTopic('Transfer')]
+      }),
+      this.provider.getLogs({
+        address: this.contracts.staking,
+        fromBlock,
+        toBlock,
+        topics: [[stakingInterface.getEventTopic('Staked'), stakingInterface.getEventTopic('Unstaked')]]
+      })
+    ]);
+
+    const events = [
+      ...transfers.filter(log => !log.removed).map(log => this.decode(nftInterface, log)),
+      ...staking.filter(log => !log.removed).map(log => this.decode(stakingInterface, log))
+    ].sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+
+    // One block read per block with events, for the stake times
+    const timestamps = new Map<number, Date>();
+    for (const event of events) {
+      if (!timestamps.has(event.block_number)) {
+        const block = await this.provider.getBlock(event.block_number);
+        timestamps.set(event.block_number, new Date(block.timestamp * 1000));
+      }
+      event.block_timestamp = timestamps.get(event.block_number)!;
+    }
+    return events;
+  }
+
+  private decode(iface: ethers.utils.Interface, log: ethers.providers.Log): DecodedEvent {
+    const parsed = iface.parseLog(log);
+    const args: { [key: string]: string } = {};
+    parsed.eventFragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = ethers.BigNumber.isBigNumber(value) ? value.toString() : String(value).toLowerCase();
+    });
+
+    return {
+      block_number: log.blockNumber,
+      block_hash: log.blockHash,
+      transaction_hash: log.transactionHash,
+      log_index: log.logIndex,
+      contract_address: log.address.toLowerCase(),
+      event_name: parsed.name as DecodedEvent['event_name'],
+      args,
+      block_timestamp: null
+    };
+  }
+
+  private async loadCheckpoint(client: any, chainId: number): Promise<IndexerCheckpoint | null> {
+    const query = 'SELECT * FROM indexer_checkpoints WHERE indexer_name = $1 AND chain_id = $2';
+    const result = client
+      ? await client.query(query, [CHAIN_EVENTS_INDEXER, chainId])
+      : await DatabaseHelpers.executeQuery(query, [CHAIN_EVENTS_INDEXER, chainId]);
+    return result.rows[0] || null;
+  }
+
+  private async saveCheckpoint(client: any, chainId: number, block: number, blockHash: string): Promise<void> {
+    await client.query(
+      `INSERT INTO indexer_checkpoints (indexer_name, chain_id, last_block, last_block_hash)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (indexer_name, chain_id) DO UPDATE
+       SET last_block = EXCLUDED.last_block, last_block_hash = EXCLUDED.last_block_hash`,
+      [CHAIN_EVENTS_INDEXER, chainId, block, blockHash]
+    );
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.chainId === null) {
+      this.chainId = (await this.provider.getNetwork()).chainId;
+    }
+    return this.chainId;
+  }
+}
+
+// One indexer per enabled network profile, each with its own checkpoint
+const indexers = new Map<string, ChainIndexer>(
+  getBlockchainServices().map(blockchain => [
+    blockchain.network.name,
+    new ChainIndexer(blockchain.getProvider(), blockchain.network.contracts, {
+      ...config.indexer,
+      startBlock: blockchain.network.indexerStartBlock
+    })
+  ])
+);
+
+/**
+ * Get the chain indexer for a named network, or the default network's
+ */
+export function getChainIndexer(network: string = config.blockchain.defaultNetwork): ChainIndexer {
+  const indexer = indexers.get(network);
+  if (!indexer) {
+    throw new UnknownNetworkError(`Unknown network ${network}. Enabled networks: ${[...indexers.keys()].join(', ')}`);
+  }
+  return indexer;
+}
+
+/**
+ * Get every enabled network's chain indexer
+ */
+export function getChainIndexers(): ChainIndexer[] {
+  return [...indexers.values()];
+}
+
+// Export the default network's indexer
+export const chainIndexer = getChainIndexer();
@@ -0,0 +1,412 @@
+import { DatabaseHelpers } from '../database';
+import { getIpfsProvider } from './ipfs-providers';
+
+export interface IpfsPinRecord {
+  pin_id: number;
+  cid: string;
+  provider: string;
+  size_bytes: string; // BIGINT
+  mime_type: string;
+  name: string | null;
+  owner: string | null;
+  purpose: string;
+  pinned_at: Date;
+  unpinned_at: Date | null;
+  unpinned_by: string | null;
+  source_cid: string | null;
+  variant: string | null;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+}
+
+export interface NewIpfsPin {
+  cid: string;
+  provider: string;
+  sizeBytes: number;
+  mimeType: string;
+  name?: string | null;
+  owner?: string | null;
+  purpose: string;
+  // Resized variants: the CID they were generated from and the variant name
+  sourceCid?: string | null;
+  variant?: string | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+export const IPFS_REFERRER_TYPES = ['nft', 'metadata', 'mint_job', 'mint_voucher'] as const;
+export type IpfsReferrerType = typeof IPFS_REFERRER_TYPES[number];
+
+export interface IpfsPinReference {
+  reference_id: number;
+  cid: string;
+  referrer_type: IpfsReferrerType;
+  referrer_id: string;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface IpfsGcReport {
+  provider: string;
+  olderThanDays: number;
+  dryRun: boolean;
+  candidates: IpfsPinRecord[];
+  totalBytes: number;
+  unpinned: string[];
+  // Referenced or unpinned since the report was taken
+  skipped: string[];
+  failed: Array<{ cid: string; error: string }>;
+}
+
+/**
+ * Rejected pin operation, with the HTTP status to report
+ */
+export class IpfsPinError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'IpfsPinError';
+  }
+}
+
+// CID of a loyalty_nfts token URI (ln), read as cidFromUri does
+const TOKEN_URI_CID = `COALESCE(substring(ln.token_uri from '^ipfs://(?:ipfs/)?([A-Za-z0-9]+)'),
+  substring(ln.token_uri from '^https?://[^/]+/ipfs/([A-Za-z0-9]+)'))`;
+
+/**
+ * CID of an ipfs:// URI or a gateway URL, or null for anything else
+ */
+export function cidFromUri(uri: string): string | null {
+  const match = /^ipfs:\/\/(?:ipfs\/)?([A-Za-z0-9]+)/.exec(uri) || /^https?:\/\/[^/]+\/ipfs\/([A-Za-z0-9]+)/.exec(uri);
+  return match ? match[1] : null;
+}
+
+/**
+ * IPFS pin service: the content the backend has pinned per provider, and what uses it
+ * Content with no references can be unpinned, by hand or by the garbage collector once it is old
+ * enough. Changes to a CID's pin or references are serialized by an advisory lock on the CID.
+ */
+export class IpfsPinService {
+
+  /**
+   * Get the pin of a CID with a provider, unpinned or not
+   */
+  async getPin(cid: string, provider: string): Promise<IpfsPinRecord | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        'SELECT * FROM ipfs_pins WHERE cid = $1 AND provider = $2',
+        [cid, provider]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error getting IPFS pin:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a pin; content pinned concurrently keeps the first record, and pinning unpinned
+   * content again starts its record over
+   */
+  async recordPin(pin: NewIpfsPin): Promise<IpfsPinRecord> {
+    try {
+      await DatabaseHelpers.executeQuery(
+        `INSERT INTO ipfs_pins (cid, provider, size_bytes, mime_type, name, owner, purpose, source_cid, variant, width, height)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (cid, provider) DO UPDATE SET
+           size_bytes = EXCLUDED.size_bytes, mime_type = EXCLUDED.mime_type, name = EXCLUDED.name,
+           owner = EXCLUDED.owner, purpose = EXCLUDED.purpose,
+           source_cid = EXCLUDED.source_cid, variant = EXCLUDED.variant,
+           width = EXCLUDED.width, height = EXCLUDED.height,
+           pinned_at = NOW(), unpinned_at = NULL, unpinned_by = NULL
+         WHERE ipfs_pins.unpinned_at IS NOT NULL`,
+        [
+          pin.cid, pin.provider, pin.sizeBytes, pin.mimeType, pin.name || null, pin.owner?.toLowerCase() || null, pin.purpose,
+          pin.sourceCid || null, pin.variant || null, pin.width ?? null, pin.height ?? null
+        ]
+      );
+      return (await this.getPin(pin.cid, pin.provider))!;
+    } catch (error) {
+      console.error('Error recording IPFS pin:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record what the media pipeline found in an upload
+   * Also applied when the content was already pinned, e.g. before uploads were processed.
+   */
+  async recordMedia(
+    cid: string,
+    provider: string,
+    media: { mimeType: string; width: number | null; height: number | null; blurhash: string | null }
+  ): Promise<void> {
+    try {
+      await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_pins SET mime_type = $3, width = $4, height = $5, blurhash = $6
+         WHERE cid = $1 AND provider = $2`,
+        [cid, provider, media.mimeType, media.width, media.height, media.blurhash]
+      );
+    } catch (error) {
+      console.error('Error recording IPFS media info:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pinned variants generated from a CID, smallest first
+   */
+  async getVariants(cid: string, provider: string): Promise<IpfsPinRecord[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM ipfs_pins
+         WHERE source_cid = $1 AND provider = $2 AND unpinned_at IS NULL
+         ORDER BY width, pin_id`,
+        [cid, provider]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting IPFS variants:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List what uses a CID
+   */
+  async getReferences(cid: string): Promise<IpfsPinReference[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        'SELECT * FROM ipfs_pin_references WHERE cid = $1 ORDER BY created_at, reference_id',
+        [cid]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting IPFS pin references:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that something uses a CID; recording it twice is a no-op
+   * Content the backend unpinned must be pinned again first.
+   */
+  async addReference(
+    cid: string,
+    referrerType: IpfsReferrerType,
+    referrerId: string | number,
+    createdBy: string | null = null
+  ): Promise<IpfsPinReference> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        await this.lock(client, cid);
+
+        const pin = await client.query(
+          'SELECT unpinned_at FROM ipfs_pins WHERE cid = $1 AND provider = $2',
+          [cid, getIpfsProvider().name]
+        );
+        if (pin.rows[0]?.unpinned_at) {
+          throw new IpfsPinError(`${cid} was unpinned; pin the content again before referencing it`, 409);
+        }
+
+        await client.query(
+          `INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING`,
+          [cid, referrerType, String(referrerId), createdBy]
+        );
+        const reference = await client.query(
+          'SELECT * FROM ipfs_pin_references WHERE cid = $1 AND referrer_type = $2 AND referrer_id = $3',
+          [cid, referrerType, String(referrerId)]
+        );
+        return reference.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof IpfsPinError)) {
+        console.error('Error adding IPFS pin reference:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a reference; the content stays pinned until it is unpinned or collected
+   */
+  async removeReference(cid: string, referrerType: IpfsReferrerType, referrerId: string | number): Promise<void> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        'DELETE FROM ipfs_pin_references WHERE cid = $1 AND referrer_type = $2 AND referrer_id = $3',
+        [cid, referrerType, String(referrerId)]
+      );
+      if (result.rowCount === 0) {
+        throw new IpfsPinError('Reference not found', 404);
+      }
+    } catch (error) {
+      if (!(error instanceof IpfsPinError)) {
+        console.error('Error removing IPFS pin reference:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unpin a CID from the configured provider
+   * Referenced content is refused unless forced; its references are kept. Content pinned before
+   * pins were recorded is unpinned from the provider all the same.
+   */
+  async unpin(cid: string, unpinnedBy: string, force: boolean = false): Promise<{ cid: string; references: number }> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        await this.lock(client, cid);
+
+        const references = await this.countReferences(client, cid);
+        if (references > 0 && !force) {
+          throw new IpfsPinError(`${cid} is used by ${references} reference(s); remove them or force the unpin`, 409);
+        }
+
+        await this.unpinLocked(client, cid, unpinnedBy);
+        return { cid, references };
+      });
+    } catch (error) {
+      if (!(error instanceof IpfsPinError)) {
+        console.error('Error unpinning IPFS content:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Swap a CID for another: move its references to the new CID, then unpin it
+   * The new content must already be pinned through the backend.
+   */
+  async replace(oldCid: string, newCid: string, replacedBy: string): Promise<{ cid: string; replacedCid: string; moved: number }> {
+    if (oldCid === newCid) {
+      throw new IpfsPinError('The replacement must be a different CID');
+    }
+
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        // Lock both CIDs in a fixed order so two opposite swaps cannot deadlock
+        for (const cid of [oldCid, newCid].sort()) {
+          await this.lock(client, cid);
+        }
+
+        const replacement = await client.query(
+          'SELECT unpinned_at FROM ipfs_pins WHERE cid = $1 AND provider = $2',
+          [newCid, getIpfsProvider().name]
+        );
+        if (replacement.rows.length === 0 || replacement.rows[0].unpinned_at) {
+          throw new IpfsPinError(`${newCid} is not pinned; upload the replacement first`, 404);
+        }
+
+        const moved = await client.query(
+          `INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by)
+           SELECT $2, referrer_type, referrer_id, $3 FROM ipfs_pin_references WHERE cid = $1
+           ON CONFLICT (cid, referrer_type, referrer_id) DO NOTHING`,
+          [oldCid, newCid, replacedBy]
+        );
+        await client.query('DELETE FROM ipfs_pin_references WHERE cid = $1', [oldCid]);
+
+        await this.unpinLocked(client, oldCid, replacedBy);
+        console.log(`🔁 Replaced ${oldCid} with ${newCid}; ${moved.rowCount} reference(s) moved`);
+        return { cid: newCid, replacedCid: oldCid, moved: moved.rowCount };
+      });
+    } catch (error) {
+      if (!(error instanceof IpfsPinError)) {
+        console.error('Error replacing IPFS content:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unpin content on the configured provider that nothing references and that was pinned more than
+   * olderThanDays ago. A token URI counts as a reference, even without an nft reference row.
+   * A dry run only reports what would be unpinned.
+   */
+  async collectGarbage(olderThanDays: number, dryRun: boolean): Promise<IpfsGcReport> {
+    const provider = getIpfsProvider().name;
+    const candidates: IpfsPinRecord[] = (await DatabaseHelpers.executeQuery(
+      `SELECT p.* FROM ipfs_pins p
+       WHERE p.provider = $1 AND p.unpinned_at IS NULL
+         AND p.pinned_at < NOW() - make_interval(days => $2)
+         AND NOT EXISTS (SELECT 1 FROM ipfs_pin_references r WHERE r.cid = p.cid)
+         AND NOT EXISTS (SELECT 1 FROM loyalty_nfts ln WHERE ${TOKEN_URI_CID} = p.cid)
+       ORDER BY p.pinned_at`,
+      [provider, olderThanDays]
+    )).rows;
+
+    const report: IpfsGcReport = {
+      provider,
+      olderThanDays,
+      dryRun,
+      candidates,
+      totalBytes: candidates.reduce((sum, pin) => sum + Number(pin.size_bytes), 0),
+      unpinned: [],
+      skipped: [],
+      failed: []
+    };
+    if (dryRun) {
+      return report;
+    }
+
+    for (const pin of candidates) {
+      try {
+        const unpinned = await DatabaseHelpers.executeTransaction(async (client) => {
+          await this.lock(client, pin.cid);
+          // Something may have referenced the content since the candidates were listed
+          const current = await client.query(
+            'SELECT unpinned_at FROM ipfs_pins WHERE cid = $1 AND provider = $2',
+            [pin.cid, provider]
+          );
+          const inUse = await this.countReferences(client, pin.cid) > 0 || await this.usedAsTokenURI(client, pin.cid);
+          if (current.rows[0]?.unpinned_at || inUse) {
+            return false;
+          }
+          await this.unpinLocked(client, pin.cid, 'gc');
+          return true;
+        });
+        (unpinned ? report.unpinned : report.skipped).push(pin.cid);
+      } catch (error) {
+        report.failed.push({ cid: pin.cid, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return report;
+  }
+
+  private async lock(client: any, cid: string): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`ipfs_pin:${cid}`]);
+  }
+
+  private async countReferences(client: any, cid: string): Promise<number> {
+    const result = await client.query('SELECT COUNT(*)::int AS count FROM ipfs_pin_references WHERE cid = $1', [cid]);
+    return result.rows[0].count;
+  }
+
+  private async usedAsTokenURI(client: any, cid: string): Promise<boolean> {
+    const result = await client.query(`SELECT EXISTS (SELECT 1 FROM loyalty_nfts ln WHERE ${TOKEN_URI_CID} = $1) AS used`, [cid]);
+    return result.rows[0].used;
+  }
+
+  /**
+   * Unpin from the provider first, so a provider error leaves the record pinned
+   */
+  private async unpinLocked(client: any, cid: string, unpinnedBy: string): Promise<void> {
+    const provider = getIpfsProvider();
+    await provider.unpin(cid);
+    await client.query(
+      `UPDATE ipfs_pins SET unpinned_at = NOW(), unpinned_by = $3
+       WHERE cid = $1 AND provider = $2 AND unpinned_at IS NULL`,
+      [cid, provider.name, unpinnedBy]
+    );
+    // Unpinned metadata no longer holds on to its image
+    await client.query(
+      "DELETE FROM ipfs_pin_references WHERE referrer_type = 'metadata' AND referrer_id = $1",
+      [cid]
+    );
+    console.log(`🗑️ Unpinned from IPFS (${provider.name}): ${cid}`);
+  }
+}
+
+// Export singleton instance
+export const ipfsPinService = new IpfsPinService();
@@ -0,0 +1,640 @@
+import axios, { AxiosResponse } from 'axios';
+import FormData from 'form-data';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AppConfig, config } from '../config';
+import { CidStream, computeCid, computeFileCid } from './cid';
+
+export interface PinOptions {
+  name?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PinListFilters {
+  status?: 'pinned' | 'unpinned' | 'all';
+  pageLimit?: number;
+  pageOffset?: number;
+  metadata?: Record<string, any>;
+}
+
+// Pin list entries keep Pinata's field names, which the API and demo gallery already expose
+export interface IpfsPin {
+  id: string;
+  ipfs_pin_hash: string;
+  size: number;
+  date_pinned: string;
+  metadata: {
+    name?: string;
+    keyvalues?: Record<string, any>;
+  };
+}
+
+export interface IpfsPinList {
+  count: number;
+  rows: IpfsPin[];
+}
+
+/**
+ * Storage backend behind IpfsService
+ * Providers pin CIDv1 with IPFS's default chunking, and pinJSON pins the bytes of
+ * JSON.stringify(jsonData), so IpfsService can compute the CID they should return.
+ */
+export interface IpfsProvider {
+  readonly name: AppConfig['ipfs']['provider'];
+  pinFile(filePath: string, options?: PinOptions): Promise<string>;
+  // Content generated in memory, such as resized images
+  pinContent(content: Buffer, options?: PinOptions): Promise<string>;
+  // Content read as it arrives, such as an upload; the stream's backpressure is respected
+  pinStream(stream: Readable, options?: PinOptions): Promise<string>;
+  pinJSON(jsonData: object, options?: PinOptions): Promise<string>;
+  // Content that is not pinned unpins without error
+  unpin(cid: string): Promise<void>;
+  listPins(filters?: PinListFilters): Promise<IpfsPinList>;
+  testConnection(): Promise<boolean>;
+}
+
+type IpfsSettings = AppConfig['ipfs'];
+
+/**
+ * Pinata pinning API
+ */
+export class PinataProvider implements IpfsProvider {
+  readonly name = 'pinata' as const;
+  private static readonly BASE_URL = 'https://api.pinata.cloud';
+
+  constructor(private readonly apiKey: string, private readonly secretApiKey: string) {
+    if (!apiKey || !secretApiKey) {
+      console.warn('⚠️ Pinata API keys not found in environment variables. IPFS functionality will be limited.');
+    }
+  }
+
+  /**
+   * Get default headers for Pinata API requests
+   */
+  private getHeaders(): Record<string, string> {
+    if (!this.apiKey || !this.secretApiKey) {
+      throw new Error('Pinata API keys not configured. Please set PINATA_API_KEY and PINATA_SECRET_API_KEY environment variables.');
+    }
+
+    return {
+      'pinata_api_key': this.apiKey,
+      'pinata_secret_api_key': this.secretApiKey,
+    };
+  }
+
+  async pinFile(filePath: string, options: PinOptions = {}): Promise<string> {
+    try {
+      const url = `${PinataProvider.BASE_URL}/pinning/pinFileToIPFS`;
+      const data = new FormData();
+
+      data.append('file', fs.createReadStream(filePath));
+      // CIDv1, the same form the local providers compute
+      data.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+      if (options.name || options.metadata) {
+        const pinataMetadata = {
+          name: options.name || path.basename(filePath),
+          ...(options.metadata && { keyvalues: options.metadata })
+        };
+        data.append('pinataMetadata', JSON.stringify(pinataMetadata));
+      }
+
+      const response: AxiosResponse<{ IpfsHash: string }> = await axios.post(url, data, {
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        headers: {
+          ...this.getHeaders(),
+          ...data.getHeaders(),
+        },
+        timeout: 120000, // 2 minutes timeout for large files
+      });
+
+      return response.data.IpfsHash;
+
+    } catch (error: any) {
+      console.error('❌ Error uploading file to Pinata:', error.response?.data || error.message);
+      throw this.toError(error, 'Failed to pin file to IPFS');
+    }
+  }
+
+  async pinContent(content: Buffer, options: PinOptions = {}): Promise<string> {
+    return this.pinUpload(content, options);
+  }
+
+  async pinStream(stream: Readable, options: PinOptions = {}): Promise<string> {
+    return this.pinUpload(stream, options);
+  }
+
+  async pinJSON(jsonData: object, options: PinOptions = {}): Promise<string> {
+    // Uploaded as a file rather than through pinJSONToIPFS, so the pinned bytes are ours
+    return this.pinContent(Buffer.from(JSON.stringify(jsonData)), { ...options, name: options.name || 'NFT Metadata' });
+  }
+
+  async unpin(cid: string): Promise<void> {
+    try {
+      await axios.delete(`${PinataProvider.BASE_URL}/pinning/unpin/${cid}`, {
+        headers: this.getHeaders(),
+        timeout: 30000,
+      });
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return;
+      }
+      console.error('❌ Error unpinning from Pinata:', error.response?.data || error.message);
+      throw this.toError(error, 'Failed to unpin from IPFS');
+    }
+  }
+
+  async listPins(filters: PinListFilters = {}): Promise<IpfsPinList> {
+    try {
+      const url = `${PinataProvider.BASE_URL}/data/pinList`;
+
+      const params: Record<string, any> = {
+        status: filters.status || 'pinned',
+        pageLimit: Math.min(filters.pageLimit || 10, 1000), // Max 1000 per API docs
+        pageOffset: filters.pageOffset || 0,
+      };
+
+      if (filters.metadata) {
+        Object.entries(filters.metadata).forEach(([key, value]) => {
+          params[`metadata[keyvalues][${key}]`] = value;
+        });
+      }
+
+      const response: AxiosResponse<IpfsPinList> = await axios.get(url, {
+        params,
+        headers: this.getHeaders(),
+        timeout: 30000,
+      });
+
+      return response.data;
+
+    } catch (error: any) {
+      console.error('❌ Error fetching pin list from Pinata:', error.response?.data || error.message);
+      throw this.toError(error, 'Failed to fetch pin list');
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      if (!this.apiKey || !this.secretApiKey) {
+        console.warn('⚠️ Pinata API keys not configured');
+        return false;
+      }
+
+      await axios.get(`${PinataProvider.BASE_URL}/data/testAuthentication`, {
+        headers: this.getHeaders(),
+        timeout: 10000,
+      });
+      return true;
+
+    } catch (error: any) {
+      console.error('❌ Pinata connection failed:', error.response?.data || error.message);
+      return false;
+    }
+  }
+
+  private async pinUpload(content: Buffer | Readable, options: PinOptions): Promise<string> {
+    try {
+      const url = `${PinataProvider.BASE_URL}/pinning/pinFileToIPFS`;
+      const data = new FormData();
+
+      data.append('file', content, { filename: options.name || 'content' });
+      data.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+      data.append('pinataMetadata', JSON.stringify({
+        name: options.name || 'content',
+        ...(options.metadata && { keyvalues: options.metadata })
+      }));
+
+      const response: AxiosResponse<{ IpfsHash: string }> = await axios.post(url, data, {
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        headers: {
+          ...this.getHeaders(),
+          ...data.getHeaders(),
+        },
+        timeout: 120000,
+      });
+
+      return response.data.IpfsHash;
+
+    } catch (error: any) {
+      console.error('❌ Error uploading content to Pinata:', error.response?.data || error.message);
+      throw this.toError(error, 'Failed to pin content to IPFS');
+    }
+  }
+
+  private toError(error: any, fallback: string): Error {
+    if (error.response?.status === 401) {
+      return new Error('Invalid Pinata API credentials');
+    } else if (error.response?.status === 429) {
+      return new Error('Pinata rate limit exceeded. Please try again later');
+    }
+    return new Error(`${fallback}: ${error.message}`);
+  }
+}
+
+/**
+ * A Kubo (go-ipfs) node's HTTP RPC API
+ * Kubo has no key-value metadata, so pins carry only their name and a metadata filter matches nothing.
+ */
+export class KuboProvider implements IpfsProvider {
+  readonly name = 'kubo' as const;
+
+  constructor(private readonly apiUrl: string, private readonly authorization: string = '') {}
+
+  private getHeaders(): Record<string, string> {
+    return this.authorization ? { Authorization: this.authorization } : {};
+  }
+
+  async pinFile(filePath: string, options: PinOptions = {}): Promise<string> {
+    return this.add(fs.createReadStream(filePath), options.name || path.basename(filePath));
+  }
+
+  async pinContent(content: Buffer, options: PinOptions = {}): Promise<string> {
+    return this.add(content, options.name || 'content');
+  }
+
+  async pinStream(stream: Readable, options: PinOptions = {}): Promise<string> {
+    return this.add(stream, options.name || 'content');
+  }
+
+  async pinJSON(jsonData: object, options: PinOptions = {}): Promise<string> {
+    return this.add(Buffer.from(JSON.stringify(jsonData)), options.name || 'NFT Metadata');
+  }
+
+  async unpin(cid: string): Promise<void> {
+    try {
+      await axios.post(`${this.apiUrl}/api/v0/pin/rm`, null, {
+        params: { arg: cid },
+        headers: this.getHeaders(),
+        timeout: 30000,
+      });
+    } catch (error: any) {
+      if (/not pinned/.test(error.response?.data?.Message || '')) {
+        return;
+      }
+      console.error('❌ Error unpinning from Kubo:', error.response?.data || error.message);
+      throw new Error(`Failed to unpin from IPFS: ${error.message}`);
+    }
+  }
+
+  async listPins(filters: PinListFilters = {}): Promise<IpfsPinList> {
+    if (filters.status === 'unpinned' || filters.metadata) {
+      return { count: 0, rows: [] };
+    }
+
+    try {
+      const response: AxiosResponse<{ Keys: Record<string, { Type: string; Name?: string }> }> = await axios.post(
+        `${this.apiUrl}/api/v0/pin/ls`,
+        null,
+        { params: { type: 'recursive', names: true }, headers: this.getHeaders(), timeout: 30000 }
+      );
+
+      // Kubo reports neither size nor pin date
+      const pins: IpfsPin[] = Object.entries(response.data.Keys || {}).map(([cid, pin]) => ({
+        id: cid,
+        ipfs_pin_hash: cid,
+        size: 0,
+        date_pinned: '',
+        metadata: { name: pin.Name || undefined }
+      }));
+      return paginate(pins, filters);
+
+    } catch (error: any) {
+      console.error('❌ Error fetching pin list from Kubo:', error.response?.data || error.message);
+      throw new Error(`Failed to fetch pin list: ${error.message}`);
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await axios.post(`${this.apiUrl}/api/v0/version`, null, { headers: this.getHeaders(), timeout: 10000 });
+      return true;
+    } catch (error: any) {
+      console.error('❌ Kubo connection failed:', error.response?.data || error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Add and pin content as CIDv1, the same form the local providers compute
+   */
+  private async add(content: Readable | Buffer, name: string): Promise<string> {
+    try {
+      const data = new FormData();
+      data.append('file', content, { filename: name });
+
+      const response: AxiosResponse<{ Hash: string }> = await axios.post(`${this.apiUrl}/api/v0/add`, data, {
+        params: { 'cid-version': 1, pin: true, 'pin-name': name },
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        headers: { ...this.getHeaders(), ...data.getHeaders() },
+        timeout: 120000,
+      });
+      return response.data.Hash;
+
+    } catch (error: any) {
+      console.error('❌ Error adding content to Kubo:', error.response?.data || error.message);
+      throw new Error(`Failed to pin content to IPFS: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * A web3.storage-style upload API: POST /upload with the raw bytes, GET /user/uploads to list
+ * Uploads carry a name but no key-value metadata, so a metadata filter matches nothing.
+ */
+export class Web3StorageProvider implements IpfsProvider {
+  readonly name = 'web3storage' as const;
+
+  constructor(private readonly apiUrl: string, private readonly token: string) {
+    if (!token) {
+      console.warn('⚠️ IPFS_WEB3STORAGE_TOKEN not set. IPFS uploads will be refused.');
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    if (!this.token) {
+      throw new Error('web3.storage token not configured. Please set the IPFS_WEB3STORAGE_TOKEN environment variable.');
+    }
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  async pinFile(filePath: string, options: PinOptions = {}): Promise<string> {
+    return this.upload(fs.createReadStream(filePath), options.name || path.basename(filePath));
+  }
+
+  async pinContent(content: Buffer, options: PinOptions = {}): Promise<string> {
+    return this.upload(content, options.name || 'content');
+  }
+
+  async pinStream(stream: Readable, options: PinOptions = {}): Promise<string> {
+    return this.upload(stream, options.name || 'content');
+  }
+
+  async pinJSON(jsonData: object, options: PinOptions = {}): Promise<string> {
+    return this.upload(Buffer.from(JSON.stringify(jsonData)), options.name || 'NFT Metadata');
+  }
+
+  async unpin(cid: string): Promise<void> {
+    try {
+      await axios.delete(`${this.apiUrl}/user/uploads/${cid}`, { headers: this.getHeaders(), timeout: 30000 });
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return;
+      }
+      console.error('❌ Error removing upload from web3.storage:', error.response?.data || error.message);
+      throw new Error(`Failed to unpin from IPFS: ${error.message}`);
+    }
+  }
+
+  async listPins(filters: PinListFilters = {}): Promise<IpfsPinList> {
+    if (filters.status === 'unpinned' || filters.metadata) {
+      return { count: 0, rows: [] };
+    }
+
+    try {
+      const offset = filters.pageOffset || 0;
+      const limit = Math.min(filters.pageLimit || 10, 1000);
+      // The API pages by date, so fetch through the requested page and slice it out
+      const response: AxiosResponse<Array<{ cid: string; name?: string; dagSize?: number; created: string }>> = await axios.get(
+        `${this.apiUrl}/user/uploads`,
+        { params: { size: offset + limit }, headers: this.getHeaders(), timeout: 30000 }
+      );
+
+      const rows = response.data.slice(offset, offset + limit).map(upload => ({
+        id: upload.cid,
+        ipfs_pin_hash: upload.cid,
+        size: upload.dagSize || 0,
+        date_pinned: upload.created,
+        metadata: { name: upload.name }
+      }));
+      const total = parseInt(response.headers['count'] || '', 10);
+      return { count: isNaN(total) ? response.data.length : total, rows };
+
+    } catch (error: any) {
+      console.error('❌ Error fetching uploads from web3.storage:', error.response?.data || error.message);
+      throw new Error(`Failed to fetch pin list: ${error.message}`);
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await axios.get(`${this.apiUrl}/user/uploads`, { params: { size: 1 }, headers: this.getHeaders(), timeout: 10000 });
+      return true;
+    } catch (error: any) {
+      console.error('❌ web3.storage connection failed:', error.response?.data || error.message);
+      return false;
+    }
+  }
+
+  private async upload(content: Readable | Buffer, name: string): Promise<string> {
+    try {
+      const response: AxiosResponse<{ cid: string }> = await axios.post(`${this.apiUrl}/upload`, content, {
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        headers: {
+          ...this.getHeaders(),
+          'Content-Type': 'application/octet-stream',
+          'X-NAME': encodeURIComponent(name),
+        },
+        timeout: 120000,
+      });
+      return response.data.cid;
+
+    } catch (error: any) {
+      console.error('❌ Error uploading to web3.storage:', error.response?.data || error.message);
+      if (error.response?.status === 401 || error.response?.status === 403) {
+        throw new Error('Invalid web3.storage token');
+      }
+      throw new Error(`Failed to pin content to IPFS: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Pins kept by the backend itself, for development and tests
+ * CIDs are computed locally exactly as an IPFS node would, so uploads are deterministic. With a
+ * directory the content and pin list persist in it; without one they live in memory.
+ */
+export class LocalIpfsProvider implements IpfsProvider {
+  readonly name: 'filesystem' | 'memory';
+  private readonly pins = new Map<string, IpfsPin>();
+  private readonly blobs = new Map<string, Buffer>();
+
+  constructor(private readonly directory: string | null = null) {
+    this.name = directory ? 'filesystem' : 'memory';
+    if (directory) {
+      fs.mkdirSync(directory, { recursive: true });
+      const index = path.join(directory, 'pins.json');
+      if (fs.existsSync(index)) {
+        for (const pin of JSON.parse(fs.readFileSync(index, 'utf8')) as IpfsPin[]) {
+          this.pins.set(pin.ipfs_pin_hash, pin);
+        }
+      }
+    }
+  }
+
+  async pinFile(filePath: string, options: PinOptions = {}): Promise<string> {
+    const cid = await computeFileCid(filePath);
+    const size = (await fs.promises.stat(filePath)).size;
+    if (this.directory) {
+      await fs.promises.copyFile(filePath, this.blobPath(cid));
+    } else {
+      this.blobs.set(cid, await fs.promises.readFile(filePath));
+    }
+    await this.record(cid, size, options.name || path.basename(filePath), options.metadata);
+    return cid;
+  }
+
+  async pinContent(content: Buffer, options: PinOptions = {}): Promise<string> {
+    const cid = computeCid(content);
+    if (this.directory) {
+      await fs.promises.writeFile(this.blobPath(cid), content);
+    } else {
+      this.blobs.set(cid, content);
+    }
+    await this.record(cid, content.length, options.name || 'content', options.metadata);
+    return cid;
+  }
+
+  async pinStream(stream: Readable, options: PinOptions = {}): Promise<string> {
+    if (!this.directory) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return this.pinContent(Buffer.concat(chunks), options);
+    }
+
+    // Written under a temporary name until the CID is known
+    const hashing = new CidStream();
+    const partial = path.join(this.directory, `.${crypto.randomUUID()}.tmp`);
+    try {
+      await pipeline(stream, hashing, fs.createWriteStream(partial));
+      await fs.promises.rename(partial, this.blobPath(hashing.cid!));
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+    await this.record(hashing.cid!, hashing.bytes, options.name || 'content', options.metadata);
+    return hashing.cid!;
+  }
+
+  async pinJSON(jsonData: object, options: PinOptions = {}): Promise<string> {
+    return this.pinContent(Buffer.from(JSON.stringify(jsonData)), { ...options, name: options.name || 'NFT Metadata' });
+  }
+
+  async unpin(cid: string): Promise<void> {
+    if (!this.pins.delete(cid)) {
+      return;
+    }
+    if (this.directory) {
+      await fs.promises.rm(this.blobPath(cid), { force: true });
+      await this.saveIndex();
+    } else {
+      this.blobs.delete(cid);
+    }
+  }
+
+  async listPins(filters: PinListFilters = {}): Promise<IpfsPinList> {
+    if (filters.status === 'unpinned') {
+      return { count: 0, rows: [] };
+    }
+
+    const pins = [...this.pins.values()]
+      .filter(pin => Object.entries(filters.metadata || {}).every(([key, value]) => pin.metadata.keyvalues?.[key] === value))
+      .sort((a, b) => b.date_pinned.localeCompare(a.date_pinned));
+    return paginate(pins, filters);
+  }
+
+  async testConnection(): Promise<boolean> {
+    if (!this.directory) {
+      return true;
+    }
+    try {
+      await fs.promises.access(this.directory, fs.constants.W_OK);
+      return true;
+    } catch (error: any) {
+      console.error('❌ IPFS directory is not writable:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Content of a pinned CID, or null if it is not held here
+   */
+  async getContent(cid: string): Promise<Buffer | null> {
+    if (!this.pins.has(cid)) {
+      return null;
+    }
+    return this.directory ? fs.promises.readFile(this.blobPath(cid)) : this.blobs.get(cid) || null;
+  }
+
+  /**
+   * Pinning the same content again updates its name and metadata, as Pinata does
+   */
+  private async record(cid: string, size: number, name: string, keyvalues?: Record<string, any>): Promise<void> {
+    this.pins.set(cid, {
+      id: cid,
+      ipfs_pin_hash: cid,
+      size,
+      date_pinned: new Date().toISOString(),
+      metadata: { name, ...(keyvalues && { keyvalues }) }
+    });
+
+    if (this.directory) {
+      await this.saveIndex();
+    }
+  }
+
+  private async saveIndex(): Promise<void> {
+    const index = path.join(this.directory!, 'pins.json');
+    await fs.promises.writeFile(`${index}.tmp`, JSON.stringify([...this.pins.values()], null, 2));
+    await fs.promises.rename(`${index}.tmp`, index);
+  }
+
+  private blobPath(cid: string): string {
+    return path.join(this.directory!, cid);
+  }
+}
+
+function paginate(pins: IpfsPin[], filters: PinListFilters): IpfsPinList {
+  const offset = filters.pageOffset || 0;
+  const limit = Math.min(filters.pageLimit || 10, 1000);
+  return { count: pins.length, rows: pins.slice(offset, offset + limit) };
+}
+
+/**
+ * Build the provider a configuration selects
+ */
+export function createIpfsProvider(settings: IpfsSettings): IpfsProvider {
+  switch (settings.provider) {
+    case 'pinata':
+      return new PinataProvider(settings.pinataApiKey, settings.pinataSecretApiKey);
+    case 'kubo':
+      return new KuboProvider(settings.kuboApiUrl, settings.kuboAuthorization);
+    case 'web3storage':
+      return new Web3StorageProvider(settings.web3StorageUrl, settings.web3StorageToken);
+    case 'filesystem':
+      return new LocalIpfsProvider(settings.localDir);
+    case 'memory':
+      return new LocalIpfsProvider();
+  }
+}
+
+let defaultProvider: IpfsProvider | null = null;
+
+/**
+ * The configured provider, built on first use
+ */
+export function getIpfsProvider(): IpfsProvider {
+  if (!defaultProvider) {
+    defaultProvider = createIpfsProvider(config.ipfs);
+  }
+  return defaultProvider;
+}
@@ -1,285 +1,421 @@
-import axios, { AxiosResponse } from 'axios';
-import FormData from 'form-data';
 import fs from 'fs';
 import path from 'path';
+import { Readable, Transform, pipeline } from 'stream';
+import { config } from '../config';
+import { CidStream, computeCid, computeFileCid } from './cid';
+import { getIpfsProvider, IpfsPinList, IpfsProvider, PinListFilters, PinOptions } from './ipfs-providers';
+import { cidFromUri, ipfsPinService, IpfsPinRecord, NewIpfsPin } from './ipfs-pins';
+import { detectMediaType, ImageVariantName, processMedia } from './image-pipeline';
+
+export interface IpfsUploadOptions extends PinOptions {
+  // Uploader, a wallet address or describeActor() string
+  owner?: string | null;
+  // Defaults to metadata.type, e.g. nft_image
+  purpose?: string;
+  // Defaults to a guess from the file extension
+  mimeType?: string;
+}
 
-// Environment variables validation
-const PINATA_API_KEY = process.env.PINATA_API_KEY;
-const PINATA_SECRET_API_KEY = process.env.PINATA_SECRET_API_KEY;
-
-if (!PINATA_API_KEY || !PINATA_SECRET_API_KEY) {
-  console.warn('⚠️ Pinata API keys not found in environment variables. IPFS functionality will be limited.');
+export interface IpfsUpload {
+  cid: string;
+  // Already pinned with the provider, so nothing was uploaded (streamed uploads send it regardless)
+  duplicate: boolean;
 }
 
-// Type definitions for Pinata responses
-export interface PinataFileResponse {
-  IpfsHash: string;
-  PinSize: number;
-  Timestamp: string;
-  isDuplicate?: boolean;
+export interface IpfsMediaFile {
+  uri: string;
+  type: string;
+  variant: 'original' | ImageVariantName;
+  width: number | null;
+  height: number | null;
+  size: number;
 }
 
-export interface PinataJSONResponse {
-  IpfsHash: string;
-  PinSize: number;
-  Timestamp: string;
+// Stored as the NFT metadata's `properties`
+export interface IpfsMediaProperties {
+  category: 'image' | 'video';
+  files: IpfsMediaFile[];
+  blurhash?: string;
 }
 
-export interface PinataPinListItem {
-  id: string;
-  ipfs_pin_hash: string;
-  size: number;
-  user_id: string;
-  date_pinned: string;
-  date_unpinned?: string;
-  metadata: {
-    name?: string;
-    keyvalues?: Record<string, any>;
-  };
-  regions: Array<{
-    regionId: string;
-    currentReplicationCount: number;
-    desiredReplicationCount: number;
-  }>;
+export interface IpfsMediaUpload extends IpfsUpload {
+  contentType: string;
+  properties: IpfsMediaProperties;
 }
 
-export interface PinataPinListResponse {
-  count: number;
-  rows: PinataPinListItem[];
+/**
+ * A provider reported a different CID than the content's
+ */
+export class IpfsIntegrityError extends Error {
+  constructor(public readonly expectedCid: string, public readonly reportedCid: string, provider: string) {
+    super(`IPFS provider ${provider} returned ${reportedCid} for content with CID ${expectedCid}`);
+    this.name = 'IpfsIntegrityError';
+  }
 }
 
-export interface PinataError {
-  error: {
-    reason: string;
-    details: string;
-  };
+/**
+ * An upload went past its size limit or the uploader's quota
+ */
+export class IpfsUploadLimitError extends Error {
+  readonly statusCode = 413;
+
+  constructor(public readonly limitBytes: number, message: string = `Upload exceeds the ${limitBytes} byte limit`) {
+    super(message);
+    this.name = 'IpfsUploadLimitError';
+  }
 }
 
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.json': 'application/json',
+  '.txt': 'text/plain'
+};
+
 /**
- * IPFS Service for managing NFT assets via Pinata
- * Handles file uploads, JSON metadata, and listing pinned content
+ * IPFS Service for managing NFT assets
+ * Handles file uploads, JSON metadata, and listing pinned content through the configured provider
+ * (Pinata, a Kubo node, a web3.storage-style API, or local storage). Content's CID is computed
+ * before uploading: content already in ipfs_pins for the provider is not uploaded again, and the
+ * CID the provider reports must match.
  */
 export class IpfsService {
-  private static readonly BASE_URL = 'https://api.pinata.cloud';
   private static readonly MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB limit
 
   /**
-   * Get default headers for Pinata API requests
+   * Pin a file to IPFS
+   * @param filePath Path to the file to upload
+   * @param options Optional metadata and pinning options
+   * @returns IPFS hash of the uploaded file
    */
-  private static getHeaders(): Record<string, string> {
-    if (!PINATA_API_KEY || !PINATA_SECRET_API_KEY) {
-      throw new Error('Pinata API keys not configured. Please set PINATA_API_KEY and PINATA_SECRET_API_KEY environment variables.');
-    }
-
-    return {
-      'pinata_api_key': PINATA_API_KEY,
-      'pinata_secret_api_key': PINATA_SECRET_API_KEY,
-    };
+  static async pinFileToIPFS(filePath: string, options: IpfsUploadOptions = {}): Promise<string> {
+    return (await this.uploadFile(filePath, options)).cid;
   }
 
   /**
-   * Pin a file to IPFS via Pinata
-   * @param filePath Path to the file to upload
+   * Pin JSON metadata to IPFS
+   * @param jsonData Object to be uploaded as JSON
    * @param options Optional metadata and pinning options
-   * @returns IPFS hash of the uploaded file
+   * @returns IPFS hash of the uploaded JSON
    */
-  static async pinFileToIPFS(
-    filePath: string, 
-    options: {
-      name?: string;
-      metadata?: Record<string, any>;
-    } = {}
-  ): Promise<string> {
-    try {
-      // Validate file exists and size
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
-      }
+  static async pinJSONToIPFS(jsonData: object, options: IpfsUploadOptions = {}): Promise<string> {
+    return (await this.uploadJSON(jsonData, options)).cid;
+  }
 
-      const stats = fs.statSync(filePath);
-      if (stats.size > this.MAX_FILE_SIZE) {
-        throw new Error(`File too large: ${stats.size} bytes. Maximum allowed: ${this.MAX_FILE_SIZE} bytes`);
-      }
+  /**
+   * Pin a file unless its content is already pinned
+   */
+  static async uploadFile(filePath: string, options: IpfsUploadOptions = {}): Promise<IpfsUpload> {
+    const stats = this.checkFile(filePath);
+    const cid = await computeFileCid(filePath);
+    return this.upload(cid, stats.size, {
+      ...options,
+      name: options.name || path.basename(filePath),
+      mimeType: options.mimeType || MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      purpose: options.purpose || options.metadata?.type || 'upload'
+    }, provider => provider.pinFile(filePath, options));
+  }
 
-      const url = `${this.BASE_URL}/pinning/pinFileToIPFS`;
-      const data = new FormData();
-      
-      // Add file to form data
-      data.append('file', fs.createReadStream(filePath));
-      
-      // Add metadata if provided
-      if (options.name || options.metadata) {
-        const pinataMetadata = {
-          name: options.name || path.basename(filePath),
-          ...(options.metadata && { keyvalues: options.metadata })
-        };
-        data.append('pinataMetadata', JSON.stringify(pinataMetadata));
-      }
+  /**
+   * Pin in-memory content unless it is already pinned
+   */
+  static async uploadBuffer(content: Buffer, options: IpfsUploadOptions = {}): Promise<IpfsUpload> {
+    return this.upload(computeCid(content), content.length, {
+      ...options,
+      name: options.name || 'content',
+      mimeType: options.mimeType || 'application/octet-stream',
+      purpose: options.purpose || options.metadata?.type || 'upload'
+    }, provider => provider.pinContent(content, options));
+  }
 
-      const response: AxiosResponse<PinataFileResponse> = await axios.post(url, data, {
-        maxContentLength: Infinity,
-        maxBodyLength: Infinity,
-        headers: {
-          ...this.getHeaders(),
-          ...data.getHeaders(),
-        },
-        timeout: 120000, // 2 minutes timeout for large files
-      });
-
-      console.log(`✅ File pinned to IPFS: ${response.data.IpfsHash}`);
-      return response.data.IpfsHash;
-
-    } catch (error: any) {
-      console.error('❌ Error uploading file to Pinata:', error.response?.data || error.message);
-      
-      if (error.response?.status === 401) {
-        throw new Error('Invalid Pinata API credentials');
-      } else if (error.response?.status === 429) {
-        throw new Error('Pinata rate limit exceeded. Please try again later');
-      } else if (error.code === 'ENOENT') {
-        throw new Error(`File not found: ${filePath}`);
-      } else {
-        throw new Error(`Failed to pin file to IPFS: ${error.message}`);
-      }
+  /**
+   * Pin a stream as it arrives, hashing it on the way to the provider
+   * The CID is only known at the end, so content that was already pinned is still sent; providers
+   * pin it again as a no-op and the upload reports it as a duplicate.
+   * @throws IpfsUploadLimitError once more than maxBytes have arrived
+   */
+  static async uploadStream(
+    stream: Readable,
+    options: IpfsUploadOptions & { maxBytes?: number } = {}
+  ): Promise<IpfsUpload & { size: number }> {
+    const provider = getIpfsProvider();
+    const hashing = new CidStream();
+    let failure: Error | undefined;
+    pipeline(stream, limitBytes(options.maxBytes ?? this.MAX_FILE_SIZE), hashing, error => {
+      failure = error || undefined;
+    });
+
+    let reported: string;
+    try {
+      reported = await provider.pinStream(hashing, { name: options.name, metadata: options.metadata });
+    } catch (error) {
+      // The provider only sees a broken stream; the pipeline knows why
+      throw failure || error;
     }
+    if (failure) {
+      throw failure;
+    }
+
+    const cid = hashing.cid!;
+    if (reported !== cid) {
+      console.error(`❌ IPFS provider ${provider.name} returned ${reported}, expected ${cid}`);
+      throw new IpfsIntegrityError(cid, reported, provider.name);
+    }
+
+    const existing = await ipfsPinService.getPin(cid, provider.name);
+    const duplicate = !!existing && !existing.unpinned_at;
+    await ipfsPinService.recordPin({
+      cid,
+      provider: provider.name,
+      sizeBytes: hashing.bytes,
+      mimeType: options.mimeType || 'application/octet-stream',
+      name: options.name || 'content',
+      owner: options.owner,
+      purpose: options.purpose || options.metadata?.type || 'upload'
+    });
+    console.log(duplicate ? `♻️ Streamed content was already pinned to IPFS (${provider.name}): ${cid}` : `✅ Pinned to IPFS (${provider.name}): ${cid}`);
+    return { cid, duplicate, size: hashing.bytes };
   }
 
   /**
-   * Pin JSON metadata to IPFS via Pinata
-   * @param jsonData Object to be uploaded as JSON
-   * @param options Optional metadata and pinning options
-   * @returns IPFS hash of the uploaded JSON
+   * Run an uploaded image or video file through the media pipeline, then pin it and its variants
+   * @throws MediaPipelineError if the content is not a supported, readable image or video
    */
-  static async pinJSONToIPFS(
-    jsonData: object,
-    options: {
-      name?: string;
-      metadata?: Record<string, any>;
-    } = {}
-  ): Promise<string> {
+  static async uploadMedia(filePath: string, options: IpfsUploadOptions = {}): Promise<IpfsMediaUpload> {
+    this.checkFile(filePath);
+    return this.uploadMediaStream(fs.createReadStream(filePath), { ...options, name: options.name || path.basename(filePath) });
+  }
+
+  /**
+   * Run an uploaded image or video through the media pipeline, then pin it and its variants
+   * The type is sniffed from the first bytes, so the file name's extension does not matter. Videos
+   * are streamed to the provider unchanged. Images are read into memory (at most MAX_FILE_SIZE),
+   * then pinned sanitized and without EXIF, along with their WebP variants.
+   * @throws MediaPipelineError if the content is not a supported, readable image or video
+   * @throws IpfsUploadLimitError once more than maxBytes have arrived
+   */
+  static async uploadMediaStream(
+    stream: Readable,
+    options: IpfsUploadOptions & { maxBytes?: number } = {}
+  ): Promise<IpfsMediaUpload> {
+    const maxBytes = options.maxBytes ?? this.MAX_FILE_SIZE;
+    const name = options.name || 'upload';
+    const purpose = options.purpose || options.metadata?.type || 'upload';
+
+    const peeked = await peekStream(stream, 4096);
+    let contentType: string;
     try {
-      const url = `${this.BASE_URL}/pinning/pinJSONToIPFS`;
-      
-      const requestBody = {
-        pinataContent: jsonData,
-        ...(options.name || options.metadata) && {
-          pinataMetadata: {
-            name: options.name || 'NFT Metadata',
-            ...(options.metadata && { keyvalues: options.metadata })
-          }
-        }
+      contentType = detectMediaType(peeked.head);
+    } catch (error) {
+      peeked.stream.destroy();
+      throw error;
+    }
+
+    if (contentType.startsWith('video/')) {
+      const upload = await this.uploadStream(peeked.stream, { ...options, name, purpose, mimeType: contentType, maxBytes });
+      return {
+        cid: upload.cid,
+        duplicate: upload.duplicate,
+        contentType,
+        properties: { category: 'video', files: [mediaFile(upload.cid, contentType, 'original', null, null, upload.size)] }
       };
+    }
 
-      const response: AxiosResponse<PinataJSONResponse> = await axios.post(url, requestBody, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...this.getHeaders(),
-        },
-        timeout: 30000, // 30 seconds timeout
-      });
-
-      console.log(`✅ JSON pinned to IPFS: ${response.data.IpfsHash}`);
-      return response.data.IpfsHash;
-
-    } catch (error: any) {
-      console.error('❌ Error uploading JSON to Pinata:', error.response?.data || error.message);
-      
-      if (error.response?.status === 401) {
-        throw new Error('Invalid Pinata API credentials');
-      } else if (error.response?.status === 429) {
-        throw new Error('Pinata rate limit exceeded. Please try again later');
-      } else {
-        throw new Error(`Failed to pin JSON to IPFS: ${error.message}`);
+    const limit = Math.min(maxBytes, this.MAX_FILE_SIZE);
+    const chunks: Buffer[] = [];
+    let length = 0;
+    for await (const chunk of peeked.stream) {
+      length += chunk.length;
+      if (length > limit) {
+        throw new IpfsUploadLimitError(limit);
       }
+      chunks.push(chunk as Buffer);
     }
+
+    const media = await processMedia(Buffer.concat(chunks));
+    const provider = getIpfsProvider();
+    const original = await this.uploadBuffer(media.content, { ...options, name, purpose, mimeType: media.contentType });
+    await ipfsPinService.recordMedia(original.cid, provider.name, {
+      mimeType: media.contentType,
+      width: media.width,
+      height: media.height,
+      blurhash: media.blurhash
+    });
+
+    const files = [mediaFile(original.cid, media.contentType, 'original', media.width, media.height, media.content.length)];
+    const baseName = path.basename(name, path.extname(name));
+    for (const variant of media.variants) {
+      const variantName = `${baseName}-${variant.name}.webp`;
+      const { cid } = await this.upload(computeCid(variant.content), variant.content.length, {
+        owner: options.owner,
+        name: variantName,
+        mimeType: variant.contentType,
+        purpose: 'image_variant',
+        sourceCid: original.cid,
+        variant: variant.name,
+        width: variant.width,
+        height: variant.height
+      }, pinProvider => pinProvider.pinContent(variant.content, { name: variantName, metadata: { type: 'image_variant', source: original.cid } }));
+      files.push(mediaFile(cid, variant.contentType, variant.name, variant.width, variant.height, variant.content.length));
+    }
+
+    return {
+      ...original,
+      contentType: media.contentType,
+      properties: { category: 'image', files, ...(media.blurhash && { blurhash: media.blurhash }) }
+    };
   }
 
   /**
-   * Get list of pinned files from Pinata
-   * @param filters Optional filters for the pin list
-   * @returns List of pinned items
+   * Metadata `properties` for pinned media: the original, its variants and blurhash
+   * @returns null if the CID is not pinned with the configured provider
    */
-  static async getPinList(
-    filters: {
-      status?: 'pinned' | 'unpinned' | 'all';
-      pageLimit?: number;
-      pageOffset?: number;
-      metadata?: Record<string, any>;
-    } = {}
-  ): Promise<PinataPinListResponse> {
-    try {
-      const url = `${this.BASE_URL}/data/pinList`;
-      
-      // Build query parameters
-      const params: Record<string, any> = {
-        status: filters.status || 'pinned',
-        pageLimit: Math.min(filters.pageLimit || 10, 1000), // Max 1000 per API docs
-        pageOffset: filters.pageOffset || 0,
-      };
+  static async getMediaProperties(cid: string): Promise<IpfsMediaProperties | null> {
+    const provider = getIpfsProvider();
+    const pin = await ipfsPinService.getPin(cid, provider.name);
+    if (!pin || pin.unpinned_at) {
+      return null;
+    }
 
-      // Add metadata filters
-      if (filters.metadata) {
-        Object.entries(filters.metadata).forEach(([key, value]) => {
-          params[`metadata[keyvalues][${key}]`] = value;
-        });
-      }
+    const files = [pinnedMediaFile(pin)];
+    for (const variant of await ipfsPinService.getVariants(cid, provider.name)) {
+      files.push(pinnedMediaFile(variant));
+    }
+    return {
+      category: pin.mime_type.startsWith('video/') ? 'video' : 'image',
+      files,
+      ...(pin.blurhash && { blurhash: pin.blurhash })
+    };
+  }
 
-      const response: AxiosResponse<PinataPinListResponse> = await axios.get(url, {
-        params,
-        headers: this.getHeaders(),
-        timeout: 30000,
-      });
-
-      console.log(`✅ Retrieved ${response.data.count} pinned items from Pinata`);
-      return response.data;
-
-    } catch (error: any) {
-      console.error('❌ Error fetching pin list from Pinata:', error.response?.data || error.message);
-      
-      if (error.response?.status === 401) {
-        throw new Error('Invalid Pinata API credentials');
-      } else if (error.response?.status === 429) {
-        throw new Error('Pinata rate limit exceeded. Please try again later');
-      } else {
-        throw new Error(`Failed to fetch pin list: ${error.message}`);
-      }
+  /**
+   * Reference a metadata document's image and the files in its properties from the document,
+   * so they stay pinned while it is
+   */
+  static async addMetadataReferences(
+    metadataHash: string,
+    metadata: { image: string; properties?: IpfsMediaProperties },
+    createdBy: string | null
+  ): Promise<void> {
+    const uris = [metadata.image, ...(metadata.properties?.files || []).map(file => file.uri)];
+    const cids = new Set(uris.map(cidFromUri).filter((cid): cid is string => !!cid));
+    for (const cid of cids) {
+      await ipfsPinService.addReference(cid, 'metadata', metadataHash, createdBy);
     }
   }
 
   /**
-   * Test Pinata connection and authentication
-   * @returns Boolean indicating if connection is successful
+   * Pin JSON unless the same JSON is already pinned
+   * The content is JSON.stringify(jsonData), so key order matters.
    */
-  static async testConnection(): Promise<boolean> {
-    try {
-      if (!PINATA_API_KEY || !PINATA_SECRET_API_KEY) {
-        console.warn('⚠️ Pinata API keys not configured');
-        return false;
-      }
+  static async uploadJSON(jsonData: object, options: IpfsUploadOptions = {}): Promise<IpfsUpload> {
+    const content = Buffer.from(JSON.stringify(jsonData));
+    return this.upload(computeCid(content), content.length, {
+      ...options,
+      name: options.name || 'NFT Metadata',
+      mimeType: 'application/json',
+      purpose: options.purpose || options.metadata?.type || 'metadata'
+    }, provider => provider.pinJSON(jsonData, options));
+  }
 
-      const url = `${this.BASE_URL}/data/testAuthentication`;
-      
-      await axios.get(url, {
-        headers: this.getHeaders(),
-        timeout: 10000,
-      });
+  /**
+   * Validate file exists and size
+   */
+  private static checkFile(filePath: string): fs.Stats {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size > this.MAX_FILE_SIZE) {
+      throw new Error(`File too large: ${stats.size} bytes. Maximum allowed: ${this.MAX_FILE_SIZE} bytes`);
+    }
+    return stats;
+  }
 
-      console.log('✅ Pinata connection successful');
-      return true;
+  private static async upload(
+    cid: string,
+    size: number,
+    options: IpfsUploadOptions & { mimeType: string; purpose: string } & Pick<NewIpfsPin, 'sourceCid' | 'variant' | 'width' | 'height'>,
+    pin: (provider: IpfsProvider) => Promise<string>
+  ): Promise<IpfsUpload> {
+    const provider = getIpfsProvider();
+
+    const existing = await ipfsPinService.getPin(cid, provider.name);
+    if (existing && !existing.unpinned_at) {
+      console.log(`♻️ Content already pinned to IPFS (${provider.name}): ${cid}`);
+      return { cid, duplicate: true };
+    }
 
-    } catch (error: any) {
-      console.error('❌ Pinata connection failed:', error.response?.data || error.message);
-      return false;
+    const reported = await pin(provider);
+    if (reported !== cid) {
+      console.error(`❌ IPFS provider ${provider.name} returned ${reported}, expected ${cid}`);
+      throw new IpfsIntegrityError(cid, reported, provider.name);
     }
+
+    await ipfsPinService.recordPin({
+      cid,
+      provider: provider.name,
+      sizeBytes: size,
+      mimeType: options.mimeType,
+      name: options.name,
+      owner: options.owner,
+      purpose: options.purpose,
+      sourceCid: options.sourceCid,
+      variant: options.variant,
+      width: options.width,
+      height: options.height
+    });
+    console.log(`✅ Pinned to IPFS (${provider.name}): ${cid}`);
+    return { cid, duplicate: false };
+  }
+
+  /**
+   * Get list of pinned files
+   * @param filters Optional filters for the pin list
+   * @returns List of pinned items
+   */
+  static async getPinList(filters: PinListFilters = {}): Promise<IpfsPinList> {
+    const provider = getIpfsProvider();
+    const pins = await provider.listPins(filters);
+    console.log(`✅ Retrieved ${pins.count} pinned items from ${provider.name}`);
+    return pins;
+  }
+
+  /**
+   * Test the provider's connection and authentication
+   * @returns Boolean indicating if connection is successful
+   */
+  static async testConnection(): Promise<boolean> {
+    const provider = getIpfsProvider();
+    const connected = await provider.testConnection();
+    if (connected) {
+      console.log(`✅ IPFS provider ${provider.name} connection successful`);
+    }
+    return connected;
+  }
+
+  /**
+   * Name of the configured provider
+   */
+  static getProviderName(): string {
+    return getIpfsProvider().name;
   }
 
   /**
    * Generate IPFS gateway URL for a hash
    * @param ipfsHash The IPFS hash
-   * @param gateway Optional custom gateway (defaults to Pinata gateway)
+   * @param gateway Optional custom gateway (defaults to IPFS_GATEWAY_URL)
    * @returns Full URL to access the content
    */
-  static getIPFSUrl(ipfsHash: string, gateway: string = 'https://gateway.pinata.cloud'): string {
+  static getIPFSUrl(ipfsHash: string, gateway: string = config.ipfs.gatewayUrl): string {
     // Remove ipfs:// prefix if present
     const cleanHash = ipfsHash.replace(/^ipfs:\/\//, '');
     return `${gateway}/ipfs/${cleanHash}`;
@@ -296,6 +432,7 @@ export class IpfsService {
     imageHash: string;
     attributes?: Array<{ trait_type: string; value: any }>;
     externalUrl?: string;
+    properties?: IpfsMediaProperties | null;
   }) {
     return {
       name: params.name,
@@ -303,6 +440,7 @@ export class IpfsService {
       image: `ipfs://${params.imageHash}`,
       ...(params.externalUrl && { external_url: params.externalUrl }),
       ...(params.attributes && { attributes: params.attributes }),
+      ...(params.properties && { properties: params.properties }),
       // Add GomGom specific metadata
       created_by: 'GomGom Loyalty System',
       created_at: new Date().toISOString(),
@@ -310,6 +448,74 @@ export class IpfsService {
   }
 }
 
+/**
+ * Pass-through stream failing with IpfsUploadLimitError once more than maxBytes have gone through
+ */
+export function limitBytes(maxBytes: number, message?: string): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      received += chunk.length;
+      callback(received > maxBytes ? new IpfsUploadLimitError(maxBytes, message) : null, chunk);
+    }
+  });
+}
+
+/**
+ * Read a stream's first bytes without consuming them
+ * The returned stream yields the whole content: the original with the head put back, or, if it
+ * already ended, the head alone.
+ */
+function peekStream(stream: Readable, size: number): Promise<{ head: Buffer; stream: Readable }> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    const done = (ended: boolean) => {
+      stream.off('readable', onReadable);
+      stream.off('end', onEnd);
+      stream.off('error', reject);
+      const head = Buffer.concat(chunks);
+      if (ended) {
+        resolve({ head, stream: Readable.from(head.length > 0 ? [head] : []) });
+      } else {
+        stream.unshift(head);
+        resolve({ head: head.subarray(0, size), stream });
+      }
+    };
+    const onReadable = () => {
+      let chunk: Buffer | null;
+      while (length < size && (chunk = stream.read()) !== null) {
+        chunks.push(chunk);
+        length += chunk.length;
+      }
+      if (length >= size) {
+        done(false);
+      }
+    };
+    const onEnd = () => done(true);
+
+    stream.on('readable', onReadable);
+    stream.once('end', onEnd);
+    stream.once('error', reject);
+  });
+}
+
+function mediaFile(
+  cid: string,
+  type: string,
+  variant: IpfsMediaFile['variant'],
+  width: number | null,
+  height: number | null,
+  size: number
+): IpfsMediaFile {
+  return { uri: `ipfs://${cid}`, type, variant, width, height, size };
+}
+
+function pinnedMediaFile(pin: IpfsPinRecord): IpfsMediaFile {
+  return mediaFile(pin.cid, pin.mime_type, (pin.variant || 'original') as IpfsMediaFile['variant'], pin.width, pin.height, Number(pin.size_bytes));
+}
+
 // Export individual functions for backward compatibility
 export const pinFileToIPFS = IpfsService.pinFileToIPFS.bind(IpfsService);
 export const pinJSONToIPFS = IpfsService.pinJSONToIPFS.bind(IpfsService);
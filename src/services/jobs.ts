@@ -0,0 +1,353 @@
+import os from 'os';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+
+export interface Job {
+  job_id: number;
+  job_type: string;
+  payload: any;
+  status: 'pending' | 'running' | 'completed' | 'dead_letter';
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by: string | null;
+  locked_at: Date | null;
+  last_error: string | null;
+  dedupe_key: string | null;
+  // Checkpoints saved by the handler, kept across retries
+  progress: { [key: string]: any };
+  result: any | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  dead_lettered_at: Date | null;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  // Skips the insert while a pending job with the same key exists
+  dedupeKey?: string;
+}
+
+// The returned value is stored as the job's result
+export type JobHandler = (job: Job) => Promise<any>;
+
+/**
+ * Rejected job operation, with the HTTP status to report
+ */
+export class JobError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+// Retry delay doubles per attempt: 30s, 1m, 2m, ... capped at an hour
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+/**
+ * Job service: Postgres-backed queue with retries, processed by an in-process worker
+ */
+export class JobService {
+  private handlers = new Map<string, JobHandler>();
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+
+  /**
+   * Register the handler for a job type
+   */
+  register(jobType: string, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Queue a job
+   * Pass a transaction client to enqueue atomically with other writes.
+   * Returns null when a pending job with the same dedupe key already exists.
+   */
+  async enqueue(jobType: string, payload: any, options: EnqueueOptions = {}, client?: any): Promise<Job | null> {
+    const query = `
+      INSERT INTO jobs (job_type, payload, run_at, max_attempts, dedupe_key)
+      VALUES ($1, $2, COALESCE($3, NOW()), $4, $5)
+      ON CONFLICT (dedupe_key) WHERE status = 'pending' DO NOTHING
+      RETURNING *
+    `;
+    const params = [jobType, JSON.stringify(payload), options.runAt || null, options.maxAttempts || 5, options.dedupeKey || null];
+
+    try {
+      const result = client
+        ? await client.query(query, params)
+        : await DatabaseHelpers.executeQuery(query, params);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error enqueuing job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: number): Promise<Job | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery('SELECT * FROM jobs WHERE job_id = $1', [jobId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error getting job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the pending or running job for a dedupe key
+   */
+  async getActiveJob(dedupeKey: string, client?: any): Promise<Job | null> {
+    const query = `SELECT * FROM jobs WHERE dedupe_key = $1 AND status IN ('pending', 'running') ORDER BY job_id LIMIT 1`;
+    const result = client
+      ? await client.query(query, [dedupeKey])
+      : await DatabaseHelpers.executeQuery(query, [dedupeKey]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async listJobs(filters: { status?: string; jobType?: string; limit?: number } = {}): Promise<Job[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM jobs
+         WHERE ($1::varchar IS NULL OR status = $1)
+           AND ($2::varchar IS NULL OR job_type = $2)
+         ORDER BY job_id DESC
+         LIMIT $3`,
+        [filters.status || null, filters.jobType || null, filters.limit || 50]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error listing jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Requeue a dead-letter job with a fresh set of attempts
+   * Checkpoints are kept, so the job resumes where it stopped. Returns null when the job does not exist.
+   */
+  async retry(jobId: number): Promise<Job | null> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        const existing = await client.query('SELECT * FROM jobs WHERE job_id = $1 FOR UPDATE', [jobId]);
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const job: Job = existing.rows[0];
+        if (job.status !== 'dead_letter') {
+          throw new JobError(`Only dead-letter jobs can be retried (job is ${job.status})`, 409);
+        }
+        if (job.dedupe_key && await this.getActiveJob(job.dedupe_key, client)) {
+          throw new JobError('Another job for the same work is already queued', 409);
+        }
+
+        const result = await client.query(
+          `UPDATE jobs
+           SET status = 'pending', attempts = 0, run_at = NOW(), dead_lettered_at = NULL
+           WHERE job_id = $1
+           RETURNING *`,
+          [jobId]
+        );
+        return result.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof JobError)) {
+        console.error('Error retrying job:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save handler checkpoints; merged into job.progress and kept across retries
+   * Also renews the job's lock.
+   */
+  async checkpoint(job: Job, progress: { [key: string]: any }): Promise<void> {
+    const result = await DatabaseHelpers.executeQuery(
+      `UPDATE jobs SET progress = progress || $3::jsonb, locked_at = NOW()
+       WHERE job_id = $1 AND locked_by = $2
+       RETURNING progress`,
+      [job.job_id, this.workerId, JSON.stringify(progress)]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Job ${job.job_id} is no longer locked by this worker`);
+    }
+    job.progress = result.rows[0].progress;
+  }
+
+  /**
+   * Claim and run the next due job
+   * Returns false when no job was due.
+   */
+  async processNext(): Promise<boolean> {
+    const job = await this.claimNext();
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.job_type);
+    // Renew the lock while the handler runs, so a slow job is not reclaimed by another worker
+    const heartbeat = setInterval(() => {
+      this.renewLock(job).catch(error => console.error(`Error renewing lock on job ${job.job_id}:`, error));
+    }, config.jobs.lockTimeoutSeconds * 1000 / 3);
+    heartbeat.unref();
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.job_type}`);
+      }
+      const result = await handler(job);
+      await this.complete(job, result);
+    } catch (error) {
+      await this.fail(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+    return true;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.timer || this.running) {
+      return;
+    }
+    this.stopping = false;
+    console.log(`⚙️  Job worker started (${this.workerId}, types: ${Array.from(this.handlers.keys()).join(', ') || 'none'})`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.running = this.drain()
+        .catch(error => console.error('Job worker error:', error))
+        .finally(() => {
+          this.running = null;
+          if (!this.stopping) {
+            this.schedule(config.jobs.pollIntervalMs);
+          }
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Run due jobs until the queue is empty
+   */
+  private async drain(): Promise<void> {
+    while (!this.stopping && await this.processNext()) {
+      // keep going
+    }
+  }
+
+  /**
+   * Lock the oldest due job, or one whose worker stopped renewing its lock
+   */
+  private async claimNext(): Promise<Job | null> {
+    const result = await DatabaseHelpers.executeQuery(
+      `UPDATE jobs
+       SET status = 'running', attempts = attempts + 1, locked_by = $1, locked_at = NOW()
+       WHERE job_id = (
+         SELECT job_id FROM jobs
+         WHERE (status = 'pending' AND run_at <= NOW())
+            OR (status = 'running' AND locked_at < NOW() - make_interval(secs => $2))
+         ORDER BY run_at, job_id
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [this.workerId, config.jobs.lockTimeoutSeconds]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async renewLock(job: Job): Promise<void> {
+    await DatabaseHelpers.executeQuery(
+      `UPDATE jobs SET locked_at = NOW() WHERE job_id = $1 AND locked_by = $2 AND status = 'running'`,
+      [job.job_id, this.workerId]
+    );
+  }
+
+  private async complete(job: Job, result: any): Promise<void> {
+    await DatabaseHelpers.executeQuery(
+      `UPDATE jobs
+       SET status = 'completed', result = $3, completed_at = NOW(), locked_by = NULL, locked_at = NULL, last_error = NULL
+       WHERE job_id = $1 AND locked_by = $2`,
+      [job.job_id, this.workerId, result === undefined ? null : JSON.stringify(result)]
+    );
+  }
+
+  /**
+   * Schedule a retry, or move the job to the dead letter once its attempts are used up
+   * A retry is dropped when a newer pending job with the same dedupe key will do the same work.
+   * Returns false when the job is no longer locked by this worker, so nothing was recorded.
+   */
+  private async fail(job: Job, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+    const delaySeconds = Math.min(RETRY_BASE_SECONDS * 2 ** (job.attempts - 1), RETRY_MAX_SECONDS);
+
+    const result = await DatabaseHelpers.executeQuery(
+      `UPDATE jobs
+       SET status = CASE WHEN $3 OR superseded THEN 'dead_letter' ELSE 'pending' END,
+           run_at = CASE WHEN $3 OR superseded THEN run_at ELSE NOW() + make_interval(secs => $4) END,
+           dead_lettered_at = CASE WHEN $3 OR superseded THEN NOW() ELSE NULL END,
+           last_error = $5, locked_by = NULL, locked_at = NULL
+       FROM (
+         SELECT EXISTS (
+           SELECT 1 FROM jobs WHERE dedupe_key = $6 AND status = 'pending' AND job_id <> $1
+         ) AS superseded
+       ) newer
+       WHERE job_id = $1 AND locked_by = $2
+       RETURNING status`,
+      [job.job_id, this.workerId, job.attempts >= job.max_attempts, delaySeconds, message, job.dedupe_key]
+    );
+
+    if (result.rowCount === 0) {
+      console.error(
+        `Job ${job.job_id} (${job.job_type}) failed on attempt ${job.attempts}/${job.max_attempts}` +
+        ' but is no longer locked by this worker; left to its current holder:',
+        message
+      );
+      return false;
+    }
+
+    const retrying = result.rows[0].status === 'pending';
+    console.error(
+      `Job ${job.job_id} (${job.job_type}) failed on attempt ${job.attempts}/${job.max_attempts}` +
+      `${retrying ? `, retrying in ${delaySeconds}s` : ', moved to dead letter'}:`,
+      message
+    );
+    return true;
+  }
+}
+
+// Export singleton instance
+export const jobService = new JobService();
@@ -0,0 +1,342 @@
+import { DatabaseHelpers } from '../database';
+import { LevelConfig, BANK_TIER_HIERARCHY, STATUS_TIER_HIERARCHY, calculateLoyaltyLevel } from '../config/nft-levels';
+
+export interface LoyaltyLevelRow {
+  level: number;
+  name: string;
+  description: string | null;
+  image_cid: string;
+  min_loyalty_points: number;
+  min_flights_taken: number;
+  min_total_spending: string;
+  min_bank_tier: string;
+  status_tier: string;
+  updated_at: Date;
+  updated_by: string | null;
+}
+
+export interface LevelInput {
+  name?: string;
+  description?: string;
+  imageCid?: string;
+  statusTier?: string;
+  minLoyaltyPoints?: number;
+  minFlightsTaken?: number;
+  minTotalSpending?: number;
+  minBankTier?: string;
+}
+
+export interface LevelProbeMismatch {
+  attributes: { loyaltyPoints: number; flightsTaken: number; totalSpending: number; bankTier: string };
+  apiLevel: number;
+  databaseLevel: number;
+}
+
+export interface LevelConsistencyReport {
+  consistent: boolean;
+  levelsConfigured: number;
+  probesChecked: number;
+  mismatches: LevelProbeMismatch[];
+  // NFTs whose stored level or status tier differs from loyalty_level_for()
+  staleNfts: number;
+}
+
+/**
+ * Rejected level edit (reported as 400)
+ */
+export class LevelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelConfigError';
+  }
+}
+
+export const LEVEL_FIELDS: Array<keyof LevelInput> = [
+  'name', 'description', 'imageCid', 'statusTier',
+  'minLoyaltyPoints', 'minFlightsTaken', 'minTotalSpending', 'minBankTier'
+];
+
+// Levels change rarely; other instances pick up an edit within this window
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Level service: loyalty_levels definitions shared with the level trigger
+ */
+export class LevelService {
+  private cache: { levels: LevelConfig[]; loadedAt: number } | null = null;
+
+  /**
+   * Get level definitions, ordered by level (cached briefly)
+   */
+  async getLevels(): Promise<LevelConfig[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.levels;
+    }
+    return await this.refresh();
+  }
+
+  /**
+   * Reload level definitions from the database
+   */
+  async refresh(): Promise<LevelConfig[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery('SELECT * FROM loyalty_levels ORDER BY level');
+      const levels = result.rows.map((row: LoyaltyLevelRow) => this.toConfig(row));
+      this.cache = { levels, loadedAt: Date.now() };
+      return levels;
+    } catch (error) {
+      console.error('Error loading loyalty levels:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate a loyalty level from NFT attributes
+   */
+  async calculateLevel(attributes: {
+    loyaltyPoints: number;
+    flightsTaken: number;
+    totalSpending: number;
+    bankTier: string;
+  }): Promise<number> {
+    return calculateLoyaltyLevel(attributes, await this.getLevels());
+  }
+
+  /**
+   * Edit one level and recalculate every NFT in the same transaction
+   * Returns null when the level does not exist.
+   */
+  async updateLevel(
+    level: number,
+    changes: LevelInput,
+    updatedBy: string
+  ): Promise<{ level: LevelConfig; nftsRecalculated: number } | null> {
+    try {
+      this.validateInput(changes);
+
+      const updated = await DatabaseHelpers.executeTransaction(async (client) => {
+        // Lock every level so concurrent edits validate against the same ladder
+        const existing = await client.query('SELECT * FROM loyalty_levels ORDER BY level FOR UPDATE');
+        const rows: LoyaltyLevelRow[] = existing.rows;
+        const index = rows.findIndex(row => row.level === level);
+        if (index === -1) {
+          return null;
+        }
+
+        const ladder = rows.map(row => this.toConfig(row));
+        ladder[index] = this.applyChanges(ladder[index], changes);
+        this.validateLadder(ladder);
+
+        const target = ladder[index];
+        const result = await client.query(
+          `UPDATE loyalty_levels
+           SET name = $2, description = $3, image_cid = $4, status_tier = $5,
+               min_loyalty_points = $6, min_flights_taken = $7, min_total_spending = $8, min_bank_tier = $9,
+               updated_by = $10
+           WHERE level = $1
+           RETURNING *`,
+          [
+            level,
+            target.name,
+            target.description,
+            target.imageCid,
+            target.statusTier,
+            target.minRequirements.loyaltyPoints,
+            target.minRequirements.flightsTaken,
+            target.minRequirements.totalSpending,
+            target.minRequirements.bankTier,
+            updatedBy
+          ]
+        );
+
+        const recalculated = await client.query('SELECT recalculate_loyalty_levels() AS changed');
+
+        return {
+          level: this.toConfig(result.rows[0]),
+          nftsRecalculated: recalculated.rows[0].changed
+        };
+      });
+
+      this.cache = null;
+      return updated;
+    } catch (error) {
+      if (!(error instanceof LevelConfigError)) {
+        console.error('Error updating loyalty level:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the API's level calculation with loyalty_level_for() in the database
+   * Probes each level's thresholds and the values just below them, then counts NFTs
+   * whose stored level no longer matches the table.
+   */
+  async checkConsistency(): Promise<LevelConsistencyReport> {
+    const levels = await this.refresh();
+    const probes = this.buildProbes(levels);
+
+    const result = await DatabaseHelpers.executeQuery(
+      `SELECT loyalty_level_for(p.points, p.flights, p.spending, p.tier) AS level
+       FROM unnest($1::int[], $2::int[], $3::numeric[], $4::varchar[]) WITH ORDINALITY AS p(points, flights, spending, tier, idx)
+       ORDER BY p.idx`,
+      [
+        probes.map(p => p.loyaltyPoints),
+        probes.map(p => p.flightsTaken),
+        probes.map(p => p.totalSpending),
+        probes.map(p => p.bankTier)
+      ]
+    );
+
+    const mismatches: LevelProbeMismatch[] = [];
+    probes.forEach((attributes, i) => {
+      const apiLevel = calculateLoyaltyLevel(attributes, levels);
+      const databaseLevel = result.rows[i].level;
+      if (apiLevel !== databaseLevel) {
+        mismatches.push({ attributes, apiLevel, databaseLevel });
+      }
+    });
+
+    const stale = await DatabaseHelpers.executeQuery(
+      `SELECT COUNT(*) AS count
+       FROM (
+         SELECT loyalty_level, status_tier,
+                loyalty_level_for(loyalty_points, flights_taken, total_spending, bank_tier) AS expected
+         FROM nft_attributes
+       ) na
+       WHERE na.loyalty_level IS DISTINCT FROM na.expected
+          OR na.status_tier IS DISTINCT FROM status_tier_for_level(na.expected)`
+    );
+    const staleNfts = parseInt(stale.rows[0].count);
+
+    return {
+      consistent: mismatches.length === 0 && staleNfts === 0,
+      levelsConfigured: levels.length,
+      probesChecked: probes.length,
+      mismatches,
+      staleNfts
+    };
+  }
+
+  /**
+   * Attribute vectors at and just below every level's thresholds
+   */
+  private buildProbes(levels: LevelConfig[]): LevelProbeMismatch['attributes'][] {
+    const probes: LevelProbeMismatch['attributes'][] = [];
+
+    for (const config of levels) {
+      const base = {
+        loyaltyPoints: config.minRequirements.loyaltyPoints || 0,
+        flightsTaken: config.minRequirements.flightsTaken || 0,
+        totalSpending: config.minRequirements.totalSpending || 0,
+        bankTier: config.minRequirements.bankTier || 'Standard'
+      };
+      probes.push(base);
+
+      if (base.loyaltyPoints > 0) probes.push({ ...base, loyaltyPoints: base.loyaltyPoints - 1 });
+      if (base.flightsTaken > 0) probes.push({ ...base, flightsTaken: base.flightsTaken - 1 });
+      if (base.totalSpending > 0) probes.push({ ...base, totalSpending: base.totalSpending - 1 });
+
+      const tierIndex = BANK_TIER_HIERARCHY.indexOf(base.bankTier);
+      if (tierIndex > 0) probes.push({ ...base, bankTier: BANK_TIER_HIERARCHY[tierIndex - 1] });
+      if (tierIndex < BANK_TIER_HIERARCHY.length - 1) probes.push({ ...base, bankTier: BANK_TIER_HIERARCHY[tierIndex + 1] });
+    }
+
+    return probes;
+  }
+
+  private toConfig(row: LoyaltyLevelRow): LevelConfig {
+    return {
+      level: row.level,
+      name: row.name,
+      description: row.description || '',
+      imageCid: row.image_cid,
+      statusTier: row.status_tier,
+      minRequirements: {
+        loyaltyPoints: row.min_loyalty_points,
+        flightsTaken: row.min_flights_taken,
+        totalSpending: parseFloat(row.min_total_spending),
+        bankTier: row.min_bank_tier
+      }
+    };
+  }
+
+  private applyChanges(config: LevelConfig, changes: LevelInput): LevelConfig {
+    return {
+      ...config,
+      name: changes.name ?? config.name,
+      description: changes.description ?? config.description,
+      imageCid: changes.imageCid ?? config.imageCid,
+      statusTier: changes.statusTier ?? config.statusTier,
+      minRequirements: {
+        loyaltyPoints: changes.minLoyaltyPoints ?? config.minRequirements.loyaltyPoints,
+        flightsTaken: changes.minFlightsTaken ?? config.minRequirements.flightsTaken,
+        totalSpending: changes.minTotalSpending ?? config.minRequirements.totalSpending,
+        bankTier: changes.minBankTier ?? config.minRequirements.bankTier
+      }
+    };
+  }
+
+  private validateInput(input: LevelInput): void {
+    for (const key of Object.keys(input)) {
+      if (!LEVEL_FIELDS.includes(key as keyof LevelInput)) {
+        throw new LevelConfigError(`Unknown level field: ${key}`);
+      }
+    }
+
+    for (const key of ['name', 'imageCid'] as const) {
+      if (input[key] != null && (typeof input[key] !== 'string' || input[key]!.trim() === '')) {
+        throw new LevelConfigError(`${key} must be a non-empty string`);
+      }
+    }
+    if (input.description != null && typeof input.description !== 'string') {
+      throw new LevelConfigError('description must be a string');
+    }
+    for (const key of ['minLoyaltyPoints', 'minFlightsTaken'] as const) {
+      const value = input[key];
+      if (value != null && (!Number.isInteger(value) || value < 0)) {
+        throw new LevelConfigError(`${key} must be a non-negative integer`);
+      }
+    }
+    if (input.minTotalSpending != null && (typeof input.minTotalSpending !== 'number' || !Number.isFinite(input.minTotalSpending) || input.minTotalSpending < 0)) {
+      throw new LevelConfigError('minTotalSpending must be a non-negative number');
+    }
+    if (input.minBankTier != null && !BANK_TIER_HIERARCHY.includes(input.minBankTier)) {
+      throw new LevelConfigError(`minBankTier must be one of: ${BANK_TIER_HIERARCHY.join(', ')}`);
+    }
+    if (input.statusTier != null && !STATUS_TIER_HIERARCHY.includes(input.statusTier)) {
+      throw new LevelConfigError(`statusTier must be one of: ${STATUS_TIER_HIERARCHY.join(', ')}`);
+    }
+  }
+
+  /**
+   * Level 0 has no requirements and each level requires at least as much as the one below
+   */
+  private validateLadder(ladder: LevelConfig[]): void {
+    const [first] = ladder;
+    const firstRequirements = first.minRequirements;
+    if (first.level === 0 && (firstRequirements.loyaltyPoints || firstRequirements.flightsTaken ||
+        firstRequirements.totalSpending || firstRequirements.bankTier !== 'Standard')) {
+      throw new LevelConfigError('Level 0 is the starting level and cannot have requirements');
+    }
+
+    for (let i = 1; i < ladder.length; i++) {
+      const lower = ladder[i - 1].minRequirements;
+      const upper = ladder[i].minRequirements;
+      const decreases =
+        upper.loyaltyPoints! < lower.loyaltyPoints! ||
+        upper.flightsTaken! < lower.flightsTaken! ||
+        upper.totalSpending! < lower.totalSpending! ||
+        BANK_TIER_HIERARCHY.indexOf(upper.bankTier!) < BANK_TIER_HIERARCHY.indexOf(lower.bankTier!);
+
+      if (decreases) {
+        throw new LevelConfigError(
+          `Level ${ladder[i].level} cannot require less than level ${ladder[i - 1].level}`
+        );
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const levelService = new LevelService();
@@ -0,0 +1,121 @@
+import { DatabaseHelpers } from '../database';
+import { generateMetadataUrl } from '../config/nft-levels';
+import { getBlockchainServiceForChain, TransactionFailedError } from './blockchain';
+import { jobService, Job } from './jobs';
+
+// Queued by the enqueue_nft_metadata_refresh trigger when an NFT's loyalty level changes
+export const METADATA_REFRESH_JOB = 'nft_metadata_refresh';
+
+export interface NFTMetadataUpdate {
+  update_id: number;
+  chain_id: number;
+  nft_token_id: number;
+  job_id: number | null;
+  previous_level: number | null;
+  new_level: number;
+  method: 'metadata_update' | 'set_token_uri' | null;
+  token_uri: string | null;
+  transaction_hash: string | null;
+  created_at: Date;
+  confirmed_at: Date | null;
+  // From the job: pending, running, completed or dead_letter
+  job_status: string | null;
+  attempts: number | null;
+  last_error: string | null;
+}
+
+/**
+ * Metadata refresh service: pushes level changes on-chain so marketplaces refetch metadata
+ */
+export class MetadataRefreshService {
+
+  /**
+   * Job handler: set the token URI and record the transaction
+   * ERC-4906 contracts emit MetadataUpdate for the unchanged metadata URL. Other contracts get
+   * a URI that includes the level, since marketplaces only notice a changed tokenURI.
+   * The transaction hash is checkpointed before waiting, so a retry waits for it instead of resending.
+   */
+  async process(job: Job): Promise<{ tokenId: number; tokenURI: string; transactionHash: string } | null> {
+    const chainId = Number(job.payload.chainId);
+    const tokenId = Number(job.payload.tokenId);
+
+    const result = await DatabaseHelpers.executeQuery(
+      `SELECT ln.token_id, COALESCE(na.loyalty_level, 0) AS loyalty_level
+       FROM loyalty_nfts ln
+       LEFT JOIN nft_attributes na ON na.chain_id = ln.chain_id AND na.nft_token_id = ln.token_id
+       WHERE ln.chain_id = $1 AND ln.token_id = $2`,
+      [chainId, tokenId]
+    );
+    if (result.rows.length === 0) {
+      console.log(`⏭️  Skipping metadata refresh for NFT ${tokenId}: no longer in the database`);
+      return null;
+    }
+
+    // The token is updated on the chain it was minted on
+    const blockchainService = getBlockchainServiceForChain(chainId);
+
+    if (!job.progress.transactionHash) {
+      const level = result.rows[0].loyalty_level;
+      const erc4906 = await blockchainService.supportsMetadataUpdate();
+      const metadataUrl = generateMetadataUrl(chainId, tokenId);
+      const uri = erc4906 ? metadataUrl : `${metadataUrl}?level=${level}`;
+
+      const hash = await blockchainService.sendTokenURIUpdate(tokenId, uri, job.job_id);
+      await jobService.checkpoint(job, {
+        transactionHash: hash,
+        tokenURI: uri,
+        method: erc4906 ? 'metadata_update' : 'set_token_uri',
+        level
+      });
+    }
+
+    const { tokenURI, method, level } = job.progress;
+    let transactionHash: string;
+    try {
+      // The mined hash differs from the checkpoint when a stuck transaction was replaced
+      transactionHash = (await blockchainService.waitForConfirmation(job.progress.transactionHash)).transactionHash;
+    } catch (error) {
+      if (error instanceof TransactionFailedError) {
+        await jobService.checkpoint(job, { transactionHash: null });
+      }
+      throw error;
+    }
+
+    await DatabaseHelpers.executeTransaction(async (client) => {
+      await client.query(
+        `UPDATE nft_metadata_updates
+         SET method = $2, token_uri = $3, transaction_hash = $4, confirmed_at = NOW()
+         WHERE job_id = $1`,
+        [job.job_id, method, tokenURI, transactionHash]
+      );
+      await client.query('UPDATE loyalty_nfts SET token_uri = $3 WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId, tokenURI]);
+    });
+
+    console.log(`🔄 NFT ${tokenId} metadata refreshed on-chain at level ${level}: ${transactionHash}`);
+    return { tokenId, tokenURI, transactionHash };
+  }
+
+  /**
+   * List a token's metadata refreshes, newest first
+   */
+  async getUpdates(chainId: number, tokenId: number, limit: number = 20): Promise<NFTMetadataUpdate[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT u.*, j.status AS job_status, j.attempts, j.last_error
+         FROM nft_metadata_updates u
+         LEFT JOIN jobs j ON j.job_id = u.job_id
+         WHERE u.chain_id = $1 AND u.nft_token_id = $2
+         ORDER BY u.created_at DESC, u.update_id DESC
+         LIMIT $3`,
+        [chainId, tokenId, limit]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting NFT metadata updates:', error);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const metadataRefreshService = new MetadataRefreshService();
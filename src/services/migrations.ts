@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { db, DatabaseHelpers } from '../database';
+
+const MIGRATIONS_DIR = path.join(__dirname, '../../database/migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.up\.sql$/;
+
+// Transaction-level lock so it also works through Neon's pooled (PgBouncer) endpoint
+const MIGRATION_LOCK_KEY = 'gomgom:schema_migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  upSql: string;
+  downSql: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  appliedAt?: Date;
+}
+
+/**
+ * Migration identifier as used in file names (e.g. 0002_dynamic_nft)
+ */
+export function formatMigration(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Versioned SQL migrations from database/migrations
+ * Files are named NNNN_name.up.sql / NNNN_name.down.sql and recorded in schema_migrations.
+ */
+export class MigrationService {
+
+  /**
+   * Load migrations from disk, ordered by version
+   */
+  loadMigrations(): Migration[] {
+    const migrations: Migration[] = [];
+
+    for (const file of fs.readdirSync(MIGRATIONS_DIR).sort()) {
+      const match = MIGRATION_FILE_PATTERN.exec(file);
+      if (!match) {
+        continue;
+      }
+
+      const version = parseInt(match[1]);
+      if (migrations.some(m => m.version === version)) {
+        throw new MigrationError(`Duplicate migration version ${version}`);
+      }
+
+      const upSql = this.readSql(file);
+      const downFile = file.replace(/\.up\.sql$/, '.down.sql');
+
+      migrations.push({
+        version,
+        name: match[2],
+        upSql,
+        downSql: fs.existsSync(path.join(MIGRATIONS_DIR, downFile)) ? this.readSql(downFile) : null,
+        checksum: this.checksum(upSql)
+      });
+    }
+
+    return migrations.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Get rows from the schema_migrations ledger
+   */
+  async getApplied(): Promise<AppliedMigration[]> {
+    await this.ensureLedger();
+    const result = await db.query('SELECT * FROM schema_migrations ORDER BY version');
+    return result.rows;
+  }
+
+  /**
+   * Compare migration files with the ledger
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = this.loadMigrations();
+    const applied = await this.getApplied();
+    const statuses: MigrationStatus[] = [];
+
+    for (const migration of migrations) {
+      const row = applied.find(a => a.version === migration.version);
+      statuses.push({
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'modified',
+        appliedAt: row?.applied_at
+      });
+    }
+
+    for (const row of applied) {
+      if (!migrations.some(m => m.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations in order, each in its own transaction
+   * Refuses to run when an applied migration file has been edited.
+   */
+  async up(onApplied?: (migration: Migration, durationMs: number) => void): Promise<Migration[]> {
+    const migrations = this.loadMigrations();
+    const applied = await this.getApplied();
+    this.verifyChecksums(migrations, applied);
+
+    if (applied.length === 0 && await DatabaseHelpers.tableExists('users')) {
+      throw new MigrationError(
+        'Database has tables but no migration history. Run "npm run migrate -- baseline <version>" for the migrations it already has.'
+      );
+    }
+
+    const pending = migrations.filter(m => !applied.some(a => a.version === m.version));
+    const done: Migration[] = [];
+
+    for (const migration of pending) {
+      const start = Date.now();
+      const ran = await this.withLock(async (client) => {
+        // Another process may have applied it while we waited for the lock
+        const existing = await client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [migration.version]);
+        if (existing.rows.length > 0) {
+          return false;
+        }
+
+        await client.query(migration.upSql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+          [migration.version, migration.name, migration.checksum, Date.now() - start]
+        );
+        return true;
+      });
+
+      if (ran) {
+        done.push(migration);
+        onApplied?.(migration, Date.now() - start);
+      }
+    }
+
+    return done;
+  }
+
+  /**
+   * Roll back the most recently applied migrations
+   */
+  async down(steps: number = 1, onReverted?: (migration: Migration) => void): Promise<Migration[]> {
+    const migrations = this.loadMigrations();
+    const applied = await this.getApplied();
+    this.verifyChecksums(migrations, applied);
+
+    const targets = applied.slice(-steps).reverse();
+    const done: Migration[] = [];
+
+    for (const row of targets) {
+      const migration = migrations.find(m => m.version === row.version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${formatMigration(row)} is applied but its file is missing`);
+      }
+      if (!migration.downSql) {
+        throw new MigrationError(`Migration ${formatMigration(row)} has no .down.sql file`);
+      }
+
+      await this.withLock(async (client) => {
+        // Only the latest applied migration may be rolled back
+        const latest = await client.query('SELECT MAX(version) AS version FROM schema_migrations');
+        if (latest.rows[0].version !== migration.version) {
+          throw new MigrationError(`Migration ${formatMigration(migration)} is no longer the latest applied migration`);
+        }
+
+        await client.query(migration.downSql!);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+
+      done.push(migration);
+      onReverted?.(migration);
+    }
+
+    return done;
+  }
+
+  /**
+   * Record migrations up to a version as applied without running them
+   * For databases created before the ledger existed (e.g. from schema.sql and run-migration.js).
+   */
+  async baseline(version: number): Promise<Migration[]> {
+    const migrations = this.loadMigrations().filter(m => m.version <= version);
+
+    if (!migrations.some(m => m.version === version)) {
+      throw new MigrationError(`Unknown migration version ${version}`);
+    }
+
+    await this.ensureLedger();
+    return await this.withLock(async (client) => {
+      const existing = await client.query('SELECT COUNT(*) AS count FROM schema_migrations');
+      if (parseInt(existing.rows[0].count) > 0) {
+        throw new MigrationError('schema_migrations already has entries; baseline only applies to untracked databases');
+      }
+
+      for (const migration of migrations) {
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, 0)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      }
+
+      return migrations;
+    });
+  }
+
+  /**
+   * Run a callback in a transaction holding the migration lock
+   */
+  private async withLock<T>(callback: (client: any) => Promise<T>): Promise<T> {
+    return await db.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [MIGRATION_LOCK_KEY]);
+      return await callback(client);
+    });
+  }
+
+  /**
+   * Create the schema_migrations ledger if needed
+   */
+  private async ensureLedger(): Promise<void> {
+    await this.withLock(async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INT PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          applied_at TIMESTAMPTZ DEFAULT NOW(),
+          execution_ms INT DEFAULT 0
+        )
+      `);
+    });
+  }
+
+  /**
+   * Fail when an applied migration's file no longer matches its recorded checksum
+   */
+  private verifyChecksums(migrations: Migration[], applied: AppliedMigration[]): void {
+    const modified = applied.filter(row => {
+      const migration = migrations.find(m => m.version === row.version);
+      return migration && migration.checksum !== row.checksum;
+    });
+
+    if (modified.length > 0) {
+      const names = modified.map(formatMigration).join(', ');
+      throw new MigrationError(`Applied migrations were modified after being applied: ${names}. Add a new migration instead.`);
+    }
+  }
+
+  private readSql(file: string): string {
+    // Normalize line endings so Windows checkouts produce the same checksum
+    return fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8').replace(/\r\n/g, '\n');
+  }
+
+  private checksum(sql: string): string {
+    return crypto.createHash('sha256').update(sql).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const migrationService = new MigrationService();
@@ -0,0 +1,204 @@
+import { DatabaseHelpers } from '../database';
+import { generateMetadataUrl, NFT_CONFIG } from '../config/nft-levels';
+import { getBlockchainService, TransactionFailedError } from './blockchain';
+import { databaseService } from './database';
+import { jobService, Job } from './jobs';
+
+export const MINT_JOB = 'nft_mint';
+
+// Confirmation waits can time out on a slow chain, so mints get more attempts than the default
+const MINT_MAX_ATTEMPTS = 8;
+
+export interface MintMetadata {
+  name?: string;
+  description?: string;
+  imageHash?: string;
+  metadataHash?: string;
+  attributes?: Array<{ trait_type: string; value: any }>;
+}
+
+export interface MintJobPayload {
+  walletAddress: string;
+  // Network profile to mint on; jobs queued before profiles existed use the default network
+  network?: string;
+  // IPFS metadata URI; dynamic mints use the metadata API URL
+  tokenUri?: string;
+  metadata?: MintMetadata;
+}
+
+export interface MintJobResult {
+  tokenId: number;
+  network: string;
+  chainId: number;
+  transactionHash: string | null;
+  tokenURI: string;
+  metadataUrl: string;
+  // Set when the minted URI was built for a different token ID and had to be corrected
+  uriRepair: { mintedTokenURI: string; transactionHash: string } | null;
+}
+
+/**
+ * Mint service: mints run as checkpointed jobs so the chain and loyalty_nfts cannot diverge
+ * Steps: send the transaction (hash saved before waiting), wait for the Transfer event
+ * (token ID saved), correct the token URI if it was built for another ID, then write the
+ * database records. A retried job resumes after the last saved step.
+ */
+export class MintService {
+
+  /**
+   * Queue a mint for a wallet
+   * A wallet has at most one mint in progress on any network; asking again returns the existing job.
+   */
+  async requestMint(payload: MintJobPayload): Promise<{ job: Job; existing: boolean }> {
+    const walletAddress = payload.walletAddress.toLowerCase();
+    const dedupeKey = `${MINT_JOB}:${walletAddress}`;
+
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [dedupeKey]);
+
+        const active = await jobService.getActiveJob(dedupeKey, client);
+        if (active) {
+          return { job: active, existing: true };
+        }
+
+        const job = await jobService.enqueue(
+          MINT_JOB,
+          { ...payload, walletAddress },
+          { dedupeKey, maxAttempts: MINT_MAX_ATTEMPTS },
+          client
+        );
+        return { job: job!, existing: false };
+      });
+    } catch (error) {
+      console.error('Error requesting mint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the wallet's mint in progress, if any
+   */
+  async getActiveMint(walletAddress: string): Promise<Job | null> {
+    return await jobService.getActiveJob(`${MINT_JOB}:${walletAddress.toLowerCase()}`);
+  }
+
+  /**
+   * Job handler
+   */
+  async process(job: Job): Promise<MintJobResult> {
+    const payload: MintJobPayload = job.payload;
+    const walletAddress = payload.walletAddress;
+    const blockchainService = getBlockchainService(payload.network);
+    const { chainId } = blockchainService.network;
+
+    // Step 1: send the mint transaction, unless a previous attempt already did
+    if (job.progress.tokenId == null && !job.progress.transactionHash) {
+      const ownedTokenId = await blockchainService.getOwnedTokenId(walletAddress);
+
+      if (ownedTokenId !== null) {
+        // An earlier attempt's transaction was mined before its hash could be saved
+        // The URI it was minted with is unknown, so step 3 reads it from the contract.
+        console.log(`🔁 Wallet ${walletAddress} already owns NFT ${ownedTokenId}; recording it instead of minting again`);
+        await jobService.checkpoint(job, { tokenId: ownedTokenId, tokenURI: payload.tokenUri || null });
+      } else {
+        // Dynamic mints point the static tokenURI at the metadata API. The ID is only a prediction:
+        // concurrent mints can take it, which step 3 detects and repairs.
+        const tokenURI = payload.tokenUri || generateMetadataUrl(chainId, await blockchainService.getTotalSupply() + 1);
+        const transactionHash = await blockchainService.sendMintWithURI(walletAddress, tokenURI, job.job_id);
+        await jobService.checkpoint(job, { transactionHash, tokenURI });
+      }
+    }
+
+    // Step 2: wait for confirmation and read the token ID
+    if (job.progress.tokenId == null) {
+      try {
+        // A replacement sent for a stuck transaction may be the one mined, so keep the mined hash
+        const minted = await blockchainService.waitForMint(job.progress.transactionHash);
+        await jobService.checkpoint(job, {
+          tokenId: minted.tokenId,
+          blockNumber: minted.blockNumber,
+          transactionHash: minted.transactionHash
+        });
+        console.log(`⛓️ NFT minted on blockchain: Token ID ${minted.tokenId}`);
+      } catch (error) {
+        if (error instanceof TransactionFailedError) {
+          // Let the next attempt check ownership and send a new transaction
+          await jobService.checkpoint(job, { transactionHash: null, failedTransactionHash: error.transactionHash });
+        }
+        throw error;
+      }
+    }
+
+    // Step 3: make sure a dynamic token's URI points at its own metadata
+    if (!payload.tokenUri && !job.progress.uriVerified) {
+      await this.repairTokenURI(job, payload.network);
+    }
+
+    // Step 4: create the database records
+    const { tokenId, tokenURI } = job.progress;
+    const transactionHash = job.progress.transactionHash || null;
+    const existing = await DatabaseHelpers.executeQuery(
+      'SELECT 1 FROM loyalty_nfts WHERE token_id = $1 AND chain_id = $2',
+      [tokenId, chainId]
+    );
+    if (existing.rows.length === 0) {
+      await databaseService.createNFTRecord(walletAddress, tokenId, transactionHash || '', {
+        name: `${NFT_CONFIG.DEFAULT_NAME_PREFIX} #${tokenId}`,
+        description: NFT_CONFIG.DEFAULT_DESCRIPTION,
+        ...payload.metadata,
+        tokenUri: tokenURI
+      }, chainId);
+      console.log(`💾 Database record created for NFT ${tokenId} on ${blockchainService.network.name}`);
+    }
+
+    return {
+      tokenId,
+      network: blockchainService.network.name,
+      chainId,
+      transactionHash,
+      tokenURI,
+      metadataUrl: generateMetadataUrl(chainId, tokenId),
+      uriRepair: job.progress.uriTransactionHash
+        ? { mintedTokenURI: job.progress.mintedTokenURI, transactionHash: job.progress.uriTransactionHash }
+        : null
+    };
+  }
+
+  /**
+   * Compare the minted token URI with the real token ID and send setTokenURI when they differ
+   */
+  private async repairTokenURI(job: Job, network?: string): Promise<void> {
+    const blockchainService = getBlockchainService(network);
+    const tokenId: number = job.progress.tokenId;
+    const expectedURI = generateMetadataUrl(blockchainService.network.chainId, tokenId);
+
+    if (!job.progress.uriTransactionHash) {
+      const mintedURI: string = job.progress.tokenURI ?? await blockchainService.getTokenURI(tokenId);
+      if (mintedURI === expectedURI) {
+        await jobService.checkpoint(job, { tokenURI: expectedURI, uriVerified: true });
+        return;
+      }
+
+      console.warn(`⚠️ NFT ${tokenId} was minted with ${mintedURI || '(no URI)'}; setting ${expectedURI}`);
+      const uriTransactionHash = await blockchainService.sendTokenURIUpdate(tokenId, expectedURI, job.job_id);
+      await jobService.checkpoint(job, { uriTransactionHash, mintedTokenURI: mintedURI });
+    }
+
+    let receipt;
+    try {
+      receipt = await blockchainService.waitForConfirmation(job.progress.uriTransactionHash);
+    } catch (error) {
+      if (error instanceof TransactionFailedError) {
+        await jobService.checkpoint(job, { uriTransactionHash: null });
+      }
+      throw error;
+    }
+
+    console.log(`🔧 NFT ${tokenId} token URI repaired: ${receipt.transactionHash}`);
+    await jobService.checkpoint(job, { tokenURI: expectedURI, uriVerified: true, uriTransactionHash: receipt.transactionHash });
+  }
+}
+
+// Export singleton instance
+export const mintService = new MintService();
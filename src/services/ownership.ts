@@ -0,0 +1,255 @@
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+
+export type TransferPolicy = 'follow_token' | 'stay_with_wallet';
+
+// Loyalty attributes that make up a profile; loyalty_level and status_tier are derived by the level trigger
+export interface LoyaltyProfile {
+  loyalty_points: number;
+  flights_taken: number;
+  bank_tier: string;
+  resorts_visited: number;
+  total_spending: string | number;
+  miles_earned: number;
+  loyalty_level?: number;
+  status_tier?: string;
+}
+
+export interface OwnershipChange {
+  change_id: number;
+  chain_id: number;
+  nft_token_id: number;
+  from_wallet_address: string;
+  to_wallet_address: string;
+  policy: TransferPolicy;
+  attributes_before: LoyaltyProfile;
+  attributes_after: LoyaltyProfile;
+  chain_event_id: number | null;
+  block_number: number | null;
+  transaction_hash: string | null;
+  changed_at: Date;
+  reverted_at: Date | null;
+}
+
+export interface TransferDetails {
+  tokenId: number;
+  from: string;
+  to: string;
+  chainEventId: number | null;
+  blockNumber: number | null;
+  transactionHash: string | null;
+}
+
+// Attributes of a freshly minted NFT (see DatabaseService.createNFTRecord)
+const RESET_PROFILE: LoyaltyProfile = {
+  loyalty_points: 0,
+  flights_taken: 0,
+  bank_tier: 'Standard',
+  resorts_visited: 0,
+  total_spending: 0,
+  miles_earned: 0
+};
+
+/**
+ * Ownership service: applies the NFT transfer policy when the indexer sees a transfer
+ * follow_token moves the loyalty attributes with the NFT. stay_with_wallet keeps them with the
+ * sender as a retained profile, resets the NFT, and gives the sender its profile back on the next
+ * NFT it mints or receives. Every change is recorded in nft_ownership_changes.
+ */
+export class OwnershipService {
+
+  /**
+   * Move a token to its new owner under the configured policy
+   * Returns null for tokens without a loyalty_nfts record or already owned by the receiver.
+   */
+  async recordTransfer(client: any, chainId: number, transfer: TransferDetails): Promise<OwnershipChange | null> {
+    const from = transfer.from.toLowerCase();
+    const to = transfer.to.toLowerCase();
+
+    const nft = await client.query(
+      'SELECT owner_wallet_address FROM loyalty_nfts WHERE token_id = $1 AND chain_id = $2 FOR UPDATE',
+      [transfer.tokenId, chainId]
+    );
+    if (nft.rows.length === 0 || nft.rows[0].owner_wallet_address === to) {
+      return null;
+    }
+
+    const policy = config.nft.transferPolicy;
+    const before = await this.getProfile(client, chainId, transfer.tokenId);
+    await client.query(
+      'INSERT INTO users (wallet_address) VALUES ($1), ($2) ON CONFLICT (wallet_address) DO NOTHING',
+      [from, to]
+    );
+
+    let after = before;
+    let restoring: { profile_id: number; attributes: LoyaltyProfile } | null = null;
+    if (policy === 'stay_with_wallet') {
+      restoring = await this.findRetainedProfile(client, to);
+      after = restoring ? restoring.attributes : RESET_PROFILE;
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO nft_ownership_changes (
+         chain_id, nft_token_id, from_wallet_address, to_wallet_address, policy, attributes_before, attributes_after,
+         chain_event_id, block_number, transaction_hash
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [chainId, transfer.tokenId, from, to, policy, JSON.stringify(before), JSON.stringify(after),
+       transfer.chainEventId, transfer.blockNumber, transfer.transactionHash]
+    );
+    const change: OwnershipChange = inserted.rows[0];
+
+    if (policy === 'stay_with_wallet') {
+      await client.query(
+        `INSERT INTO retained_loyalty_profiles (wallet_address, source_token_id, attributes, retained_change_id)
+         VALUES ($1, $2, $3, $4)`,
+        [from, transfer.tokenId, JSON.stringify(before), change.change_id]
+      );
+      if (restoring) {
+        await client.query(
+          `UPDATE retained_loyalty_profiles
+           SET restored_token_id = $2, restored_change_id = $3, restored_at = NOW()
+           WHERE profile_id = $1`,
+          [restoring.profile_id, transfer.tokenId, change.change_id]
+        );
+      }
+      await this.writeProfile(client, chainId, transfer.tokenId, after);
+    }
+
+    await client.query(
+      `UPDATE loyalty_nfts
+       SET owner_wallet_address = $2::varchar,
+           owner_changed_at = NOW(),
+           transfer_count = transfer_count + 1,
+           is_staked = EXISTS (
+             SELECT 1 FROM staking_positions WHERE chain_id = $3 AND wallet_address = $2 AND staked_amount > 0
+           )
+       WHERE chain_id = $3 AND token_id = $1`,
+      [transfer.tokenId, to, chainId]
+    );
+
+    console.log(`🔀 NFT ${transfer.tokenId} transferred ${from} → ${to} (${policy}${restoring ? ', retained profile restored' : ''})`);
+    return change;
+  }
+
+  /**
+   * Undo the ownership change recorded for a chain event, e.g. after a reorg
+   * Under follow_token the attributes stay as they are, since they moved with the token either way.
+   */
+  async revertTransfer(client: any, chainId: number, chainEventId: number): Promise<void> {
+    const existing = await client.query(
+      'SELECT * FROM nft_ownership_changes WHERE chain_event_id = $1 AND reverted_at IS NULL FOR UPDATE',
+      [chainEventId]
+    );
+    if (existing.rows.length === 0) {
+      return;
+    }
+    const change: OwnershipChange = existing.rows[0];
+
+    if (change.policy === 'stay_with_wallet') {
+      await client.query('DELETE FROM retained_loyalty_profiles WHERE retained_change_id = $1', [change.change_id]);
+      await client.query(
+        `UPDATE retained_loyalty_profiles
+         SET restored_token_id = NULL, restored_change_id = NULL, restored_at = NULL
+         WHERE restored_change_id = $1`,
+        [change.change_id]
+      );
+      await this.writeProfile(client, change.chain_id, change.nft_token_id, change.attributes_before);
+    }
+
+    await client.query('UPDATE nft_ownership_changes SET reverted_at = NOW() WHERE change_id = $1', [change.change_id]);
+    await client.query(
+      `UPDATE loyalty_nfts
+       SET owner_wallet_address = $2::varchar,
+           owner_changed_at = (
+             SELECT MAX(changed_at) FROM nft_ownership_changes
+             WHERE chain_id = $3 AND nft_token_id = $1 AND reverted_at IS NULL
+           ),
+           transfer_count = GREATEST(transfer_count - 1, 0),
+           is_staked = EXISTS (
+             SELECT 1 FROM staking_positions WHERE chain_id = $3 AND wallet_address = $2 AND staked_amount > 0
+           )
+       WHERE chain_id = $3 AND token_id = $1`,
+      [change.nft_token_id, change.from_wallet_address, chainId]
+    );
+
+    console.log(`↩️ NFT ${change.nft_token_id} transfer to ${change.to_wallet_address} reverted`);
+  }
+
+  /**
+   * Give a wallet its newest retained profile on a newly minted NFT
+   * Returns true when a profile was restored.
+   */
+  async restoreOnMint(client: any, walletAddress: string, chainId: number, tokenId: number): Promise<boolean> {
+    const retained = await this.findRetainedProfile(client, walletAddress.toLowerCase());
+    if (!retained) {
+      return false;
+    }
+
+    await this.writeProfile(client, chainId, tokenId, retained.attributes);
+    await client.query(
+      'UPDATE retained_loyalty_profiles SET restored_token_id = $2, restored_at = NOW() WHERE profile_id = $1',
+      [retained.profile_id, tokenId]
+    );
+    console.log(`♻️ Retained loyalty profile of ${walletAddress} restored on NFT ${tokenId}`);
+    return true;
+  }
+
+  /**
+   * List a token's ownership changes, newest first
+   */
+  async getHistory(chainId: number, tokenId: number, limit: number = 50): Promise<OwnershipChange[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM nft_ownership_changes
+         WHERE chain_id = $1 AND nft_token_id = $2
+         ORDER BY change_id DESC
+         LIMIT $3`,
+        [chainId, tokenId, limit]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting NFT ownership history:', error);
+      throw error;
+    }
+  }
+
+  private async findRetainedProfile(client: any, walletAddress: string): Promise<{ profile_id: number; attributes: LoyaltyProfile } | null> {
+    const result = await client.query(
+      `SELECT profile_id, attributes FROM retained_loyalty_profiles
+       WHERE wallet_address = $1 AND restored_at IS NULL
+       ORDER BY retained_at DESC, profile_id DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [walletAddress]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async getProfile(client: any, chainId: number, tokenId: number): Promise<LoyaltyProfile> {
+    const result = await client.query(
+      `SELECT loyalty_points, flights_taken, bank_tier, resorts_visited, total_spending, miles_earned, loyalty_level, status_tier
+       FROM nft_attributes
+       WHERE chain_id = $1 AND nft_token_id = $2`,
+      [chainId, tokenId]
+    );
+    return result.rows[0] || RESET_PROFILE;
+  }
+
+  /**
+   * Overwrite a token's attributes; the level trigger recalculates its level and status tier
+   */
+  private async writeProfile(client: any, chainId: number, tokenId: number, profile: LoyaltyProfile): Promise<void> {
+    await client.query(
+      `UPDATE nft_attributes
+       SET loyalty_points = $3, flights_taken = $4, bank_tier = $5, resorts_visited = $6,
+           total_spending = $7, miles_earned = $8
+       WHERE chain_id = $1 AND nft_token_id = $2`,
+      [chainId, tokenId, profile.loyalty_points, profile.flights_taken, profile.bank_tier, profile.resorts_visited,
+       profile.total_spending, profile.miles_earned]
+    );
+  }
+}
+
+// Export singleton instance
+export const ownershipService = new OwnershipService();
@@ -0,0 +1,347 @@
+import { DatabaseHelpers } from '../database';
+
+export interface PointsRule {
+  rule_id: number;
+  action_type: string;
+  brand_id: number | null;
+  version: number;
+  fixed_points: number;
+  points_per_unit: string;
+  unit_amount: string;
+  currency: string;
+  apply_brand_multiplier: boolean;
+  max_points_per_action: number | null;
+  max_points_per_day: number | null;
+  is_active: boolean;
+  created_at: Date;
+  created_by: string | null;
+  superseded_at: Date | null;
+}
+
+export interface PointsRuleInput {
+  fixedPoints?: number;
+  pointsPerUnit?: number;
+  unitAmount?: number;
+  currency?: string;
+  applyBrandMultiplier?: boolean;
+  maxPointsPerAction?: number | null;
+  maxPointsPerDay?: number | null;
+  isActive?: boolean;
+}
+
+export interface PointsAward {
+  points: number;
+  ruleId: number | null;
+  multiplier: number;
+  capped: boolean;
+  // Part of details.amount that earned points: whole units of the rule's unit_amount
+  amountUsed: number;
+}
+
+/**
+ * Rejected rule or action input (reported as 400)
+ */
+export class PointsRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PointsRuleError';
+  }
+}
+
+export const POINTS_RULE_FIELDS: Array<keyof PointsRuleInput> = [
+  'fixedPoints', 'pointsPerUnit', 'unitAmount', 'currency',
+  'applyBrandMultiplier', 'maxPointsPerAction', 'maxPointsPerDay', 'isActive'
+];
+
+/**
+ * Points service: versioned earn rules and point calculation
+ */
+export class PointsService {
+
+  /**
+   * List rules (current versions only unless includeHistory is set)
+   */
+  async listRules(filters: {
+    actionType?: string;
+    brandId?: number;
+    includeHistory?: boolean;
+  } = {}): Promise<PointsRule[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (!filters.includeHistory) {
+        conditions.push('superseded_at IS NULL');
+      }
+      if (filters.actionType) {
+        params.push(filters.actionType);
+        conditions.push(`action_type = $${params.length}`);
+      }
+      if (filters.brandId != null) {
+        params.push(filters.brandId);
+        conditions.push(`brand_id = $${params.length}`);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM points_rules ${where} ORDER BY brand_id, action_type, version DESC`,
+        params
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error listing points rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one rule version by ID
+   */
+  async getRule(ruleId: number): Promise<PointsRule | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery('SELECT * FROM points_rules WHERE rule_id = $1', [ruleId]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      console.error('Error getting points rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the first version of a rule for a brand and action type
+   */
+  async createRule(
+    actionType: string,
+    brandId: number | null,
+    input: PointsRuleInput,
+    createdBy: string
+  ): Promise<PointsRule> {
+    try {
+      this.validateInput(input);
+
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        const current = await client.query(
+          `SELECT rule_id FROM points_rules
+           WHERE action_type = $1 AND brand_id IS NOT DISTINCT FROM $2 AND superseded_at IS NULL`,
+          [actionType, brandId]
+        );
+        if (current.rows.length > 0) {
+          throw new PointsRuleError(`A rule already exists for this action (rule ${current.rows[0].rule_id}); update it instead`);
+        }
+
+        const previous = await client.query(
+          'SELECT COALESCE(MAX(version), 0) AS version FROM points_rules WHERE action_type = $1 AND brand_id IS NOT DISTINCT FROM $2',
+          [actionType, brandId]
+        );
+
+        return await this.insertVersion(client, actionType, brandId, previous.rows[0].version + 1, input, createdBy);
+      });
+    } catch (error) {
+      if (!(error instanceof PointsRuleError)) {
+        console.error('Error creating points rule:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Change a rule by superseding its current version with a new one
+   * Returns null when the rule does not exist.
+   */
+  async updateRule(ruleId: number, changes: PointsRuleInput, createdBy: string): Promise<PointsRule | null> {
+    try {
+      this.validateInput(changes);
+
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        const existing = await client.query('SELECT * FROM points_rules WHERE rule_id = $1 FOR UPDATE', [ruleId]);
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const rule: PointsRule = existing.rows[0];
+        if (rule.superseded_at) {
+          throw new PointsRuleError(`Rule ${ruleId} is an old version; update the current version instead`);
+        }
+
+        await client.query('UPDATE points_rules SET superseded_at = NOW() WHERE rule_id = $1', [ruleId]);
+
+        const merged: PointsRuleInput = {
+          fixedPoints: rule.fixed_points,
+          pointsPerUnit: parseFloat(rule.points_per_unit),
+          unitAmount: parseFloat(rule.unit_amount),
+          currency: rule.currency,
+          applyBrandMultiplier: rule.apply_brand_multiplier,
+          maxPointsPerAction: rule.max_points_per_action,
+          maxPointsPerDay: rule.max_points_per_day,
+          isActive: rule.is_active,
+          ...changes
+        };
+
+        return await this.insertVersion(client, rule.action_type, rule.brand_id, rule.version + 1, merged, createdBy);
+      });
+    } catch (error) {
+      if (!(error instanceof PointsRuleError)) {
+        console.error('Error updating points rule:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retire the current version of a rule (the action then earns no points)
+   */
+  async retireRule(ruleId: number): Promise<boolean> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        'UPDATE points_rules SET superseded_at = NOW() WHERE rule_id = $1 AND superseded_at IS NULL',
+        [ruleId]
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('Error retiring points rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate the points an action earns under the current rule
+   * Runs on the caller's transaction client so daily caps see earlier actions.
+   */
+  async calculatePoints(
+    client: any,
+    walletAddress: string,
+    actionType: string,
+    brandId: number | null,
+    details: any
+  ): Promise<PointsAward> {
+    const result = await client.query(
+      `SELECT pr.*, COALESCE(bp.loyalty_multiplier, 1) AS loyalty_multiplier
+       FROM points_rules pr
+       LEFT JOIN brand_partners bp ON bp.brand_id = pr.brand_id
+       WHERE pr.action_type = $1 AND pr.brand_id IS NOT DISTINCT FROM $2 AND pr.superseded_at IS NULL`,
+      [actionType, brandId]
+    );
+
+    if (result.rows.length === 0 || !result.rows[0].is_active) {
+      return { points: 0, ruleId: result.rows[0]?.rule_id ?? null, multiplier: 1, capped: false, amountUsed: 0 };
+    }
+
+    const rule = result.rows[0];
+    const multiplier = rule.apply_brand_multiplier ? parseFloat(rule.loyalty_multiplier) : 1;
+
+    let units = 0;
+    if (parseFloat(rule.points_per_unit) > 0) {
+      const amount = Number(details?.amount ?? 0);
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new PointsRuleError('details.amount must be a non-negative number');
+      }
+      if (details?.currency && String(details.currency).toUpperCase() !== rule.currency) {
+        throw new PointsRuleError(`details.currency must be ${rule.currency} for ${actionType}`);
+      }
+      units = Math.floor(amount / parseFloat(rule.unit_amount));
+    }
+
+    let points = Math.floor((rule.fixed_points + units * parseFloat(rule.points_per_unit)) * multiplier);
+    let capped = false;
+
+    if (rule.max_points_per_action != null && points > rule.max_points_per_action) {
+      points = rule.max_points_per_action;
+      capped = true;
+    }
+
+    if (rule.max_points_per_day != null) {
+      // Serialize same-day awards for this wallet so concurrent actions cannot exceed the cap
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`points:${walletAddress.toLowerCase()}`]);
+
+      const earned = await client.query(
+        `SELECT COALESCE(SUM(points_earned), 0) AS total
+         FROM user_actions
+         WHERE user_wallet_address = $1
+           AND action_type = $2
+           AND brand_id IS NOT DISTINCT FROM $3
+           AND action_timestamp >= date_trunc('day', NOW())`,
+        [walletAddress.toLowerCase(), actionType, brandId]
+      );
+
+      const remaining = Math.max(rule.max_points_per_day - parseInt(earned.rows[0].total), 0);
+      if (points > remaining) {
+        points = remaining;
+        capped = true;
+      }
+    }
+
+    return { points, ruleId: rule.rule_id, multiplier, capped, amountUsed: units * parseFloat(rule.unit_amount) };
+  }
+
+  private async insertVersion(
+    client: any,
+    actionType: string,
+    brandId: number | null,
+    version: number,
+    input: PointsRuleInput,
+    createdBy: string
+  ): Promise<PointsRule> {
+    const result = await client.query(
+      `INSERT INTO points_rules (
+         action_type, brand_id, version, fixed_points, points_per_unit, unit_amount, currency,
+         apply_brand_multiplier, max_points_per_action, max_points_per_day, is_active, created_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        actionType,
+        brandId,
+        version,
+        input.fixedPoints ?? 0,
+        input.pointsPerUnit ?? 0,
+        input.unitAmount ?? 1,
+        (input.currency || 'VND').toUpperCase(),
+        input.applyBrandMultiplier ?? true,
+        input.maxPointsPerAction ?? null,
+        input.maxPointsPerDay ?? null,
+        input.isActive ?? true,
+        createdBy
+      ]
+    );
+    return result.rows[0];
+  }
+
+  private validateInput(input: PointsRuleInput): void {
+    for (const key of Object.keys(input)) {
+      if (!POINTS_RULE_FIELDS.includes(key as keyof PointsRuleInput)) {
+        throw new PointsRuleError(`Unknown rule field: ${key}`);
+      }
+    }
+
+    const nonNegative: Array<keyof PointsRuleInput> = ['fixedPoints', 'pointsPerUnit', 'maxPointsPerAction', 'maxPointsPerDay'];
+    for (const key of nonNegative) {
+      const value = input[key];
+      if (value != null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        throw new PointsRuleError(`${key} must be a non-negative number`);
+      }
+    }
+
+    if (input.fixedPoints != null && !Number.isInteger(input.fixedPoints)) {
+      throw new PointsRuleError('fixedPoints must be an integer');
+    }
+    for (const key of ['maxPointsPerAction', 'maxPointsPerDay'] as const) {
+      if (input[key] != null && !Number.isInteger(input[key])) {
+        throw new PointsRuleError(`${key} must be an integer`);
+      }
+    }
+    if (input.unitAmount != null && (typeof input.unitAmount !== 'number' || !(input.unitAmount > 0))) {
+      throw new PointsRuleError('unitAmount must be a positive number');
+    }
+    if (input.currency != null && !/^[A-Za-z]{3}$/.test(input.currency)) {
+      throw new PointsRuleError('currency must be a 3-letter ISO code');
+    }
+    for (const key of ['applyBrandMultiplier', 'isActive'] as const) {
+      if (input[key] != null && typeof input[key] !== 'boolean') {
+        throw new PointsRuleError(`${key} must be a boolean`);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const pointsService = new PointsService();
@@ -0,0 +1,297 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+
+const { errors } = ethers.utils.Logger;
+
+/**
+ * Every RPC endpoint of a network failed
+ */
+export class RpcUnavailableError extends Error {
+  constructor(
+    public readonly network: string,
+    public readonly method: string,
+    public readonly attempts: Array<{ host: string; message: string }>
+  ) {
+    super(`RPC unavailable on ${network} for ${method}: ${attempts.map(a => `${a.host}: ${a.message}`).join('; ')}`);
+    this.name = 'RpcUnavailableError';
+  }
+}
+
+/**
+ * A contract read the node answered with an error, e.g. a revert
+ */
+export class ContractReadError extends Error {
+  constructor(public readonly read: string, public readonly error: any) {
+    super(`Could not read ${read}: ${error?.reason || error?.message || error}`);
+    this.name = 'ContractReadError';
+  }
+}
+
+export interface RpcEndpointStatus {
+  // Host only: RPC URLs often carry API keys
+  host: string;
+  available: boolean;
+  // Recent success rate, 0-100
+  score: number;
+  latencyMs: number | null;
+  blockNumber: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+interface RpcEndpoint {
+  url: string;
+  host: string;
+  priority: number;
+  provider: ethers.providers.StaticJsonRpcProvider;
+  successRate: number;
+  latencyMs: number | null;
+  blockNumber: number | null;
+  consecutiveFailures: number;
+  lastFailureAt: number;
+  cooldownUntil: number;
+  cooldowns: number;
+  lastError: string | null;
+}
+
+// Weight of the latest request in the moving success rate and latency
+const SCORE_ALPHA = 0.2;
+
+// Longest cooldown after repeated failures
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// JSON-RPC errors that say more about the node than about the request
+const NODE_ERROR_PATTERN = /header not found|unknown block|missing trie node|rate limit|too many requests|service unavailable/i;
+
+/**
+ * Whether an error means the endpoint could not answer, rather than the node rejecting the request
+ * ethers turns every failed eth_call into CALL_EXCEPTION, so the wrapped errors are checked too.
+ */
+export function isEndpointFailure(error: any): boolean {
+  for (let current = error, depth = 0; current && depth < 5; current = current.error, depth++) {
+    if (current.code === errors.TIMEOUT || current.code === errors.NETWORK_ERROR) {
+      return true;
+    }
+    if (current.code === errors.SERVER_ERROR && (current.reason === 'missing response' || current.reason === 'bad response')) {
+      return true;
+    }
+    if (typeof current.message === 'string' && NODE_ERROR_PATTERN.test(current.message)) {
+      return true;
+    }
+    if (typeof current.body === 'string' && NODE_ERROR_PATTERN.test(current.body)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Provider that spreads requests over several RPC URLs of one network
+ * Endpoints are tried in configured order, healthiest first: an endpoint that fails failureThreshold
+ * times in a row cools down (doubling up to 5 minutes), and one more than maxBlockLag blocks behind
+ * the others is tried last. Errors the node answers with, such as reverts, are not retried.
+ */
+export class FailoverProvider extends ethers.providers.BaseProvider {
+  private endpoints: RpcEndpoint[];
+
+  constructor(
+    rpcUrls: string[],
+    network: ethers.providers.Network,
+    private settings = config.rpc
+  ) {
+    super(network);
+    if (rpcUrls.length === 0) {
+      throw new Error(`Network ${network.name} has no RPC URL`);
+    }
+
+    this.endpoints = rpcUrls.map((url, priority) => ({
+      url,
+      host: this.hostOf(url),
+      priority,
+      provider: new ethers.providers.StaticJsonRpcProvider({ url, timeout: settings.timeoutMs }, network),
+      successRate: 1,
+      latencyMs: null,
+      blockNumber: null,
+      consecutiveFailures: 0,
+      lastFailureAt: 0,
+      cooldownUntil: 0,
+      cooldowns: 0,
+      lastError: null
+    }));
+  }
+
+  async detectNetwork(): Promise<ethers.providers.Network> {
+    return this.network;
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    const attempts: Array<{ host: string; message: string }> = [];
+    // When every endpoint is cooling down, all of them are tried rather than failing outright
+    const available = this.rankEndpoints();
+    const endpoints = available.length > 0 ? available : this.rankEndpoints(true);
+
+    for (const endpoint of endpoints) {
+      const started = Date.now();
+      try {
+        const result = await endpoint.provider.perform(method, params);
+        this.recordSuccess(endpoint, Date.now() - started, method === 'getBlockNumber' ? result : null);
+        return result;
+      } catch (error: any) {
+        if (!isEndpointFailure(error)) {
+          // The endpoint answered; the request itself was rejected
+          this.recordSuccess(endpoint, Date.now() - started, null);
+          if (method === 'sendTransaction' && /already known|known transaction/i.test(error?.error?.message || error?.message || '')) {
+            // An earlier endpoint broadcast it before failing to answer
+            return ethers.utils.keccak256(params.signedTransaction);
+          }
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        attempts.push({ host: endpoint.host, message: this.describe(error) });
+      }
+    }
+
+    throw new RpcUnavailableError(this.network.name, method, attempts);
+  }
+
+  /**
+   * Health of each endpoint, in the order they are tried
+   */
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.rankEndpoints(true).map(endpoint => ({
+      host: endpoint.host,
+      available: endpoint.cooldownUntil <= now,
+      score: Math.round(this.scoreOf(endpoint, now) * 100),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      blockNumber: endpoint.blockNumber,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  /**
+   * Order endpoints by availability, block lag, success rate and configured priority
+   * Cooling-down endpoints are left out unless includeCooling is set.
+   */
+  private rankEndpoints(includeCooling: boolean = false): RpcEndpoint[] {
+    const now = Date.now();
+    const best = Math.max(...this.endpoints.map(e => e.blockNumber ?? 0));
+    const lagging = (e: RpcEndpoint) => e.blockNumber !== null && best - e.blockNumber > this.settings.maxBlockLag;
+
+    return this.endpoints
+      .filter(e => includeCooling || e.cooldownUntil <= now)
+      .sort((a, b) =>
+        Number(a.cooldownUntil > now) - Number(b.cooldownUntil > now) ||
+        Number(lagging(a)) - Number(lagging(b)) ||
+        Math.round(this.scoreOf(b, now) * 10) - Math.round(this.scoreOf(a, now) * 10) ||
+        a.priority - b.priority
+      );
+  }
+
+  /**
+   * Success rate, with failures fading out over two cooldown periods
+   * Without this, an endpoint that stopped getting requests after a blip would never win them back.
+   */
+  private scoreOf(endpoint: RpcEndpoint, now: number): number {
+    const recovered = Math.min(1, (now - endpoint.lastFailureAt) / (this.settings.cooldownMs * 2));
+    return endpoint.successRate + (1 - endpoint.successRate) * recovered;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number, blockNumber: string | null): void {
+    endpoint.successRate = endpoint.successRate * (1 - SCORE_ALPHA) + SCORE_ALPHA;
+    endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs * (1 - SCORE_ALPHA) + latencyMs * SCORE_ALPHA;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.cooldowns = 0;
+    if (blockNumber !== null) {
+      endpoint.blockNumber = ethers.BigNumber.from(blockNumber).toNumber();
+    }
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: any): void {
+    endpoint.successRate = endpoint.successRate * (1 - SCORE_ALPHA);
+    endpoint.consecutiveFailures++;
+    endpoint.lastFailureAt = Date.now();
+    endpoint.lastError = this.describe(error);
+
+    if (endpoint.consecutiveFailures >= this.settings.failureThreshold) {
+      const cooldownMs = Math.min(this.settings.cooldownMs * 2 ** endpoint.cooldowns, MAX_COOLDOWN_MS);
+      endpoint.cooldownUntil = Date.now() + cooldownMs;
+      endpoint.cooldowns++;
+      // The next request after the cooldown probes the endpoint once more
+      endpoint.consecutiveFailures = this.settings.failureThreshold - 1;
+      console.warn(`⚠️ RPC ${endpoint.host} on ${this.network.name} failed repeatedly; skipping it for ${cooldownMs / 1000}s`);
+    }
+  }
+
+  private describe(error: any): string {
+    const cause = error?.error?.reason || error?.error?.message;
+    return cause || error?.reason || error?.message || String(error);
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/**
+ * Short-lived cache for contract reads, keyed by block number
+ * Reads are made at the cached head block, so every value in the cache belongs to that block.
+ * Entries are dropped when the head moves or after ttlMs; concurrent reads share one request.
+ */
+export class BlockReadCache {
+  private head: { blockNumber: Promise<number>; expiresAt: number } | null = null;
+  private entries = new Map<string, { blockNumber: number; expiresAt: number; value: Promise<any> }>();
+
+  constructor(private provider: ethers.providers.Provider, private ttlMs: number = config.rpc.cacheTtlMs) {}
+
+  async read<T>(key: string, load: (blockTag: number | 'latest') => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return await load('latest');
+    }
+
+    const blockNumber = await this.getHead();
+    const now = Date.now();
+    const cacheKey = `${blockNumber}:${key}`;
+
+    const cached = this.entries.get(cacheKey);
+    if (cached && cached.expiresAt > now) {
+      return await cached.value;
+    }
+
+    const value = load(blockNumber);
+    this.entries.set(cacheKey, { blockNumber, expiresAt: now + this.ttlMs, value });
+    // Failures are not cached
+    value.catch(() => this.entries.delete(cacheKey));
+    return await value;
+  }
+
+  clear(): void {
+    this.head = null;
+    this.entries.clear();
+  }
+
+  private async getHead(): Promise<number> {
+    const now = Date.now();
+    if (!this.head || this.head.expiresAt <= now) {
+      const blockNumber = this.provider.getBlockNumber();
+      this.head = { blockNumber, expiresAt: now + this.ttlMs };
+      blockNumber.catch(() => { this.head = null; });
+
+      // Drop entries from older blocks
+      const latest = await blockNumber;
+      for (const [key, entry] of this.entries) {
+        if (entry.blockNumber < latest || entry.expiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+      return latest;
+    }
+    return await this.head.blockNumber;
+  }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { config } from '../config';
+
+export type SignerSettings = typeof config.signer;
+
+type TypedDataTypes = Record<string, Array<ethers.TypedDataField>>;
+
+/**
+ * The remote signer refused, failed or returned a signature from another key
+ */
+export class RemoteSignerError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+interface RemoteSignerOptions {
+  url: string;
+  address: string;
+  authToken?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Signer whose key lives in a remote HTTP signing service, e.g. a KMS-backed proxy
+ * The service receives the unsigned payload and returns a 65-byte signature:
+ *   POST {url}/sign-transaction {address, transaction}  -> {signature}
+ *   POST {url}/sign-message     {address, message}      -> {signature}
+ *   POST {url}/sign-typed-data  {address, typedData}    -> {signature}
+ * Transactions and messages are hex-encoded; typed data is the eth_signTypedData_v4 payload.
+ * Every signature is recovered and checked against the configured address before it is used,
+ * so a misrouted key can never send a transaction.
+ */
+export class RemoteSigner extends ethers.Signer {
+  private readonly address: string;
+
+  constructor(private readonly options: RemoteSignerOptions, readonly provider?: ethers.providers.Provider) {
+    super();
+    this.address = ethers.utils.getAddress(options.address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.options, provider);
+  }
+
+  async signMessage(message: ethers.Bytes | string): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message;
+    const signature = await this.requestSignature('sign-message', { message: ethers.utils.hexlify(bytes) });
+
+    if (ethers.utils.verifyMessage(bytes, signature) !== this.address) {
+      throw new RemoteSignerError(`Remote signer returned a message signature from another key than ${this.address}`);
+    }
+    return signature;
+  }
+
+  async _signTypedData(domain: ethers.TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    const typedData = ethers.utils._TypedDataEncoder.getPayload(domain, types, value);
+    const signature = await this.requestSignature('sign-typed-data', { typedData });
+
+    if (ethers.utils.verifyTypedData(domain, types, value, signature) !== this.address) {
+      throw new RemoteSignerError(`Remote signer returned a typed data signature from another key than ${this.address}`);
+    }
+    return signature;
+  }
+
+  async signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+    if (tx.from != null && ethers.utils.getAddress(tx.from) !== this.address) {
+      throw new RemoteSignerError(`Transaction from ${tx.from} cannot be signed by ${this.address}`);
+    }
+    delete tx.from;
+
+    const unsigned = ethers.utils.serializeTransaction(tx as ethers.UnsignedTransaction);
+    const signature = await this.requestSignature('sign-transaction', { transaction: unsigned });
+
+    if (ethers.utils.recoverAddress(ethers.utils.keccak256(unsigned), signature) !== this.address) {
+      throw new RemoteSignerError(`Remote signer returned a transaction signature from another key than ${this.address}`);
+    }
+    return ethers.utils.serializeTransaction(tx as ethers.UnsignedTransaction, signature);
+  }
+
+  private async requestSignature(path: string, payload: object): Promise<string> {
+    const headers: { [key: string]: string } = { 'Content-Type': 'application/json' };
+    if (this.options.authToken) {
+      headers.Authorization = `Bearer ${this.options.authToken}`;
+    }
+
+    let response: any;
+    try {
+      response = await ethers.utils.fetchJson(
+        { url: `${this.options.url}/${path}`, headers, timeout: this.options.timeoutMs },
+        JSON.stringify({ address: this.address, ...payload })
+      );
+    } catch (error: any) {
+      throw new RemoteSignerError(`Remote signer ${path} failed: ${error?.reason || error?.message || error}`, error?.status);
+    }
+
+    if (!response || typeof response.signature !== 'string' || ethers.utils.hexDataLength(response.signature) !== 65) {
+      throw new RemoteSignerError(`Remote signer ${path} returned no valid signature`);
+    }
+    return response.signature;
+  }
+}
+
+/**
+ * Sign EIP-712 typed data with any of the admin signers
+ * ethers v5 keeps typed data signing out of the Signer base class, so support is checked here.
+ */
+export async function signTypedData(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>
+): Promise<string> {
+  const typedDataSigner = signer as ethers.Signer & { _signTypedData?: RemoteSigner['_signTypedData'] };
+  if (typeof typedDataSigner._signTypedData !== 'function') {
+    throw new Error('The admin signer cannot sign EIP-712 typed data');
+  }
+  return await typedDataSigner._signTypedData(domain, types, value);
+}
+
+/**
+ * Build the admin signer from the signer settings, not yet connected to a provider
+ */
+export function createSigner(settings: SignerSettings = config.signer): ethers.Signer {
+  switch (settings.type) {
+    case 'local':
+      return new ethers.Wallet(settings.privateKey);
+    case 'keystore': {
+      const json = fs.readFileSync(settings.keystorePath, 'utf8');
+      try {
+        return ethers.Wallet.fromEncryptedJsonSync(json, settings.keystorePassword);
+      } catch (error: any) {
+        throw new Error(`Could not decrypt keystore ${settings.keystorePath}: ${error?.message || error}`);
+      }
+    }
+    case 'remote':
+      return new RemoteSigner({
+        url: settings.remoteUrl,
+        address: settings.remoteAddress,
+        authToken: settings.remoteAuthToken || undefined,
+        timeoutMs: settings.remoteTimeoutMs
+      });
+  }
+}
+
+let defaultSigner: ethers.Signer | null = null;
+
+/**
+ * The configured admin signer, shared by every network
+ * Decrypting a keystore is slow, so it is done once.
+ */
+export function getDefaultSigner(): ethers.Signer {
+  if (!defaultSigner) {
+    defaultSigner = createSigner();
+  }
+  return defaultSigner;
+}
@@ -0,0 +1,411 @@
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+import { BlockchainService, getBlockchainServices, UnknownNetworkError } from './blockchain';
+import { pointsService } from './points';
+
+// Points rule action type for ETH-days staked (seeded by migration 0014)
+export const STAKING_ACTION_TYPE = 'eth_staking';
+
+export interface StakingSyncResult {
+  nfts: number;
+  pointsAwarded: number;
+}
+
+export interface StakingSnapshot {
+  snapshot_id: number;
+  chain_id: number;
+  // YYYY-MM-DD (UTC)
+  snapshot_date: string;
+  block_number: number;
+  total_eth: string;
+  total_nfts: number;
+  contract_balance: string;
+  indexed_staked_eth: string;
+  stakers: number;
+  taken_at: Date;
+}
+
+export interface StakingReport {
+  chainId: number;
+  // Indexed position in wei, null if the wallet never staked
+  position: {
+    staked_amount: string;
+    total_staked: string;
+    total_unstaked: string;
+    last_stake_at: Date | null;
+    updated_at: Date;
+  } | null;
+  nfts: Array<{
+    token_id: number;
+    staked_eth: string;
+    staked_since: Date | null;
+    staking_days: number;
+    eth_days: string;
+    eth_days_awarded: string;
+    staking_synced_at: Date | null;
+  }>;
+  rewards: {
+    totalPoints: number;
+    totalEthDays: string;
+    recent: Array<{ action_id: number; points_earned: number; action_details: any; action_timestamp: Date }>;
+  };
+}
+
+// Dates come back as YYYY-MM-DD rather than local-midnight Date objects
+const SNAPSHOT_COLUMNS = `snapshot_id, chain_id, to_char(snapshot_date, 'YYYY-MM-DD') AS snapshot_date, block_number,
+  total_eth, total_nfts, contract_balance, indexed_staked_eth, stakers, taken_at`;
+
+/**
+ * Staking service: keeps the staking attributes of NFTs in line with their owners' positions
+ * staked_eth and staked_since come from the indexed staking_positions. eth_days accrues the ETH
+ * staked times the days the NFT was held, and the eth_staking points rule turns it into points.
+ * There is one service per enabled network, each syncing and snapshotting its own chain.
+ */
+export class StakingService {
+  private timer: NodeJS.Timeout | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+
+  constructor(
+    readonly blockchain: BlockchainService,
+    private settings = config.staking
+  ) {}
+
+  /**
+   * Accrue ETH-days at the previous amount, then copy the owner's current position
+   * Covers the NFTs of one wallet, or every NFT when walletAddress is null. The indexer calls this
+   * whenever a wallet's stake or NFTs change, so each amount is accrued for the time it applied.
+   * The position goes on one NFT per wallet, picked like the one credited for brand actions, and
+   * the wallet's other NFTs on the chain get zero, so a stake earns ETH-days once.
+   */
+  async refreshAttributes(client: any, chainId: number, walletAddress: string | null): Promise<number> {
+    const result = await client.query(
+      `UPDATE nft_attributes na
+       SET eth_days = na.eth_days
+             + na.staked_eth * COALESCE(EXTRACT(EPOCH FROM NOW() - na.staking_synced_at), 0)::numeric / 86400,
+           staked_eth = COALESCE(sp.staked_amount, 0) / 1000000000000000000::numeric,
+           staked_since = CASE WHEN sp.staked_amount > 0 THEN sp.last_stake_at END,
+           staking_days = CASE WHEN sp.staked_amount > 0 AND sp.last_stake_at IS NOT NULL
+                               THEN FLOOR(EXTRACT(EPOCH FROM NOW() - sp.last_stake_at) / 86400)
+                               ELSE 0 END,
+           staking_synced_at = NOW()
+       FROM loyalty_nfts ln
+       CROSS JOIN LATERAL (
+         SELECT token_id FROM nft_complete_info
+         WHERE chain_id = ln.chain_id AND owner_wallet_address = ln.owner_wallet_address
+         ORDER BY loyalty_level DESC, loyalty_points DESC, token_id
+         LIMIT 1
+       ) held
+       LEFT JOIN staking_positions sp ON sp.chain_id = $1 AND sp.wallet_address = ln.owner_wallet_address
+         AND held.token_id = ln.token_id
+       WHERE ln.chain_id = na.chain_id AND ln.token_id = na.nft_token_id
+         AND ln.chain_id = $1
+         AND ($2::varchar IS NULL OR ln.owner_wallet_address = $2)`,
+      [chainId, walletAddress ? walletAddress.toLowerCase() : null]
+    );
+    return result.rowCount;
+  }
+
+  /**
+   * Accrue every NFT's ETH-days and award points for the whole ETH-days not yet awarded
+   */
+  async sync(chainId?: number): Promise<StakingSyncResult> {
+    const id = chainId ?? this.blockchain.network.chainId;
+
+    return await DatabaseHelpers.executeTransaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`staking_sync:${id}`]);
+
+      const nfts = await this.refreshAttributes(client, id, null);
+      const pending = await client.query(
+        `SELECT na.nft_token_id, ln.owner_wallet_address, na.eth_days - na.eth_days_awarded AS pending
+         FROM nft_attributes na
+         JOIN loyalty_nfts ln ON ln.chain_id = na.chain_id AND ln.token_id = na.nft_token_id
+         WHERE ln.chain_id = $1 AND na.eth_days > na.eth_days_awarded
+         ORDER BY na.nft_token_id`,
+        [id]
+      );
+
+      let pointsAwarded = 0;
+      for (const nft of pending.rows) {
+        pointsAwarded += await this.awardPoints(client, id, nft.nft_token_id, nft.owner_wallet_address, parseFloat(nft.pending));
+      }
+      return { nfts, pointsAwarded };
+    });
+  }
+
+  /**
+   * Record today's StakingPool totals next to the indexed positions
+   * Taking a second snapshot on the same UTC day replaces the first.
+   */
+  async takeSnapshot(): Promise<StakingSnapshot> {
+    try {
+      const { chainId } = this.blockchain.network;
+      const [global, blockNumber] = await Promise.all([
+        this.blockchain.getGlobalStakingInfo(),
+        this.blockchain.getProvider().getBlockNumber()
+      ]);
+
+      const result = await DatabaseHelpers.executeQuery(
+        `WITH indexed AS (
+           SELECT COALESCE(SUM(staked_amount), 0) / 1000000000000000000::numeric AS staked_eth,
+                  COUNT(*) FILTER (WHERE staked_amount > 0) AS stakers
+           FROM staking_positions
+           WHERE chain_id = $1
+         )
+         INSERT INTO staking_snapshots (
+           chain_id, snapshot_date, block_number, total_eth, total_nfts, contract_balance, indexed_staked_eth, stakers
+         )
+         SELECT $1, (NOW() AT TIME ZONE 'UTC')::date, $2, $3, $4, $5, indexed.staked_eth, indexed.stakers
+         FROM indexed
+         ON CONFLICT (chain_id, snapshot_date) DO UPDATE
+         SET block_number = EXCLUDED.block_number,
+             total_eth = EXCLUDED.total_eth,
+             total_nfts = EXCLUDED.total_nfts,
+             contract_balance = EXCLUDED.contract_balance,
+             indexed_staked_eth = EXCLUDED.indexed_staked_eth,
+             stakers = EXCLUDED.stakers,
+             taken_at = NOW()
+         RETURNING ${SNAPSHOT_COLUMNS}`,
+        [chainId, blockNumber, global.totalETH, global.totalNFTs, global.contractBalance]
+      );
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error taking staking snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List daily snapshots, oldest first
+   * Without a range, the latest `limit` days are returned.
+   */
+  async listSnapshots(filters: { from?: string; to?: string; limit?: number } = {}): Promise<StakingSnapshot[]> {
+    try {
+      const { chainId } = this.blockchain.network;
+      const params: any[] = [chainId];
+      const conditions = ['chain_id = $1'];
+
+      if (filters.from) {
+        params.push(filters.from);
+        conditions.push(`snapshot_date >= $${params.length}`);
+      }
+      if (filters.to) {
+        params.push(filters.to);
+        conditions.push(`snapshot_date <= $${params.length}`);
+      }
+      params.push(filters.limit ?? 90);
+
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM (
+           SELECT ${SNAPSHOT_COLUMNS} FROM staking_snapshots
+           WHERE ${conditions.join(' AND ')}
+           ORDER BY snapshot_date DESC
+           LIMIT $${params.length}
+         ) latest
+         ORDER BY snapshot_date`,
+        params
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error listing staking snapshots:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a wallet's indexed position, the staking attributes of its NFTs and its ETH-day points
+   */
+  async getUserReport(walletAddress: string, recentLimit: number = 20): Promise<StakingReport> {
+    try {
+      const { chainId } = this.blockchain.network;
+      const wallet = walletAddress.toLowerCase();
+
+      const [position, nfts, totals, recent] = await Promise.all([
+        DatabaseHelpers.executeQuery(
+          `SELECT staked_amount, total_staked, total_unstaked, last_stake_at, updated_at
+           FROM staking_positions
+           WHERE chain_id = $1 AND wallet_address = $2`,
+          [chainId, wallet]
+        ),
+        DatabaseHelpers.executeQuery(
+          `SELECT ln.token_id, na.staked_eth, na.staked_since, na.staking_days, na.eth_days, na.eth_days_awarded, na.staking_synced_at
+           FROM loyalty_nfts ln
+           JOIN nft_attributes na ON na.chain_id = ln.chain_id AND na.nft_token_id = ln.token_id
+           WHERE ln.chain_id = $1 AND ln.owner_wallet_address = $2
+           ORDER BY ln.token_id`,
+          [chainId, wallet]
+        ),
+        DatabaseHelpers.executeQuery(
+          `SELECT COALESCE(SUM(points_earned), 0)::int AS points,
+                  COALESCE(SUM((action_details->>'ethDays')::numeric), 0)::text AS eth_days
+           FROM user_actions
+           WHERE user_wallet_address = $1 AND action_type = $2`,
+          [wallet, STAKING_ACTION_TYPE]
+        ),
+        DatabaseHelpers.executeQuery(
+          `SELECT action_id, points_earned, action_details, action_timestamp
+           FROM user_actions
+           WHERE user_wallet_address = $1 AND action_type = $2
+           ORDER BY action_timestamp DESC, action_id DESC
+           LIMIT $3`,
+          [wallet, STAKING_ACTION_TYPE, recentLimit]
+        )
+      ]);
+
+      return {
+        chainId,
+        position: position.rows[0] || null,
+        nfts: nfts.rows,
+        rewards: {
+          totalPoints: totals.rows[0].points,
+          totalEthDays: totals.rows[0].eth_days,
+          recent: recent.rows
+        }
+      };
+    } catch (error) {
+      console.error('Error getting staking report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync periodically
+   */
+  start(): void {
+    if (this.timer || this.running) {
+      return;
+    }
+    this.stopping = false;
+    console.log(`🥩 Staking sync started on ${this.blockchain.network.name} (every ${Math.round(this.settings.syncIntervalMs / 1000)}s)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Take the daily snapshot when today has none, checked every snapshotIntervalMs
+   * A snapshot only reads the contract, so this runs whether or not the indexer does.
+   */
+  startSnapshots(): void {
+    if (this.snapshotTimer) {
+      return;
+    }
+    console.log(`📸 Staking snapshots started on ${this.blockchain.network.name} (checked every ${Math.round(this.settings.snapshotIntervalMs / 1000)}s)`);
+    // Logged by takeSnapshot; the next check retries
+    const check = () => this.ensureDailySnapshot().catch(() => undefined);
+    check();
+    this.snapshotTimer = setInterval(check, this.settings.snapshotIntervalMs);
+    this.snapshotTimer.unref();
+  }
+
+  /**
+   * Stop syncing and snapshots, and wait for the sync in progress
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.running = this.sync()
+        .then(result => {
+          if (result.pointsAwarded > 0) {
+            console.log(`🥩 Staking sync on ${this.blockchain.network.name}: ${result.nfts} NFT(s), ${result.pointsAwarded} point(s) awarded`);
+          }
+        })
+        .catch(error => console.error('Staking sync error:', error))
+        .finally(() => {
+          this.running = null;
+          if (!this.stopping) {
+            this.schedule(this.settings.syncIntervalMs);
+          }
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async ensureDailySnapshot(): Promise<void> {
+    const existing = await DatabaseHelpers.executeQuery(
+      `SELECT 1 FROM staking_snapshots WHERE chain_id = $1 AND snapshot_date = (NOW() AT TIME ZONE 'UTC')::date`,
+      [this.blockchain.network.chainId]
+    );
+    if (existing.rows.length === 0) {
+      const snapshot = await this.takeSnapshot();
+      console.log(`📸 Staking snapshot of ${this.blockchain.network.name} for ${snapshot.snapshot_date}: ${snapshot.total_eth} ETH, ${snapshot.total_nfts} NFT(s)`);
+    }
+  }
+
+  /**
+   * Award an NFT's pending ETH-days under the eth_staking rule, recorded as a user action
+   * Only whole units of the rule are used; the rest carries over to the next sync.
+   */
+  private async awardPoints(client: any, chainId: number, tokenId: number, walletAddress: string, ethDays: number): Promise<number> {
+    const award = await pointsService.calculatePoints(client, walletAddress, STAKING_ACTION_TYPE, null, {
+      amount: ethDays,
+      currency: 'ETH'
+    });
+    if (award.amountUsed === 0) {
+      return 0;
+    }
+
+    await client.query(
+      `INSERT INTO user_actions (
+         user_wallet_address, action_type, action_details, brand_id,
+         points_earned, points_rule_id, processed, processed_at
+       )
+       VALUES ($1, $2, $3, NULL, $4, $5, true, CURRENT_TIMESTAMP)`,
+      [
+        walletAddress,
+        STAKING_ACTION_TYPE,
+        JSON.stringify({ tokenId, chainId, ethDays: award.amountUsed, capped: award.capped }),
+        award.points,
+        award.ruleId
+      ]
+    );
+    // The level trigger recalculates loyalty_level and status_tier
+    await client.query(
+      `UPDATE nft_attributes
+       SET loyalty_points = loyalty_points + $3, eth_days_awarded = eth_days_awarded + $4
+       WHERE chain_id = $1 AND nft_token_id = $2`,
+      [chainId, tokenId, award.points, award.amountUsed]
+    );
+    return award.points;
+  }
+}
+
+// One service per enabled network profile
+const services = new Map<string, StakingService>(
+  getBlockchainServices().map(blockchain => [blockchain.network.name, new StakingService(blockchain)])
+);
+
+/**
+ * Get the staking service for a named network, or the default network's
+ */
+export function getStakingService(network: string = config.blockchain.defaultNetwork): StakingService {
+  const service = services.get(network);
+  if (!service) {
+    throw new UnknownNetworkError(`Unknown network ${network}. Enabled networks: ${[...services.keys()].join(', ')}`);
+  }
+  return service;
+}
+
+/**
+ * Get every enabled network's staking service
+ */
+export function getStakingServices(): StakingService[] {
+  return [...services.values()];
+}
+
+// Export the default network's service
+export const stakingService = getStakingService();
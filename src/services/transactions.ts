@@ -0,0 +1,465 @@
+import { ethers } from 'ethers';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+
+export type SignerTransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped';
+
+export const SIGNER_TRANSACTION_STATUSES: SignerTransactionStatus[] = ['pending', 'confirmed', 'reverted', 'dropped'];
+
+export interface SignerTransaction {
+  tx_id: number;
+  chain_id: number;
+  signer_address: string;
+  nonce: number;
+  purpose: string;
+  job_id: number | null;
+  to_address: string;
+  data: string;
+  // Wei amounts come back from NUMERIC columns as strings
+  value: string;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string | null;
+  transaction_hash: string;
+  previous_hashes: string[];
+  replacements: number;
+  sent_block: number;
+  status: SignerTransactionStatus;
+  mined_hash: string | null;
+  block_number: number | null;
+  gas_used: string | null;
+  effective_gas_price: string | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  confirmed_at: Date | null;
+}
+
+/**
+ * Transaction that reverted, or whose nonce was taken by a transaction the backend did not send
+ */
+export class TransactionFailedError extends Error {
+  constructor(public readonly transactionHash: string, public readonly reason: 'reverted' | 'dropped') {
+    super(reason === 'reverted'
+      ? `Transaction ${transactionHash} reverted`
+      : `Transaction ${transactionHash} was dropped: its nonce was used by another transaction`);
+    this.name = 'TransactionFailedError';
+  }
+}
+
+// Legacy transactions have no priority fee; their gas price is kept in maxFeePerGas
+interface Fees {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber | null;
+}
+
+// Headroom over the gas estimate, since state can change before the transaction is mined
+const GAS_LIMIT_MARGIN_PERCENT = 120;
+
+// Nodes only accept a replacement that raises every fee by at least this much
+const MIN_REPLACEMENT_BUMP_PERCENT = 110;
+
+const FEE_CAP_MESSAGE = 'Stuck at the fee cap; raise TX_MAX_FEE_PER_GAS_GWEI to replace it';
+
+const minBigNumber = (...values: ethers.BigNumber[]): ethers.BigNumber =>
+  values.reduce((min, value) => (value.lt(min) ? value : min));
+
+const maxBigNumber = (...values: ethers.BigNumber[]): ethers.BigNumber =>
+  values.reduce((max, value) => (value.gt(max) ? value : max));
+
+const percentOf = (value: ethers.BigNumber, percent: number): ethers.BigNumber =>
+  value.mul(percent).div(100);
+
+/**
+ * Transaction manager: sends every transaction for one signer with coordinated nonces
+ * Nonces are allocated under an advisory lock and each transaction is recorded in signer_transactions.
+ * Transactions still pending after stuckAfterBlocks blocks are re-sent with the same nonce and higher
+ * fees; waiting by hash follows those replacements.
+ */
+export class TransactionManager {
+  private identity: { chainId: number; address: string } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(private signer: ethers.Signer, private settings = config.transactions) {}
+
+  private get provider(): ethers.providers.Provider {
+    return this.signer.provider!;
+  }
+
+  /**
+   * Send a transaction and record it before returning its hash
+   * The nonce lock is held until the row is written, so concurrent sends never share a nonce.
+   */
+  async send(purpose: string, request: ethers.PopulatedTransaction, jobId: number | null = null): Promise<string> {
+    const { chainId, address } = await this.getIdentity();
+
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`signer_nonce:${chainId}:${address}`]);
+
+        const nonce = await this.nextNonce(client, chainId, address);
+        const value = ethers.BigNumber.from(request.value || 0);
+        const gasLimit = request.gasLimit
+          || percentOf(await this.provider.estimateGas({ ...request, from: address }), GAS_LIMIT_MARGIN_PERCENT);
+        const fees = await this.estimateFees();
+        const sentBlock = await this.provider.getBlockNumber();
+
+        const tx = await this.signer.sendTransaction(
+          this.buildRequest(chainId, { to: request.to!, data: request.data || '0x', value, nonce, gasLimit }, fees)
+        );
+
+        await client.query(
+          `INSERT INTO signer_transactions (
+             chain_id, signer_address, nonce, purpose, job_id, to_address, data, value, gas_limit,
+             max_fee_per_gas, max_priority_fee_per_gas, transaction_hash, sent_block
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+          [
+            chainId, address, nonce, purpose, jobId, request.to!.toLowerCase(), request.data || '0x',
+            value.toString(), gasLimit.toString(), fees.maxFeePerGas.toString(),
+            fees.maxPriorityFeePerGas?.toString() ?? null, tx.hash, sentBlock
+          ]
+        );
+
+        console.log(`📤 ${purpose} transaction sent: ${tx.hash} (nonce ${nonce})`);
+        return tx.hash;
+      });
+    } catch (error) {
+      console.error('Error sending transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait until the transaction, or a replacement of it, is mined
+   * Throws TransactionFailedError when it reverted or was dropped, or a timeout error when it is still pending.
+   */
+  async waitForTransaction(transactionHash: string, timeoutMs: number = 120000): Promise<ethers.providers.TransactionReceipt> {
+    const tracked = await this.findByHash(transactionHash);
+
+    if (!tracked) {
+      // Sent before transactions were recorded, so it cannot have been replaced
+      const receipt = await this.provider.waitForTransaction(transactionHash, 1, timeoutMs);
+      if (receipt.status === 0) {
+        throw new TransactionFailedError(transactionHash, 'reverted');
+      }
+      return receipt;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const row = await this.refresh(tracked.tx_id);
+
+      if (row.status === 'confirmed') {
+        return await this.provider.getTransactionReceipt(row.mined_hash!);
+      }
+      if (row.status === 'reverted' || row.status === 'dropped') {
+        throw new TransactionFailedError(row.mined_hash || row.transaction_hash, row.status);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`Timed out waiting for transaction ${row.transaction_hash} (nonce ${row.nonce})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(this.settings.pollIntervalMs, remaining)));
+    }
+  }
+
+  /**
+   * Check a pending transaction: record it once mined, or replace it when stuck
+   * Rows another process is checking are returned as they are.
+   */
+  async refresh(txId: number): Promise<SignerTransaction> {
+    return await DatabaseHelpers.executeTransaction(async (client) => {
+      const locked = await client.query('SELECT * FROM signer_transactions WHERE tx_id = $1 FOR UPDATE SKIP LOCKED', [txId]);
+      if (locked.rows.length === 0) {
+        const current = await client.query('SELECT * FROM signer_transactions WHERE tx_id = $1', [txId]);
+        if (current.rows.length === 0) {
+          throw new Error(`Signer transaction ${txId} not found`);
+        }
+        return current.rows[0];
+      }
+
+      const row: SignerTransaction = locked.rows[0];
+      if (row.status !== 'pending') {
+        return row;
+      }
+
+      // Read the mined nonce before the receipts, so a transaction mined in between is not taken for a foreign one
+      const minedNonce = await this.provider.getTransactionCount(row.signer_address, 'latest');
+
+      // Any earlier broadcast may be the one that gets mined
+      for (const hash of [row.transaction_hash, ...row.previous_hashes]) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt && receipt.blockNumber) {
+          const result = await client.query(
+            `UPDATE signer_transactions
+             SET status = $2, mined_hash = $3, block_number = $4, gas_used = $5, effective_gas_price = $6,
+                 confirmed_at = NOW(), last_error = NULL
+             WHERE tx_id = $1
+             RETURNING *`,
+            [
+              row.tx_id, receipt.status === 0 ? 'reverted' : 'confirmed', receipt.transactionHash, receipt.blockNumber,
+              receipt.gasUsed.toString(), receipt.effectiveGasPrice?.toString() ?? null
+            ]
+          );
+          return result.rows[0];
+        }
+      }
+
+      if (minedNonce > row.nonce) {
+        console.warn(`⚠️ Nonce ${row.nonce} of ${row.signer_address} was used by another transaction; ${row.transaction_hash} dropped`);
+        const result = await client.query(
+          `UPDATE signer_transactions SET status = 'dropped', last_error = $2 WHERE tx_id = $1 RETURNING *`,
+          [row.tx_id, 'Nonce was used by a transaction this backend did not send']
+        );
+        return result.rows[0];
+      }
+
+      const blockNumber = await this.provider.getBlockNumber();
+      if (blockNumber - row.sent_block >= this.settings.stuckAfterBlocks) {
+        return await this.replace(client, row, blockNumber);
+      }
+      return row;
+    });
+  }
+
+  /**
+   * Find a transaction by its current or a replaced hash
+   */
+  async findByHash(transactionHash: string): Promise<SignerTransaction | null> {
+    const result = await DatabaseHelpers.executeQuery(
+      `SELECT * FROM signer_transactions
+       WHERE transaction_hash = $1 OR $1 = ANY(previous_hashes)
+       ORDER BY tx_id DESC
+       LIMIT 1`,
+      [transactionHash.toLowerCase()]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List recorded transactions, pending ones by nonce and the rest newest first
+   */
+  async listTransactions(filters: { status?: string; limit?: number } = {}): Promise<SignerTransaction[]> {
+    try {
+      const { chainId } = await this.getIdentity();
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT * FROM signer_transactions
+         WHERE chain_id = $1 AND ($2::varchar IS NULL OR status = $2)
+         ORDER BY (status = 'pending') DESC,
+                  CASE WHEN status = 'pending' THEN nonce END,
+                  tx_id DESC
+         LIMIT $3`,
+        [chainId, filters.status || null, filters.limit || 50]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error listing signer transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the chain head and the signer's nonces as the network sees them
+   */
+  async getChainState(): Promise<{ chainId: number; signerAddress: string; blockNumber: number; minedNonce: number; pendingNonce: number }> {
+    const { chainId, address } = await this.getIdentity();
+    const [blockNumber, minedNonce, pendingNonce] = await Promise.all([
+      this.provider.getBlockNumber(),
+      this.provider.getTransactionCount(address, 'latest'),
+      this.provider.getTransactionCount(address, 'pending')
+    ]);
+    return { chainId, signerAddress: address, blockNumber, minedNonce, pendingNonce };
+  }
+
+  /**
+   * Check pending transactions periodically, including ones nothing is waiting for
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`⛽ Transaction monitor started (replacing after ${this.settings.stuckAfterBlocks} blocks)`);
+    this.timer = setInterval(() => {
+      this.checkPending().catch(error => console.error('Transaction monitor error:', error));
+    }, this.settings.monitorIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh every pending transaction of this signer
+   */
+  async checkPending(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+    try {
+      const { chainId, address } = await this.getIdentity();
+      const pending = await DatabaseHelpers.executeQuery(
+        `SELECT tx_id FROM signer_transactions
+         WHERE chain_id = $1 AND signer_address = $2 AND status = 'pending'
+         ORDER BY nonce`,
+        [chainId, address]
+      );
+      for (const row of pending.rows) {
+        await this.refresh(row.tx_id);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Next nonce: the network's pending count, or one past the last recorded nonce when that is ahead
+   * The recorded nonce covers transactions the RPC node has not seen yet.
+   */
+  private async nextNonce(client: any, chainId: number, address: string): Promise<number> {
+    const recorded = await client.query(
+      'SELECT MAX(nonce) AS nonce FROM signer_transactions WHERE chain_id = $1 AND signer_address = $2',
+      [chainId, address]
+    );
+    const networkNonce = await this.provider.getTransactionCount(address, 'pending');
+    const lastNonce = recorded.rows[0].nonce;
+    return lastNonce === null ? networkNonce : Math.max(networkNonce, lastNonce + 1);
+  }
+
+  /**
+   * Current network fees, limited by the configured caps
+   */
+  private async estimateFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    const maxFeeCap = ethers.utils.parseUnits(this.settings.maxFeePerGasGwei, 'gwei');
+    const priorityFeeCap = ethers.utils.parseUnits(this.settings.maxPriorityFeePerGasGwei, 'gwei');
+
+    if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+      const maxFeePerGas = minBigNumber(feeData.maxFeePerGas, maxFeeCap);
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas: minBigNumber(feeData.maxPriorityFeePerGas, priorityFeeCap, maxFeePerGas)
+      };
+    }
+
+    if (!feeData.gasPrice) {
+      throw new Error('Provider returned no fee data');
+    }
+    return { maxFeePerGas: minBigNumber(feeData.gasPrice, maxFeeCap), maxPriorityFeePerGas: null };
+  }
+
+  /**
+   * Fees for a replacement: the bumped old fees or the current market, whichever is higher, within the caps
+   * Returns null when the caps leave no room for a bump the network would accept.
+   */
+  private async replacementFees(current: Fees): Promise<Fees | null> {
+    const market = await this.estimateFees();
+    const maxFeeCap = ethers.utils.parseUnits(this.settings.maxFeePerGasGwei, 'gwei');
+    const priorityFeeCap = ethers.utils.parseUnits(this.settings.maxPriorityFeePerGasGwei, 'gwei');
+
+    const maxFeePerGas = minBigNumber(
+      maxBigNumber(percentOf(current.maxFeePerGas, 100 + this.settings.feeBumpPercent), market.maxFeePerGas),
+      maxFeeCap
+    );
+    if (maxFeePerGas.lt(percentOf(current.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT))) {
+      return null;
+    }
+    if (!current.maxPriorityFeePerGas) {
+      return { maxFeePerGas, maxPriorityFeePerGas: null };
+    }
+
+    const maxPriorityFeePerGas = minBigNumber(
+      maxBigNumber(
+        percentOf(current.maxPriorityFeePerGas, 100 + this.settings.feeBumpPercent),
+        market.maxPriorityFeePerGas || current.maxPriorityFeePerGas
+      ),
+      priorityFeeCap,
+      maxFeePerGas
+    );
+    if (maxPriorityFeePerGas.lt(percentOf(current.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT))) {
+      return null;
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Re-send a stuck transaction with the same nonce and higher fees
+   * Send errors are recorded rather than thrown; "nonce too low" usually means the old one was just mined.
+   */
+  private async replace(client: any, row: SignerTransaction, blockNumber: number): Promise<SignerTransaction> {
+    const fees = await this.replacementFees({
+      maxFeePerGas: ethers.BigNumber.from(row.max_fee_per_gas),
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas ? ethers.BigNumber.from(row.max_priority_fee_per_gas) : null
+    });
+
+    let lastError: string;
+    if (!fees) {
+      if (row.last_error !== FEE_CAP_MESSAGE) {
+        console.warn(`⚠️ Transaction ${row.transaction_hash} (nonce ${row.nonce}) is stuck at the fee cap`);
+      }
+      lastError = FEE_CAP_MESSAGE;
+    } else {
+      try {
+        const tx = await this.signer.sendTransaction(this.buildRequest(row.chain_id, {
+          to: row.to_address,
+          data: row.data,
+          value: ethers.BigNumber.from(row.value),
+          nonce: row.nonce,
+          gasLimit: ethers.BigNumber.from(row.gas_limit)
+        }, fees));
+
+        const result = await client.query(
+          `UPDATE signer_transactions
+           SET previous_hashes = array_append(previous_hashes, transaction_hash), transaction_hash = $2,
+               replacements = replacements + 1, sent_block = $3, max_fee_per_gas = $4,
+               max_priority_fee_per_gas = $5, last_error = NULL
+           WHERE tx_id = $1
+           RETURNING *`,
+          [row.tx_id, tx.hash, blockNumber, fees.maxFeePerGas.toString(), fees.maxPriorityFeePerGas?.toString() ?? null]
+        );
+        console.log(
+          `⏫ Replaced stuck ${row.purpose} transaction ${row.transaction_hash} with ${tx.hash} ` +
+          `(nonce ${row.nonce}, max fee ${ethers.utils.formatUnits(fees.maxFeePerGas, 'gwei')} gwei)`
+        );
+        return result.rows[0];
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Error replacing transaction ${row.transaction_hash}:`, lastError);
+      }
+    }
+
+    const result = await client.query(
+      'UPDATE signer_transactions SET last_error = $2 WHERE tx_id = $1 RETURNING *',
+      [row.tx_id, lastError]
+    );
+    return result.rows[0];
+  }
+
+  private buildRequest(
+    chainId: number,
+    tx: { to: string; data: string; value: ethers.BigNumber; nonce: number; gasLimit: ethers.BigNumber },
+    fees: Fees
+  ): ethers.providers.TransactionRequest {
+    return {
+      ...tx,
+      chainId,
+      ...(fees.maxPriorityFeePerGas
+        ? { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+        : { type: 0, gasPrice: fees.maxFeePerGas })
+    };
+  }
+
+  private async getIdentity(): Promise<{ chainId: number; address: string }> {
+    if (!this.identity) {
+      const [network, address] = await Promise.all([this.provider.getNetwork(), this.signer.getAddress()]);
+      this.identity = { chainId: network.chainId, address: address.toLowerCase() };
+    }
+    return this.identity;
+  }
+}
@@ -0,0 +1,260 @@
+import { BANK_TIER_HIERARCHY, STATUS_TIER_HIERARCHY, NFT_CONFIG } from '../config/nft-levels';
+
+export const UNLOCK_TYPES = [
+  'loyalty_level', 'loyalty_points', 'flights_taken',
+  'bank_tier', 'resorts_visited', 'total_spending',
+  'miles_earned', 'status_tier', 'staked_eth',
+  'staking_days', 'eth_days', 'combined'
+];
+
+/**
+ * Unlock condition tree stored as JSON in unlock_threshold for 'combined' perks
+ * e.g. {"all":[{"flights_taken":5},{"any":[{"bank_tier":"Gold"},{"loyalty_points":5000}]}]}
+ */
+export type UnlockCondition =
+  | { all: UnlockCondition[] }
+  | { any: UnlockCondition[] }
+  | { [unlockType: string]: string | number };
+
+/**
+ * NFT attributes a condition is checked against (columns of nft_attributes)
+ */
+export interface UnlockAttributes {
+  loyalty_level: number;
+  loyalty_points: number;
+  flights_taken: number;
+  bank_tier: string;
+  resorts_visited: number;
+  total_spending: number | string;
+  miles_earned: number;
+  status_tier: string;
+  staked_eth: number | string;
+  staking_days: number;
+  eth_days: number | string;
+}
+
+export interface UnmetRequirement {
+  type: string;
+  required?: string | number;
+  current?: string | number;
+  // How much is missing, for numeric requirements
+  remaining?: number;
+  message: string;
+  // For 'any' groups: the unmet requirements of each alternative
+  options?: UnmetRequirement[][];
+}
+
+export interface UnlockResult {
+  unlocked: boolean;
+  unmet: UnmetRequirement[];
+}
+
+/**
+ * Malformed unlock type or threshold (reported as 400)
+ */
+export class UnlockConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnlockConditionError';
+  }
+}
+
+// Singular and plural labels for "3 more flights"
+const COUNT_LABELS: { [type: string]: [string, string] } = {
+  loyalty_points: ['loyalty point', 'loyalty points'],
+  flights_taken: ['flight', 'flights'],
+  resorts_visited: ['resort visit', 'resort visits'],
+  miles_earned: ['mile', 'miles'],
+  staking_days: ['day staked', 'days staked'],
+  eth_days: ['ETH-day staked', 'ETH-days staked']
+};
+
+const RANKED_TYPES: { [type: string]: string[] } = {
+  bank_tier: BANK_TIER_HIERARCHY,
+  status_tier: STATUS_TIER_HIERARCHY
+};
+
+const MAX_CONDITION_DEPTH = 4;
+
+/**
+ * Unlock service: parses and evaluates perk unlock_type/unlock_threshold
+ */
+export class UnlockService {
+
+  /**
+   * Validate a threshold for an unlock type and return the string to store
+   * Combined conditions may be passed as an object or a JSON string.
+   */
+  normalizeThreshold(unlockType: string, threshold: any): string {
+    if (!UNLOCK_TYPES.includes(unlockType)) {
+      throw new UnlockConditionError(`Invalid unlock type. Valid types: ${UNLOCK_TYPES.join(', ')}`);
+    }
+
+    if (unlockType === 'combined') {
+      const condition = this.normalizeNode(typeof threshold === 'string' ? this.parseJson(threshold) : threshold, 1);
+      if (!('all' in condition) && !('any' in condition)) {
+        throw new UnlockConditionError('Combined conditions must have "all" or "any" at the top level');
+      }
+      return JSON.stringify(condition);
+    }
+
+    if (threshold === null || threshold === undefined || typeof threshold === 'object') {
+      throw new UnlockConditionError(`Unlock threshold for ${unlockType} must be a single value`);
+    }
+    this.normalizeLeaf(unlockType, threshold);
+    return String(threshold).trim();
+  }
+
+  /**
+   * Evaluate a perk's unlock condition against NFT attributes
+   * Wallets without an NFT have every perk locked.
+   */
+  evaluate(perk: { perk_id?: number; unlock_type: string; unlock_threshold: string }, attributes: UnlockAttributes | null): UnlockResult {
+    if (!attributes) {
+      return {
+        unlocked: false,
+        unmet: [{ type: 'loyalty_nft', required: 1, current: 0, remaining: 1, message: 'Mint a loyalty NFT' }]
+      };
+    }
+
+    let condition: UnlockCondition;
+    try {
+      condition = this.parseCondition(perk.unlock_type, perk.unlock_threshold);
+    } catch (error) {
+      console.error(`Invalid unlock condition on perk ${perk.perk_id}:`, error);
+      return {
+        unlocked: false,
+        unmet: [{ type: perk.unlock_type, message: 'This perk has an invalid unlock condition' }]
+      };
+    }
+
+    const unmet = this.evaluateNode(condition, attributes);
+    return { unlocked: unmet.length === 0, unmet };
+  }
+
+  /**
+   * Turn a stored unlock_type/unlock_threshold pair into a condition tree
+   */
+  parseCondition(unlockType: string, threshold: string): UnlockCondition {
+    const normalized = this.normalizeThreshold(unlockType, threshold);
+    return unlockType === 'combined' ? JSON.parse(normalized) : { [unlockType]: normalized };
+  }
+
+  private evaluateNode(node: UnlockCondition, attributes: UnlockAttributes): UnmetRequirement[] {
+    if ('all' in node && Array.isArray(node.all)) {
+      return node.all.flatMap(child => this.evaluateNode(child, attributes));
+    }
+
+    if ('any' in node && Array.isArray(node.any)) {
+      const options = node.any.map(child => this.evaluateNode(child, attributes));
+      if (options.some(option => option.length === 0)) {
+        return [];
+      }
+      return [{
+        type: 'any',
+        message: `One of: ${options.map(option => option.map(u => u.message).join(' and ')).join(' or ')}`,
+        options
+      }];
+    }
+
+    const [type, threshold] = Object.entries(node)[0];
+    const unmet = this.evaluateLeaf(type, threshold as string | number, attributes);
+    return unmet ? [unmet] : [];
+  }
+
+  private evaluateLeaf(type: string, threshold: string | number, attributes: UnlockAttributes): UnmetRequirement | null {
+    if (RANKED_TYPES[type]) {
+      const ranks = RANKED_TYPES[type];
+      const current = attributes[type as keyof UnlockAttributes] as string;
+      if (ranks.indexOf(current) >= ranks.indexOf(String(threshold))) {
+        return null;
+      }
+      const label = type === 'bank_tier' ? 'Bank tier' : 'Status tier';
+      return { type, required: String(threshold), current, message: `${label} ${threshold} or higher` };
+    }
+
+    const required = Number(threshold);
+    const current = Number(attributes[type as keyof UnlockAttributes] ?? 0);
+    if (current >= required) {
+      return null;
+    }
+
+    const remaining = required - current;
+    let message: string;
+    if (type === 'loyalty_level') {
+      message = `Reach loyalty level ${required}`;
+    } else if (type === 'total_spending') {
+      message = `${remaining.toLocaleString('en-US')} VND more spending`;
+    } else if (type === 'staked_eth') {
+      message = `Stake ${remaining.toLocaleString('en-US', { maximumFractionDigits: 6 })} more ETH`;
+    } else {
+      const [singular, plural] = COUNT_LABELS[type];
+      message = `${remaining.toLocaleString('en-US')} more ${remaining === 1 ? singular : plural}`;
+    }
+
+    return { type, required, current, remaining, message };
+  }
+
+  /**
+   * Validate a condition tree and return a copy with trimmed tiers and numeric thresholds
+   */
+  private normalizeNode(node: any, depth: number): UnlockCondition {
+    if (depth > MAX_CONDITION_DEPTH) {
+      throw new UnlockConditionError(`Combined conditions can be nested at most ${MAX_CONDITION_DEPTH} levels deep`);
+    }
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw new UnlockConditionError('Each condition must be an object');
+    }
+
+    const keys = Object.keys(node);
+    if (keys.length !== 1) {
+      throw new UnlockConditionError('Each condition must have exactly one key: "all", "any" or an unlock type');
+    }
+
+    const [key] = keys;
+    if (key === 'all' || key === 'any') {
+      if (!Array.isArray(node[key]) || node[key].length === 0) {
+        throw new UnlockConditionError(`"${key}" must be a non-empty array of conditions`);
+      }
+      return { [key]: node[key].map((child: any) => this.normalizeNode(child, depth + 1)) } as UnlockCondition;
+    }
+
+    if (key === 'combined' || !UNLOCK_TYPES.includes(key)) {
+      throw new UnlockConditionError(`Unknown condition "${key}"`);
+    }
+    return { [key]: this.normalizeLeaf(key, node[key]) };
+  }
+
+  /**
+   * Validate a single threshold and return it as the tier name or number it is compared as
+   */
+  private normalizeLeaf(type: string, threshold: any): string | number {
+    if (RANKED_TYPES[type]) {
+      const tier = String(threshold).trim();
+      if (!RANKED_TYPES[type].includes(tier)) {
+        throw new UnlockConditionError(`${type} threshold must be one of: ${RANKED_TYPES[type].join(', ')}`);
+      }
+      return tier;
+    }
+
+    const value = typeof threshold === 'string' && threshold.trim() !== '' ? Number(threshold) : threshold;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new UnlockConditionError(`${type} threshold must be a non-negative number`);
+    }
+    if (type === 'loyalty_level' && (!Number.isInteger(value) || value > NFT_CONFIG.MAX_LEVEL)) {
+      throw new UnlockConditionError(`loyalty_level threshold must be an integer from 0 to ${NFT_CONFIG.MAX_LEVEL}`);
+    }
+    return value;
+  }
+
+  private parseJson(value: string): any {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new UnlockConditionError('Combined unlock threshold must be valid JSON');
+    }
+  }
+}
+
+// Export singleton instance
+export const unlockService = new UnlockService();
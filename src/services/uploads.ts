@@ -0,0 +1,514 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AppConfig, config } from '../config';
+import { DatabaseHelpers } from '../database';
+import { getIpfsProvider } from './ipfs-providers';
+import { IpfsMediaUpload, IpfsService, IpfsUploadLimitError, limitBytes } from './ipfs';
+import { detectMediaType, MediaPipelineError } from './image-pipeline';
+
+export type UploadSessionStatus = 'uploading' | 'completing' | 'completed' | 'aborted' | 'expired' | 'failed';
+
+export interface UploadSession {
+  upload_id: string;
+  owner: string;
+  file_name: string;
+  pin_name: string | null;
+  pin_metadata: Record<string, any> | null;
+  size_bytes: string; // BIGINT
+  received_bytes: string; // BIGINT
+  content_type: string | null;
+  status: UploadSessionStatus;
+  cid: string | null;
+  error_message: string | null;
+  created_at: Date;
+  updated_at: Date;
+  expires_at: Date;
+}
+
+export interface NewUploadSession {
+  owner: string;
+  fileName: string;
+  sizeBytes: number;
+  name?: string | null;
+  metadata?: Record<string, any> | null;
+  // Admins upload without a quota
+  enforceQuota: boolean;
+}
+
+export interface QuotaReservation {
+  owner: string;
+  sizeBytes: number;
+  // Reserve what is left when that is less than sizeBytes, instead of refusing
+  partial?: boolean;
+  // Admins upload without a quota
+  enforceQuota: boolean;
+}
+
+export interface UploadQuota {
+  // null when uploads are unlimited
+  limitBytes: number | null;
+  // Content pinned by the owner and not unpinned
+  usedBytes: number;
+  // Declared sizes of the owner's sessions in progress and bytes held by uploads being pinned
+  reservedBytes: number;
+  remainingBytes: number | null;
+}
+
+export interface UploadSweepReport {
+  expired: string[];
+  // Completions interrupted by a crash, open for another attempt
+  reset: string[];
+  removedFiles: string[];
+}
+
+/**
+ * Rejected upload session operation, with the HTTP status to report
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly offset?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const ACTIVE_STATUSES: UploadSessionStatus[] = ['uploading', 'completing'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Files younger than this are left alone, so an upload written by another instance is not swept mid-request
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+// A completion claimed longer ago than this was interrupted, so the session can be completed again
+const STALE_COMPLETION_MS = 60 * 60 * 1000;
+// A single-request upload still holding its reservation after this has crashed
+const RESERVATION_TTL_MS = 60 * 60 * 1000;
+const SNIFF_BYTES = 4096;
+
+/**
+ * Upload service: per-owner quotas, resumable upload sessions, and the sweeper for their files
+ * A session's bytes are written to <uploadDir>/<upload_id>.part at the offsets the client sends, so a
+ * retried chunk overwrites rather than duplicates. Once every byte has arrived the file is streamed
+ * through the media pipeline to IPFS and deleted. The sweeper expires idle sessions and removes
+ * files no active session owns, including ones left by a crash, and reopens completions a crash interrupted.
+ */
+export class UploadService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+  // Sessions with a chunk being written by this process
+  private readonly writing = new Set<string>();
+
+  constructor(private readonly settings: AppConfig['ipfs'] = config.ipfs) {}
+
+  /**
+   * What an owner has stored and may still upload
+   * Pass a transaction client holding the owner's quota lock to read it for a reservation.
+   */
+  async getQuota(owner: string, client?: any): Promise<UploadQuota> {
+    const query = `
+      SELECT
+        (SELECT COALESCE(SUM(size_bytes), 0) FROM ipfs_pins
+         WHERE owner = $1 AND provider = $2 AND unpinned_at IS NULL) AS used_bytes,
+        (SELECT COALESCE(SUM(size_bytes), 0) FROM ipfs_upload_sessions
+         WHERE owner = $1 AND status = ANY($3))
+        + (SELECT COALESCE(SUM(size_bytes), 0) FROM ipfs_upload_reservations
+           WHERE owner = $1 AND expires_at > NOW()) AS reserved_bytes
+    `;
+    const params = [owner.toLowerCase(), getIpfsProvider().name, ACTIVE_STATUSES];
+
+    try {
+      const result = client
+        ? await client.query(query, params)
+        : await DatabaseHelpers.executeQuery(query, params);
+      const usedBytes = Number(result.rows[0].used_bytes);
+      const reservedBytes = Number(result.rows[0].reserved_bytes);
+      const limitBytes = this.settings.userQuotaMb > 0 ? this.settings.userQuotaMb * 1024 * 1024 : null;
+      return {
+        limitBytes,
+        usedBytes,
+        reservedBytes,
+        remainingBytes: limitBytes === null ? null : Math.max(limitBytes - usedBytes - reservedBytes, 0)
+      };
+    } catch (error) {
+      console.error('Error getting upload quota:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a resumable upload, reserving its size against the owner's quota
+   */
+  async createSession(session: NewUploadSession): Promise<UploadSession> {
+    const maxBytes = this.settings.maxResumableUploadMb * 1024 * 1024;
+    if (!Number.isSafeInteger(session.sizeBytes) || session.sizeBytes <= 0) {
+      throw new UploadError('size must be a positive number of bytes');
+    }
+    if (session.sizeBytes > maxBytes) {
+      throw new IpfsUploadLimitError(maxBytes, `Uploads are limited to ${maxBytes} bytes`);
+    }
+
+    try {
+      // Checked and inserted under the owner's quota lock, so concurrent sessions cannot overrun it
+      const created: UploadSession = await DatabaseHelpers.executeTransaction(async (client) => {
+        if (session.enforceQuota) {
+          const quota = await this.lockQuota(client, session.owner);
+          if (quota.remainingBytes !== null && session.sizeBytes > quota.remainingBytes) {
+            throw new IpfsUploadLimitError(quota.remainingBytes, `Upload quota exceeded: ${quota.remainingBytes} of ${quota.limitBytes} bytes left`);
+          }
+        }
+        const result = await client.query(
+          `INSERT INTO ipfs_upload_sessions (owner, file_name, pin_name, pin_metadata, size_bytes, expires_at)
+           VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(hours => $6))
+           RETURNING *`,
+          [
+            session.owner.toLowerCase(), session.fileName, session.name || null,
+            session.metadata ? JSON.stringify(session.metadata) : null, session.sizeBytes, this.settings.uploadSessionTtlHours
+          ]
+        );
+        return result.rows[0];
+      });
+      await fs.promises.mkdir(this.settings.uploadDir, { recursive: true });
+      await fs.promises.writeFile(this.partPath(created.upload_id), '');
+      console.log(`📦 Upload ${created.upload_id} started: ${created.file_name}, ${created.size_bytes} bytes`);
+      return created;
+    } catch (error) {
+      if (!(error instanceof IpfsUploadLimitError)) {
+        console.error('Error creating upload session:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a single-request upload while its bytes are reserved against the owner's quota
+   * The quota is checked and the reservation made under the owner's quota lock, so concurrent
+   * uploads cannot together go over it. upload gets the bytes it may pin and the reservation is
+   * released once it settles; content it pinned counts as used from then on.
+   * @throws IpfsUploadLimitError if the quota has less than sizeBytes left, unless partial
+   */
+  async withReservation<T>(reservation: QuotaReservation, upload: (maxBytes: number) => Promise<T>): Promise<T> {
+    if (!reservation.enforceQuota) {
+      return upload(reservation.sizeBytes);
+    }
+
+    const reserved: { reservation_id: string; size_bytes: string } = await DatabaseHelpers.executeTransaction(async (client) => {
+      const quota = await this.lockQuota(client, reservation.owner);
+      const remainingBytes = quota.remainingBytes ?? Infinity;
+      if (reservation.sizeBytes > remainingBytes && !reservation.partial) {
+        throw new IpfsUploadLimitError(remainingBytes, `Upload quota exceeded: ${remainingBytes} bytes left`);
+      }
+      const result = await client.query(
+        `INSERT INTO ipfs_upload_reservations (owner, size_bytes, expires_at)
+         VALUES ($1, $2, NOW() + make_interval(secs => $3))
+         RETURNING reservation_id, size_bytes`,
+        [reservation.owner.toLowerCase(), Math.min(reservation.sizeBytes, remainingBytes), RESERVATION_TTL_MS / 1000]
+      );
+      return result.rows[0];
+    });
+
+    try {
+      return await upload(Number(reserved.size_bytes));
+    } finally {
+      // A reservation that cannot be deleted lapses at its expiry
+      await DatabaseHelpers.executeQuery('DELETE FROM ipfs_upload_reservations WHERE reservation_id = $1', [reserved.reservation_id])
+        .catch(error => console.error('Error releasing upload reservation:', error));
+    }
+  }
+
+  /**
+   * Get a session; another owner's session is reported as missing
+   */
+  async getSession(uploadId: string, owner?: string): Promise<UploadSession> {
+    if (!UUID_PATTERN.test(uploadId)) {
+      throw new UploadError('Upload not found', 404);
+    }
+    const result = await DatabaseHelpers.executeQuery(
+      'SELECT * FROM ipfs_upload_sessions WHERE upload_id = $1',
+      [uploadId]
+    );
+    const session: UploadSession | undefined = result.rows[0];
+    if (!session || (owner !== undefined && session.owner !== owner.toLowerCase())) {
+      throw new UploadError('Upload not found', 404);
+    }
+    return session;
+  }
+
+  /**
+   * Write a chunk at the session's current offset
+   * Whatever arrived before the request failed is kept, so the client resumes from the new offset.
+   * @throws UploadError 409 if offset is not the session's, with the session's offset
+   */
+  async writeChunk(uploadId: string, owner: string, offset: number, chunk: Readable): Promise<UploadSession> {
+    const session = await this.getSession(uploadId, owner);
+    const received = Number(session.received_bytes);
+    const size = Number(session.size_bytes);
+    if (session.status !== 'uploading') {
+      throw new UploadError(`Upload is ${session.status}`, 409, received);
+    }
+    if (offset !== received) {
+      throw new UploadError(`Upload-Offset ${offset} does not match the ${received} bytes received`, 409, received);
+    }
+    if (this.writing.has(uploadId)) {
+      throw new UploadError('A chunk is already being written to this upload', 409, received);
+    }
+
+    this.writing.add(uploadId);
+    try {
+      const file = fs.createWriteStream(this.partPath(uploadId), { flags: 'r+', start: offset });
+      let failure: unknown = null;
+      try {
+        await pipeline(chunk, limitBytes(size - offset, `Chunk goes past the declared size of ${size} bytes`), file);
+      } catch (error) {
+        failure = error;
+        // once() would reject on the error the pipeline destroyed the file with
+        if (!file.closed) {
+          await new Promise<void>(resolve => file.once('close', () => resolve()));
+        }
+      }
+
+      const written = file.bytesWritten;
+      const result = await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions
+         SET received_bytes = received_bytes + $3, updated_at = NOW(), expires_at = NOW() + make_interval(hours => $4)
+         WHERE upload_id = $1 AND received_bytes = $2 AND status = 'uploading'
+         RETURNING *`,
+        [uploadId, offset, written, this.settings.uploadSessionTtlHours]
+      );
+      if (result.rows.length === 0) {
+        throw new UploadError('Upload changed while the chunk was written', 409);
+      }
+      let updated: UploadSession = result.rows[0];
+
+      // Refuse anything but media as soon as its first bytes are in
+      const total = offset + written;
+      if (!updated.content_type && (total >= SNIFF_BYTES || total === size)) {
+        updated = await this.sniff(updated);
+      }
+
+      if (failure) {
+        throw failure;
+      }
+      return updated;
+    } finally {
+      this.writing.delete(uploadId);
+    }
+  }
+
+  /**
+   * Pin a fully received upload through the media pipeline and delete its file
+   * A failed pin can be retried, except for content the pipeline refuses or that is over its size
+   * limit, which fails the session.
+   */
+  async completeSession(uploadId: string, owner: string): Promise<{ session: UploadSession; upload: IpfsMediaUpload }> {
+    const claimed = await DatabaseHelpers.executeQuery(
+      `UPDATE ipfs_upload_sessions SET status = 'completing', updated_at = NOW()
+       WHERE upload_id = $1 AND owner = $2 AND status = 'uploading' AND received_bytes = size_bytes
+       RETURNING *`,
+      [UUID_PATTERN.test(uploadId) ? uploadId : null, owner.toLowerCase()]
+    );
+    if (claimed.rows.length === 0) {
+      const session = await this.getSession(uploadId, owner);
+      if (session.status !== 'uploading') {
+        throw new UploadError(`Upload is ${session.status}`, 409, Number(session.received_bytes));
+      }
+      throw new UploadError(`Upload is incomplete: ${session.received_bytes} of ${session.size_bytes} bytes received`, 409, Number(session.received_bytes));
+    }
+    const session: UploadSession = claimed.rows[0];
+
+    try {
+      const upload = await IpfsService.uploadMediaStream(fs.createReadStream(this.partPath(uploadId)), {
+        name: session.pin_name || session.file_name,
+        metadata: session.pin_metadata || undefined,
+        owner: session.owner,
+        maxBytes: Number(session.size_bytes)
+      });
+      const result = await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions SET status = 'completed', cid = $2, content_type = $3, updated_at = NOW()
+         WHERE upload_id = $1 RETURNING *`,
+        [uploadId, upload.cid, upload.contentType]
+      );
+      await this.removeFile(uploadId);
+      console.log(`✅ Upload ${uploadId} completed: ${upload.cid}`);
+      return { session: result.rows[0], upload };
+    } catch (error) {
+      const refused = error instanceof MediaPipelineError || error instanceof IpfsUploadLimitError;
+      await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions SET status = $2, error_message = $3, updated_at = NOW() WHERE upload_id = $1`,
+        [uploadId, refused ? 'failed' : 'uploading', error instanceof Error ? error.message : String(error)]
+      );
+      if (refused) {
+        await this.removeFile(uploadId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Abandon a session and delete what it received
+   */
+  async abortSession(uploadId: string, owner: string): Promise<UploadSession> {
+    const result = await DatabaseHelpers.executeQuery(
+      `UPDATE ipfs_upload_sessions SET status = 'aborted', updated_at = NOW()
+       WHERE upload_id = $1 AND owner = $2 AND status = 'uploading'
+       RETURNING *`,
+      [UUID_PATTERN.test(uploadId) ? uploadId : null, owner.toLowerCase()]
+    );
+    if (result.rows.length === 0) {
+      const session = await this.getSession(uploadId, owner);
+      throw new UploadError(`Upload is ${session.status}`, 409);
+    }
+    await this.removeFile(uploadId);
+    console.log(`🗑️ Upload ${uploadId} aborted`);
+    return result.rows[0];
+  }
+
+  /**
+   * Reopen interrupted completions and expire idle sessions, then delete files in the upload
+   * directory that no active session owns
+   */
+  async sweep(): Promise<UploadSweepReport> {
+    try {
+      const reset = await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions SET status = 'uploading', error_message = 'Completion interrupted', updated_at = NOW()
+         WHERE status = 'completing' AND updated_at < NOW() - make_interval(secs => $1)
+         RETURNING upload_id`,
+        [STALE_COMPLETION_MS / 1000]
+      );
+      const expired = await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions SET status = 'expired', updated_at = NOW()
+         WHERE status = ANY($1) AND expires_at < NOW()
+         RETURNING upload_id`,
+        [ACTIVE_STATUSES]
+      );
+      await DatabaseHelpers.executeQuery('DELETE FROM ipfs_upload_reservations WHERE expires_at < NOW()');
+      const active = await DatabaseHelpers.executeQuery(
+        'SELECT upload_id FROM ipfs_upload_sessions WHERE status = ANY($1)',
+        [ACTIVE_STATUSES]
+      );
+      const keep = new Set<string>(active.rows.map((row: { upload_id: string }) => `${row.upload_id}.part`));
+
+      const removedFiles: string[] = [];
+      const entries = await fs.promises.readdir(this.settings.uploadDir, { withFileTypes: true }).catch((error: any) => {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      });
+      for (const entry of entries) {
+        if (!entry.isFile() || keep.has(entry.name)) {
+          continue;
+        }
+        const file = path.join(this.settings.uploadDir, entry.name);
+        const stats = await fs.promises.stat(file).catch(() => null);
+        const expiredSession = expired.rows.some((row: { upload_id: string }) => entry.name === `${row.upload_id}.part`);
+        if (stats && (expiredSession || Date.now() - stats.mtimeMs > ORPHAN_GRACE_MS)) {
+          await fs.promises.rm(file, { force: true });
+          removedFiles.push(entry.name);
+        }
+      }
+
+      return {
+        expired: expired.rows.map((row: { upload_id: string }) => row.upload_id),
+        reset: reset.rows.map((row: { upload_id: string }) => row.upload_id),
+        removedFiles
+      };
+    } catch (error) {
+      console.error('Error sweeping uploads:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sweep periodically, starting now
+   */
+  start(): void {
+    if (this.timer || this.running) {
+      return;
+    }
+    this.stopping = false;
+    console.log(`🧹 Upload sweeper started (every ${Math.round(this.settings.uploadSweepIntervalMs / 1000)}s)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop sweeping and wait for the sweep in progress
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.running = this.sweep()
+        .then(report => {
+          if (report.expired.length > 0 || report.reset.length > 0 || report.removedFiles.length > 0) {
+            console.log(`🧹 Upload sweep: ${report.expired.length} session(s) expired, ${report.reset.length} completion(s) reopened, ${report.removedFiles.length} file(s) removed`);
+          }
+        })
+        // Logged by sweep; the next round retries
+        .catch(() => undefined)
+        .finally(() => {
+          this.running = null;
+          if (!this.stopping) {
+            this.schedule(this.settings.uploadSweepIntervalMs);
+          }
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Record the sniffed type of a session's first bytes, failing the session if it is not media
+   */
+  private async sniff(session: UploadSession): Promise<UploadSession> {
+    const handle = await fs.promises.open(this.partPath(session.upload_id), 'r');
+    const head = Buffer.alloc(Math.min(Number(session.received_bytes), SNIFF_BYTES));
+    try {
+      await handle.read(head, 0, head.length, 0);
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      const contentType = detectMediaType(head);
+      const result = await DatabaseHelpers.executeQuery(
+        'UPDATE ipfs_upload_sessions SET content_type = $2 WHERE upload_id = $1 RETURNING *',
+        [session.upload_id, contentType]
+      );
+      return result.rows[0];
+    } catch (error) {
+      await DatabaseHelpers.executeQuery(
+        `UPDATE ipfs_upload_sessions SET status = 'failed', error_message = $2, updated_at = NOW() WHERE upload_id = $1`,
+        [session.upload_id, error instanceof Error ? error.message : String(error)]
+      );
+      await this.removeFile(session.upload_id);
+      throw error;
+    }
+  }
+
+  /**
+   * Take the owner's quota lock for the rest of the transaction and read the quota under it
+   */
+  private async lockQuota(client: any, owner: string): Promise<UploadQuota> {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`upload_quota:${owner.toLowerCase()}`]);
+    return this.getQuota(owner, client);
+  }
+
+  private partPath(uploadId: string): string {
+    return path.join(this.settings.uploadDir, `${uploadId}.part`);
+  }
+
+  private async removeFile(uploadId: string): Promise<void> {
+    await fs.promises.rm(this.partPath(uploadId), { force: true });
+  }
+}
+
+// Export singleton instance
+export const uploadService = new UploadService();
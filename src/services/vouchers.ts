@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { DatabaseHelpers } from '../database';
+import { config } from '../config';
+import { generateMetadataUrl, NFT_CONFIG } from '../config/nft-levels';
+import { BlockchainService, getBlockchainServiceForChain, MintVoucher, MINT_VOUCHER_TYPES } from './blockchain';
+import { databaseService } from './database';
+
+export interface MintVoucherRecord {
+  voucher_id: number;
+  chain_id: number;
+  wallet_address: string;
+  token_uri: string;
+  nonce: string;
+  expires_at: Date;
+  signer_address: string;
+  signature: string;
+  issued_at: Date;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  revoked_reason: string | null;
+  redeemed_at: Date | null;
+  redeemed_token_id: number | null;
+  redemption_transaction_hash: string | null;
+  status: 'active' | 'redeemed' | 'revoked' | 'expired';
+}
+
+// What a wallet needs to call redeem(voucher, signature) on the NFT contract
+export interface VoucherRedeemParams {
+  contract: string;
+  domain: ethers.TypedDataDomain;
+  types: typeof MINT_VOUCHER_TYPES;
+  voucher: MintVoucher;
+  signature: string;
+}
+
+/**
+ * Rejected voucher request, with the HTTP status to report
+ */
+export class VoucherError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'VoucherError';
+  }
+}
+
+const VOUCHER_COLUMNS = `
+  mv.*,
+  CASE
+    WHEN mv.redeemed_at IS NOT NULL THEN 'redeemed'
+    WHEN mv.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN mv.expires_at <= NOW() THEN 'expired'
+    ELSE 'active'
+  END AS status`;
+
+/**
+ * Voucher service: EIP-712 mint vouchers for gasless minting
+ * The backend signs a voucher and the wallet redeems it on the NFT contract, paying the gas.
+ * Redemptions are recorded when a wallet reports its transaction, which is checked on-chain.
+ */
+export class VoucherService {
+
+  /**
+   * Issue a voucher for a wallet on a network
+   * A wallet holding an active voucher on the network gets that one back instead of a new one.
+   * An empty token URI leaves the contract's base URI, i.e. the dynamic metadata API.
+   */
+  async issueVoucher(
+    blockchain: BlockchainService,
+    walletAddress: string,
+    tokenUri: string = ''
+  ): Promise<{ voucher: MintVoucherRecord; existing: boolean }> {
+    if (!config.vouchers.enabled) {
+      throw new VoucherError('Gasless minting is not enabled', 404);
+    }
+
+    const wallet = walletAddress.toLowerCase();
+    const { chainId } = blockchain.network;
+
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`mint_voucher:${chainId}:${wallet}`]);
+
+        const active = await client.query(
+          `SELECT ${VOUCHER_COLUMNS}
+           FROM mint_vouchers mv
+           WHERE mv.wallet_address = $1 AND mv.chain_id = $2
+             AND mv.redeemed_at IS NULL AND mv.revoked_at IS NULL AND mv.expires_at > NOW()
+           ORDER BY mv.issued_at DESC
+           LIMIT 1`,
+          [wallet, chainId]
+        );
+        if (active.rows.length > 0) {
+          return { voucher: active.rows[0], existing: true };
+        }
+
+        const expiry = Math.floor(Date.now() / 1000) + config.vouchers.ttlSeconds;
+        const nonce = ethers.BigNumber.from(crypto.randomBytes(32)).toString();
+        const signature = await blockchain.signMintVoucher({
+          recipient: ethers.utils.getAddress(wallet),
+          tokenURI: tokenUri,
+          expiry,
+          nonce
+        });
+
+        const inserted = await client.query(
+          `INSERT INTO mint_vouchers (chain_id, wallet_address, token_uri, nonce, expires_at, signer_address, signature)
+           VALUES ($1, $2, $3, $4, to_timestamp($5), $6, $7)
+           RETURNING voucher_id`,
+          [chainId, wallet, tokenUri, nonce, expiry, (await blockchain.getSignerAddress()).toLowerCase(), signature]
+        );
+        const voucher = await client.query(
+          `SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1`,
+          [inserted.rows[0].voucher_id]
+        );
+        return { voucher: voucher.rows[0], existing: false };
+      });
+    } catch (error) {
+      if (!(error instanceof VoucherError)) {
+        console.error('Error issuing mint voucher:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a voucher by ID
+   */
+  async getVoucher(voucherId: number): Promise<MintVoucherRecord | null> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1`,
+        [voucherId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error getting mint voucher:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a wallet's vouchers, newest first
+   */
+  async getVouchers(walletAddress: string): Promise<MintVoucherRecord[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT ${VOUCHER_COLUMNS}
+         FROM mint_vouchers mv
+         WHERE mv.wallet_address = $1
+         ORDER BY mv.issued_at DESC, mv.voucher_id DESC`,
+        [walletAddress.toLowerCase()]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting mint vouchers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a wallet's unexpired, unredeemed vouchers on any network
+   * Revoked ones are included: their signatures stay redeemable until they expire.
+   */
+  async getOutstandingVouchers(walletAddress: string): Promise<MintVoucherRecord[]> {
+    try {
+      const result = await DatabaseHelpers.executeQuery(
+        `SELECT ${VOUCHER_COLUMNS}
+         FROM mint_vouchers mv
+         WHERE mv.wallet_address = $1 AND mv.redeemed_at IS NULL AND mv.expires_at > NOW()
+         ORDER BY mv.issued_at DESC`,
+        [walletAddress.toLowerCase()]
+      );
+      return result.rows;
+    } catch (error) {
+      console.error('Error getting outstanding mint vouchers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an unredeemed voucher so it is no longer handed out
+   * The contract only rejects a voucher once it expires, so an already issued one can still be redeemed.
+   */
+  async revokeVoucher(voucherId: number, revokedBy: string, reason: string | null = null): Promise<MintVoucherRecord> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        const result = await client.query(
+          `SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1 FOR UPDATE`,
+          [voucherId]
+        );
+        if (result.rows.length === 0) {
+          throw new VoucherError('Voucher not found', 404);
+        }
+
+        const voucher: MintVoucherRecord = result.rows[0];
+        if (voucher.status === 'redeemed') {
+          throw new VoucherError(`Voucher was already redeemed for NFT ${voucher.redeemed_token_id}`, 409);
+        }
+        if (voucher.status === 'revoked') {
+          throw new VoucherError(`Voucher was already revoked at ${new Date(voucher.revoked_at!).toISOString()}`, 409);
+        }
+
+        await client.query(
+          `UPDATE mint_vouchers
+           SET revoked_at = NOW(), revoked_by = $2, revoked_reason = $3
+           WHERE voucher_id = $1`,
+          [voucherId, revokedBy, reason]
+        );
+        const updated = await client.query(`SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1`, [voucherId]);
+        return updated.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof VoucherError)) {
+        console.error('Error revoking mint voucher:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a voucher's redemption from the wallet's transaction
+   * The transaction must be mined and carry a VoucherRedeemed event with the voucher's nonce and
+   * recipient. Reporting the same transaction again returns the recorded redemption.
+   */
+  async confirmRedemption(voucherId: number, transactionHash: string): Promise<MintVoucherRecord> {
+    try {
+      return await DatabaseHelpers.executeTransaction(async (client) => {
+        // Serializes confirmations of the same voucher
+        const result = await client.query(
+          `SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1 FOR UPDATE`,
+          [voucherId]
+        );
+        if (result.rows.length === 0) {
+          throw new VoucherError('Voucher not found', 404);
+        }
+
+        const voucher: MintVoucherRecord = result.rows[0];
+        if (voucher.redeemed_at) {
+          if (voucher.redemption_transaction_hash === transactionHash.toLowerCase()) {
+            return voucher;
+          }
+          throw new VoucherError(`Voucher was already redeemed in ${voucher.redemption_transaction_hash}`, 409);
+        }
+
+        const blockchain = getBlockchainServiceForChain(voucher.chain_id);
+        const receipt = await blockchain.getVoucherRedemptions(transactionHash);
+        if (!receipt) {
+          throw new VoucherError(`Transaction ${transactionHash} is not mined yet`, 409);
+        }
+        const redemption = receipt.redemptions.find(r => r.nonce === voucher.nonce && r.recipient === voucher.wallet_address);
+        if (!redemption) {
+          throw new VoucherError(`Transaction ${transactionHash} did not redeem voucher ${voucherId}`, 400);
+        }
+        if (voucher.revoked_at) {
+          console.warn(`⚠️ Revoked voucher ${voucherId} was redeemed for NFT ${redemption.tokenId}`);
+        }
+
+        const existing = await client.query(
+          'SELECT 1 FROM loyalty_nfts WHERE token_id = $1 AND chain_id = $2',
+          [redemption.tokenId, voucher.chain_id]
+        );
+        // Created in this transaction, so the NFT and the redemption are recorded together or not at all
+        if (existing.rows.length === 0) {
+          await databaseService.createNFTRecord(voucher.wallet_address, redemption.tokenId, receipt.transactionHash, {
+            name: `${NFT_CONFIG.DEFAULT_NAME_PREFIX} #${redemption.tokenId}`,
+            description: NFT_CONFIG.DEFAULT_DESCRIPTION,
+            tokenUri: voucher.token_uri || generateMetadataUrl(voucher.chain_id, redemption.tokenId)
+          }, voucher.chain_id, client);
+        }
+
+        await client.query(
+          `UPDATE mint_vouchers
+           SET redeemed_at = NOW(), redeemed_token_id = $2, redemption_transaction_hash = $3
+           WHERE voucher_id = $1`,
+          [voucherId, redemption.tokenId, receipt.transactionHash.toLowerCase()]
+        );
+        console.log(`🎟️ Voucher ${voucherId} redeemed for NFT ${redemption.tokenId} on ${blockchain.network.name}`);
+
+        const updated = await client.query(`SELECT ${VOUCHER_COLUMNS} FROM mint_vouchers mv WHERE mv.voucher_id = $1`, [voucherId]);
+        return updated.rows[0];
+      });
+    } catch (error) {
+      if (!(error instanceof VoucherError)) {
+        console.error('Error confirming voucher redemption:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The arguments for redeem(voucher, signature)
+   */
+  getRedeemParams(voucher: MintVoucherRecord): VoucherRedeemParams {
+    const blockchain = getBlockchainServiceForChain(voucher.chain_id);
+    return {
+      contract: blockchain.network.contracts.nft,
+      domain: blockchain.getVoucherDomain(),
+      types: MINT_VOUCHER_TYPES,
+      voucher: {
+        recipient: ethers.utils.getAddress(voucher.wallet_address),
+        tokenURI: voucher.token_uri,
+        expiry: Math.floor(new Date(voucher.expires_at).getTime() / 1000),
+        nonce: voucher.nonce
+      },
+      signature: voucher.signature
+    };
+  }
+}
+
+// Export singleton instance
+export const voucherService = new VoucherService();
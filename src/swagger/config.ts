@@ -21,6 +21,28 @@ const options = {
       },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token from /api/auth/verify or /api/auth/refresh'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key for admins, brand partners and analysts'
+        }
+      },
+      parameters: {
+        Network: {
+          in: 'query',
+          name: 'network',
+          schema: { type: 'string', enum: ['lisk-sepolia', 'lisk-mainnet', 'anvil'] },
+          description: 'Network profile to use (also accepted as the X-Network header); defaults to DEFAULT_NETWORK'
+        }
+      },
       schemas: {
         WalletAddress: {
           type: 'string',
@@ -47,22 +69,197 @@ const options = {
         NFTCompleteInfo: {
           type: 'object',
           properties: {
-            user_id: { type: 'string' },
-            wallet_address: { $ref: '#/components/schemas/WalletAddress' },
             token_id: { type: 'number' },
+            owner_wallet_address: { $ref: '#/components/schemas/WalletAddress' },
+            chain_id: { type: 'number', example: 4202, description: 'Chain the token was minted on' },
+            minted_at: { type: 'string', format: 'date-time' },
+            token_uri: { type: 'string' },
+            is_staked: { type: 'boolean' },
+            original_owner_wallet_address: { $ref: '#/components/schemas/WalletAddress' },
+            owner_changed_at: { type: 'string', format: 'date-time', nullable: true },
+            transfer_count: { type: 'number' },
+            staked_eth: { type: 'string', example: '1.5', description: 'ETH the owner has staked' },
+            staked_since: { type: 'string', format: 'date-time', nullable: true, description: 'Latest stake; a top-up restarts the duration' },
+            staking_days: { type: 'number' },
+            eth_days: { type: 'string', example: '12.5', description: 'ETH-days staked while this NFT was held' },
+            loyalty_level: { type: 'number' },
             loyalty_points: { type: 'number' },
-            tier_level: { 
+            flights_taken: { type: 'number' },
+            bank_tier: {
+              type: 'string',
+              enum: ['Standard', 'Silver', 'Gold', 'Platinum', 'Diamond']
+            },
+            resorts_visited: { type: 'number' },
+            total_spending: { type: 'string' },
+            miles_earned: { type: 'number' },
+            status_tier: {
               type: 'string',
               enum: ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond']
             },
-            total_transactions: { type: 'number' },
-            total_spent: { type: 'number' },
-            vietjet_flights: { type: 'number' },
-            hdbank_transactions: { type: 'number' },
-            dragon_city_visits: { type: 'number' },
-            staked_eth: { type: 'number' },
+            last_updated: { type: 'string', format: 'date-time' },
+            hdbank_activities: { type: 'string' },
+            vietjet_activities: { type: 'string' },
+            halong_star_activities: { type: 'string' }
+          }
+        },
+        Job: {
+          type: 'object',
+          properties: {
+            job_id: { type: 'number', example: 42 },
+            job_type: { type: 'string', example: 'nft_mint' },
+            payload: { type: 'object' },
+            status: { type: 'string', enum: ['pending', 'running', 'completed', 'dead_letter'] },
+            attempts: { type: 'number', example: 1 },
+            max_attempts: { type: 'number', example: 8 },
+            run_at: { type: 'string', format: 'date-time' },
+            last_error: { type: 'string', nullable: true },
+            progress: { type: 'object', example: { transactionHash: '0xabc...', tokenURI: 'https://gomgom-backend.onrender.com/api/metadata/12' } },
+            result: { type: 'object', nullable: true, example: { tokenId: 12, transactionHash: '0xabc...', tokenURI: 'https://gomgom-backend.onrender.com/api/metadata/12', metadataUrl: 'https://gomgom-backend.onrender.com/api/metadata/12' } },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+            completed_at: { type: 'string', format: 'date-time', nullable: true },
+            dead_lettered_at: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        SignerTransaction: {
+          type: 'object',
+          description: 'Transaction sent by the backend signer; one per nonce, replacements included',
+          properties: {
+            tx_id: { type: 'number' },
+            chain_id: { type: 'number', example: 4202 },
+            signer_address: { type: 'string' },
+            nonce: { type: 'number' },
+            purpose: { type: 'string', example: 'nft_mint' },
+            job_id: { type: 'number', nullable: true },
+            to_address: { type: 'string' },
+            gas_limit: { type: 'string' },
+            max_fee_per_gas: { type: 'string', description: 'Wei; the gas price for legacy transactions' },
+            max_priority_fee_per_gas: { type: 'string', nullable: true, description: 'Wei' },
+            transaction_hash: { type: 'string', description: 'Latest broadcast' },
+            previous_hashes: { type: 'array', items: { type: 'string' }, description: 'Broadcasts replaced with higher fees' },
+            replacements: { type: 'number' },
+            sent_block: { type: 'number' },
+            status: { type: 'string', enum: ['pending', 'confirmed', 'reverted', 'dropped'] },
+            mined_hash: { type: 'string', nullable: true },
+            block_number: { type: 'number', nullable: true },
+            last_error: { type: 'string', nullable: true },
+            blocks_pending: { type: 'number', nullable: true },
+            stuck: { type: 'boolean' },
+            created_at: { type: 'string', format: 'date-time' },
+            confirmed_at: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        StakingSnapshot: {
+          type: 'object',
+          description: 'StakingPool totals recorded once per UTC day',
+          properties: {
+            snapshot_id: { type: 'number' },
+            chain_id: { type: 'number', example: 4202 },
+            snapshot_date: { type: 'string', format: 'date', example: '2025-01-31' },
+            block_number: { type: 'number' },
+            total_eth: { type: 'string', example: '12.5' },
+            total_nfts: { type: 'number' },
+            contract_balance: { type: 'string', example: '13.1' },
+            indexed_staked_eth: { type: 'string', description: 'Sum of indexed staking positions' },
+            stakers: { type: 'number', description: 'Wallets with an indexed stake' },
+            taken_at: { type: 'string', format: 'date-time' }
+          }
+        },
+        NFTMetadataUpdate: {
+          type: 'object',
+          description: 'On-chain metadata refresh queued by a loyalty level change',
+          properties: {
+            update_id: { type: 'number' },
+            chain_id: { type: 'number', example: 4202 },
+            nft_token_id: { type: 'number' },
+            job_id: { type: 'number' },
+            previous_level: { type: 'number', example: 1 },
+            new_level: { type: 'number', example: 2 },
+            method: { type: 'string', enum: ['metadata_update', 'set_token_uri'], nullable: true },
+            token_uri: { type: 'string', nullable: true },
+            transaction_hash: { type: 'string', nullable: true },
             created_at: { type: 'string', format: 'date-time' },
-            updated_at: { type: 'string', format: 'date-time' }
+            confirmed_at: { type: 'string', format: 'date-time', nullable: true },
+            job_status: { type: 'string', enum: ['pending', 'running', 'completed', 'dead_letter'] },
+            attempts: { type: 'number' },
+            last_error: { type: 'string', nullable: true }
+          }
+        },
+        NFTOwnershipChange: {
+          type: 'object',
+          properties: {
+            change_id: { type: 'number' },
+            chain_id: { type: 'number', example: 4202 },
+            nft_token_id: { type: 'number' },
+            from_wallet_address: { $ref: '#/components/schemas/WalletAddress' },
+            to_wallet_address: { $ref: '#/components/schemas/WalletAddress' },
+            policy: {
+              type: 'string',
+              enum: ['follow_token', 'stay_with_wallet'],
+              description: 'follow_token: attributes moved with the NFT; stay_with_wallet: the sender kept them and the NFT was reset'
+            },
+            attributes_before: { type: 'object', example: { loyalty_points: 5200, flights_taken: 4, bank_tier: 'Gold', resorts_visited: 1, total_spending: '12500000.00', miles_earned: 0, loyalty_level: 3, status_tier: 'Gold' } },
+            attributes_after: { type: 'object' },
+            chain_event_id: { type: 'number', nullable: true },
+            block_number: { type: 'number', nullable: true },
+            transaction_hash: { type: 'string', nullable: true },
+            changed_at: { type: 'string', format: 'date-time' },
+            reverted_at: { type: 'string', format: 'date-time', nullable: true, description: 'Set when a reorg undid the transfer' }
+          }
+        },
+        MintVoucher: {
+          type: 'object',
+          properties: {
+            voucher_id: { type: 'number' },
+            chain_id: { type: 'number', example: 4202 },
+            wallet_address: { $ref: '#/components/schemas/WalletAddress' },
+            token_uri: { type: 'string', description: 'Empty for the contract base URI' },
+            nonce: { type: 'string', description: 'uint256 as a decimal string' },
+            expires_at: { type: 'string', format: 'date-time' },
+            signer_address: { type: 'string' },
+            signature: { type: 'string' },
+            issued_at: { type: 'string', format: 'date-time' },
+            revoked_at: { type: 'string', format: 'date-time', nullable: true },
+            revoked_by: { type: 'string', nullable: true },
+            revoked_reason: { type: 'string', nullable: true },
+            redeemed_at: { type: 'string', format: 'date-time', nullable: true },
+            redeemed_token_id: { type: 'number', nullable: true },
+            redemption_transaction_hash: { type: 'string', nullable: true },
+            status: { type: 'string', enum: ['active', 'redeemed', 'revoked', 'expired'] }
+          }
+        },
+        MintVoucherRedeemParams: {
+          type: 'object',
+          description: 'Arguments for redeem(voucher, signature) on the NFT contract, and the EIP-712 domain and types they were signed with',
+          properties: {
+            contract: { type: 'string' },
+            domain: { type: 'object', example: { name: 'GomGomNFT', version: '1', chainId: 4202, verifyingContract: '0xd33F3f8Eb434663E3e9ea331bA910faa439dc246' } },
+            types: { type: 'object' },
+            voucher: {
+              type: 'object',
+              properties: {
+                recipient: { type: 'string' },
+                tokenURI: { type: 'string' },
+                expiry: { type: 'number', description: 'Unix seconds' },
+                nonce: { type: 'string' }
+              }
+            },
+            signature: { type: 'string' }
+          }
+        },
+        UnmetRequirement: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', example: 'flights_taken' },
+            required: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+            current: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+            remaining: { type: 'number', example: 3 },
+            message: { type: 'string', example: '3 more flights' },
+            options: {
+              type: 'array',
+              description: "For 'any' groups: the unmet requirements of each alternative",
+              items: { type: 'array', items: { type: 'object' } }
+            }
           }
         },
         Perk: {
@@ -74,9 +271,79 @@ const options = {
             brand_id: { type: 'number' },
             brand_name: { type: 'string' },
             brand_color: { type: 'string' },
-            unlock_condition: { type: 'object' },
+            unlock_type: { type: 'string' },
+            unlock_threshold: { type: 'string' },
             is_active: { type: 'boolean' },
-            is_unlocked: { type: 'boolean' }
+            is_unlocked: { type: 'boolean' },
+            unmet_requirements: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/UnmetRequirement' }
+            }
+          }
+        },
+        PerkInput: {
+          type: 'object',
+          properties: {
+            perkName: { type: 'string' },
+            description: { type: 'string' },
+            unlockType: {
+              type: 'string',
+              enum: ['loyalty_level', 'loyalty_points', 'flights_taken', 'bank_tier', 'resorts_visited', 'total_spending', 'miles_earned', 'status_tier', 'staked_eth', 'staking_days', 'eth_days', 'combined']
+            },
+            unlockThreshold: {
+              oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'object' }],
+              example: '5',
+              description: 'A number or tier name, or for combined a condition tree such as {"all":[{"flights_taken":5},{"any":[{"bank_tier":"Gold"},{"loyalty_points":5000}]}]}'
+            },
+            category: { type: 'string' },
+            valueType: {
+              type: 'string',
+              enum: ['discount', 'cashback', 'upgrade', 'free_service', 'priority_access']
+            },
+            valueAmount: { type: 'number' },
+            usageLimit: { type: 'number' },
+            expiryDays: { type: 'number' },
+            brandId: { type: 'number', description: 'Omit for brand partner keys (defaults to their brand)' }
+          }
+        },
+        PointsRuleInput: {
+          type: 'object',
+          properties: {
+            fixedPoints: { type: 'integer', description: 'Points awarded for every action' },
+            pointsPerUnit: { type: 'number', description: 'Points per unitAmount of details.amount' },
+            unitAmount: { type: 'number', description: 'Currency amount per unit (e.g. 1000 VND)' },
+            currency: { type: 'string', example: 'VND' },
+            applyBrandMultiplier: { type: 'boolean', description: 'Multiply by brand_partners.loyalty_multiplier' },
+            maxPointsPerAction: { type: 'integer', nullable: true },
+            maxPointsPerDay: { type: 'integer', nullable: true, description: 'Per wallet, brand and action type' },
+            isActive: { type: 'boolean' }
+          }
+        },
+        LoyaltyLevelInput: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            imageCid: { type: 'string', description: 'IPFS CID of the level image' },
+            statusTier: { type: 'string', enum: ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'] },
+            minLoyaltyPoints: { type: 'integer' },
+            minFlightsTaken: { type: 'integer' },
+            minTotalSpending: { type: 'number', description: 'VND' },
+            minBankTier: { type: 'string', enum: ['Standard', 'Silver', 'Gold', 'Platinum', 'Diamond'] }
+          }
+        },
+        PerkClaim: {
+          type: 'object',
+          properties: {
+            claim_id: { type: 'number' },
+            user_wallet_address: { type: 'string' },
+            perk_id: { type: 'number' },
+            claimed_at: { type: 'string', format: 'date-time' },
+            expires_at: { type: 'string', format: 'date-time', nullable: true },
+            used_at: { type: 'string', format: 'date-time', nullable: true },
+            is_used: { type: 'boolean' },
+            redemption_code: { type: 'string', example: 'K7P2M-QX9RT' },
+            status: { type: 'string', enum: ['active', 'redeemed', 'expired'], description: 'Only in claim listings' }
           }
         },
         UserAction: {
@@ -88,10 +355,22 @@ const options = {
               enum: ['vietjet_flight_booking', 'hdbank_transaction', 'dragon_city_visit', 'hd_saison_purchase', 'ha_long_star_booking']
             },
             details: { type: 'object' },
+            brand_id: { type: 'number', nullable: true },
             points_earned: { type: 'number' },
             created_at: { type: 'string', format: 'date-time' }
           }
         },
+        AuthTokens: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', example: 'success' },
+            accessToken: { type: 'string' },
+            refreshToken: { type: 'string' },
+            tokenType: { type: 'string', example: 'Bearer' },
+            expiresIn: { type: 'number', example: 900 },
+            walletAddress: { $ref: '#/components/schemas/WalletAddress' }
+          }
+        },
         Error: {
           type: 'object',
           properties: {
@@ -121,6 +400,10 @@ const options = {
       }
     },
     tags: [
+      {
+        name: 'Auth',
+        description: 'Sign-In-With-Ethereum authentication endpoints'
+      },
       {
         name: 'Users',
         description: 'User management endpoints'
@@ -137,6 +420,18 @@ const options = {
         name: 'Perks',
         description: 'Brand perks and rewards endpoints'
       },
+      {
+        name: 'Admin',
+        description: 'API keys, role grants and analytics for operators and brand partners'
+      },
+      {
+        name: 'Jobs',
+        description: 'Status of queued blockchain writes such as mints'
+      },
+      {
+        name: 'Staking',
+        description: 'StakingPool totals, daily history and per-wallet staking reports, for the default network'
+      },
       {
         name: 'Health',
         description: 'System health check endpoints'
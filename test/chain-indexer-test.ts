@@ -0,0 +1,292 @@
+/**
+ * Integration test for the chain event indexer
+ * Runs ChainIndexer against a real Postgres with all migrations applied and an in-memory chain
+ * whose blocks can be replaced to simulate a reorg. For a real node, use npm run indexer against Anvil.
+ *
+ * Usage: npm run test:indexer
+ */
+
+import assert from 'assert';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { databaseService } from '../src/services/database';
+import { GOMGOM_NFT_ABI, STAKING_POOL_ABI } from '../src/services/blockchain';
+import { ChainIndexer } from '../src/services/indexer';
+import { stakingService } from '../src/services/staking';
+
+const CHAIN_ID = 990001;
+// Holds a token with the same ID that the indexed chain's events must not touch
+const OTHER_CHAIN_ID = 990011;
+const GENESIS_TIME = 1700000000;
+const nft = ethers.Wallet.createRandom().address;
+const staking = ethers.Wallet.createRandom().address;
+const alice = ethers.Wallet.createRandom().address.toLowerCase();
+const bob = ethers.Wallet.createRandom().address.toLowerCase();
+const tokenId = 900000000 + Math.floor(Math.random() * 1000000);
+const secondTokenId = tokenId + 1;
+const thirdTokenId = tokenId + 2;
+
+const nftInterface = new ethers.utils.Interface(GOMGOM_NFT_ABI);
+const stakingInterface = new ethers.utils.Interface(STAKING_POOL_ABI);
+
+type FakeEvent = { address: string; iface: ethers.utils.Interface; name: string; args: any[] };
+
+/**
+ * Minimal provider over a list of blocks; replacing blocks from a height simulates a reorg
+ */
+class FakeChain {
+  blocks: Array<{ hash: string; events: FakeEvent[] }> = [];
+  private fork = 0;
+
+  mine(...events: FakeEvent[]): void {
+    const number = this.blocks.length;
+    this.blocks.push({ hash: ethers.utils.id(`block ${number} fork ${this.fork}`), events });
+  }
+
+  reorg(fromBlock: number): void {
+    this.fork++;
+    this.blocks = this.blocks.slice(0, fromBlock);
+  }
+
+  provider(): ethers.providers.Provider {
+    return {
+      getNetwork: async () => ({ chainId: CHAIN_ID, name: 'test' }),
+      getBlockNumber: async () => this.blocks.length - 1,
+      getBlock: async (number: number) =>
+        (this.blocks[number] ? { number, hash: this.blocks[number].hash, timestamp: GENESIS_TIME + number * 12 } : null),
+      getLogs: async (filter: any) => {
+        const logs: any[] = [];
+        for (let number = filter.fromBlock; number <= filter.toBlock && number < this.blocks.length; number++) {
+          this.blocks[number].events.forEach((event, logIndex) => {
+            const encoded = event.iface.encodeEventLog(event.iface.getEvent(event.name), event.args);
+            const topics: string[] = filter.topics[0] instanceof Array ? filter.topics[0] : [filter.topics[0]];
+            if (event.address === filter.address && topics.includes(encoded.topics[0])) {
+              logs.push({
+                ...encoded,
+                address: event.address,
+                blockNumber: number,
+                blockHash: this.blocks[number].hash,
+                transactionHash: ethers.utils.id(`tx ${number} ${logIndex}`),
+                logIndex,
+                removed: false
+              });
+            }
+          });
+        }
+        return logs;
+      }
+    } as any;
+  }
+}
+
+const transfer = (from: string, to: string): FakeEvent =>
+  ({ address: nft, iface: nftInterface, name: 'Transfer', args: [from, to, tokenId] });
+const stake = (name: 'Staked' | 'Unstaked', user: string, ether: string): FakeEvent =>
+  ({ address: staking, iface: stakingInterface, name, args: [user, ethers.utils.parseEther(ether)] });
+
+async function nftState(chainId: number = CHAIN_ID): Promise<{ owner: string; staked: boolean }> {
+  const result = await db.query(
+    'SELECT owner_wallet_address, is_staked FROM loyalty_nfts WHERE chain_id = $1 AND token_id = $2',
+    [chainId, tokenId]
+  );
+  return { owner: result.rows[0].owner_wallet_address, staked: result.rows[0].is_staked };
+}
+
+async function points(token: number): Promise<number> {
+  const result = await db.query('SELECT loyalty_points FROM nft_attributes WHERE chain_id = $1 AND nft_token_id = $2', [CHAIN_ID, token]);
+  return result.rows[0].loyalty_points;
+}
+
+async function stakedEther(wallet: string): Promise<string> {
+  const result = await db.query(
+    'SELECT staked_amount FROM staking_positions WHERE chain_id = $1 AND wallet_address = $2',
+    [CHAIN_ID, wallet]
+  );
+  return result.rows.length ? ethers.utils.formatEther(result.rows[0].staked_amount) : '0.0';
+}
+
+async function cleanup(): Promise<void> {
+  await db.query('DELETE FROM chain_events WHERE chain_id = $1', [CHAIN_ID]);
+  await db.query('DELETE FROM indexer_checkpoints WHERE chain_id = $1', [CHAIN_ID]);
+  await db.query('DELETE FROM staking_positions WHERE chain_id = $1', [CHAIN_ID]);
+  // Deleting the users cascades to their NFT
+  await db.query('DELETE FROM users WHERE wallet_address = ANY($1)', [[alice, bob]]);
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing the chain indexer against Postgres...');
+  await cleanup();
+
+  await databaseService.initUser(alice);
+  await databaseService.createNFTRecord(alice, tokenId, '0x' + '0'.repeat(64), undefined, CHAIN_ID);
+  await databaseService.createNFTRecord(alice, tokenId, '0x' + '0'.repeat(64), undefined, OTHER_CHAIN_ID);
+
+  const chain = new FakeChain();
+  const indexer = new ChainIndexer(chain.provider(), { nft, staking }, {
+    enabled: false, startBlock: 1, batchSize: 2, reorgDepth: 2, pollIntervalMs: 1000
+  });
+
+  // Test 1: mint, stake and transfer across several batches
+  console.log('\n📋 Test 1: Ownership and staking follow the events');
+  chain.mine();
+  chain.mine(transfer(ethers.constants.AddressZero, alice));
+  chain.mine(stake('Staked', alice, '1'));
+  chain.mine(transfer(alice, bob));
+  let synced = await indexer.syncToHead();
+  assert.strictEqual(synced.events, 3);
+  assert.deepStrictEqual(await nftState(), { owner: bob, staked: false });
+  assert.strictEqual(await stakedEther(alice), '1.0');
+  assert.deepStrictEqual(await nftState(OTHER_CHAIN_ID), { owner: alice, staked: false });
+  console.log(`✓ ${synced.batches} batches; NFT moved to the new owner, who has no stake; same ID on another chain untouched`);
+
+  chain.mine(stake('Staked', bob, '2'));
+  await indexer.syncToHead();
+  assert.deepStrictEqual(await nftState(), { owner: bob, staked: true });
+  console.log('✓ Staking by the new owner marks the NFT staked');
+
+  // Test 2: blocks 3-4 are replaced by a fork without the transfer
+  console.log('\n🔀 Test 2: Reorg rolls back and re-indexes');
+  chain.reorg(3);
+  chain.mine();
+  chain.mine(stake('Unstaked', alice, '0.25'));
+  chain.mine();
+  synced = await indexer.syncToHead();
+  assert.deepStrictEqual(await nftState(), { owner: alice, staked: true });
+  assert.strictEqual(await stakedEther(alice), '0.75');
+  assert.strictEqual(await stakedEther(bob), '0.0');
+  const status = await indexer.getStatus();
+  assert.strictEqual(status.checkpoint!.last_block, 5);
+  assert.strictEqual(status.checkpoint!.last_block_hash, chain.blocks[5].hash);
+  assert.strictEqual(status.events, 3);
+  console.log('✓ Orphaned transfer and stake undone; the fork\'s unstake applied');
+
+  // Test 3: caught up
+  assert.strictEqual(await indexer.indexNext(), null);
+  console.log('✓ Nothing to index at the head');
+
+  // Test 4: manual rewind before the start block clears everything
+  console.log('\n⏪ Test 4: Manual rewind');
+  await indexer.rewind(0);
+  assert.strictEqual((await indexer.getStatus()).checkpoint, null);
+  assert.strictEqual(await stakedEther(alice), '0.0');
+  assert.deepStrictEqual(await nftState(), { owner: alice, staked: false });
+  synced = await indexer.syncToHead();
+  assert.strictEqual(synced.events, 3);
+  assert.strictEqual(await stakedEther(alice), '0.75');
+  console.log('✓ Rewound and re-indexed to the same state');
+
+  // Test 5: transfer audit under both policies
+  console.log('\n📜 Test 5: Transfer policies and ownership audit');
+  await db.query('UPDATE nft_attributes SET loyalty_points = 1200 WHERE chain_id = $1 AND nft_token_id = $2', [CHAIN_ID, tokenId]);
+
+  config.nft.transferPolicy = 'follow_token';
+  chain.mine(transfer(alice, bob));
+  // Padding keeps the later reorg from rewinding past this transfer
+  chain.mine();
+  chain.mine();
+  await indexer.syncToHead();
+  assert.strictEqual(await points(tokenId), 1200);
+  const audit = await db.query(
+    'SELECT original_owner_wallet_address, transfer_count FROM loyalty_nfts WHERE chain_id = $1 AND token_id = $2',
+    [CHAIN_ID, tokenId]
+  );
+  assert.deepStrictEqual(audit.rows[0], { original_owner_wallet_address: alice, transfer_count: 1 });
+  console.log('✓ follow_token: attributes moved with the NFT');
+
+  config.nft.transferPolicy = 'stay_with_wallet';
+  chain.mine(transfer(bob, alice));
+  await indexer.syncToHead();
+  assert.deepStrictEqual(await nftState(), { owner: alice, staked: true });
+  assert.strictEqual(await points(tokenId), 0);
+  console.log('✓ stay_with_wallet: NFT reset for the new owner, sender keeps the profile');
+
+  // The reorged-out transfer is undone: bob gets the NFT back with his attributes
+  chain.reorg(chain.blocks.length - 1);
+  chain.mine();
+  await indexer.syncToHead();
+  assert.strictEqual((await nftState()).owner, bob);
+  assert.strictEqual(await points(tokenId), 1200);
+  const retained = await db.query('SELECT COUNT(*)::int AS count FROM retained_loyalty_profiles WHERE wallet_address = $1', [bob]);
+  assert.strictEqual(retained.rows[0].count, 0);
+  console.log('✓ Reorg restored the sender\'s attributes and dropped the retained profile');
+
+  chain.mine(transfer(bob, alice));
+  await indexer.syncToHead();
+  assert.strictEqual(await points(tokenId), 0);
+  await databaseService.createNFTRecord(bob, secondTokenId, '0x' + '0'.repeat(64), undefined, CHAIN_ID);
+  assert.strictEqual(await points(secondTokenId), 1200);
+  console.log('✓ The sender\'s next mint restores the retained profile');
+
+  const history = await db.query(
+    'SELECT from_wallet_address, to_wallet_address, policy, reverted_at IS NOT NULL AS reverted FROM nft_ownership_changes WHERE chain_id = $1 AND nft_token_id = $2 ORDER BY change_id',
+    [CHAIN_ID, tokenId]
+  );
+  assert.deepStrictEqual(history.rows.map((row: any) => `${row.policy}${row.reverted ? ' (reverted)' : ''}`), [
+    'follow_token (reverted)', 'follow_token', 'stay_with_wallet (reverted)', 'stay_with_wallet'
+  ]);
+  console.log(`✓ ${history.rows.length} ownership changes audited, reverted ones included`);
+
+  // Test 6: staking attributes and ETH-day points
+  console.log('\n🥩 Test 6: Staking attributes and ETH-day points');
+  const stakingAttributes = async () => (await db.query(
+    'SELECT staked_eth, staked_since, eth_days, eth_days_awarded, loyalty_points FROM nft_attributes WHERE chain_id = $1 AND nft_token_id = $2',
+    [CHAIN_ID, tokenId]
+  )).rows[0];
+  let attributes = await stakingAttributes();
+  assert.strictEqual(Number(attributes.staked_eth), 0.75);
+  assert.strictEqual(attributes.staked_since.getTime(), (GENESIS_TIME + 2 * 12) * 1000);
+  console.log('✓ The new owner\'s stake and its start time were copied onto the NFT');
+
+  // Ten days of 0.75 ETH since the last sync: 7.5 ETH-days, 7 whole ones awarded at 10 points each
+  await db.query("UPDATE nft_attributes SET staking_synced_at = NOW() - INTERVAL '10 days' WHERE chain_id = $1 AND nft_token_id = $2", [CHAIN_ID, tokenId]);
+  await stakingService.sync(CHAIN_ID);
+  attributes = await stakingAttributes();
+  assert.strictEqual(Number(Number(attributes.eth_days).toFixed(3)), 7.5);
+  assert.strictEqual(Number(attributes.eth_days_awarded), 7);
+  assert.strictEqual(attributes.loyalty_points, 70);
+  const accrual = await db.query(
+    "SELECT points_earned, action_details FROM user_actions WHERE user_wallet_address = $1 AND action_type = 'eth_staking'",
+    [alice]
+  );
+  assert.strictEqual(accrual.rows.length, 1);
+  assert.strictEqual(accrual.rows[0].action_details.tokenId, tokenId);
+  console.log(`✓ ${attributes.eth_days} ETH-days accrued, ${accrual.rows[0].points_earned} points awarded`);
+
+  const gated = { perk_id: 0, unlock_type: 'staked_eth', unlock_threshold: '0.5' } as any;
+  assert.strictEqual((await databaseService.evaluatePerkUnlock(gated, alice)).unlocked, true);
+  chain.mine(stake('Unstaked', alice, '0.5'));
+  await indexer.syncToHead();
+  const unmet = await databaseService.evaluatePerkUnlock(gated, alice);
+  assert.deepStrictEqual(unmet.unmet.map(u => u.message), ['Stake 0.25 more ETH']);
+  console.log('✓ Stake-gated perk locks again after an unstake');
+
+  // Test 7: a wallet holding two NFTs has its stake on one of them
+  console.log('\n🪙 Test 7: One stake, two NFTs');
+  await databaseService.createNFTRecord(alice, thirdTokenId, '0x' + '0'.repeat(64), undefined, CHAIN_ID);
+  await db.query(
+    "UPDATE nft_attributes SET staking_synced_at = NOW() - INTERVAL '10 days' WHERE chain_id = $1 AND nft_token_id = ANY($2)",
+    [CHAIN_ID, [tokenId, thirdTokenId]]
+  );
+  await stakingService.sync(CHAIN_ID);
+  const held = await db.query(
+    'SELECT nft_token_id, staked_eth, eth_days FROM nft_attributes WHERE chain_id = $1 AND nft_token_id = ANY($2) ORDER BY nft_token_id',
+    [CHAIN_ID, [tokenId, thirdTokenId]]
+  );
+  assert.deepStrictEqual(held.rows.map((row: any) => Number(row.staked_eth)), [0.25, 0]);
+  assert.strictEqual(Number(held.rows[1].eth_days), 0);
+  assert.strictEqual(Number(Number(held.rows[0].eth_days).toFixed(3)), 10);
+  console.log('✓ The stake sits on the higher-level NFT only and accrues ETH-days once');
+
+  console.log('\n🎉 Chain indexer test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ Chain indexer test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });
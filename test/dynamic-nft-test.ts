@@ -1,11 +1,14 @@
 /**
  * Test script for Dynamic NFT Metadata API
- * This script validates the implementation without requiring a running server
+ * This script validates the implementation without requiring a running server.
+ * Level definitions are read from the loyalty_levels table, so the database must be migrated.
  */
 
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { levelService } from '../src/services/levels';
 import { 
   LEVEL_IMAGE_MAP, 
-  LEVEL_CONFIGS, 
   NFT_CONFIG,
   calculateLoyaltyLevel,
   generateMetadataUrl,
@@ -13,182 +16,194 @@ import {
   getLevelConfig
 } from '../src/config/nft-levels';
 
-console.log('🚀 Testing Dynamic NFT Architecture Implementation');
-console.log('=' .repeat(60));
-
-// Test 1: Level configuration validation
-console.log('\n📋 Test 1: Level Configuration Validation');
-console.log(`✓ Total levels configured: ${LEVEL_CONFIGS.length}`);
-console.log(`✓ Image mappings: ${Object.keys(LEVEL_IMAGE_MAP).length}`);
-console.log(`✓ Max level: ${NFT_CONFIG.MAX_LEVEL}`);
-console.log(`✓ Base metadata URL: ${NFT_CONFIG.METADATA_BASE_URL}`);
-console.log(`✓ Pinata gateway: ${NFT_CONFIG.PINATA_GATEWAY}`);
-
-// Test 2: Level calculation logic
-console.log('\n🧮 Test 2: Loyalty Level Calculation');
-
-const testUsers = [
-  {
-    name: 'New User',
-    attributes: {
-      loyaltyPoints: 0,
-      flightsTaken: 0,
-      totalSpending: 0,
-      bankTier: 'Standard'
-    },
-    expectedLevel: 0
-  },
-  {
-    name: 'Bronze Traveler',
-    attributes: {
-      loyaltyPoints: 1500,
-      flightsTaken: 3,
-      totalSpending: 8000000,
-      bankTier: 'Standard'
+async function run(): Promise<void> {
+  const levels = await levelService.getLevels();
+
+  console.log('🚀 Testing Dynamic NFT Architecture Implementation');
+  console.log('=' .repeat(60));
+
+  // Test 1: Level configuration validation
+  console.log('\n📋 Test 1: Level Configuration Validation');
+  console.log(`✓ Total levels configured: ${levels.length}`);
+  console.log(`✓ Image mappings: ${Object.keys(LEVEL_IMAGE_MAP).length}`);
+  console.log(`✓ Max level: ${NFT_CONFIG.MAX_LEVEL}`);
+  console.log(`✓ Base metadata URL: ${NFT_CONFIG.METADATA_BASE_URL}`);
+  console.log(`✓ Pinata gateway: ${NFT_CONFIG.PINATA_GATEWAY}`);
+
+  // Test 2: Level calculation logic
+  console.log('\n🧮 Test 2: Loyalty Level Calculation');
+
+  const testUsers = [
+    {
+      name: 'New User',
+      attributes: {
+        loyaltyPoints: 0,
+        flightsTaken: 0,
+        totalSpending: 0,
+        bankTier: 'Standard'
+      },
+      expectedLevel: 0
     },
-    expectedLevel: 1
-  },
-  {
-    name: 'Silver Navigator',
-    attributes: {
-      loyaltyPoints: 3000,
-      flightsTaken: 6,
-      totalSpending: 20000000,
-      bankTier: 'Silver'
+    {
+      name: 'Bronze Traveler',
+      attributes: {
+        loyaltyPoints: 1500,
+        flightsTaken: 3,
+        totalSpending: 8000000,
+        bankTier: 'Standard'
+      },
+      expectedLevel: 1
     },
-    expectedLevel: 2
-  },
-  {
-    name: 'Gold Adventurer',
-    attributes: {
-      loyaltyPoints: 6000,
-      flightsTaken: 12,
-      totalSpending: 40000000,
-      bankTier: 'Gold'
+    {
+      name: 'Silver Navigator',
+      attributes: {
+        loyaltyPoints: 3000,
+        flightsTaken: 6,
+        totalSpending: 20000000,
+        bankTier: 'Silver'
+      },
+      expectedLevel: 2
     },
-    expectedLevel: 3
-  },
-  {
-    name: 'Diamond Explorer',
-    attributes: {
-      loyaltyPoints: 15000,
-      flightsTaken: 25,
-      totalSpending: 100000000,
-      bankTier: 'Platinum'
+    {
+      name: 'Gold Adventurer',
+      attributes: {
+        loyaltyPoints: 6000,
+        flightsTaken: 12,
+        totalSpending: 40000000,
+        bankTier: 'Gold'
+      },
+      expectedLevel: 3
     },
-    expectedLevel: 4
-  },
-  {
-    name: 'Elite Wings',
-    attributes: {
-      loyaltyPoints: 40000,
-      flightsTaken: 55,
-      totalSpending: 350000000,
-      bankTier: 'Diamond'
+    {
+      name: 'Diamond Explorer',
+      attributes: {
+        loyaltyPoints: 15000,
+        flightsTaken: 25,
+        totalSpending: 100000000,
+        bankTier: 'Platinum'
+      },
+      expectedLevel: 4
     },
-    expectedLevel: 6
-  },
-  {
-    name: 'Royal Crown',
-    attributes: {
-      loyaltyPoints: 60000,
-      flightsTaken: 80,
-      totalSpending: 600000000,
-      bankTier: 'Diamond'
+    {
+      name: 'Elite Wings',
+      attributes: {
+        loyaltyPoints: 40000,
+        flightsTaken: 55,
+        totalSpending: 350000000,
+        bankTier: 'Diamond'
+      },
+      expectedLevel: 6
     },
-    expectedLevel: 7
+    {
+      name: 'Royal Crown',
+      attributes: {
+        loyaltyPoints: 60000,
+        flightsTaken: 80,
+        totalSpending: 600000000,
+        bankTier: 'Diamond'
+      },
+      expectedLevel: 7
+    }
+  ];
+
+  testUsers.forEach(user => {
+    const calculatedLevel = calculateLoyaltyLevel(user.attributes, levels);
+    const levelConfig = getLevelConfig(levels, calculatedLevel);
+    const isCorrect = calculatedLevel === user.expectedLevel;
+    
+    console.log(`${isCorrect ? '✓' : '❌'} ${user.name}: Level ${calculatedLevel} (${levelConfig?.name || 'Unknown'}) - Expected: ${user.expectedLevel}`);
+  });
+
+  // Test 3: URL generation
+  console.log('\n🔗 Test 3: URL Generation');
+  const { chainId } = config.blockchain.networks[config.blockchain.defaultNetwork];
+  for (let tokenId = 1; tokenId <= 5; tokenId++) {
+    const metadataUrl = generateMetadataUrl(chainId, tokenId);
+    const level = tokenId % 8; // Mock level calculation
+    const imageCid = LEVEL_IMAGE_MAP[level];
+    const imageUrl = generateImageUrl(imageCid);
+    
+    console.log(`Token ${tokenId}:`);
+    console.log(`  📍 Metadata URL: ${metadataUrl}`);
+    console.log(`  🖼️  Image URL: ${imageUrl}`);
+    console.log(`  📊 Mock Level: ${level}`);
   }
-];
-
-testUsers.forEach(user => {
-  const calculatedLevel = calculateLoyaltyLevel(user.attributes);
-  const levelConfig = getLevelConfig(calculatedLevel);
-  const isCorrect = calculatedLevel === user.expectedLevel;
-  
-  console.log(`${isCorrect ? '✓' : '❌'} ${user.name}: Level ${calculatedLevel} (${levelConfig?.name || 'Unknown'}) - Expected: ${user.expectedLevel}`);
-});
-
-// Test 3: URL generation
-console.log('\n🔗 Test 3: URL Generation');
-for (let tokenId = 1; tokenId <= 5; tokenId++) {
-  const metadataUrl = generateMetadataUrl(tokenId);
-  const level = tokenId % 8; // Mock level calculation
-  const imageCid = LEVEL_IMAGE_MAP[level];
-  const imageUrl = generateImageUrl(imageCid);
-  
-  console.log(`Token ${tokenId}:`);
-  console.log(`  📍 Metadata URL: ${metadataUrl}`);
-  console.log(`  🖼️  Image URL: ${imageUrl}`);
-  console.log(`  📊 Mock Level: ${level}`);
-}
 
-// Test 4: Image CID validation
-console.log('\n🖼️  Test 4: Image CID Validation');
-let allCidsValid = true;
-for (let level = 0; level <= NFT_CONFIG.MAX_LEVEL; level++) {
-  const cid = LEVEL_IMAGE_MAP[level];
-  const isValid = cid && cid.length > 0;
-  if (!isValid) {
-    allCidsValid = false;
-    console.log(`❌ Level ${level}: Missing or invalid CID`);
-  } else {
-    console.log(`✓ Level ${level}: ${cid.substring(0, 20)}...`);
+  // Test 4: Image CID validation
+  console.log('\n🖼️  Test 4: Image CID Validation');
+  let allCidsValid = true;
+  for (let level = 0; level <= NFT_CONFIG.MAX_LEVEL; level++) {
+    const cid = getLevelConfig(levels, level)?.imageCid;
+    const isValid = cid && cid.length > 0;
+    if (!isValid) {
+      allCidsValid = false;
+      console.log(`❌ Level ${level}: Missing or invalid CID`);
+    } else {
+      console.log(`✓ Level ${level}: ${cid.substring(0, 20)}...`);
+    }
   }
-}
 
-if (allCidsValid) {
-  console.log('✓ All image CIDs are properly configured');
-}
+  if (allCidsValid) {
+    console.log('✓ All image CIDs are properly configured');
+  }
 
-// Test 5: Mock metadata generation
-console.log('\n📄 Test 5: Mock Metadata Generation');
-const mockTokenId = 42;
-const mockLevel = 3;
-const mockLevelConfig = getLevelConfig(mockLevel);
-const mockImageUrl = generateImageUrl(LEVEL_IMAGE_MAP[mockLevel]);
-
-const mockMetadata = {
-  name: `${NFT_CONFIG.DEFAULT_NAME_PREFIX} #${mockTokenId}`,
-  description: mockLevelConfig?.description || NFT_CONFIG.DEFAULT_DESCRIPTION,
-  image: mockImageUrl,
-  external_url: `https://gomgom.devpros.io.vn/nft/${mockTokenId}`,
-  attributes: [
-    {
-      "trait_type": "Loyalty Level",
-      "value": mockLevel
-    },
-    {
-      "trait_type": "Level Name",
-      "value": mockLevelConfig?.name || `Level ${mockLevel}`
-    },
-    {
-      "trait_type": "Rarity",
-      "value": mockLevel >= 5 ? "Elite" : mockLevel >= 3 ? "Rare" : "Common"
+  // Test 5: Mock metadata generation
+  console.log('\n📄 Test 5: Mock Metadata Generation');
+  const mockTokenId = 42;
+  const mockLevel = 3;
+  const mockLevelConfig = getLevelConfig(levels, mockLevel);
+  const mockImageUrl = generateImageUrl(mockLevelConfig?.imageCid || LEVEL_IMAGE_MAP[mockLevel]);
+
+  const mockMetadata = {
+    name: `${NFT_CONFIG.DEFAULT_NAME_PREFIX} #${mockTokenId}`,
+    description: mockLevelConfig?.description || NFT_CONFIG.DEFAULT_DESCRIPTION,
+    image: mockImageUrl,
+    external_url: `https://gomgom.devpros.io.vn/nft/${mockTokenId}`,
+    attributes: [
+      {
+        "trait_type": "Loyalty Level",
+        "value": mockLevel
+      },
+      {
+        "trait_type": "Level Name",
+        "value": mockLevelConfig?.name || `Level ${mockLevel}`
+      },
+      {
+        "trait_type": "Rarity",
+        "value": mockLevel >= 5 ? "Elite" : mockLevel >= 3 ? "Rare" : "Common"
+      }
+    ],
+    loyalty_ecosystem: {
+      level: mockLevel,
+      level_name: mockLevelConfig?.name,
+      max_level: NFT_CONFIG.MAX_LEVEL
     }
-  ],
-  loyalty_ecosystem: {
-    level: mockLevel,
-    level_name: mockLevelConfig?.name,
-    max_level: NFT_CONFIG.MAX_LEVEL
-  }
-};
-
-console.log('Generated Mock Metadata:');
-console.log(JSON.stringify(mockMetadata, null, 2));
-
-// Summary
-console.log('\n' + '=' .repeat(60));
-console.log('🎉 Dynamic NFT Architecture Implementation Test Complete!');
-console.log('\n📊 Summary:');
-console.log(`✓ Level configurations: ${LEVEL_CONFIGS.length}/8`);
-console.log(`✓ Image mappings: ${Object.keys(LEVEL_IMAGE_MAP).length}/8`);
-console.log(`✓ Level calculation tests: ${testUsers.filter(u => calculateLoyaltyLevel(u.attributes) === u.expectedLevel).length}/${testUsers.length}`);
-console.log(`✓ Image CIDs valid: ${allCidsValid ? 'Yes' : 'No'}`);
-
-console.log('\n🚀 Ready for deployment! The dynamic NFT architecture is correctly implemented.');
-console.log('\n📌 Next steps:');
-console.log('1. Deploy backend with metadata API endpoint');
-console.log('2. Backend URL: https://gomgom-backend.onrender.com');
-console.log('3. Run database migration: migration-dynamic-nft.sql');
-console.log('4. Test metadata API: GET /api/metadata/{tokenId}');
-console.log('5. Mint NFTs with static tokenURI pointing to metadata API');
+  };
+
+  console.log('Generated Mock Metadata:');
+  console.log(JSON.stringify(mockMetadata, null, 2));
+
+  // Summary
+  console.log('\n' + '=' .repeat(60));
+  console.log('🎉 Dynamic NFT Architecture Implementation Test Complete!');
+  console.log('\n📊 Summary:');
+  console.log(`✓ Level configurations: ${levels.length}/8`);
+  console.log(`✓ Image mappings: ${Object.keys(LEVEL_IMAGE_MAP).length}/8`);
+  console.log(`✓ Level calculation tests: ${testUsers.filter(u => calculateLoyaltyLevel(u.attributes, levels) === u.expectedLevel).length}/${testUsers.length}`);
+  console.log(`✓ Image CIDs valid: ${allCidsValid ? 'Yes' : 'No'}`);
+
+  console.log('\n🚀 Ready for deployment! The dynamic NFT architecture is correctly implemented.');
+  console.log('\n📌 Next steps:');
+  console.log('1. Deploy backend with metadata API endpoint');
+  console.log('2. Backend URL: https://gomgom-backend.onrender.com');
+  console.log('3. Run database migrations: npm run migrate -- up');
+  console.log('4. Test metadata API: GET /api/metadata/{tokenId}');
+  console.log('5. Mint NFTs with static tokenURI pointing to metadata API');
+}
+
+run()
+  .catch((error) => {
+    console.error('❌ Dynamic NFT test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.close());
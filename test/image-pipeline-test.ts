@@ -0,0 +1,120 @@
+/**
+ * Test script for the media upload pipeline
+ * Checks content sniffing, SVG sanitizing, EXIF stripping, the resized variants and the blurhash.
+ * Runs without a database or an IPFS provider.
+ *
+ * Usage: npm run test:media
+ */
+
+import assert from 'assert';
+import sharp from 'sharp';
+import { MediaPipelineError, processMedia, sanitizeSvg, sniffContentType } from '../src/services/image-pipeline';
+
+const SVG_NS = 'xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"';
+
+async function rejects(content: Buffer, pattern: RegExp): Promise<void> {
+  await assert.rejects(processMedia(content), (error: any) =>
+    error instanceof MediaPipelineError && error.statusCode === 415 && pattern.test(error.message));
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing media pipeline...');
+
+  // Test 1: the content decides the type, whatever the file was called
+  console.log('\n🔎 Test 1: Content sniffing');
+  const png = await sharp({ create: { width: 40, height: 30, channels: 4, background: '#36c' } }).png().toBuffer();
+  const gif = await sharp(png).gif().toBuffer();
+  const webp = await sharp(png).webp().toBuffer();
+  const ftyp = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`), Buffer.alloc(12)]);
+  assert.strictEqual(sniffContentType(png), 'image/png');
+  assert.strictEqual(sniffContentType(gif), 'image/gif');
+  assert.strictEqual(sniffContentType(webp), 'image/webp');
+  assert.strictEqual(sniffContentType(await sharp(png).jpeg().toBuffer()), 'image/jpeg');
+  assert.strictEqual(sniffContentType(ftyp('isom')), 'video/mp4');
+  assert.strictEqual(sniffContentType(ftyp('qt  ')), 'video/quicktime');
+  assert.strictEqual(sniffContentType(Buffer.from('RIFF\0\0\0\0AVI LIST')), 'video/x-msvideo');
+  assert.strictEqual(sniffContentType(Buffer.from(`<?xml version="1.0"?>\n<!-- logo -->\n<svg ${SVG_NS}/>`)), 'image/svg+xml');
+  assert.strictEqual(sniffContentType(Buffer.from('<html><svg/></html>')), null);
+  assert.strictEqual(sniffContentType(Buffer.from('MZ\x90\0')), null);
+  await rejects(Buffer.from('#!/bin/sh\necho pwned'), /Unsupported file type/);
+  await rejects(Buffer.concat([png.subarray(0, 40), Buffer.alloc(40)]), /Could not read/);
+
+  const video = ftyp('isom');
+  const passed = await processMedia(video);
+  assert.strictEqual(passed.category, 'video');
+  assert.strictEqual(passed.content, video);
+  assert.deepStrictEqual(passed.variants, []);
+  console.log('✓ Images and videos are recognized by their magic bytes; anything else is refused with 415');
+
+  // Test 2: SVGs keep their drawing and lose everything active
+  console.log('\n🧼 Test 2: SVG sanitizing');
+  const svg = Buffer.from(`<?xml version="1.0"?>
+<svg ${SVG_NS} width="200" height="100" onload="alert(1)">
+  <script>alert(1)</script>
+  <style>@import url(https://evil.example/x.css);</style>
+  <defs><linearGradient id="g"><stop offset="0" stop-color="#f80"/></linearGradient></defs>
+  <rect width="200" height="100" fill="url(#g)" style="fill:url(https://evil.example/track)"/>
+  <circle cx="50" cy="50" r="20" onclick="steal()"/>
+  <use xlink:href="https://evil.example/sprite.svg#icon"/>
+  <use href="#g"/>
+  <image href="javascript:alert(1)"/>
+  <foreignObject><iframe xmlns="http://www.w3.org/1999/xhtml" src="https://evil.example"/></foreignObject>
+</svg>`);
+  const clean = sanitizeSvg(svg).toString();
+  for (const banned of ['script', 'onload', 'onclick', 'evil.example', 'javascript:', 'foreignObject', '<style', '<?xml']) {
+    assert.ok(!clean.includes(banned), `sanitized SVG still contains ${banned}`);
+  }
+  for (const kept of ['<rect', 'fill="url(#g)"', '<circle', 'href="#g"', 'stop-color="#f80"']) {
+    assert.ok(clean.includes(kept), `sanitized SVG lost ${kept}`);
+  }
+  assert.throws(() => sanitizeSvg(Buffer.from(`<!DOCTYPE svg [<!ENTITY x SYSTEM "file:///etc/passwd">]><svg ${SVG_NS}>&x;</svg>`)), MediaPipelineError);
+
+  const drawn = await processMedia(svg);
+  assert.strictEqual(drawn.contentType, 'image/svg+xml');
+  assert.strictEqual(drawn.content.toString(), clean);
+  assert.deepStrictEqual([drawn.width, drawn.height], [200, 100]);
+  // Already smaller than the thumbnail, so there is nothing larger to generate
+  assert.deepStrictEqual(drawn.variants.map(variant => [variant.name, variant.width, variant.height]), [['thumbnail', 200, 100]]);
+  console.log('✓ Scripts, handlers, external references and entities are gone; the SVG still renders');
+
+  // Test 3: EXIF is stripped with the orientation applied, and images get variants and a blurhash
+  console.log('\n📷 Test 3: EXIF, variants and blurhash');
+  const photo = await sharp({ create: { width: 2000, height: 1200, channels: 3, background: '#c84' } })
+    .jpeg()
+    .withMetadata({ orientation: 6, exif: { IFD0: { Make: 'GomGom Cam', Copyright: 'Alice' } } })
+    .toBuffer();
+  assert.ok((await sharp(photo).metadata()).exif);
+
+  const processed = await processMedia(photo);
+  const stripped = await sharp(processed.content).metadata();
+  assert.strictEqual(processed.contentType, 'image/jpeg');
+  assert.strictEqual(stripped.format, 'jpeg');
+  assert.strictEqual(stripped.exif, undefined);
+  assert.ok(!processed.content.includes('GomGom Cam'));
+  // Orientation 6 is a quarter turn, so the stored pixels are portrait
+  assert.deepStrictEqual([processed.width, processed.height], [1200, 2000]);
+  assert.deepStrictEqual([stripped.width, stripped.height], [1200, 2000]);
+
+  assert.deepStrictEqual(processed.variants.map(variant => [variant.name, variant.width, variant.height]), [
+    ['thumbnail', 154, 256], ['512', 307, 512], ['1024', 614, 1024]
+  ]);
+  for (const variant of processed.variants) {
+    const info = await sharp(variant.content).metadata();
+    assert.strictEqual(info.format, 'webp');
+    assert.strictEqual(info.exif, undefined);
+  }
+  assert.match(processed.blurhash!, /^[0-9A-Za-z#$%*+,-.:;=?@[\]^_{|}~]{28}$/);
+
+  // Nothing to strip: the upload is pinned byte for byte
+  const plain = await processMedia(png);
+  assert.strictEqual(plain.content, png);
+  assert.deepStrictEqual(plain.variants.map(variant => variant.width), [40]);
+  console.log(`✓ EXIF removed, variants ${processed.variants.map(variant => variant.name).join('/')} generated, blurhash ${processed.blurhash}`);
+
+  console.log('\n🎉 Media pipeline test passed!');
+}
+
+run().catch(error => {
+  console.error('❌ Media pipeline test failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,124 @@
+/**
+ * Integration test for IPFS upload records
+ * Runs IpfsService against a real Postgres with all migrations applied and the memory provider:
+ * what is recorded in ipfs_pins, skipping content that is already pinned, and refusing a provider
+ * that reports the wrong CID.
+ *
+ * Usage: npm run test:dedupe
+ */
+
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { computeCid } from '../src/services/cid';
+import { IpfsIntegrityError, IpfsService } from '../src/services/ipfs';
+import { getIpfsProvider } from '../src/services/ipfs-providers';
+
+config.ipfs.provider = 'memory';
+
+const OWNER = ethers.Wallet.createRandom().address;
+const WRONG_CID = 'bafkreiaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipfs-dedupe-test-'));
+
+async function record(cid: string): Promise<any> {
+  const result = await db.query('SELECT * FROM ipfs_pins WHERE cid = $1 AND provider = $2', [cid, 'memory']);
+  return result.rows[0];
+}
+
+async function cleanup(): Promise<void> {
+  await db.query('DELETE FROM ipfs_pins WHERE owner = $1', [OWNER.toLowerCase()]);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing IPFS upload records against Postgres...');
+  const provider = getIpfsProvider();
+  const pinContent = provider.pinContent.bind(provider);
+  const pinStream = provider.pinStream.bind(provider);
+  let sent = 0;
+  provider.pinContent = async (content, options) => {
+    sent++;
+    return pinContent(content, options);
+  };
+
+  // Test 1: every upload records what was pinned and by whom
+  console.log('\n📝 Test 1: Pin records');
+  const content = crypto.randomBytes(512);
+  const upload = await IpfsService.uploadBuffer(content, { owner: OWNER, name: 'badge', metadata: { type: 'nft_image' } });
+  assert.deepStrictEqual(upload, { cid: computeCid(content), duplicate: false });
+  const pinned = await record(upload.cid);
+  assert.strictEqual(pinned.size_bytes, '512');
+  assert.strictEqual(pinned.mime_type, 'application/octet-stream');
+  assert.strictEqual(pinned.name, 'badge');
+  assert.strictEqual(pinned.owner, OWNER.toLowerCase());
+  assert.strictEqual(pinned.purpose, 'nft_image');
+  assert.strictEqual(pinned.unpinned_at, null);
+
+  const document = { name: 'Badge', nonce: crypto.randomBytes(8).toString('hex') };
+  const json = await IpfsService.uploadJSON(document, { owner: OWNER });
+  const metadata = await record(json.cid);
+  assert.strictEqual(json.cid, computeCid(Buffer.from(JSON.stringify(document))));
+  assert.deepStrictEqual([metadata.mime_type, metadata.name, metadata.purpose], ['application/json', 'NFT Metadata', 'metadata']);
+
+  const filePath = path.join(tmpDir, 'badge.png');
+  fs.writeFileSync(filePath, crypto.randomBytes(64));
+  const file = await record((await IpfsService.uploadFile(filePath, { owner: OWNER })).cid);
+  assert.deepStrictEqual([file.size_bytes, file.mime_type, file.name, file.purpose], ['64', 'image/png', 'badge.png', 'upload']);
+  console.log('✓ Size, type, name, lowercased owner and purpose recorded for buffers, JSON and files');
+
+  // Test 2: content already pinned is not sent again
+  console.log('\n♻️ Test 2: Duplicates');
+  const before = sent;
+  const again = await IpfsService.uploadBuffer(content, { owner: 'someone-else', name: 'copy' });
+  assert.deepStrictEqual(again, { cid: upload.cid, duplicate: true });
+  assert.strictEqual(sent, before);
+  assert.strictEqual((await record(upload.cid)).owner, OWNER.toLowerCase());
+
+  const streamed = await IpfsService.uploadStream(Readable.from([content]), { owner: OWNER });
+  assert.deepStrictEqual(streamed, { cid: upload.cid, duplicate: true, size: 512 });
+  assert.strictEqual((await record(upload.cid)).name, 'badge');
+  console.log('✓ Re-uploading skipped the provider and kept the first record; a streamed copy is reported as a duplicate');
+
+  // Test 3: a provider reporting another CID fails the upload and records nothing
+  console.log('\n🛡️ Test 3: Integrity');
+  provider.pinContent = async () => WRONG_CID;
+  provider.pinStream = async stream => {
+    for await (const chunk of stream) {
+      void chunk;
+    }
+    return WRONG_CID;
+  };
+  try {
+    const tampered = crypto.randomBytes(256);
+    await assert.rejects(IpfsService.uploadBuffer(tampered, { owner: OWNER }), (error: any) =>
+      error instanceof IpfsIntegrityError && error.expectedCid === computeCid(tampered) && error.reportedCid === WRONG_CID);
+    assert.strictEqual(await record(computeCid(tampered)), undefined);
+    assert.strictEqual(await record(WRONG_CID), undefined);
+
+    const streamedTampered = crypto.randomBytes(256);
+    await assert.rejects(IpfsService.uploadStream(Readable.from([streamedTampered]), { owner: OWNER }), IpfsIntegrityError);
+    assert.strictEqual(await record(computeCid(streamedTampered)), undefined);
+  } finally {
+    provider.pinContent = pinContent;
+    provider.pinStream = pinStream;
+  }
+  console.log(`✓ ${WRONG_CID.slice(0, 16)}... refused with IpfsIntegrityError for buffers and streams`);
+
+  console.log('\n🎉 IPFS upload record test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ IPFS upload record test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });
@@ -0,0 +1,180 @@
+/**
+ * Integration test for the IPFS pin lifecycle
+ * Runs IpfsPinService against a real Postgres with all migrations applied and the memory provider:
+ * references, unpinning, replacing and the garbage collector.
+ *
+ * Usage: npm run test:pins
+ */
+
+import assert from 'assert';
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { databaseService } from '../src/services/database';
+import { IpfsService } from '../src/services/ipfs';
+import { ipfsPinService, IpfsPinError } from '../src/services/ipfs-pins';
+import { getIpfsProvider } from '../src/services/ipfs-providers';
+
+config.ipfs.provider = 'memory';
+
+const CHAIN_ID = 990004;
+const OWNER = `test-pins-${crypto.randomBytes(4).toString('hex')}`;
+const wallet = ethers.Wallet.createRandom().address.toLowerCase();
+const tokenId = 900000000 + Math.floor(Math.random() * 1000000);
+// Older than anything else in the database, so the collector only sees this test's pins
+const GC_AGE_DAYS = 3000;
+
+const cids: string[] = [];
+
+async function pin(label: string): Promise<string> {
+  const { cid } = await IpfsService.uploadBuffer(Buffer.from(`${OWNER} ${label}`), {
+    name: label, owner: OWNER, purpose: 'test', mimeType: 'text/plain'
+  });
+  cids.push(cid);
+  return cid;
+}
+
+async function pinnedOnProvider(cid: string): Promise<boolean> {
+  const pins = await getIpfsProvider().listPins({ status: 'pinned', pageLimit: 1000 });
+  return pins.rows.some(row => row.ipfs_pin_hash === cid);
+}
+
+async function unpinnedBy(cid: string): Promise<string | null> {
+  const result = await db.query('SELECT unpinned_by FROM ipfs_pins WHERE cid = $1 AND provider = $2', [cid, 'memory']);
+  return result.rows[0].unpinned_by;
+}
+
+async function age(cid: string, days: number): Promise<void> {
+  await db.query(
+    "UPDATE ipfs_pins SET pinned_at = NOW() - make_interval(days => $2) WHERE cid = $1 AND provider = 'memory'",
+    [cid, days]
+  );
+}
+
+async function rejectsWith(promise: Promise<unknown>, statusCode: number): Promise<void> {
+  await assert.rejects(promise, (error: any) => error instanceof IpfsPinError && error.statusCode === statusCode);
+}
+
+async function cleanup(): Promise<void> {
+  await db.query('DELETE FROM ipfs_pin_references WHERE cid = ANY($1)', [cids]);
+  await db.query('DELETE FROM ipfs_pins WHERE owner = $1', [OWNER]);
+  // Deleting the user cascades to its NFT
+  await db.query('DELETE FROM users WHERE wallet_address = $1', [wallet]);
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing the IPFS pin lifecycle against Postgres...');
+
+  // Test 1: references are recorded once and removed
+  console.log('\n🔗 Test 1: Adding and removing references');
+  const document = await pin('document');
+  const first = await ipfsPinService.addReference(document, 'mint_job', 1, OWNER);
+  const again = await ipfsPinService.addReference(document, 'mint_job', '1', OWNER);
+  assert.strictEqual(again.reference_id, first.reference_id);
+  await ipfsPinService.addReference(document, 'metadata', 'bafyother', OWNER);
+  assert.deepStrictEqual((await ipfsPinService.getReferences(document)).map(r => r.referrer_type), ['mint_job', 'metadata']);
+  await ipfsPinService.removeReference(document, 'metadata', 'bafyother');
+  await rejectsWith(ipfsPinService.removeReference(document, 'metadata', 'bafyother'), 404);
+  assert.strictEqual((await ipfsPinService.getReferences(document)).length, 1);
+  console.log('✓ A reference recorded twice is stored once; removing a missing one is a 404');
+
+  // Test 2: referenced content is only unpinned when forced
+  console.log('\n🛑 Test 2: Unpinning referenced content');
+  await rejectsWith(ipfsPinService.unpin(document, OWNER), 409);
+  assert.strictEqual(await unpinnedBy(document), null);
+  assert.ok(await pinnedOnProvider(document));
+
+  const forced = await ipfsPinService.unpin(document, OWNER, true);
+  assert.deepStrictEqual(forced, { cid: document, references: 1 });
+  assert.strictEqual(await unpinnedBy(document), OWNER);
+  assert.ok(!await pinnedOnProvider(document));
+  assert.strictEqual((await ipfsPinService.getReferences(document)).length, 1);
+  await rejectsWith(ipfsPinService.addReference(document, 'mint_job', 2, OWNER), 409);
+
+  const repinned = await IpfsService.uploadBuffer(Buffer.from(`${OWNER} document`), { owner: OWNER, purpose: 'test', mimeType: 'text/plain' });
+  assert.deepStrictEqual(repinned, { cid: document, duplicate: false });
+  assert.strictEqual(await unpinnedBy(document), null);
+  console.log('✓ Refused with 409, forced unpin keeps the references, pinning again restores the record');
+
+  // Test 3: replacing moves the references to the new content
+  console.log('\n🔁 Test 3: Replacing content');
+  const image = await pin('image');
+  const newImage = await pin('new image');
+  await ipfsPinService.addReference(image, 'metadata', document, OWNER);
+  await ipfsPinService.addReference(image, 'mint_voucher', 7, OWNER);
+  await assert.rejects(ipfsPinService.replace(image, image, OWNER), IpfsPinError);
+  await rejectsWith(ipfsPinService.replace(image, 'bafynotpinned', OWNER), 404);
+
+  const replaced = await ipfsPinService.replace(image, newImage, OWNER);
+  assert.deepStrictEqual(replaced, { cid: newImage, replacedCid: image, moved: 2 });
+  assert.strictEqual((await ipfsPinService.getReferences(image)).length, 0);
+  assert.deepStrictEqual((await ipfsPinService.getReferences(newImage)).map(r => r.referrer_id), [document, '7']);
+  assert.strictEqual(await unpinnedBy(image), OWNER);
+  console.log('✓ 2 references moved and the old content unpinned');
+
+  // Test 4: the garbage collector
+  console.log('\n🧹 Test 4: Garbage collection');
+  const orphan = await pin('orphan');
+  const lateOrphan = await pin('late orphan');
+  const recent = await pin('recent');
+  const tokenMetadata = await pin('token metadata');
+  await age(orphan, GC_AGE_DAYS + 2);
+  await age(lateOrphan, GC_AGE_DAYS + 1);
+  await age(document, GC_AGE_DAYS + 1);
+  await age(tokenMetadata, GC_AGE_DAYS + 1);
+  await age(recent, GC_AGE_DAYS - 1);
+
+  // Recording the NFT references its metadata; without the reference its token URI still protects it
+  await databaseService.initUser(wallet);
+  await databaseService.createNFTRecord(wallet, tokenId, '0x' + '0'.repeat(64), { tokenUri: `ipfs://${tokenMetadata}` }, CHAIN_ID);
+  assert.deepStrictEqual((await ipfsPinService.getReferences(tokenMetadata)).map(r => r.referrer_id), [`${CHAIN_ID}:${tokenId}`]);
+  await ipfsPinService.removeReference(tokenMetadata, 'nft', `${CHAIN_ID}:${tokenId}`);
+
+  const dryRun = await ipfsPinService.collectGarbage(GC_AGE_DAYS, true);
+  assert.deepStrictEqual(dryRun.candidates.map(p => p.cid), [orphan, lateOrphan]);
+  assert.strictEqual(dryRun.totalBytes, Buffer.byteLength(`${OWNER} orphan`) + Buffer.byteLength(`${OWNER} late orphan`));
+  assert.deepStrictEqual(dryRun.unpinned, []);
+  assert.ok(await pinnedOnProvider(orphan));
+  console.log('✓ Dry run lists the 2 old unreferenced pins and unpins nothing');
+
+  // The first unpin references the second candidate before the collector gets to it
+  const provider = getIpfsProvider();
+  const unpin = provider.unpin.bind(provider);
+  provider.unpin = async (cid: string) => {
+    if (cid === orphan) {
+      await db.query(
+        "INSERT INTO ipfs_pin_references (cid, referrer_type, referrer_id, created_by) VALUES ($1, 'mint_job', '8', $2)",
+        [lateOrphan, OWNER]
+      );
+    }
+    await unpin(cid);
+  };
+  try {
+    const report = await ipfsPinService.collectGarbage(GC_AGE_DAYS, false);
+    assert.deepStrictEqual(report.unpinned, [orphan]);
+    assert.deepStrictEqual(report.skipped, [lateOrphan]);
+    assert.deepStrictEqual(report.failed, []);
+  } finally {
+    provider.unpin = unpin;
+  }
+  assert.strictEqual(await unpinnedBy(orphan), 'gc');
+  assert.ok(!await pinnedOnProvider(orphan));
+  for (const kept of [lateOrphan, recent, document, tokenMetadata]) {
+    assert.strictEqual(await unpinnedBy(kept), null);
+    assert.ok(await pinnedOnProvider(kept));
+  }
+  console.log('✓ Unpinned the orphan; skipped content referenced mid-run, too recent, referenced, or a token URI');
+
+  console.log('\n🎉 IPFS pin lifecycle test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ IPFS pin lifecycle test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });
@@ -0,0 +1,176 @@
+/**
+ * Test script for the IPFS providers
+ * Checks local CID computation against known CIDs, the memory and filesystem providers, and the
+ * Kubo provider against a stub RPC API. Runs without a database, network access or an IPFS node.
+ *
+ * Usage: npm run test:ipfs
+ */
+
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { config } from '../src/config';
+import { CidBuilder, computeCid, computeFileCid } from '../src/services/cid';
+import { createIpfsProvider, KuboProvider, LocalIpfsProvider } from '../src/services/ipfs-providers';
+
+// `ipfs add --cid-version=1` of the empty file and of "hello world"
+const EMPTY_CID = 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+const HELLO_CID = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+
+/**
+ * Kubo RPC stub: adds files by computing their CID, pins them by name and unpins them
+ */
+class StubKubo {
+  readonly pins = new Map<string, string>();
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://stub');
+      const reply = (status: number, payload: object) =>
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+
+      switch (url.pathname) {
+        case '/api/v0/add': {
+          assert.strictEqual(url.searchParams.get('cid-version'), '1');
+          const boundary = /boundary=(.+)$/.exec(req.headers['content-type'] || '')![1];
+          const body = Buffer.concat(chunks);
+          const start = body.indexOf('\r\n\r\n') + 4;
+          const content = body.subarray(start, body.indexOf(`\r\n--${boundary}`, start));
+          const cid = computeCid(content);
+          this.pins.set(cid, url.searchParams.get('pin-name') || '');
+          return reply(200, { Name: cid, Hash: cid, Size: String(content.length) });
+        }
+        case '/api/v0/pin/rm': {
+          const cid = url.searchParams.get('arg')!;
+          if (!this.pins.delete(cid)) {
+            return reply(500, { Message: 'not pinned or pinned indirectly', Code: 0, Type: 'error' });
+          }
+          return reply(200, { Pins: [cid] });
+        }
+        case '/api/v0/pin/ls':
+          return reply(200, {
+            Keys: Object.fromEntries([...this.pins].map(([cid, name]) => [cid, { Type: 'recursive', Name: name }]))
+          });
+        case '/api/v0/version':
+          return reply(200, { Version: '0.29.0' });
+        default:
+          return reply(404, { Message: 'not found' });
+      }
+    });
+  });
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+async function run(dir: string, kubo: StubKubo): Promise<void> {
+  console.log('🧪 Testing IPFS providers...');
+
+  // Test 1: CIDs match what an IPFS node computes
+  console.log('\n🔢 Test 1: CID computation');
+  assert.strictEqual(computeCid(''), EMPTY_CID);
+  assert.strictEqual(computeCid('hello world'), HELLO_CID);
+
+  // 200 chunks needs two levels of the DAG; feeding it in uneven pieces must not change the CID
+  const large = crypto.createHash('sha512').update('gomgom').digest();
+  const content = Buffer.alloc(200 * 262144 + 1234);
+  for (let i = 0; i < content.length; i++) {
+    content[i] = large[i % large.length] ^ (i >> 10);
+  }
+  const builder = new CidBuilder();
+  for (let offset = 0; offset < content.length; offset += 100003) {
+    builder.update(content.subarray(offset, offset + 100003));
+  }
+  const largeCid = builder.digest();
+  assert.strictEqual(largeCid, computeCid(content));
+  assert.ok(largeCid.startsWith('bafybei'), 'multi-chunk files are dag-pb nodes');
+
+  const file = path.join(dir, 'large.bin');
+  fs.writeFileSync(file, content);
+  assert.strictEqual(await computeFileCid(file), largeCid);
+  console.log(`✓ Known CIDs reproduced; ${content.length} byte file is ${largeCid}`);
+
+  // Test 2: the memory provider pins deterministically and filters on key-values
+  console.log('\n🧠 Test 2: Memory provider');
+  const memory = createIpfsProvider({ ...config.ipfs, provider: 'memory' });
+  const helloFile = path.join(dir, 'hello.txt');
+  fs.writeFileSync(helloFile, 'hello world');
+  assert.strictEqual(await memory.pinFile(helloFile, { metadata: { type: 'demo' } }), HELLO_CID);
+  const metadata = { name: 'GomGom Demo NFT #1', image: `ipfs://${HELLO_CID}` };
+  const metadataCid = await memory.pinJSON(metadata, { name: 'demo.json', metadata: { type: 'metadata' } });
+  assert.strictEqual(metadataCid, computeCid(JSON.stringify(metadata)));
+
+  const all = await memory.listPins();
+  assert.strictEqual(all.count, 2);
+  const demos = await memory.listPins({ metadata: { type: 'demo' } });
+  assert.deepStrictEqual(demos.rows.map(pin => pin.ipfs_pin_hash), [HELLO_CID]);
+  assert.strictEqual(demos.rows[0].metadata.name, 'hello.txt');
+  assert.strictEqual((await memory.listPins({ pageLimit: 1, pageOffset: 1 })).rows.length, 1);
+  console.log('✓ File and JSON pinned with local CIDs; key-value filters and paging work');
+
+  // Test 3: the filesystem provider keeps content and pins across instances
+  console.log('\n💾 Test 3: Filesystem provider');
+  const store = path.join(dir, 'store');
+  const filesystem = createIpfsProvider({ ...config.ipfs, provider: 'filesystem', localDir: store });
+  assert.strictEqual(await filesystem.pinFile(file, { name: 'large.bin' }), largeCid);
+  assert.strictEqual(await filesystem.pinJSON(metadata), metadataCid);
+  // Streamed content is hashed on its way to disk and renamed to its CID
+  assert.strictEqual(await filesystem.pinStream(fs.createReadStream(file), { name: 'large.bin' }), largeCid);
+  assert.deepStrictEqual(fs.readdirSync(store).filter(name => name.endsWith('.tmp')), []);
+
+  const reopened = new LocalIpfsProvider(store);
+  assert.strictEqual((await reopened.listPins()).count, 2);
+  assert.ok((await reopened.getContent(largeCid))!.equals(content));
+  assert.deepStrictEqual(JSON.parse((await reopened.getContent(metadataCid))!.toString()), metadata);
+  assert.strictEqual(await reopened.getContent(EMPTY_CID), null);
+  assert.strictEqual(await reopened.testConnection(), true);
+
+  await reopened.unpin(largeCid);
+  await reopened.unpin(largeCid);
+  assert.strictEqual(await reopened.getContent(largeCid), null);
+  assert.ok(!fs.existsSync(path.join(store, largeCid)));
+  assert.strictEqual((await new LocalIpfsProvider(store).listPins()).count, 1);
+  console.log('✓ Files and streams pinned; content and pin list survive a restart; unpinning removes the content and is idempotent');
+
+  // Test 4: the Kubo provider adds CIDv1 content and reads pins back by name
+  console.log('\n🛰️  Test 4: Kubo provider');
+  const provider = createIpfsProvider({ ...config.ipfs, provider: 'kubo', kuboApiUrl: await kubo.listen() });
+  assert.ok(provider instanceof KuboProvider);
+  assert.strictEqual(await provider.testConnection(), true);
+  assert.strictEqual(await provider.pinFile(helloFile), HELLO_CID);
+  assert.strictEqual(await provider.pinJSON(metadata, { name: 'demo.json' }), metadataCid);
+  assert.strictEqual(await provider.pinStream(fs.createReadStream(helloFile)), HELLO_CID);
+  const pins = await provider.listPins();
+  assert.strictEqual(pins.count, 2);
+  assert.strictEqual(pins.rows.find(pin => pin.ipfs_pin_hash === metadataCid)!.metadata.name, 'demo.json');
+  assert.strictEqual((await provider.listPins({ metadata: { type: 'demo' } })).count, 0);
+  await provider.unpin(HELLO_CID);
+  await provider.unpin(HELLO_CID);
+  assert.deepStrictEqual([...kubo.pins.keys()], [metadataCid]);
+  console.log('✓ Kubo returns the same CIDs as local computation; unpinning twice is harmless');
+
+  console.log('\n🎉 IPFS provider test passed!');
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gomgom-ipfs-'));
+const kubo = new StubKubo();
+run(dir, kubo)
+  .catch(error => {
+    console.error('❌ IPFS provider test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await kubo.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
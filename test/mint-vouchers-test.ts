@@ -0,0 +1,158 @@
+/**
+ * Integration test for gasless mint vouchers
+ * Runs VoucherService against a real Postgres with all migrations applied and the default network's
+ * service, whose receipts are stubbed: issuing, revoking and confirming redemptions.
+ *
+ * Usage: npm run test:vouchers
+ */
+
+import assert from 'assert';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { generateMetadataUrl } from '../src/config/nft-levels';
+import { db } from '../src/database';
+import { getBlockchainService, GOMGOM_NFT_ABI } from '../src/services/blockchain';
+import { databaseService } from '../src/services/database';
+import { VoucherError, voucherService } from '../src/services/vouchers';
+
+config.vouchers.enabled = true;
+
+const blockchain = getBlockchainService();
+const { chainId } = blockchain.network;
+const nftAddress = blockchain.network.contracts.nft;
+const wallet = ethers.Wallet.createRandom().address;
+const stranger = ethers.Wallet.createRandom().address;
+const tokenId = 900000000 + Math.floor(Math.random() * 1000000);
+const nft = new ethers.utils.Interface(GOMGOM_NFT_ABI);
+
+// Receipts by transaction hash; anything else is not mined yet
+const receipts = new Map<string, any>();
+(blockchain as any).provider.getTransactionReceipt = async (hash: string) => receipts.get(hash) || null;
+
+/**
+ * Mine a transaction emitting VoucherRedeemed events
+ */
+function mine(events: Array<{ tokenId: number; recipient: string; nonce: string; address?: string }>, status = 1): string {
+  const transactionHash = ethers.utils.id(`redeem ${receipts.size} ${tokenId}`);
+  const logs = events.map(event => ({
+    address: event.address || nftAddress,
+    ...nft.encodeEventLog(nft.getEvent('VoucherRedeemed'), [event.tokenId, event.recipient, event.nonce])
+  }));
+  receipts.set(transactionHash, { transactionHash, blockNumber: 100, status, logs });
+  return transactionHash;
+}
+
+function voucherError(statusCode: number) {
+  return (error: any) => error instanceof VoucherError && error.statusCode === statusCode;
+}
+
+async function cleanup(): Promise<void> {
+  // Deleting the user cascades to its vouchers and NFTs
+  await db.query('DELETE FROM users WHERE wallet_address = $1', [wallet.toLowerCase()]);
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing mint vouchers against Postgres...');
+  await databaseService.initUser(wallet.toLowerCase());
+
+  // Test 1: a wallet gets one active voucher per network, signed for the contract
+  console.log('\n🎟️ Test 1: Issuing');
+  const { voucher, existing } = await voucherService.issueVoucher(blockchain, wallet);
+  assert.strictEqual(existing, false);
+  assert.strictEqual(voucher.status, 'active');
+  assert.strictEqual(voucher.chain_id, chainId);
+  assert.strictEqual(voucher.wallet_address, wallet.toLowerCase());
+  assert.strictEqual(voucher.token_uri, '');
+  const params = voucherService.getRedeemParams(voucher);
+  assert.strictEqual(params.contract, nftAddress);
+  assert.deepStrictEqual(params.voucher, {
+    recipient: wallet, tokenURI: '', expiry: Math.floor(new Date(voucher.expires_at).getTime() / 1000), nonce: voucher.nonce
+  });
+  const signer = ethers.utils.verifyTypedData(params.domain, params.types, params.voucher, params.signature);
+  assert.strictEqual(signer.toLowerCase(), voucher.signer_address);
+
+  const reissued = await voucherService.issueVoucher(blockchain, wallet.toLowerCase(), 'ipfs://ignored');
+  assert.strictEqual(reissued.existing, true);
+  assert.strictEqual(reissued.voucher.voucher_id, voucher.voucher_id);
+  console.log(`✓ Voucher ${voucher.voucher_id} signed by ${signer}; asking again returns it`);
+
+  // Test 2: revoking stops a voucher being handed out, but it stays outstanding until it expires
+  console.log('\n🚫 Test 2: Revoking');
+  const revoked = await voucherService.revokeVoucher(voucher.voucher_id, 'admin', 'Issued by mistake');
+  assert.strictEqual(revoked.status, 'revoked');
+  assert.deepStrictEqual([revoked.revoked_by, revoked.revoked_reason], ['admin', 'Issued by mistake']);
+  await assert.rejects(voucherService.revokeVoucher(voucher.voucher_id, 'admin'), voucherError(409));
+  await assert.rejects(voucherService.revokeVoucher(-1, 'admin'), voucherError(404));
+
+  const replacement = await voucherService.issueVoucher(blockchain, wallet, 'ipfs://bafkreitest');
+  assert.strictEqual(replacement.existing, false);
+  assert.notStrictEqual(replacement.voucher.nonce, voucher.nonce);
+  assert.strictEqual(replacement.voucher.token_uri, 'ipfs://bafkreitest');
+  const outstanding = await voucherService.getOutstandingVouchers(wallet);
+  assert.deepStrictEqual(outstanding.map(v => v.status).sort(), ['active', 'revoked']);
+  console.log('✓ Revoked voucher refused a second revoke; a new one was issued and both are outstanding');
+
+  // Test 3: a redemption counts only if the transaction emitted the voucher's nonce and recipient
+  console.log('\n🔍 Test 3: Confirming redemptions');
+  const { voucher_id: voucherId, nonce } = replacement.voucher;
+  const recipient = wallet.toLowerCase();
+  await assert.rejects(voucherService.confirmRedemption(voucherId, ethers.utils.id('pending')), voucherError(409));
+  for (const events of [
+    [{ tokenId, recipient, nonce: voucher.nonce }],
+    [{ tokenId, recipient: stranger, nonce }],
+    [{ tokenId, recipient, nonce, address: stranger }]
+  ]) {
+    await assert.rejects(voucherService.confirmRedemption(voucherId, mine(events)), voucherError(400));
+  }
+  await assert.rejects(voucherService.confirmRedemption(voucherId, mine([{ tokenId, recipient, nonce }], 0)), voucherError(400));
+  assert.strictEqual((await voucherService.getVoucher(voucherId))!.status, 'active');
+
+  const transactionHash = mine([{ tokenId: tokenId + 1, recipient: stranger, nonce: '1' }, { tokenId, recipient, nonce }]);
+  const redeemed = await voucherService.confirmRedemption(voucherId, transactionHash);
+  assert.strictEqual(redeemed.status, 'redeemed');
+  assert.strictEqual(redeemed.redeemed_token_id, tokenId);
+  assert.strictEqual(redeemed.redemption_transaction_hash, transactionHash.toLowerCase());
+  const minted = await db.query('SELECT owner_wallet_address, token_uri FROM loyalty_nfts WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId]);
+  assert.deepStrictEqual(minted.rows[0], { owner_wallet_address: recipient, token_uri: 'ipfs://bafkreitest' });
+
+  assert.strictEqual((await voucherService.confirmRedemption(voucherId, transactionHash)).voucher_id, voucherId);
+  await assert.rejects(voucherService.confirmRedemption(voucherId, mine([{ tokenId, recipient, nonce }])), voucherError(409));
+  await assert.rejects(voucherService.revokeVoucher(voucherId, 'admin'), voucherError(409));
+  console.log(`✓ Wrong nonce, recipient, contract and a revert refused; redeemed for NFT ${tokenId}, reported again idempotently`);
+
+  // Test 4: a revoked voucher redeemed on-chain is still recorded, with the default metadata URL
+  console.log('\n⚠️ Test 4: Redeeming a revoked voucher');
+  const lateHash = mine([{ tokenId: tokenId + 2, recipient, nonce: voucher.nonce }]);
+  // The NFT is created in the confirmation's transaction, so a failure after it records neither
+  const createNFTRecord = databaseService.createNFTRecord.bind(databaseService);
+  databaseService.createNFTRecord = async (...args: Parameters<typeof createNFTRecord>) => {
+    await createNFTRecord(...args);
+    throw new Error('Crashed after the NFT insert');
+  };
+  try {
+    await assert.rejects(voucherService.confirmRedemption(voucher.voucher_id, lateHash), /Crashed after the NFT insert/);
+  } finally {
+    databaseService.createNFTRecord = createNFTRecord;
+  }
+  const rolledBack = await db.query('SELECT 1 FROM loyalty_nfts WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId + 2]);
+  assert.strictEqual(rolledBack.rows.length, 0);
+  assert.strictEqual((await voucherService.getVoucher(voucher.voucher_id))!.redeemed_at, null);
+
+  const late = await voucherService.confirmRedemption(voucher.voucher_id, lateHash);
+  assert.strictEqual(late.status, 'redeemed');
+  const lateNft = await db.query('SELECT token_uri FROM loyalty_nfts WHERE chain_id = $1 AND token_id = $2', [chainId, tokenId + 2]);
+  assert.strictEqual(lateNft.rows[0].token_uri, generateMetadataUrl(chainId, tokenId + 2));
+  console.log('✓ A confirmation failing after the NFT insert left neither; revoked voucher then recorded as redeemed');
+
+  console.log('\n🎉 Mint voucher test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ Mint voucher test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });
@@ -0,0 +1,137 @@
+/**
+ * Test script for perk unlock evaluation
+ * Checks every unlock_type, combined all/any conditions and unmet requirement messages.
+ * Runs without a database.
+ *
+ * Usage: npm run test:unlocks
+ */
+
+import assert from 'assert';
+import { unlockService, UnlockAttributes, UnlockConditionError } from '../src/services/unlocks';
+
+const attributes: UnlockAttributes = {
+  loyalty_level: 2,
+  loyalty_points: 3000,
+  flights_taken: 2,
+  bank_tier: 'Silver',
+  resorts_visited: 1,
+  total_spending: '12000000.00',
+  miles_earned: 8000,
+  status_tier: 'Silver',
+  staked_eth: '0.500000000000000000',
+  staking_days: 12,
+  eth_days: '4.250000'
+};
+
+const perk = (unlockType: string, unlockThreshold: any) => ({
+  unlock_type: unlockType,
+  unlock_threshold: typeof unlockThreshold === 'string' ? unlockThreshold : JSON.stringify(unlockThreshold)
+});
+
+console.log('🧪 Testing perk unlock evaluation...');
+
+// Test 1: each single unlock type
+console.log('\n📋 Test 1: Single unlock types');
+const singles: Array<[string, string, boolean]> = [
+  ['loyalty_level', '2', true],
+  ['loyalty_level', '3', false],
+  ['loyalty_points', '3000', true],
+  ['flights_taken', '5', false],
+  ['bank_tier', 'Standard', true],
+  ['bank_tier', 'Gold', false],
+  ['resorts_visited', '1', true],
+  ['total_spending', '15000000', false],
+  ['miles_earned', '25000', false],
+  ['status_tier', 'Silver', true],
+  ['status_tier', 'Platinum', false],
+  ['staked_eth', '0.5', true],
+  ['staked_eth', '1', false],
+  ['staking_days', '30', false],
+  ['eth_days', '4', true]
+];
+for (const [type, threshold, expected] of singles) {
+  const result = unlockService.evaluate(perk(type, threshold), attributes);
+  assert.strictEqual(result.unlocked, expected, `${type} ${threshold}`);
+  assert.strictEqual(result.unmet.length, expected ? 0 : 1);
+  console.log(`✓ ${type} >= ${threshold}: ${result.unlocked ? 'unlocked' : result.unmet[0].message}`);
+}
+
+// Test 2: unmet requirement details
+console.log('\n🧾 Test 2: Unmet requirements');
+const flights = unlockService.evaluate(perk('flights_taken', '5'), attributes).unmet[0];
+assert.deepStrictEqual(flights, { type: 'flights_taken', required: 5, current: 2, remaining: 3, message: '3 more flights' });
+const spending = unlockService.evaluate(perk('total_spending', '15000000'), attributes).unmet[0];
+assert.strictEqual(spending.message, '3,000,000 VND more spending');
+assert.strictEqual(unlockService.evaluate(perk('resorts_visited', '2'), attributes).unmet[0].message, '1 more resort visit');
+assert.strictEqual(unlockService.evaluate(perk('bank_tier', 'Gold'), attributes).unmet[0].message, 'Bank tier Gold or higher');
+assert.strictEqual(unlockService.evaluate(perk('staked_eth', '1.25'), attributes).unmet[0].message, 'Stake 0.75 more ETH');
+assert.strictEqual(unlockService.evaluate(perk('staking_days', '13'), attributes).unmet[0].message, '1 more day staked');
+console.log(`✓ ${flights.message}, ${spending.message}`);
+
+// Test 3: combined conditions
+console.log('\n🔀 Test 3: Combined conditions');
+const allMet = unlockService.evaluate(perk('combined', { all: [{ loyalty_points: 2500 }, { bank_tier: 'Silver' }] }), attributes);
+assert.strictEqual(allMet.unlocked, true);
+
+const allUnmet = unlockService.evaluate(
+  perk('combined', { all: [{ flights_taken: 5 }, { loyalty_points: 2500 }, { resorts_visited: 3 }] }),
+  attributes
+);
+assert.strictEqual(allUnmet.unlocked, false);
+assert.deepStrictEqual(allUnmet.unmet.map(u => u.message), ['3 more flights', '2 more resort visits']);
+
+const anyMet = unlockService.evaluate(perk('combined', { any: [{ flights_taken: 10 }, { miles_earned: 5000 }] }), attributes);
+assert.strictEqual(anyMet.unlocked, true);
+
+const nested = unlockService.evaluate(
+  perk('combined', { all: [{ loyalty_level: 2 }, { any: [{ bank_tier: 'Gold' }, { flights_taken: 3 }] }] }),
+  attributes
+);
+assert.strictEqual(nested.unlocked, false);
+assert.strictEqual(nested.unmet.length, 1);
+assert.strictEqual(nested.unmet[0].type, 'any');
+assert.strictEqual(nested.unmet[0].options!.length, 2);
+assert.strictEqual(nested.unmet[0].message, 'One of: Bank tier Gold or higher or 1 more flight');
+console.log(`✓ Nested any: ${nested.unmet[0].message}`);
+
+// Test 4: wallets without an NFT
+console.log('\n🚫 Test 4: No NFT');
+const noNft = unlockService.evaluate(perk('loyalty_points', '0'), null);
+assert.strictEqual(noNft.unlocked, false);
+assert.strictEqual(noNft.unmet[0].type, 'loyalty_nft');
+console.log(`✓ ${noNft.unmet[0].message}`);
+
+// Test 5: threshold validation
+console.log('\n🛡️  Test 5: Threshold validation');
+assert.strictEqual(unlockService.normalizeThreshold('flights_taken', 5), '5');
+assert.strictEqual(
+  unlockService.normalizeThreshold('combined', '{"any":[{"bank_tier":" Gold"},{"flights_taken":"3"}]}'),
+  '{"any":[{"bank_tier":"Gold"},{"flights_taken":3}]}'
+);
+// A padded tier stored before thresholds were normalized still has to be met
+assert.strictEqual(unlockService.evaluate(perk('combined', '{"all":[{"bank_tier":" Gold"}]}'), attributes).unlocked, false);
+const invalid: Array<[string, any]> = [
+  ['flights_taken', 'five'],
+  ['flights_taken', -1],
+  ['loyalty_level', 9],
+  ['bank_tier', 'Titanium'],
+  ['status_tier', 'Standard'],
+  ['combined', 'not json'],
+  ['combined', { flights_taken: 5 }],
+  ['combined', { all: [] }],
+  ['combined', { all: [{ flights_taken: 5, bank_tier: 'Gold' }] }],
+  ['combined', { all: [{ combined: '{}' }] }],
+  ['combined', { all: [{ any: [{ all: [{ any: [{ flights_taken: 1 }] }] }] }] }],
+  ['unknown_type', '1']
+];
+for (const [type, threshold] of invalid) {
+  assert.throws(() => unlockService.normalizeThreshold(type, threshold), UnlockConditionError, `${type} ${JSON.stringify(threshold)}`);
+}
+console.log(`✓ ${invalid.length} invalid thresholds rejected`);
+
+// Test 6: invalid stored conditions stay locked
+const broken = unlockService.evaluate(perk('combined', '{"all":'), attributes);
+assert.strictEqual(broken.unlocked, false);
+console.log('✓ Invalid stored condition keeps the perk locked');
+
+console.log('\n🎉 Perk unlock evaluation test passed!');
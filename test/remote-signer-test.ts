@@ -0,0 +1,169 @@
+/**
+ * Test script for the pluggable admin signers
+ * Runs RemoteSigner against a stub signing server holding a random key, and loads an encrypted keystore.
+ * Runs without a database or a real node.
+ *
+ * Usage: npm run test:signer
+ */
+
+import assert from 'assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { BlockchainService, MINT_VOUCHER_TYPES } from '../src/services/blockchain';
+import { createSigner, RemoteSigner, RemoteSignerError, signTypedData } from '../src/services/signers';
+
+const TOKEN = 'signer-test-token';
+const CHAIN_ID = 990003;
+
+/**
+ * Signing service stub: signs with its own key after checking the bearer token and address,
+ * and can be switched to sign with a different key
+ */
+class StubSigner {
+  readonly wallet = ethers.Wallet.createRandom();
+  rogue = false;
+  requests = 0;
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      this.requests++;
+      const reply = (status: number, payload: object) =>
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+
+      if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        return reply(401, { error: 'unauthorized' });
+      }
+      const request = JSON.parse(body);
+      if (ethers.utils.getAddress(request.address) !== this.wallet.address) {
+        return reply(404, { error: 'unknown key' });
+      }
+
+      const key = this.rogue ? ethers.Wallet.createRandom()._signingKey() : this.wallet._signingKey();
+      switch (req.url) {
+        case '/sign-transaction':
+          return reply(200, { signature: ethers.utils.joinSignature(key.signDigest(ethers.utils.keccak256(request.transaction))) });
+        case '/sign-message':
+          return reply(200, { signature: ethers.utils.joinSignature(key.signDigest(ethers.utils.hashMessage(ethers.utils.arrayify(request.message)))) });
+        case '/sign-typed-data': {
+          const { domain, types, message } = request.typedData;
+          delete types.EIP712Domain;
+          return reply(200, { signature: ethers.utils.joinSignature(key.signDigest(ethers.utils._TypedDataEncoder.hash(domain, types, message))) });
+        }
+        default:
+          return reply(404, { error: 'not found' });
+      }
+    });
+  });
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+const transaction = {
+  type: 2,
+  chainId: CHAIN_ID,
+  nonce: 3,
+  to: ethers.Wallet.createRandom().address,
+  value: ethers.utils.parseEther('0.01'),
+  data: '0x',
+  gasLimit: 21000,
+  maxFeePerGas: ethers.utils.parseUnits('2', 'gwei'),
+  maxPriorityFeePerGas: ethers.utils.parseUnits('1', 'gwei')
+};
+
+async function run(stub: StubSigner): Promise<void> {
+  console.log('🧪 Testing admin signers...');
+
+  const url = await stub.listen();
+  const signer = createSigner({
+    ...config.signer,
+    type: 'remote',
+    remoteUrl: url,
+    remoteAddress: stub.wallet.address,
+    remoteAuthToken: TOKEN
+  });
+  assert.ok(signer instanceof RemoteSigner);
+
+  // Test 1: remote signatures match what the key itself would produce
+  console.log('\n✍️  Test 1: Remote signing');
+  const signed = await signer.signTransaction(transaction);
+  assert.strictEqual(ethers.utils.parseTransaction(signed).from, stub.wallet.address);
+  assert.strictEqual(signed, await stub.wallet.signTransaction(transaction));
+  const signature = await signer.signMessage('gomgom');
+  assert.strictEqual(ethers.utils.verifyMessage('gomgom', signature), stub.wallet.address);
+  const domain = { name: 'GomGomNFT', version: '1', chainId: CHAIN_ID, verifyingContract: transaction.to };
+  const voucher = { recipient: transaction.to, tokenURI: '', expiry: 1900000000, nonce: '12345678901234567890123456789' };
+  const typedSignature = await signTypedData(signer, domain, MINT_VOUCHER_TYPES, voucher);
+  assert.strictEqual(typedSignature, await stub.wallet._signTypedData(domain, MINT_VOUCHER_TYPES, voucher));
+  console.log(`✓ Transaction, message and EIP-712 voucher signed by ${stub.wallet.address}`);
+
+  // Test 2: BlockchainService takes the signer without ever seeing the key
+  console.log('\n🔗 Test 2: BlockchainService wiring');
+  const blockchain = new BlockchainService({
+    name: 'stub',
+    chainId: CHAIN_ID,
+    rpcUrls: ['http://127.0.0.1:1'],
+    contracts: {
+      registry: ethers.Wallet.createRandom().address,
+      nft: ethers.Wallet.createRandom().address,
+      staking: ethers.Wallet.createRandom().address
+    },
+    indexerStartBlock: 0
+  }, signer);
+  assert.strictEqual(await blockchain.getSignerAddress(), stub.wallet.address);
+  console.log('✓ Connected remote signer reports the configured address');
+
+  // Test 3: a signature from another key, a bad token and a foreign sender are all refused
+  console.log('\n🚫 Test 3: Rejections');
+  stub.rogue = true;
+  await assert.rejects(signer.signTransaction(transaction), RemoteSignerError);
+  await assert.rejects(signer.signMessage('gomgom'), RemoteSignerError);
+  await assert.rejects(signTypedData(signer, domain, MINT_VOUCHER_TYPES, voucher), RemoteSignerError);
+  stub.rogue = false;
+
+  const unauthorized = new RemoteSigner({ url, address: stub.wallet.address, authToken: 'wrong' });
+  await assert.rejects(unauthorized.signTransaction(transaction), (error: any) => error instanceof RemoteSignerError && error.statusCode === 401);
+
+  const requests = stub.requests;
+  await assert.rejects(signer.signTransaction({ ...transaction, from: ethers.Wallet.createRandom().address }), RemoteSignerError);
+  assert.strictEqual(stub.requests, requests, 'a foreign sender never reaches the service');
+  console.log('✓ Rogue signatures, a bad token and a foreign sender throw RemoteSignerError');
+
+  // Test 4: an encrypted keystore decrypts to the same key
+  console.log('\n🔐 Test 4: Keystore');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gomgom-signer-'));
+  try {
+    const keystorePath = path.join(dir, 'admin.json');
+    // A low scrypt cost keeps the test fast; real keystores use the default
+    fs.writeFileSync(keystorePath, await stub.wallet.encrypt('correct horse', { scrypt: { N: 1 << 10 } }));
+
+    const keystore = createSigner({ ...config.signer, type: 'keystore', keystorePath, keystorePassword: 'correct horse' });
+    assert.strictEqual(await keystore.getAddress(), stub.wallet.address);
+    assert.throws(() => createSigner({ ...config.signer, type: 'keystore', keystorePath, keystorePassword: 'wrong' }), /Could not decrypt keystore/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  console.log('✓ Keystore loaded; a wrong password is refused');
+
+  console.log('\n🎉 Signer test passed!');
+}
+
+const stub = new StubSigner();
+run(stub)
+  .catch(error => {
+    console.error('❌ Signer test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => stub.close());
@@ -0,0 +1,148 @@
+/**
+ * Test script for RPC failover and the contract read cache
+ * Runs BlockchainService against a refused URL and a stub JSON-RPC server that can fail or revert.
+ * Runs without a database or a real node.
+ *
+ * Usage: npm run test:rpc
+ */
+
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { BlockchainService, ContractReadError, GOMGOM_NFT_ABI, RpcUnavailableError } from '../src/services/blockchain';
+
+const CHAIN_ID = 990002;
+const DEAD_URL = 'http://127.0.0.1:1';
+const holder = ethers.Wallet.createRandom().address;
+const nftInterface = new ethers.utils.Interface(GOMGOM_NFT_ABI);
+
+/**
+ * JSON-RPC stub: answers eth_blockNumber and NFT eth_calls, counts calls, and can be switched
+ * to answer 503 (outage) or revert totalSupply
+ */
+class StubNode {
+  blockNumber = 100;
+  calls = 0;
+  down = false;
+  revertTotalSupply = false;
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (this.down) {
+        res.writeHead(503).end('unavailable');
+        return;
+      }
+      const request = JSON.parse(body);
+      const reply = (payload: object) =>
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...payload }));
+
+      switch (request.method) {
+        case 'eth_chainId':
+          return reply({ result: ethers.utils.hexValue(CHAIN_ID) });
+        case 'eth_blockNumber':
+          return reply({ result: ethers.utils.hexValue(this.blockNumber) });
+        case 'eth_call': {
+          this.calls++;
+          const call = nftInterface.parseTransaction({ data: request.params[0].data });
+          if (call.name === 'totalSupply' && this.revertTotalSupply) {
+            return reply({ error: { code: 3, message: 'execution reverted', data: '0x' } });
+          }
+          const value = call.name === 'balanceOf' ? 1 : call.name === 'ownerOf' ? holder : 7;
+          return reply({ result: nftInterface.encodeFunctionResult(call.name, [value]) });
+        }
+        default:
+          return reply({ error: { code: -32601, message: `Method ${request.method} not supported` } });
+      }
+    });
+  });
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function run(node: StubNode): Promise<void> {
+  console.log('🧪 Testing RPC failover and the read cache...');
+
+  // Short cache and cooldown so the test does not wait on production values
+  Object.assign(config.rpc, { cacheTtlMs: 200, failureThreshold: 2, cooldownMs: 60000 });
+  const url = await node.listen();
+  const blockchain = new BlockchainService({
+    name: 'stub',
+    chainId: CHAIN_ID,
+    rpcUrls: [DEAD_URL, url],
+    contracts: {
+      registry: ethers.Wallet.createRandom().address,
+      nft: ethers.Wallet.createRandom().address,
+      staking: ethers.Wallet.createRandom().address
+    },
+    indexerStartBlock: 0
+  });
+
+  // Test 1: a refused primary falls through to the next URL
+  console.log('\n🔀 Test 1: Failover');
+  assert.strictEqual(await blockchain.userOwnsNFT(holder), true);
+  const [dead] = blockchain.getRpcStatus().filter(endpoint => endpoint.host === '127.0.0.1:1');
+  assert.ok(dead.consecutiveFailures >= 1 && dead.score < 100);
+  console.log(`✓ Read served by the fallback; the refused URL scored ${dead.score}`);
+
+  // Test 2: reads in the same block share one eth_call
+  console.log('\n🗃️  Test 2: Read cache');
+  const callsBefore = node.calls;
+  assert.strictEqual(await blockchain.getTokenOwner(7), holder.toLowerCase());
+  assert.strictEqual(await blockchain.userOwnsNFT(holder), true);
+  assert.strictEqual(node.calls, callsBefore + 1, 'balanceOf is cached, ownerOf is read once');
+  node.blockNumber++;
+  await sleep(250);
+  await blockchain.userOwnsNFT(holder);
+  assert.strictEqual(node.calls, callsBefore + 2);
+  console.log('✓ Cached within a block, read again after the head moved');
+
+  // Test 3: the failed endpoint is ranked last and left alone while the other one answers
+  console.log('\n📊 Test 3: Health ranking');
+  await blockchain.getTotalSupply();
+  const ranked = blockchain.getRpcStatus();
+  assert.strictEqual(ranked[0].host, new URL(url).host);
+  assert.strictEqual(ranked[1].consecutiveFailures, dead.consecutiveFailures);
+  console.log(`✓ ${ranked[0].host} tried first, the refused URL skipped`);
+
+  // Test 4: an outage is an error, never "no NFT", and failing endpoints cool down
+  console.log('\n🚫 Test 4: Outage');
+  node.down = true;
+  await sleep(250);
+  await assert.rejects(blockchain.userOwnsNFT(ethers.Wallet.createRandom().address), RpcUnavailableError);
+  await assert.rejects(blockchain.getUserStakingInfo(holder), RpcUnavailableError);
+  assert.ok(blockchain.getRpcStatus().every(endpoint => !endpoint.available));
+  console.log(`✓ Reads throw RpcUnavailableError instead of false or zeros; both endpoints cooling down`);
+
+  // Test 5: endpoints are still tried during a cooldown, and one that answers is available again
+  console.log('\n↩️  Test 5: Recovery and reverts');
+  node.down = false;
+  node.revertTotalSupply = true;
+  node.blockNumber++;
+  await sleep(250);
+  assert.strictEqual(await blockchain.userOwnsNFT(holder), true);
+  await assert.rejects(blockchain.getTotalSupply(), ContractReadError);
+  assert.deepStrictEqual(blockchain.getRpcStatus().map(endpoint => endpoint.available), [true, false]);
+  console.log('✓ Recovered without waiting for the cooldown; reverted read throws ContractReadError');
+
+  console.log('\n🎉 RPC failover test passed!');
+}
+
+const node = new StubNode();
+run(node)
+  .catch(error => {
+    console.error('❌ RPC failover test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => node.close());
@@ -0,0 +1,185 @@
+/**
+ * Integration test for the signer's transaction manager
+ * Runs TransactionManager against a real Postgres with all migrations applied and an in-memory chain
+ * that records what is sent and mines or drops transactions on demand.
+ *
+ * Usage: npm run test:transactions
+ */
+
+import assert from 'assert';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { SignerTransaction, TransactionFailedError, TransactionManager } from '../src/services/transactions';
+
+const CHAIN_ID = 990003;
+const gwei = (value: string) => ethers.utils.parseUnits(value, 'gwei');
+const target = ethers.Wallet.createRandom().address;
+
+type SentTransaction = ethers.providers.TransactionRequest & { hash: string };
+
+/**
+ * Minimal chain: the fee market, the signer's mined and pending nonces, and receipts for mined hashes
+ */
+class FakeChain {
+  address = ethers.Wallet.createRandom().address;
+  blockNumber = 100;
+  minedNonce = 0;
+  feeData: { maxFeePerGas: ethers.BigNumber | null; maxPriorityFeePerGas: ethers.BigNumber | null; gasPrice: ethers.BigNumber | null } = {
+    maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('1'), gasPrice: gwei('30')
+  };
+  sent: SentTransaction[] = [];
+  private receipts = new Map<string, any>();
+
+  mine(hash: string, status = 1): void {
+    const tx = this.sent.find(sent => sent.hash === hash)!;
+    this.receipts.set(hash, {
+      transactionHash: hash,
+      blockNumber: this.blockNumber,
+      status,
+      gasUsed: ethers.BigNumber.from(50000),
+      effectiveGasPrice: ethers.BigNumber.from(tx.maxFeePerGas || tx.gasPrice)
+    });
+    this.minedNonce = Math.max(this.minedNonce, Number(tx.nonce) + 1);
+  }
+
+  signer(): ethers.Signer {
+    const provider = {
+      getNetwork: async () => ({ chainId: CHAIN_ID, name: 'test' }),
+      getBlockNumber: async () => this.blockNumber,
+      // The node has not seen the backend's unmined transactions, so both counts are the mined one
+      getTransactionCount: async () => this.minedNonce,
+      estimateGas: async () => ethers.BigNumber.from(100000),
+      getFeeData: async () => this.feeData,
+      getTransactionReceipt: async (hash: string) => this.receipts.get(hash) || null
+    };
+    return {
+      provider,
+      getAddress: async () => this.address,
+      sendTransaction: async (request: ethers.providers.TransactionRequest) => {
+        const hash = ethers.utils.id(`tx ${this.sent.length}`);
+        this.sent.push({ ...request, hash });
+        return { hash };
+      }
+    } as any;
+  }
+}
+
+async function row(hash: string): Promise<SignerTransaction> {
+  const result = await db.query(
+    'SELECT * FROM signer_transactions WHERE chain_id = $1 AND (transaction_hash = $2 OR $2 = ANY(previous_hashes))',
+    [CHAIN_ID, hash]
+  );
+  return result.rows[0];
+}
+
+async function cleanup(): Promise<void> {
+  await db.query('DELETE FROM signer_transactions WHERE chain_id = $1', [CHAIN_ID]);
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing the transaction manager against Postgres...');
+  await cleanup();
+
+  const chain = new FakeChain();
+  const manager = new TransactionManager(chain.signer(), {
+    ...config.transactions,
+    maxFeePerGasGwei: '50',
+    maxPriorityFeePerGasGwei: '2',
+    stuckAfterBlocks: 5,
+    feeBumpPercent: 25,
+    pollIntervalMs: 10
+  });
+  const request = (data: string): ethers.PopulatedTransaction => ({ to: target, data });
+
+  // Test 1: concurrent sends get consecutive nonces even though the node has seen none of them
+  console.log('\n🔢 Test 1: Nonce allocation');
+  const hashes = await Promise.all(['0x01', '0x02', '0x03'].map(data => manager.send('test', request(data))));
+  const nonces = chain.sent.map(sent => sent.nonce).sort();
+  assert.deepStrictEqual(nonces, [0, 1, 2]);
+  assert.deepStrictEqual(chain.sent.map(sent => sent.hash).sort(), [...hashes].sort());
+  const [first, second, third] = [0, 1, 2].map(nonce => chain.sent.find(sent => sent.nonce === nonce)!.hash);
+  const recorded = await row(first);
+  assert.strictEqual(recorded.status, 'pending');
+  assert.strictEqual(recorded.signer_address, chain.address.toLowerCase());
+  assert.strictEqual(recorded.to_address, target.toLowerCase());
+  assert.strictEqual(recorded.gas_limit, '120000');
+  assert.strictEqual(recorded.sent_block, 100);
+  console.log(`✓ Nonces ${nonces.join(', ')} recorded under the advisory lock`);
+
+  // Test 2: fees never exceed the caps, for EIP-1559 and legacy fee markets
+  console.log('\n💸 Test 2: Fee caps');
+  chain.feeData = { maxFeePerGas: gwei('80'), maxPriorityFeePerGas: gwei('5'), gasPrice: gwei('80') };
+  const capped = await manager.send('test', request('0x04'));
+  const cappedTx = chain.sent[chain.sent.length - 1];
+  assert.strictEqual(cappedTx.nonce, 3);
+  assert.strictEqual(cappedTx.type, 2);
+  assert.ok(ethers.BigNumber.from(cappedTx.maxFeePerGas).eq(gwei('50')));
+  assert.ok(ethers.BigNumber.from(cappedTx.maxPriorityFeePerGas).eq(gwei('2')));
+
+  chain.feeData = { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: gwei('70') };
+  await manager.send('test', request('0x05'));
+  const legacyTx = chain.sent[chain.sent.length - 1];
+  assert.strictEqual(legacyTx.type, 0);
+  assert.ok(ethers.BigNumber.from(legacyTx.gasPrice).eq(gwei('50')));
+  assert.strictEqual((await row(legacyTx.hash)).max_priority_fee_per_gas, null);
+  console.log('✓ 80 gwei market capped at 50 gwei, priority fee at 2 gwei; legacy gas price capped too');
+
+  // Test 3: a stuck transaction is re-sent with the same nonce and bumped fees, and either broadcast can be mined
+  console.log('\n⏫ Test 3: Stuck transaction replacement');
+  chain.feeData = { maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('1'), gasPrice: gwei('30') };
+  const sentBefore = chain.sent.length;
+  assert.strictEqual((await manager.refresh((await row(first)).tx_id)).transaction_hash, first, 'not stuck yet');
+  assert.strictEqual(chain.sent.length, sentBefore);
+
+  chain.blockNumber += 5;
+  const replaced = await manager.refresh((await row(first)).tx_id);
+  const replacement = chain.sent[chain.sent.length - 1];
+  assert.notStrictEqual(replaced.transaction_hash, first);
+  assert.deepStrictEqual(replaced.previous_hashes, [first]);
+  assert.strictEqual(replaced.replacements, 1);
+  assert.strictEqual(replacement.nonce, 0);
+  assert.ok(ethers.BigNumber.from(replacement.maxFeePerGas).eq(gwei('37.5')));
+  assert.ok(ethers.BigNumber.from(replacement.maxPriorityFeePerGas).eq(gwei('1.25')));
+
+  // The original broadcast wins the race; waiting on the replacement still finds it
+  chain.mine(first);
+  const receipt = await manager.waitForTransaction(replaced.transaction_hash, 1000);
+  assert.strictEqual(receipt.transactionHash, first);
+  const confirmed = await row(first);
+  assert.strictEqual(confirmed.status, 'confirmed');
+  assert.strictEqual(confirmed.mined_hash, first);
+  assert.strictEqual(confirmed.gas_used, '50000');
+
+  // Already at the fee cap: nothing the node would accept can be sent
+  const stuck = await manager.refresh((await row(capped)).tx_id);
+  assert.strictEqual(stuck.transaction_hash, capped);
+  assert.match(stuck.last_error!, /fee cap/);
+  console.log(`✓ Replaced at 37.5 gwei after 5 blocks; mined original confirmed; capped transaction left with "${stuck.last_error}"`);
+
+  // Test 4: reverted and dropped transactions fail the wait
+  console.log('\n🚫 Test 4: Reverted and dropped');
+  chain.mine(second, 0);
+  await assert.rejects(manager.waitForTransaction(second, 1000), (error: any) =>
+    error instanceof TransactionFailedError && error.reason === 'reverted' && error.transactionHash === second);
+
+  // Nonce 2 is taken by a transaction the backend never sent
+  chain.minedNonce = 3;
+  await assert.rejects(manager.waitForTransaction(third, 1000), (error: any) =>
+    error instanceof TransactionFailedError && error.reason === 'dropped');
+  assert.strictEqual((await row(third)).status, 'dropped');
+  assert.deepStrictEqual((await manager.listTransactions({ status: 'pending' })).map(tx => tx.nonce), [3, 4]);
+  console.log('✓ Revert and foreign nonce reported as TransactionFailedError; later nonces still pending');
+
+  console.log('\n🎉 Transaction manager test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ Transaction manager test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });
@@ -0,0 +1,229 @@
+/**
+ * Integration test for resumable uploads
+ * Runs UploadService against a real Postgres with all migrations applied, the memory provider and a
+ * temporary upload directory: quotas, chunk offsets and resuming, completion and the sweeper.
+ *
+ * Usage: npm run test:uploads
+ */
+
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { config } from '../src/config';
+import { db } from '../src/database';
+import { IpfsService, IpfsUploadLimitError } from '../src/services/ipfs';
+import { getIpfsProvider } from '../src/services/ipfs-providers';
+import { MediaPipelineError } from '../src/services/image-pipeline';
+import { UploadError, UploadService, UploadSession } from '../src/services/uploads';
+
+config.ipfs.provider = 'memory';
+
+const OWNER = `test-uploads-${crypto.randomBytes(4).toString('hex')}`;
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-test-'));
+const uploads = new UploadService({ ...config.ipfs, uploadDir, userQuotaMb: 1 });
+const MB = 1024 * 1024;
+
+/**
+ * PNG of random pixels, so it compresses poorly and every call gives different content
+ */
+function noise(size: number): Promise<Buffer> {
+  return sharp(crypto.randomBytes(size * size * 3), { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+function start(fileName: string, sizeBytes: number, enforceQuota = true): Promise<UploadSession> {
+  return uploads.createSession({ owner: OWNER, fileName, sizeBytes, enforceQuota });
+}
+
+function send(session: UploadSession, offset: number, content: Buffer): Promise<UploadSession> {
+  return uploads.writeChunk(session.upload_id, OWNER, offset, Readable.from([content]));
+}
+
+/**
+ * A request body whose connection drops a moment after sending content
+ */
+function dropped(content: Buffer): Readable {
+  return Readable.from((async function* () {
+    yield content;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    throw new Error('Connection reset');
+  })());
+}
+
+function partExists(session: UploadSession): boolean {
+  return fs.existsSync(path.join(uploadDir, `${session.upload_id}.part`));
+}
+
+function uploadError(statusCode: number, offset?: number) {
+  return (error: any) => error instanceof UploadError && error.statusCode === statusCode && error.offset === offset;
+}
+
+async function cleanup(): Promise<void> {
+  await db.query('DELETE FROM ipfs_upload_sessions WHERE owner = $1', [OWNER]);
+  await db.query('DELETE FROM ipfs_upload_reservations WHERE owner = $1', [OWNER]);
+  await db.query('DELETE FROM ipfs_pins WHERE owner = $1', [OWNER]);
+  fs.rmSync(uploadDir, { recursive: true, force: true });
+}
+
+async function run(): Promise<void> {
+  console.log('🧪 Testing resumable uploads against Postgres...');
+
+  // Test 1: open uploads reserve their declared size
+  console.log('\n📏 Test 1: Quotas');
+  assert.deepStrictEqual(await uploads.getQuota(OWNER), { limitBytes: MB, usedBytes: 0, reservedBytes: 0, remainingBytes: MB });
+  await assert.rejects(start('empty.mp4', 0), uploadError(400));
+  const big = await start('big.mp4', 700 * 1024);
+  assert.ok(partExists(big));
+  assert.deepStrictEqual(await uploads.getQuota(OWNER.toUpperCase()), {
+    limitBytes: MB, usedBytes: 0, reservedBytes: 700 * 1024, remainingBytes: 324 * 1024
+  });
+  await assert.rejects(start('more.mp4', 400 * 1024), (error: any) =>
+    error instanceof IpfsUploadLimitError && error.limitBytes === 324 * 1024);
+  const unlimited = await start('admin.mp4', 400 * 1024, false);
+
+  await uploads.abortSession(big.upload_id, OWNER);
+  await uploads.abortSession(unlimited.upload_id, OWNER);
+  await assert.rejects(uploads.abortSession(big.upload_id, OWNER), uploadError(409));
+  assert.ok(!partExists(big));
+  assert.strictEqual((await uploads.getQuota(OWNER)).reservedBytes, 0);
+
+  // A single-request upload holds its bytes until it settles, so uploads running alongside it cannot overrun the quota
+  const reserve = (kib: number, partial = false) =>
+    uploads.withReservation({ owner: OWNER, sizeBytes: kib * 1024, partial, enforceQuota: true }, async maxBytes => maxBytes);
+  const held = await uploads.withReservation({ owner: OWNER, sizeBytes: 600 * 1024, enforceQuota: true }, async maxBytes => {
+    assert.strictEqual((await uploads.getQuota(OWNER)).reservedBytes, 600 * 1024);
+    await assert.rejects(reserve(600), (error: any) => error instanceof IpfsUploadLimitError && error.limitBytes === 424 * 1024);
+    await assert.rejects(start('alongside.mp4', 600 * 1024), IpfsUploadLimitError);
+    assert.strictEqual(await reserve(600, true), 424 * 1024);
+    return maxBytes;
+  });
+  assert.strictEqual(held, 600 * 1024);
+  assert.strictEqual((await uploads.getQuota(OWNER)).reservedBytes, 0);
+  console.log('✓ 700 KiB reserved of 1 MiB, 400 KiB more refused unless unlimited; aborting releases it');
+  console.log('✓ 600 KiB held by an upload in progress: 600 KiB more refused, 424 KiB granted to a partial reservation');
+
+  // Test 2: chunks land at the session's offset and a dropped connection keeps what arrived
+  console.log('\n📦 Test 2: Chunk offsets and resuming');
+  const image = await noise(96);
+  const session = await start('photo.bin', image.length);
+  await assert.rejects(uploads.getSession(session.upload_id, 'someone-else'), uploadError(404));
+
+  const first = await send(session, 0, image.subarray(0, 1000));
+  assert.strictEqual(first.received_bytes, '1000');
+  assert.strictEqual(first.content_type, null);
+  await assert.rejects(send(session, 0, image.subarray(0, 1000)), uploadError(409, 1000));
+
+  await assert.rejects(
+    uploads.writeChunk(session.upload_id, OWNER, 1000, dropped(image.subarray(1000, 10000))),
+    /Connection reset/
+  );
+  const resumed = await uploads.getSession(session.upload_id, OWNER);
+  assert.strictEqual(resumed.received_bytes, '10000');
+  assert.strictEqual(resumed.content_type, 'image/png');
+  await assert.rejects(uploads.completeSession(session.upload_id, OWNER), uploadError(409, 10000));
+
+  const rest = image.subarray(10000);
+  await assert.rejects(send(session, 10000, Buffer.concat([rest, Buffer.from('!')])), IpfsUploadLimitError);
+  const offset = Number((await uploads.getSession(session.upload_id, OWNER)).received_bytes);
+  await send(session, offset, image.subarray(offset));
+
+  const completed = await uploads.completeSession(session.upload_id, OWNER);
+  assert.strictEqual(completed.session.status, 'completed');
+  assert.strictEqual(completed.session.cid, completed.upload.cid);
+  assert.strictEqual(completed.upload.contentType, 'image/png');
+  assert.ok(!partExists(session));
+  await assert.rejects(send(session, image.length, Buffer.from('x')), uploadError(409, image.length));
+  const quota = await uploads.getQuota(OWNER);
+  assert.ok(quota.usedBytes > 0);
+  assert.strictEqual(quota.reservedBytes, 0);
+  console.log(`✓ Wrong offset answered with 1000, dropped chunk kept 10000 bytes, completed as ${completed.upload.cid}`);
+
+  // Test 3: completion is retried after a provider error, but not for content that cannot be pinned
+  console.log('\n🚦 Test 3: Completion failures');
+  const provider = getIpfsProvider();
+  const pinContent = provider.pinContent.bind(provider);
+  const retriedImage = await noise(32);
+  const retried = await start('retried.png', retriedImage.length);
+  await send(retried, 0, retriedImage);
+  provider.pinContent = async () => {
+    throw new Error('Provider unavailable');
+  };
+  try {
+    await assert.rejects(uploads.completeSession(retried.upload_id, OWNER), /Provider unavailable/);
+  } finally {
+    provider.pinContent = pinContent;
+  }
+  const reopened = await uploads.getSession(retried.upload_id, OWNER);
+  assert.strictEqual(reopened.status, 'uploading');
+  assert.strictEqual(reopened.error_message, 'Provider unavailable');
+  assert.strictEqual((await uploads.completeSession(retried.upload_id, OWNER)).session.status, 'completed');
+
+  const oversized = await noise(48);
+  const tooLarge = await start('large.png', oversized.length);
+  await send(tooLarge, 0, oversized);
+  const maxFileSize = (IpfsService as any).MAX_FILE_SIZE;
+  (IpfsService as any).MAX_FILE_SIZE = 1000;
+  try {
+    await assert.rejects(uploads.completeSession(tooLarge.upload_id, OWNER), IpfsUploadLimitError);
+  } finally {
+    (IpfsService as any).MAX_FILE_SIZE = maxFileSize;
+  }
+  assert.strictEqual((await uploads.getSession(tooLarge.upload_id, OWNER)).status, 'failed');
+  assert.ok(!partExists(tooLarge));
+  await assert.rejects(uploads.completeSession(tooLarge.upload_id, OWNER), uploadError(409, oversized.length));
+
+  const script = Buffer.from('#!/bin/sh\necho pwned');
+  const refused = await start('script.png', script.length);
+  await assert.rejects(send(refused, 0, script), MediaPipelineError);
+  assert.strictEqual((await uploads.getSession(refused.upload_id, OWNER)).status, 'failed');
+  assert.ok(!partExists(refused));
+  console.log('✓ Provider error reopened the upload; an image over the size limit and a script failed it');
+
+  // Test 4: the sweeper reopens interrupted completions, expires idle uploads and removes orphaned files
+  console.log('\n🧹 Test 4: Sweeping');
+  const interruptedImage = await noise(32);
+  const interrupted = await start('interrupted.png', interruptedImage.length);
+  await send(interrupted, 0, interruptedImage);
+  const completing = await start('completing.png', 10);
+  const idle = await start('idle.mp4', 10);
+  await db.query(
+    "UPDATE ipfs_upload_sessions SET status = 'completing', updated_at = NOW() - INTERVAL '2 hours' WHERE upload_id = $1",
+    [interrupted.upload_id]
+  );
+  await db.query("UPDATE ipfs_upload_sessions SET status = 'completing' WHERE upload_id = $1", [completing.upload_id]);
+  await db.query("UPDATE ipfs_upload_sessions SET expires_at = NOW() - INTERVAL '1 minute' WHERE upload_id = $1", [idle.upload_id]);
+  const crashed = path.join(uploadDir, 'crashed.part');
+  const fresh = path.join(uploadDir, 'fresh.part');
+  fs.writeFileSync(crashed, 'left by a crash');
+  fs.writeFileSync(fresh, 'written by another instance');
+  const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  fs.utimesSync(crashed, twoHoursAgo, twoHoursAgo);
+
+  const report = await uploads.sweep();
+  assert.ok(report.reset.includes(interrupted.upload_id));
+  assert.ok(!report.reset.includes(completing.upload_id));
+  assert.ok(report.expired.includes(idle.upload_id));
+  assert.deepStrictEqual(report.removedFiles.sort(), ['crashed.part', `${idle.upload_id}.part`].sort());
+  assert.ok(fs.existsSync(fresh) && partExists(interrupted) && partExists(completing));
+  assert.strictEqual((await uploads.getSession(completing.upload_id, OWNER)).status, 'completing');
+  assert.strictEqual((await uploads.getSession(idle.upload_id, OWNER)).status, 'expired');
+
+  const recovered = await uploads.completeSession(interrupted.upload_id, OWNER);
+  assert.strictEqual(recovered.session.status, 'completed');
+  console.log('✓ Interrupted completion reopened and completed, idle upload expired, crash leftovers removed');
+
+  console.log('\n🎉 Resumable upload test passed!');
+}
+
+run()
+  .catch(error => {
+    console.error('❌ Resumable upload test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await cleanup();
+    await db.close();
+  });